@@ -14,7 +14,15 @@ import ExerciseSelector from './routes/workouts/exercises/ExercisesList';
 import ExerciseDetails from './routes/workouts/exercises/ExerciseDetails';
 import NewExercise from './routes/workouts/exercises/new/NewExercise';
 import RoutineEditor from './routes/workouts/routines/RoutineEditor';
+import ProgramEditor from './routes/workouts/programs/ProgramEditor';
+import EquipmentProfilePage from './routes/workouts/equipment/EquipmentProfile';
+import PersonalRecords from './routes/workouts/records/PersonalRecords';
+import TrainingAnalytics from './routes/workouts/analytics/TrainingAnalytics';
 import ProfileAndGoals from './routes/profile/Profile';
+import ActivitiesPage from './routes/activities/Activities';
+import HistoryImport from './routes/profile/HistoryImport';
+import SyncConflicts from './routes/sync/SyncConflicts';
+import SyncDiagnostics from './routes/sync/SyncDiagnostics';
 
 function App() {
 return (
@@ -30,11 +38,19 @@ return (
         <Route path="/workouts" element={<WorkoutList />} />
         <Route path="/workouts/start" element={<WorkoutStart />} />
         <Route path="/workouts/routines/:id" element={<RoutineEditor />} />
+        <Route path="/workouts/programs/:id" element={<ProgramEditor />} />
+        <Route path="/workouts/equipment" element={<EquipmentProfilePage />} />
+        <Route path="/workouts/records" element={<PersonalRecords />} />
+        <Route path="/workouts/analytics" element={<TrainingAnalytics />} />
         <Route path="/workouts/:id" element={<WorkoutSessionComponent />} />
         <Route path="/workouts/exercises" element={<ExerciseSelector />} />
         <Route path="/workouts/exercises/:id" element={<ExerciseDetails />} />
         <Route path="/workouts/exercises/new" element={<NewExercise />} />
         <Route path="/profile" element={<ProfileAndGoals />} />
+        <Route path="/profile/import" element={<HistoryImport />} />
+        <Route path="/sync" element={<SyncDiagnostics />} />
+        <Route path="/sync/conflicts" element={<SyncConflicts />} />
+        <Route path="/activities" element={<ActivitiesPage />} />
 
       </Routes>
     </Layout>
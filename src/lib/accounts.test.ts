@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, DEFAULT_DATABASE_NAME, type DailyLog } from './db';
+import { claimLocalUserRows, getDatabaseNameForUser, getLocalAccounts, handleAccountSession, type LocalAccount } from './accounts';
+
+const settleSyncQueue = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const makeLog = (id: string, userId: string): DailyLog => ({
+  id,
+  user_id: userId,
+  date: '2026-03-01',
+  meal_type: 'lunch',
+  food_id: 'food-1',
+  amount_consumed: 1
+});
+
+const makeAccount = (userId: string, databaseName: string): LocalAccount => ({
+  user_id: userId,
+  email: null,
+  database_name: databaseName,
+  added_at: 0,
+  last_used_at: 0
+});
+
+const makeSession = (userId: string) => ({ user: { id: userId, email: `${userId}@example.com` } }) as never;
+
+async function resetLogs() {
+  await db.logs.clear();
+  await settleSyncQueue();
+  await db.sync_queue.clear();
+  await db.logs.bulkAdd([makeLog('log-guest', 'local-user'), makeLog('log-owned', 'user-2')]);
+  await settleSyncQueue();
+}
+
+describe('getDatabaseNameForUser', () => {
+  it('keeps the original database for the first account and gives later ones their own', () => {
+    expect(getDatabaseNameForUser('user-1', [])).toBe(DEFAULT_DATABASE_NAME);
+    expect(getDatabaseNameForUser(null, [])).toBe(DEFAULT_DATABASE_NAME);
+
+    const accounts = [makeAccount('user-1', DEFAULT_DATABASE_NAME)];
+    expect(getDatabaseNameForUser('user-1', accounts)).toBe(DEFAULT_DATABASE_NAME);
+    expect(getDatabaseNameForUser('user-2', accounts)).toBe(`${DEFAULT_DATABASE_NAME}_user-2`);
+    expect(getDatabaseNameForUser(null, accounts)).toBe(`${DEFAULT_DATABASE_NAME}_guest`);
+  });
+});
+
+describe('claimLocalUserRows', () => {
+  beforeEach(resetLogs);
+
+  it('assigns placeholder rows to the account without queueing them again', async () => {
+    const queuedBefore = await db.sync_queue.count();
+
+    await claimLocalUserRows('user-1');
+    await settleSyncQueue();
+
+    expect((await db.logs.get('log-guest'))?.user_id).toBe('user-1');
+    expect((await db.logs.get('log-owned'))?.user_id).toBe('user-2');
+    expect(await db.sync_queue.count()).toBe(queuedBefore);
+  });
+});
+
+describe('handleAccountSession', () => {
+  const storage = new Map<string, string>();
+  const reload = vi.fn();
+
+  beforeAll(() => {
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    vi.stubGlobal('window', { location: { reload } });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(async () => {
+    storage.clear();
+    reload.mockClear();
+    await resetLogs();
+  });
+
+  it('lets the first account on the device claim the rows made before sign-in', async () => {
+    expect(await handleAccountSession(makeSession('user-1'))).toBe(true);
+
+    expect(reload).not.toHaveBeenCalled();
+    expect((await db.logs.get('log-guest'))?.user_id).toBe('user-1');
+    expect(getLocalAccounts()).toMatchObject([{ user_id: 'user-1', database_name: DEFAULT_DATABASE_NAME, claim_local_rows: false }]);
+  });
+
+  it('switches a second account to its own database instead of claiming', async () => {
+    await handleAccountSession(makeSession('user-1'));
+    await db.logs.put(makeLog('log-guest', 'local-user'));
+
+    expect(await handleAccountSession(makeSession('user-3'))).toBe(false);
+
+    expect(reload).toHaveBeenCalledTimes(1);
+    expect(storage.get('stupid_calorie_tracker_active_db')).toBe(`${DEFAULT_DATABASE_NAME}_user-3`);
+    expect((await db.logs.get('log-guest'))?.user_id).toBe('local-user');
+    expect(getLocalAccounts().find((account) => account.user_id === 'user-3')?.claim_local_rows).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import Dexie from 'dexie';
+import type { Session } from '@supabase/supabase-js';
+import { ACTIVE_DATABASE_STORAGE_KEY, DEFAULT_DATABASE_NAME, db, withRemoteSyncWrite } from './db';
+import { supabase } from './supabaseClient';
+
+const ACCOUNTS_STORAGE_KEY = 'stupid_calorie_tracker_accounts';
+const GUEST_DATABASE_NAME = `${DEFAULT_DATABASE_NAME}_guest`;
+const PLACEHOLDER_USER_IDS = new Set(['local-user', 'current-user']);
+// Local bookkeeping tables without a user_id column.
+const UNOWNED_TABLES = new Set(['sync_queue', 'sync_conflicts', 'barcode_cache', 'workout_rest_timers', 'log_photos']);
+
+export interface LocalAccount {
+  user_id: string;
+  email: string | null;
+  database_name: string;
+  added_at: number;
+  last_used_at: number;
+  // Only kept while the account is switched away from, so it can be resumed without a password.
+  access_token?: string;
+  refresh_token?: string;
+  // The first account on a device inherits the data created before any account signed in.
+  claim_local_rows?: boolean;
+}
+
+export function getLocalAccounts(): LocalAccount[] {
+  try {
+    const raw = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as LocalAccount[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalAccounts(accounts: LocalAccount[]) {
+  localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+}
+
+function updateLocalAccount(userId: string, changes: Partial<LocalAccount>) {
+  writeLocalAccounts(
+    getLocalAccounts().map((account) => (account.user_id === userId ? { ...account, ...changes } : account))
+  );
+}
+
+export function getDatabaseNameForUser(userId: string | null, accounts = getLocalAccounts()) {
+  if (!userId) return accounts.length ? GUEST_DATABASE_NAME : DEFAULT_DATABASE_NAME;
+  const account = accounts.find((item) => item.user_id === userId);
+  if (account) return account.database_name;
+  return accounts.length ? `${DEFAULT_DATABASE_NAME}_${userId}` : DEFAULT_DATABASE_NAME;
+}
+
+/**
+ * True when the open database belongs to the session's account. Sync must not run otherwise,
+ * or one account's queue would be pushed (and pulls written) under another account.
+ */
+export function isDatabaseOpenForSession(session: Session | null) {
+  return db.name === getDatabaseNameForUser(session?.user?.id ?? null);
+}
+
+/**
+ * Reassigns rows created before sign-in (user_id 'local-user') to the account. Runs as a remote
+ * write so nothing is re-queued; the push already replaces placeholder owners.
+ */
+export async function claimLocalUserRows(userId: string) {
+  let claimed = 0;
+  await withRemoteSyncWrite(async () => {
+    for (const table of db.tables) {
+      if (UNOWNED_TABLES.has(table.name)) continue;
+      claimed += await table.toCollection().modify((row: Record<string, any>) => {
+        if (PLACEHOLDER_USER_IDS.has(row.user_id)) row.user_id = userId;
+      });
+    }
+  });
+  return claimed;
+}
+
+function openDatabase(databaseName: string) {
+  if (db.name === databaseName) return true;
+  localStorage.setItem(ACTIVE_DATABASE_STORAGE_KEY, databaseName);
+  window.location.reload();
+  return false;
+}
+
+/**
+ * Registers the signed-in account and makes sure its database is the open one, reloading
+ * the app when it isn't. Returns true when the open database already matches the session.
+ */
+export async function handleAccountSession(session: Session | null): Promise<boolean> {
+  const accounts = getLocalAccounts();
+  const user = session?.user;
+  if (!user) return openDatabase(getDatabaseNameForUser(null, accounts));
+
+  let account = accounts.find((item) => item.user_id === user.id);
+  if (!account) {
+    account = {
+      user_id: user.id,
+      email: user.email ?? null,
+      database_name: getDatabaseNameForUser(user.id, accounts),
+      added_at: Date.now(),
+      last_used_at: Date.now(),
+      claim_local_rows: accounts.length === 0
+    };
+    accounts.push(account);
+  }
+
+  account.email = user.email ?? account.email;
+  account.last_used_at = Date.now();
+  // The live session refreshes its own tokens; a saved copy would only go stale.
+  delete account.access_token;
+  delete account.refresh_token;
+  writeLocalAccounts(accounts);
+
+  if (!openDatabase(account.database_name)) return false;
+
+  if (account.claim_local_rows) {
+    try {
+      const claimed = await claimLocalUserRows(user.id);
+      console.log(`[Accounts] Assigned ${claimed} local row(s) to ${account.email ?? user.id}`);
+      updateLocalAccount(user.id, { claim_local_rows: false });
+    } catch (error) {
+      console.error('[Accounts] Failed to assign local rows to account:', error);
+    }
+  }
+
+  return true;
+}
+
+async function stashCurrentSession() {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return;
+  updateLocalAccount(session.user.id, {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token
+  });
+}
+
+/**
+ * Resumes a saved account. Returns false when its session can't be restored and the user has
+ * to sign in again; the current account is signed out locally either way.
+ */
+export async function switchToAccount(userId: string): Promise<boolean> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session?.user?.id === userId) return true;
+
+  await stashCurrentSession();
+  const target = getLocalAccounts().find((account) => account.user_id === userId);
+
+  if (target?.refresh_token) {
+    const { error } = await supabase.auth.setSession({
+      access_token: target.access_token ?? '',
+      refresh_token: target.refresh_token
+    });
+    if (!error) return true;
+
+    console.warn('[Accounts] Saved session expired for', target.email ?? userId, error);
+    updateLocalAccount(userId, { access_token: undefined, refresh_token: undefined });
+  }
+
+  await supabase.auth.signOut({ scope: 'local' });
+  return false;
+}
+
+/**
+ * Signs the current account out on this device only, keeping its session so it can be
+ * switched back to, and leaves the sign-in form for the next account.
+ */
+export async function addAnotherAccount() {
+  await stashCurrentSession();
+  await supabase.auth.signOut({ scope: 'local' });
+}
+
+export async function removeLocalAccount(userId: string) {
+  const account = getLocalAccounts().find((item) => item.user_id === userId);
+  if (!account) return;
+  if (account.database_name === db.name) {
+    throw new Error('Switch to another account before removing this one.');
+  }
+
+  await Dexie.delete(account.database_name);
+  writeLocalAccounts(getLocalAccounts().filter((item) => item.user_id !== userId));
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { calculateActivityCalories, canEditActivity } from './activities';
+
+describe('canEditActivity', () => {
+  it('allows local and own activities', () => {
+    expect(canEditActivity('local-user', null)).toBe(true);
+    expect(canEditActivity('current-user', 'user-1')).toBe(true);
+    expect(canEditActivity('user-1', 'user-1')).toBe(true);
+  });
+
+  it('keeps public catalogue and other users\' activities read-only', () => {
+    expect(canEditActivity(null, 'user-1')).toBe(false);
+    expect(canEditActivity(undefined, null)).toBe(false);
+    expect(canEditActivity('user-2', 'user-1')).toBe(false);
+  });
+});
+
+describe('calculateActivityCalories', () => {
+  it('prorates the hourly burn and ignores negative input', () => {
+    expect(calculateActivityCalories(300, 30)).toBe(150);
+    expect(calculateActivityCalories(-100, 30)).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { db, getAccountStorageKey, type Activity, type ActivityLog } from './db';
+import { generateId } from './index';
+
+export const ACTIVITY_CATEGORIES = ['Work', 'Rest', 'Leisure', 'Chore', 'Health', 'Other'] as const;
+
+const ACTIVE_ACTIVITY_TIMER_KEY = 'stupid_tracker_active_activity_v1';
+
+export interface ActiveActivityTimer {
+  activity_id: string;
+  user_id: string;
+  start_time: string; // ISO string
+}
+
+/**
+ * Public catalogue activities (no user_id) are read-only: RLS rejects changes to them, and
+ * deleting one locally would also drop the user's logged sessions.
+ */
+export function canEditActivity(activityUserId: string | null | undefined, currentUserId: string | null) {
+  if (activityUserId === 'local-user' || activityUserId === 'current-user') return true;
+  return Boolean(currentUserId) && activityUserId === currentUserId;
+}
+
+export function calculateActivityCalories(caloriesPerHour: number, durationMinutes: number): number {
+  const perHour = Number.isFinite(caloriesPerHour) ? Math.max(0, caloriesPerHour) : 0;
+  const minutes = Number.isFinite(durationMinutes) ? Math.max(0, durationMinutes) : 0;
+  return Math.round((perHour * minutes) / 60);
+}
+
+export function formatActivityDuration(minutes: number): string {
+  const safeMinutes = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(safeMinutes / 60);
+  const mins = safeMinutes % 60;
+  if (hours <= 0) return `${mins} min`;
+  return `${hours}h ${mins.toString().padStart(2, '0')}min`;
+}
+
+export function getActiveActivityTimer(): ActiveActivityTimer | null {
+  const raw = window.localStorage.getItem(getAccountStorageKey(ACTIVE_ACTIVITY_TIMER_KEY));
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<ActiveActivityTimer>;
+    if (!parsed.activity_id || !parsed.start_time || Number.isNaN(new Date(parsed.start_time).getTime())) {
+      return null;
+    }
+
+    return {
+      activity_id: parsed.activity_id,
+      user_id: parsed.user_id || 'local-user',
+      start_time: parsed.start_time,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function startActivityTimer(activityId: string, userId: string): ActiveActivityTimer {
+  const timer: ActiveActivityTimer = {
+    activity_id: activityId,
+    user_id: userId || 'local-user',
+    start_time: new Date().toISOString(),
+  };
+
+  window.localStorage.setItem(getAccountStorageKey(ACTIVE_ACTIVITY_TIMER_KEY), JSON.stringify(timer));
+  return timer;
+}
+
+export function cancelActivityTimer() {
+  window.localStorage.removeItem(getAccountStorageKey(ACTIVE_ACTIVITY_TIMER_KEY));
+}
+
+export async function logActivity(
+  activity: Activity,
+  startTime: Date,
+  endTime: Date,
+  userId: string
+): Promise<ActivityLog> {
+  const durationMinutes = Math.max(0, Math.round((endTime.getTime() - startTime.getTime()) / 60000));
+
+  const log: ActivityLog = {
+    id: generateId(),
+    user_id: userId || 'local-user',
+    date: startTime.toISOString().split('T')[0],
+    activity_id: activity.id,
+    start_time: startTime.toISOString(),
+    end_time: endTime.toISOString(),
+    duration_minutes: durationMinutes,
+    calories_burned: calculateActivityCalories(activity.calories_per_hour, durationMinutes),
+  };
+
+  await db.activity_logs.add(log);
+  return log;
+}
+
+/**
+ * Stops the running timer and writes an ActivityLog for it.
+ * Sessions shorter than a minute are discarded instead of logged.
+ */
+export async function stopActivityTimer(): Promise<ActivityLog | null> {
+  const timer = getActiveActivityTimer();
+  cancelActivityTimer();
+  if (!timer) return null;
+
+  const activity = await db.activities.get(timer.activity_id);
+  if (!activity) {
+    throw new Error('Activity not found');
+  }
+
+  const startTime = new Date(timer.start_time);
+  const endTime = new Date();
+  if (endTime.getTime() - startTime.getTime() < 60_000) return null;
+
+  return logActivity(activity, startTime, endTime, timer.user_id);
+}
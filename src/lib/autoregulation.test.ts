@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type WorkoutSet } from './db';
+import { buildWarmupSets, DEFAULT_WARMUP_RAMP, getRpePercentOfMax, insertWarmupSets, recommendLoadFromRpe } from './autoregulation';
+
+describe('getRpePercentOfMax', () => {
+  it('reads the chart and rejects values outside it', () => {
+    expect(getRpePercentOfMax(1, 10)).toBe(1);
+    expect(getRpePercentOfMax(5, 8)).toBeCloseTo(0.811, 3);
+    expect(getRpePercentOfMax(13, 8)).toBeNull();
+    expect(getRpePercentOfMax(5, 5)).toBeNull();
+  });
+});
+
+describe('recommendLoadFromRpe', () => {
+  it('scales the previous set to the target RPE and rounds to plates', () => {
+    expect(recommendLoadFromRpe({ weight: 100, reps: 5, rpe: 9 }, { reps: 5 }, 8)).toBe(97.5);
+  });
+
+  it('needs a logged RPE and weight', () => {
+    expect(recommendLoadFromRpe({ weight: 100, reps: 5 }, { reps: 5 })).toBeNull();
+    expect(recommendLoadFromRpe({ weight: 0, reps: 5, rpe: 8 }, { reps: 5 })).toBeNull();
+  });
+});
+
+describe('warmup sets', () => {
+  const makeSet = (overrides: Partial<WorkoutSet>): WorkoutSet => ({
+    id: 'set',
+    workout_log_entry_id: 'entry-1',
+    set_number: 1,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await db.workout_sets.clear();
+  });
+
+  it('builds the ramp lightest first and skips steps at or above the working weight', () => {
+    expect(buildWarmupSets(101, [...DEFAULT_WARMUP_RAMP].reverse().concat({ percent: 100, reps: 1 }))).toEqual([
+      { weight: 40, reps: 5 },
+      { weight: 60, reps: 3 },
+      { weight: 80, reps: 2 }
+    ]);
+  });
+
+  it('replaces pending warmups and renumbers the working sets behind them', async () => {
+    await db.workout_sets.bulkAdd([
+      makeSet({ id: 'old-warmup', set_number: 1, weight: 20, reps: 5, is_warmup: true }),
+      makeSet({ id: 'work-1', set_number: 2, weight: 100, reps: 5 }),
+      makeSet({ id: 'work-2', set_number: 3, weight: 100, reps: 5 })
+    ]);
+
+    expect(await insertWarmupSets('entry-1', DEFAULT_WARMUP_RAMP)).toBe(3);
+
+    const sets = await db.workout_sets.where('workout_log_entry_id').equals('entry-1').sortBy('set_number');
+    expect(sets.map((set) => [set.set_number, set.weight, Boolean(set.is_warmup)])).toEqual([
+      [1, 40, true],
+      [2, 60, true],
+      [3, 80, true],
+      [4, 100, false],
+      [5, 100, false]
+    ]);
+    expect(sets.some((set) => set.id === 'old-warmup')).toBe(false);
+  });
+
+  it('refuses without a working weight', async () => {
+    await db.workout_sets.add(makeSet({ id: 'work-1', reps: 5 }));
+    await expect(insertWarmupSets('entry-1', DEFAULT_WARMUP_RAMP)).rejects.toThrow('working weight');
+  });
+});
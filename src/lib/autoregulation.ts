@@ -0,0 +1,136 @@
+import { db, getAccountStorageKey, type WorkoutSet } from './db';
+import { generateId } from './index';
+
+const WARMUP_RAMP_STORAGE_KEY = 'stupid_tracker_warmup_ramp_v1';
+const PLATE_ROUNDING_KG = 2.5;
+export const DEFAULT_TARGET_RPE = 8;
+export const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
+export interface WarmupStep {
+  percent: number;
+  reps: number;
+}
+
+export const DEFAULT_WARMUP_RAMP: WarmupStep[] = [
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 2 }
+];
+
+// %1RM by reps and RPE (RTS chart). Each extra rep or half point of RPE below 10 is one step down.
+const RPE_PERCENT_STEPS = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4,
+  76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 60.0, 58.6, 57.4
+];
+
+/**
+ * Fraction of 1RM a set of `reps` at `rpe` represents, or null outside the chart (1-12 reps, RPE 6-10).
+ */
+export function getRpePercentOfMax(reps?: number, rpe?: number): number | null {
+  const safeReps = Math.round(Number(reps) || 0);
+  const safeRpe = Math.round((Number(rpe) || 0) * 2) / 2;
+  if (safeReps < 1 || safeReps > 12 || safeRpe < 6 || safeRpe > 10) return null;
+  return RPE_PERCENT_STEPS[(safeReps - 1) * 2 + (10 - safeRpe) * 2] / 100;
+}
+
+export function roundToPlates(weight: number, increment = PLATE_ROUNDING_KG) {
+  return Math.max(0, Math.round(weight / increment) * increment);
+}
+
+/**
+ * Recommends the next set's load from the previous set's logged RPE: the previous set gives an
+ * e1RM, which is scaled to the next set's reps at the target RPE.
+ */
+export function recommendLoadFromRpe(
+  previous: Pick<WorkoutSet, 'weight' | 'reps' | 'rpe'>,
+  next: Pick<WorkoutSet, 'reps'>,
+  targetRpe = DEFAULT_TARGET_RPE,
+  roundLoad: (weight: number) => number = roundToPlates
+): number | null {
+  const previousWeight = Number(previous.weight) || 0;
+  const previousPercent = getRpePercentOfMax(previous.reps, previous.rpe);
+  const nextPercent = getRpePercentOfMax(next.reps || previous.reps, targetRpe);
+  if (previousWeight <= 0 || !previousPercent || !nextPercent) return null;
+
+  return roundLoad((previousWeight / previousPercent) * nextPercent);
+}
+
+export function readWarmupRamp(): WarmupStep[] {
+  try {
+    const raw = localStorage.getItem(getAccountStorageKey(WARMUP_RAMP_STORAGE_KEY));
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!Array.isArray(parsed) || !parsed.length) return DEFAULT_WARMUP_RAMP;
+    return parsed
+      .map((step) => ({ percent: Number(step?.percent) || 0, reps: Number(step?.reps) || 0 }))
+      .filter((step) => step.percent > 0 && step.reps > 0);
+  } catch {
+    return DEFAULT_WARMUP_RAMP;
+  }
+}
+
+export function saveWarmupRamp(ramp: WarmupStep[]) {
+  localStorage.setItem(getAccountStorageKey(WARMUP_RAMP_STORAGE_KEY), JSON.stringify(ramp));
+}
+
+export function buildWarmupSets(
+  workingWeight: number,
+  ramp: WarmupStep[],
+  roundLoad: (weight: number) => number = roundToPlates
+) {
+  return ramp
+    .filter((step) => step.percent > 0 && step.percent < 100 && step.reps > 0)
+    .sort((a, b) => a.percent - b.percent)
+    .map((step) => ({ weight: roundLoad((workingWeight * step.percent) / 100), reps: step.reps }));
+}
+
+/**
+ * Replaces the entry's pending warmup sets with a fresh ramp ahead of the first working set,
+ * renumbering the working sets behind it. Returns the number of warmup sets inserted.
+ */
+export async function insertWarmupSets(
+  workoutLogEntryId: string,
+  ramp: WarmupStep[],
+  roundLoad: (weight: number) => number = roundToPlates
+) {
+  return db.transaction('rw', db.workout_sets, async () => {
+    const entrySets = (await db.workout_sets.where('workout_log_entry_id').equals(workoutLogEntryId).toArray())
+      .sort((a, b) => a.set_number - b.set_number);
+    const staleWarmups = entrySets.filter((set) => set.is_warmup && !set.completed);
+    const keptSets = entrySets.filter((set) => !staleWarmups.includes(set));
+    const workingWeight = Number(keptSets.find((set) => !set.is_warmup)?.weight) || 0;
+    if (workingWeight <= 0) {
+      throw new Error('Enter a working weight before adding warmup sets.');
+    }
+
+    const warmups = buildWarmupSets(workingWeight, ramp, roundLoad);
+    if (staleWarmups.length) await db.workout_sets.bulkDelete(staleWarmups.map((set) => set.id));
+
+    const completedWarmups = keptSets.filter((set) => set.is_warmup);
+    const workingSets = keptSets.filter((set) => !set.is_warmup);
+    const ordered = [...completedWarmups, ...warmups, ...workingSets];
+    const now = new Date();
+
+    for (let index = 0; index < ordered.length; index += 1) {
+      const item = ordered[index];
+      if ('id' in item) {
+        if (item.set_number !== index + 1) {
+          await db.workout_sets.update(item.id, { set_number: index + 1 });
+        }
+        continue;
+      }
+
+      await db.workout_sets.add({
+        id: generateId(),
+        workout_log_entry_id: workoutLogEntryId,
+        set_number: index + 1,
+        weight: item.weight,
+        reps: item.reps,
+        is_warmup: true,
+        completed: false,
+        created_at: now
+      });
+    }
+
+    return warmups.length;
+  });
+}
@@ -0,0 +1,90 @@
+import { db, type BarcodeProduct, type Food } from './db';
+import { supabase } from './supabaseClient';
+
+// Misses are cached too, but retried after a day in case the product gets added upstream.
+const BARCODE_MISS_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface ProductLookupFunctionResponse {
+  ok?: boolean;
+  message?: string;
+  data?: {
+    product?: BarcodeProduct | null;
+    provider?: string;
+  };
+}
+
+export type BarcodeLookupResult =
+  | { source: 'food'; food: Food }
+  | { source: 'cache' | 'remote'; product: BarcodeProduct }
+  | { source: 'none' };
+
+export function normalizeBarcode(value: string): string | null {
+  const digits = String(value || '').replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 14) return null;
+  return digits;
+}
+
+export async function findFoodByBarcode(barcode: string): Promise<Food | undefined> {
+  return db.foods.where('barcode').equals(barcode).first();
+}
+
+async function fetchProductFromProvider(barcode: string): Promise<{ product: BarcodeProduct | null; provider?: string }> {
+  const { data, error } = await supabase.functions.invoke('product-lookup', {
+    body: { barcode }
+  });
+
+  if (error) throw error;
+
+  const response = (data ?? {}) as ProductLookupFunctionResponse;
+  if (!response.ok) {
+    throw new Error(response.message || 'Product lookup request failed');
+  }
+
+  return {
+    product: response.data?.product ?? null,
+    provider: response.data?.provider
+  };
+}
+
+/**
+ * Resolves a barcode from the local foods table first, then the offline cache,
+ * and only then the product-lookup edge function (whose answer gets cached).
+ */
+export async function lookupBarcode(rawBarcode: string): Promise<BarcodeLookupResult> {
+  const barcode = normalizeBarcode(rawBarcode);
+  if (!barcode) throw new Error('Invalid barcode');
+
+  const food = await findFoodByBarcode(barcode);
+  if (food) return { source: 'food', food };
+
+  const cached = await db.barcode_cache.get(barcode);
+  if (cached?.product) return { source: 'cache', product: cached.product };
+
+  const isFreshMiss = cached && Date.now() - cached.cached_at < BARCODE_MISS_TTL_MS;
+  if (isFreshMiss || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return { source: 'none' };
+  }
+
+  const { product, provider } = await fetchProductFromProvider(barcode);
+  await db.barcode_cache.put({ barcode, product, provider, cached_at: Date.now() });
+
+  return product ? { source: 'remote', product } : { source: 'none' };
+}
+
+export function buildFoodFromProduct(product: BarcodeProduct, id: string, userId: string | null): Food {
+  return {
+    id,
+    user_id: userId || 'local-user',
+    name: product.name,
+    brand: product.brand,
+    barcode: product.barcode,
+    calories: Number(product.calories) || 0,
+    protein: Number(product.protein) || 0,
+    carbs: Number(product.carbs) || 0,
+    fat: Number(product.fat) || 0,
+    serving_size: Number(product.serving_size) || 100,
+    serving_unit: product.serving_unit || 'g',
+    is_recipe: false,
+    micros: product.micros || {}
+  };
+}
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import {
+  addAnotherAccount,
+  getLocalAccounts,
+  removeLocalAccount,
+  switchToAccount,
+  type LocalAccount
+} from '../accounts';
+import { syncManager } from '../sync';
+
+interface AccountSwitcherProps {
+  currentUserId: string | null;
+}
+
+const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ currentUserId }) => {
+  const [accounts, setAccounts] = useState<LocalAccount[]>(() => getLocalAccounts());
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const otherAccounts = accounts.filter((account) => account.user_id !== currentUserId);
+  if (!currentUserId && otherAccounts.length === 0) return null;
+
+  const switchAccount = async (account: LocalAccount) => {
+    setBusyUserId(account.user_id);
+    try {
+      // Push this account's pending changes while its session is still active.
+      if (currentUserId) await syncManager.sync();
+      const resumed = await switchToAccount(account.user_id);
+      if (!resumed) {
+        alert(`Session for ${account.email ?? 'that account'} expired. Sign in again to switch.`);
+      }
+    } catch (error) {
+      console.error('Failed to switch account:', error);
+      alert('Failed to switch account');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const addAccount = async () => {
+    setBusyUserId('new');
+    try {
+      await syncManager.sync();
+      await addAnotherAccount();
+    } catch (error) {
+      console.error('Failed to start adding an account:', error);
+      alert('Failed to sign out of the current account');
+      setBusyUserId(null);
+    }
+  };
+
+  const removeAccount = async (account: LocalAccount) => {
+    if (!confirm(`Remove ${account.email ?? 'this account'} and its data from this device? Unsynced changes are lost.`)) {
+      return;
+    }
+    try {
+      await removeLocalAccount(account.user_id);
+      setAccounts(getLocalAccounts());
+    } catch (error) {
+      console.error('Failed to remove account:', error);
+      alert(error instanceof Error ? error.message : 'Failed to remove account');
+    }
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-2xl border border-border-subtle space-y-2">
+      <h2 className="text-sm font-bold text-text-main">Accounts on this device</h2>
+      <p className="text-xs text-text-muted">Each account keeps its own local data. Switching reloads the app.</p>
+
+      {accounts.map((account) => {
+        const isCurrent = account.user_id === currentUserId;
+        return (
+          <div
+            key={account.user_id}
+            className="flex items-center gap-2 rounded-xl border border-border-subtle bg-surface px-3 py-2"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-semibold text-text-main truncate">{account.email ?? account.user_id}</p>
+              <p className="text-[11px] text-text-muted">
+                {isCurrent ? 'Signed in' : `Last used ${new Date(account.last_used_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            {!isCurrent ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => void switchAccount(account)}
+                  disabled={busyUserId !== null}
+                  className="rounded-lg bg-brand px-3 py-1.5 text-xs font-bold text-brand-fg disabled:opacity-60"
+                >
+                  {busyUserId === account.user_id ? 'Switching...' : 'Switch'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void removeAccount(account)}
+                  disabled={busyUserId !== null}
+                  className="rounded-lg border border-border-subtle bg-card px-2 py-1.5 text-xs font-semibold text-text-muted disabled:opacity-60"
+                  aria-label={`Remove ${account.email ?? 'account'}`}
+                >
+                  ✕
+                </button>
+              </>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {currentUserId ? (
+        <button
+          type="button"
+          onClick={() => void addAccount()}
+          disabled={busyUserId !== null}
+          className="w-full rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main disabled:opacity-60"
+        >
+          {busyUserId === 'new' ? 'Signing out...' : 'Add another account'}
+        </button>
+      ) : null}
+    </div>
+  );
+};
+
+export default AccountSwitcher;
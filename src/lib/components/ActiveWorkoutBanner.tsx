@@ -1,15 +1,24 @@
 import React, { useMemo, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { BarbellIcon, TrashIcon } from '@phosphor-icons/react';
-import { db, type Workout, type WorkoutLogEntry } from '../db';
-
-type ActiveWorkoutDetails = {
-    workout: Workout;
-    currentEntry: WorkoutLogEntry | null;
+import { BarbellIcon, ClockCounterClockwiseIcon, TrashIcon } from '@phosphor-icons/react';
+import { db, type WorkoutRestTimer } from '../db';
+import {
+    discardWorkout,
+    finishWorkoutAtLastSet,
+    getInProgressWorkouts,
+    isWorkoutAbandoned,
+    type InProgressWorkout,
+} from '../workoutSessions';
+
+type ActiveWorkoutDetails = InProgressWorkout & {
     currentExerciseName: string | null;
+    restTimer?: WorkoutRestTimer;
 };
 
+const formatLastActivity = (timeMs: number) =>
+    new Date(timeMs).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
 const formatDuration = (startTime: string, nowMs: number) => {
     const diffSeconds = Math.max(0, Math.floor((nowMs - new Date(startTime).getTime()) / 1000));
     const hours = Math.floor(diffSeconds / 3600);
@@ -36,32 +45,26 @@ export default function ActiveWorkoutBanner() {
         return () => window.clearInterval(interval);
     }, []);
 
-    const activeWorkout = useLiveQuery(async () => {
-        const workouts = await db.workouts.toArray();
-        const unfinished = workouts
-            .filter((workout) => !workout.end_time)
-            .sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
-
-        const workout = unfinished[0];
-        if (!workout) return null as ActiveWorkoutDetails | null;
-
-        const entries = await db.workout_log_entries
-            .where('workout_id')
-            .equals(workout.id)
-            .sortBy('sort_order');
-
-        const currentEntry = entries.length ? entries[entries.length - 1] : null;
-        const currentExercise = currentEntry
-            ? await db.workout_exercises_def.get(currentEntry.exercise_id)
-            : null;
-
-        return {
-            workout,
-            currentEntry,
-            currentExerciseName: currentExercise?.name || null,
-        };
+    const sessions = useLiveQuery(async () => {
+        const inProgress = await getInProgressWorkouts();
+        return Promise.all(inProgress.map(async (session): Promise<ActiveWorkoutDetails> => {
+            const currentEntry = session.entries.length ? session.entries[session.entries.length - 1] : null;
+            const currentExercise = currentEntry
+                ? await db.workout_exercises_def.get(currentEntry.exercise_id)
+                : null;
+
+            return {
+                ...session,
+                currentExerciseName: currentExercise?.name || null,
+                restTimer: await db.workout_rest_timers.get(session.workout.id),
+            };
+        }));
     }, []);
 
+    // A stale session takes priority so it gets resolved rather than silently resumed.
+    const activeWorkout = sessions?.find((session) => isWorkoutAbandoned(session, nowMs)) ?? sessions?.[0];
+    const isAbandoned = activeWorkout ? isWorkoutAbandoned(activeWorkout, nowMs) : false;
+
     const isOnWorkoutPage = useMemo(() => {
         if (!activeWorkout?.workout?.id) return false;
         return location.pathname === `/workouts/${activeWorkout.workout.id}`;
@@ -71,6 +74,7 @@ export default function ActiveWorkoutBanner() {
 
     const duration = formatDuration(activeWorkout.workout.start_time, nowMs);
     const exerciseText = activeWorkout.currentExerciseName || 'No exercise';
+    const restSecondsLeft = activeWorkout.restTimer ? Math.ceil((activeWorkout.restTimer.end_time - nowMs) / 1000) : 0;
 
     const openWorkout = () => {
         navigate(`/workouts/${activeWorkout.workout.id}`);
@@ -81,19 +85,79 @@ export default function ActiveWorkoutBanner() {
         const shouldDelete = window.confirm('Delete this in-progress workout?');
         if (!shouldDelete) return;
 
-        await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
-            const entryIds = (await db.workout_log_entries.where('workout_id').equals(activeWorkout.workout.id).toArray())
-                .map((entry) => entry.id);
+        try {
+            await discardWorkout(activeWorkout.workout.id);
+        } catch (error) {
+            console.error('Failed to delete workout:', error);
+            alert('Error deleting workout.');
+        }
+    };
 
-            if (entryIds.length) {
-                await db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).delete();
-            }
+    const resumeWorkout = async () => {
+        try {
+            // Touching the workout resets the idle clock so it isn't flagged again straight away.
+            await db.workouts.update(activeWorkout.workout.id, { updated_at: new Date(), synced: 0 });
+            openWorkout();
+        } catch (error) {
+            console.error('Failed to resume workout:', error);
+            alert('Error resuming workout.');
+        }
+    };
 
-            await db.workout_log_entries.where('workout_id').equals(activeWorkout.workout.id).delete();
-            await db.workouts.delete(activeWorkout.workout.id);
-        });
+    const finishAtLastSet = async () => {
+        try {
+            await finishWorkoutAtLastSet(activeWorkout.workout.id);
+        } catch (error) {
+            console.error('Failed to finish workout:', error);
+            alert('Error saving workout.');
+        }
     };
 
+    if (isAbandoned) {
+        return (
+            <div className="fixed left-4 right-4 bottom-[calc(4.6rem+env(safe-area-inset-bottom))] z-50 max-w-md mx-auto rounded-2xl border border-amber-500/40 bg-card px-4 py-3 shadow-lg space-y-3">
+                <div className="flex items-start gap-3">
+                    <div className="h-10 w-10 rounded-xl bg-amber-500/15 text-amber-600 flex items-center justify-center shrink-0">
+                        <ClockCounterClockwiseIcon size={20} weight="duotone" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                        <p className="text-sm font-semibold text-text-main truncate">
+                            Unfinished: {activeWorkout.workout.name || 'Workout'}
+                        </p>
+                        <p className="text-xs text-text-muted">
+                            No activity since {formatLastActivity(activeWorkout.lastActivityAt)}
+                            {activeWorkout.lastCompletedSetAt ? ` • last set ${formatLastActivity(activeWorkout.lastCompletedSetAt)}` : ' • no sets completed'}
+                        </p>
+                    </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                    <button
+                        type="button"
+                        onClick={() => void resumeWorkout()}
+                        className="rounded-lg border border-border-subtle bg-surface py-2 text-xs font-bold text-text-main"
+                    >
+                        Resume
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => void finishAtLastSet()}
+                        disabled={!activeWorkout.lastCompletedSetAt}
+                        className="rounded-lg bg-brand py-2 text-xs font-bold text-white disabled:opacity-50"
+                    >
+                        Finish at last set
+                    </button>
+                    <button
+                        type="button"
+                        onClick={(event) => void deleteWorkout(event)}
+                        className="rounded-lg border border-red-500/40 py-2 text-xs font-bold text-red-500"
+                    >
+                        Discard
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div
             role="button"
@@ -113,7 +177,12 @@ export default function ActiveWorkoutBanner() {
             </div>
 
             <div className="min-w-0 flex-1">
-                <p className="text-xs font-semibold uppercase tracking-wide text-text-muted">Workout • {duration}</p>
+                <p className="text-xs font-semibold uppercase tracking-wide text-text-muted">
+                    Workout • {duration}
+                    {restSecondsLeft > 0 ? (
+                        <span className="text-brand"> • Rest {Math.floor(restSecondsLeft / 60)}:{(restSecondsLeft % 60).toString().padStart(2, '0')}</span>
+                    ) : null}
+                </p>
                 <p className="text-sm font-semibold text-text-main truncate">{exerciseText}</p>
             </div>
 
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { normalizeBarcode } from '../barcode';
+
+type BarcodeScannerProps = {
+  onDetected: (barcode: string) => void;
+  onClose: () => void;
+};
+
+// BarcodeDetector isn't in the TS DOM lib yet; only the bits used here are typed.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorLike;
+
+const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+const SCAN_INTERVAL_MS = 250;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  return ((window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector) ?? null;
+};
+
+export default function BarcodeScanner({ onDetected, onClose }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [manualBarcode, setManualBarcode] = useState('');
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError('Camera scanning is not supported in this browser. Enter the barcode manually.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+    const detector = new Detector({ formats: BARCODE_FORMATS });
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+
+      try {
+        if (video.readyState >= 2) {
+          const results = await detector.detect(video);
+          const barcode = results.map((result) => normalizeBarcode(result.rawValue)).find(Boolean);
+          if (barcode && !cancelled) {
+            onDetectedRef.current(barcode);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Barcode detection failed:', error);
+      }
+
+      timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          await videoRef.current.play();
+        }
+        void scanFrame();
+      })
+      .catch((error) => {
+        console.error('Failed to open camera:', error);
+        setCameraError('Could not access the camera. Enter the barcode manually.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const submitManualBarcode = () => {
+    const barcode = normalizeBarcode(manualBarcode);
+    if (!barcode) {
+      alert('Enter a valid 8-14 digit barcode');
+      return;
+    }
+    onDetected(barcode);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 flex items-end justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md rounded-t-2xl border border-border-subtle bg-card p-4"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-bold text-text-main uppercase tracking-wide">Scan Barcode</h3>
+          <button type="button" onClick={onClose} className="text-xs font-semibold text-text-muted">
+            Close
+          </button>
+        </div>
+
+        {cameraError ? (
+          <p className="text-xs text-text-muted mb-3">{cameraError}</p>
+        ) : (
+          <div className="relative mb-3 overflow-hidden rounded-xl bg-black aspect-[4/3]">
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+            <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-brand/80" />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={manualBarcode}
+            onChange={(e) => setManualBarcode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitManualBarcode();
+            }}
+            placeholder="Or type the barcode"
+            className="flex-1 rounded-lg border border-border-subtle bg-surface px-3 py-2 text-sm text-text-main"
+          />
+          <button
+            type="button"
+            onClick={submitManualBarcode}
+            className="rounded-lg bg-brand px-3 py-2 text-xs font-bold text-brand-fg"
+          >
+            Look up
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import {
+  EXPORT_BUNDLE_FORMAT,
+  EXPORT_BUNDLE_VERSION,
+  importExportBundle,
+  tableToCsv,
+  validateExportBundle,
+  type ExportBundle
+} from './dataTransfer';
+
+const makeBundle = (tables: ExportBundle['tables']): ExportBundle => ({
+  format: EXPORT_BUNDLE_FORMAT,
+  version: EXPORT_BUNDLE_VERSION,
+  exported_at: '2026-03-01T00:00:00.000Z',
+  db_version: 13,
+  tables
+});
+
+const food = (id: string, userId: string | null, name = 'Oats') => ({ id, user_id: userId, name, calories: 380, protein: 13, carbs: 60, fat: 7, is_recipe: false });
+
+describe('importExportBundle', () => {
+  beforeEach(async () => {
+    await Promise.all([db.foods.clear(), db.food_ingredients.clear(), db.logs.clear(), db.workout_exercises_def.clear(), db.sync_queue.clear()]);
+  });
+
+  it('leaves public catalogue rows to the pull and keeps references to them', async () => {
+    await db.foods.add({ ...food('public-oats', null), name: 'Rolled oats' });
+
+    const summary = await importExportBundle(
+      makeBundle({
+        foods: [food('public-oats', null), food('public-rice', null, 'Rice')],
+        food_ingredients: [{ id: 'ing-1', parent_food_id: 'public-rice', child_food_id: 'public-oats', amount: 10 }],
+        workout_exercises_def: [{ id: 'public-bench', user_id: null, name: 'Bench press' }],
+        logs: [{ id: 'log-1', user_id: 'user-1', date: '2026-03-01', food_id: 'public-oats', amount_consumed: 50 }]
+      }),
+      'user-1'
+    );
+
+    expect(summary.skipped).toBe(4);
+    expect(summary.remapped).toBe(0);
+    expect((await db.foods.get('public-oats'))?.name).toBe('Rolled oats');
+    expect(await db.foods.get('public-rice')).toBeUndefined();
+    expect(await db.food_ingredients.count()).toBe(0);
+    expect(await db.workout_exercises_def.count()).toBe(0);
+    expect((await db.logs.get('log-1'))?.food_id).toBe('public-oats');
+  });
+
+  it('remaps own rows that clash with a different local row', async () => {
+    await db.foods.add(food('food-1', 'user-1', 'Granola'));
+
+    const summary = await importExportBundle(
+      makeBundle({
+        foods: [food('food-1', 'user-1')],
+        logs: [{ id: 'log-1', user_id: 'user-1', date: '2026-03-01', food_id: 'food-1', amount_consumed: 50 }]
+      }),
+      'user-1'
+    );
+
+    const log = await db.logs.get('log-1');
+    expect(summary.remapped).toBe(1);
+    expect(log?.food_id).not.toBe('food-1');
+    expect((await db.foods.get(log!.food_id))?.name).toBe('Oats');
+  });
+});
+
+describe('tableToCsv', () => {
+  it('quotes cells that need it and serialises objects', () => {
+    expect(tableToCsv([{ name: 'Oats, rolled', tags: ['a'] }, { name: 'Say "hi"' }])).toBe(
+      'name,tags\n"Oats, rolled","[""a""]"\n"Say ""hi""",'
+    );
+  });
+});
+
+describe('validateExportBundle', () => {
+  it('rejects a bundle without a readable export date', () => {
+    const { exported_at: _exportedAt, ...withoutDate } = makeBundle({});
+    expect(() => validateExportBundle(withoutDate)).toThrow('no valid export date');
+    expect(() => validateExportBundle({ ...withoutDate, exported_at: 20260301 })).toThrow('no valid export date');
+    expect(validateExportBundle(makeBundle({})).exported_at).toBe('2026-03-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,264 @@
+import { db } from './db';
+import { generateId } from './index';
+import { SETTINGS_ID } from './settings';
+
+export const EXPORT_BUNDLE_FORMAT = 'stupid-calories-tracker-export';
+export const EXPORT_BUNDLE_VERSION = 1;
+
+// Parents before children so foreign keys can be remapped in a single pass.
+export const EXPORT_TABLES = [
+  'profiles',
+  'settings',
+  'goals',
+  'metrics',
+  'foods',
+  'food_ingredients',
+  'logs',
+  'saved_meals',
+  'activities',
+  'activity_logs',
+  'workout_exercises_def',
+  'workout_rest_preferences',
+  'workout_routines',
+  'workout_routine_entries',
+  'workout_routine_sets',
+  'workout_programs',
+  'workout_program_weeks',
+  'workout_training_maxes',
+  'workouts',
+  'workout_log_entries',
+  'workout_sets',
+  'workout_personal_records'
+] as const;
+
+export type ExportTableName = (typeof EXPORT_TABLES)[number];
+
+type ExportRow = Record<string, unknown> & { id: string };
+
+export interface ExportBundle {
+  format: typeof EXPORT_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  db_version: number;
+  tables: Partial<Record<ExportTableName, ExportRow[]>>;
+}
+
+export interface ImportSummary {
+  inserted: Partial<Record<ExportTableName, number>>;
+  remapped: number;
+  skipped: number;
+}
+
+const REQUIRED_FIELDS: Record<ExportTableName, string[]> = {
+  profiles: [],
+  settings: [],
+  goals: ['start_date'],
+  metrics: ['date', 'type', 'value'],
+  foods: ['name'],
+  food_ingredients: ['parent_food_id', 'child_food_id'],
+  logs: ['date', 'food_id'],
+  saved_meals: ['name', 'items'],
+  activities: ['name'],
+  activity_logs: ['date', 'activity_id'],
+  workout_exercises_def: ['name'],
+  workout_rest_preferences: ['exercise_id'],
+  workout_routines: ['name'],
+  workout_routine_entries: ['routine_id', 'exercise_id'],
+  workout_routine_sets: ['routine_entry_id'],
+  workout_programs: ['name'],
+  workout_program_weeks: ['program_id', 'week_number'],
+  workout_training_maxes: ['exercise_id', 'training_max'],
+  workouts: ['start_time'],
+  workout_log_entries: ['workout_id', 'exercise_id'],
+  workout_sets: ['workout_log_entry_id'],
+  workout_personal_records: ['exercise_id', 'workout_id', 'workout_set_id', 'record_type', 'value']
+};
+
+const FOREIGN_KEYS: Partial<Record<ExportTableName, Record<string, ExportTableName>>> = {
+  food_ingredients: { parent_food_id: 'foods', child_food_id: 'foods' },
+  logs: { food_id: 'foods' },
+  activity_logs: { activity_id: 'activities' },
+  workout_rest_preferences: { exercise_id: 'workout_exercises_def' },
+  workout_routine_entries: { routine_id: 'workout_routines', exercise_id: 'workout_exercises_def' },
+  workout_routine_sets: { routine_entry_id: 'workout_routine_entries' },
+  workout_program_weeks: { program_id: 'workout_programs' },
+  workout_training_maxes: { exercise_id: 'workout_exercises_def' },
+  workout_log_entries: { workout_id: 'workouts', exercise_id: 'workout_exercises_def' },
+  workout_sets: { workout_log_entry_id: 'workout_log_entries' },
+  workout_personal_records: { exercise_id: 'workout_exercises_def', workout_id: 'workouts', workout_set_id: 'workout_sets' }
+};
+
+// Tables that also hold the shared catalogue: rows with no user_id are public and read-only.
+const PUBLIC_CATALOGUE_TABLES = new Set<ExportTableName>(['foods', 'activities', 'workout_exercises_def']);
+
+// Bookkeeping columns that differ between copies of the same row.
+const VOLATILE_FIELDS = new Set(['synced', 'created_at', 'updated_at', 'user_id']);
+
+export async function exportDatabase(): Promise<ExportBundle> {
+  const tables: ExportBundle['tables'] = {};
+
+  await db.transaction('r', EXPORT_TABLES.map((table) => db.table(table)), async () => {
+    for (const table of EXPORT_TABLES) {
+      tables[table] = (await db.table(table).toArray()) as ExportRow[];
+    }
+  });
+
+  return {
+    format: EXPORT_BUNDLE_FORMAT,
+    version: EXPORT_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    db_version: db.verno,
+    tables
+  };
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function tableToCsv(rows: Array<Record<string, unknown>>): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [
+    columns.map(toCsvCell).join(','),
+    ...rows.map((row) => columns.map((column) => toCsvCell(row[column])).join(','))
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Throws with a user-facing message when the payload isn't a bundle this version can read.
+ */
+export function validateExportBundle(raw: unknown): ExportBundle {
+  if (!raw || typeof raw !== 'object') throw new Error('File is not a valid export.');
+
+  const bundle = raw as Partial<ExportBundle>;
+  if (bundle.format !== EXPORT_BUNDLE_FORMAT) throw new Error('File is not a Stupid Calories Tracker export.');
+  if (typeof bundle.version !== 'number' || bundle.version > EXPORT_BUNDLE_VERSION) {
+    throw new Error(`Unsupported export version: ${String(bundle.version)}`);
+  }
+  if (typeof bundle.exported_at !== 'string' || Number.isNaN(new Date(bundle.exported_at).getTime())) {
+    throw new Error('Export has no valid export date.');
+  }
+  if (!bundle.tables || typeof bundle.tables !== 'object') throw new Error('Export has no tables.');
+
+  for (const [table, rows] of Object.entries(bundle.tables)) {
+    if (!(EXPORT_TABLES as readonly string[]).includes(table)) {
+      throw new Error(`Unknown table in export: ${table}`);
+    }
+    if (!Array.isArray(rows)) throw new Error(`Table ${table} is not a list of rows.`);
+
+    const required = REQUIRED_FIELDS[table as ExportTableName];
+    rows.forEach((row, index) => {
+      if (!row || typeof row !== 'object' || typeof (row as ExportRow).id !== 'string' || !(row as ExportRow).id) {
+        throw new Error(`Row ${index + 1} in ${table} has no id.`);
+      }
+      const missing = required.filter((field) => (row as ExportRow)[field] === undefined || (row as ExportRow)[field] === null);
+      if (missing.length) {
+        throw new Error(`Row ${index + 1} in ${table} is missing ${missing.join(', ')}.`);
+      }
+    });
+  }
+
+  return bundle as ExportBundle;
+}
+
+function isSameRow(a: Record<string, unknown>, b: Record<string, unknown>) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)].filter((key) => !VOLATILE_FIELDS.has(key)));
+  return [...keys].every((key) => JSON.stringify(a[key] ?? null) === JSON.stringify(b[key] ?? null));
+}
+
+/**
+ * Imports a validated bundle into the local database. Rows whose id already exists with
+ * different content get a fresh id (and children follow the remap); identical rows are
+ * skipped. Rows are written without `synced` so the db hooks enqueue them for upload. Public
+ * catalogue rows (and a public food's ingredients) are left to the regular pull, since the server
+ * rejects user writes to them; rows that reference them keep the public id.
+ */
+export async function importExportBundle(bundle: ExportBundle, userId: string | null): Promise<ImportSummary> {
+  const resolvedUserId = userId || 'local-user';
+  const idMaps = {} as Record<ExportTableName, Map<string, string>>;
+  const summary: ImportSummary = { inserted: {}, remapped: 0, skipped: 0 };
+  const publicFoodIds = new Set<string>();
+
+  await db.transaction('rw', EXPORT_TABLES.map((table) => db.table(table)), async () => {
+    for (const table of EXPORT_TABLES) {
+      const rows = bundle.tables[table] ?? [];
+      const idMap = new Map<string, string>();
+      idMaps[table] = idMap;
+      const dexieTable = db.table(table);
+
+      for (const sourceRow of rows) {
+        const { synced: _synced, ...row } = sourceRow;
+        if (PUBLIC_CATALOGUE_TABLES.has(table) && !row.user_id) {
+          if (table === 'foods') publicFoodIds.add(row.id);
+          summary.skipped += 1;
+          continue;
+        }
+        if (table === 'food_ingredients' && publicFoodIds.has(String(row.parent_food_id))) {
+          summary.skipped += 1;
+          continue;
+        }
+        const foreignKeys = FOREIGN_KEYS[table] ?? {};
+        for (const [field, parentTable] of Object.entries(foreignKeys)) {
+          const mappedId = idMaps[parentTable]?.get(String(row[field]));
+          if (mappedId) row[field] = mappedId;
+        }
+        if (table === 'saved_meals' && Array.isArray(row.items)) {
+          row.items = row.items.map((item) => ({ ...item, food_id: idMaps.foods?.get(String(item?.food_id)) ?? item?.food_id }));
+        }
+        if (table === 'workout_programs' && Array.isArray(row.routine_ids)) {
+          row.routine_ids = row.routine_ids.map((routineId) => idMaps.workout_routines?.get(String(routineId)) ?? routineId);
+        }
+        if (row.user_id) row.user_id = resolvedUserId;
+
+        // Settings and the profile are per-user singletons: the imported copy replaces the local one.
+        if (table === 'settings' || table === 'profiles') {
+          if (table === 'profiles' && !userId) {
+            summary.skipped += 1;
+            continue;
+          }
+          const singletonId = table === 'settings' ? SETTINGS_ID : userId;
+          await dexieTable.put({ ...row, id: singletonId });
+          summary.inserted[table] = (summary.inserted[table] || 0) + 1;
+          continue;
+        }
+
+        const existing = await dexieTable.get(row.id);
+        if (existing && (isSameRow(existing, row) || (table === 'workout_exercises_def' && !existing.user_id))) {
+          idMap.set(sourceRow.id, row.id);
+          summary.skipped += 1;
+          continue;
+        }
+
+        // One rest preference and one training max per exercise.
+        if (table === 'workout_rest_preferences' || table === 'workout_training_maxes') {
+          const existingPreference = await db.table(table)
+            .where('[user_id+exercise_id]')
+            .equals([resolvedUserId, String(row.exercise_id)])
+            .first();
+          if (existingPreference) {
+            summary.skipped += 1;
+            continue;
+          }
+        }
+
+        if (existing) {
+          row.id = generateId();
+          summary.remapped += 1;
+        }
+
+        idMap.set(sourceRow.id, row.id);
+        await dexieTable.add(row);
+        summary.inserted[table] = (summary.inserted[table] || 0) + 1;
+      }
+    }
+  });
+
+  return summary;
+}
@@ -1,5 +1,10 @@
 // src/lib/db.ts
 import Dexie, { type Table } from 'dexie';
+import type { SyncErrorType } from './syncErrors';
+
+export const DEFAULT_DATABASE_NAME = 'StupidCaloriesTrackerDB';
+// Written by the account switcher; the database is chosen once at startup.
+export const ACTIVE_DATABASE_STORAGE_KEY = 'stupid_calorie_tracker_active_db';
 
 let remoteSyncWriteDepth = 0;
 
@@ -37,6 +42,7 @@ export interface Food {
   user_id?: string | null; // null for public foods
   name: string;
   brand?: string;
+  barcode?: string;
   is_supplement?: boolean;
   diet_tags?: string[];
   allergen_tags?: string[];
@@ -54,6 +60,28 @@ export interface Food {
   synced?: number; // 1 = synced, 0 = pending
 }
 
+// Local-only cache of product lookups; product is null when the provider had no match.
+export interface BarcodeCacheEntry {
+  barcode: string;
+  product: BarcodeProduct | null;
+  provider?: string;
+  cached_at: number;
+}
+
+export interface BarcodeProduct {
+  barcode: string;
+  name: string;
+  brand?: string;
+  serving_size: number;
+  serving_unit: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  micros?: Record<string, number>;
+  source?: string;
+}
+
 export interface FoodIngredient {
   id: string; // uuid
   parent_food_id: string; // The Recipe
@@ -77,6 +105,23 @@ export interface DailyLog {
   synced?: number;
 }
 
+export interface SavedMealItem {
+  food_id: string;
+  amount_consumed: number; // Multiplier of serving size
+}
+
+// A named bundle of foods, logged as one DailyLog row per item.
+export interface SavedMeal {
+  id: string;
+  user_id: string;
+  name: string;
+  items: SavedMealItem[];
+  last_used_at?: string;
+  created_at?: Date;
+  updated_at?: Date;
+  synced?: number;
+}
+
 export interface Goal {
   id: string; // uuid
   user_id: string;
@@ -114,6 +159,34 @@ export interface SyncQueue {
   attempt_count?: number;
   last_attempt_at?: number;
   last_error?: string;
+  error_type?: SyncErrorType;
+}
+
+// Local-only record of a row edited both here and remotely since the last sync.
+export interface SyncConflict {
+  id?: number; // Auto-increment
+  table: string;
+  row_id: string; // local primary key
+  local: Record<string, any>;
+  remote: Record<string, any>;
+  fields: string[]; // fields whose values differ
+  detected_at: number;
+}
+
+// Local-only rest countdown for a workout. end_time is absolute so it survives reloads and backgrounding.
+export interface WorkoutRestTimer {
+  workout_id: string;
+  workout_log_entry_id: string;
+  exercise_id: string;
+  total_seconds: number;
+  end_time: number; // epoch ms
+}
+
+// Local-only meal photo thumbnail for a DailyLog row; never synced.
+export interface LogPhoto {
+  log_id: string;
+  thumbnail: string; // JPEG data URL
+  created_at: number; // epoch ms
 }
 
 export type MealTargetMode = 'percent' | 'calories';
@@ -129,6 +202,16 @@ export interface MealSetting {
 export interface ReminderSetting {
   enabled: boolean;
   time: string;
+  days?: number[]; // 0 = Sunday; empty or missing means every day
+}
+
+export interface EquipmentProfile {
+  // Plate sizes in kg, loaded in pairs.
+  plates: number[];
+  // Empty bar or sled weight per plate-loaded equipment type.
+  bar_weights: Record<string, number>;
+  dumbbell_increment: number;
+  machine_step: number;
 }
 
 export interface UserSettings {
@@ -146,6 +229,8 @@ export interface UserSettings {
     sleepTarget?: number;
     waterTarget?: number;
     weightTarget?: number;
+    eatBackEnabled?: boolean;
+    eatBackPercent?: number;
   };
   meals: MealSetting[];
   reminders: {
@@ -156,6 +241,11 @@ export interface UserSettings {
     weight: ReminderSetting;
     medicine: ReminderSetting;
   };
+  equipment?: EquipmentProfile;
+  // Display and input units; stored values stay in kg, km, cm and ml.
+  units?: 'metric' | 'imperial';
+  // Unfinished workouts with no changes for this long are offered for recovery.
+  abandoned_workout_hours?: number;
   updated_at: string;
   synced?: number;
 }
@@ -221,12 +311,17 @@ export interface WorkoutLogEntry {
   workout_id: string;
   exercise_id: string; // references WorkoutExerciseDef
   sort_order: number;
+  // Adjacent entries sharing a group_id are performed as a superset/circuit.
+  group_id?: string | null;
   notes?: string;
   created_at?: Date;
   updated_at?: Date;
   synced?: number;
 }
 
+// Dropsets follow the previous set without rest; cluster sets take a short intra-set rest.
+export type WorkoutSetType = 'normal' | 'dropset' | 'cluster';
+
 export interface WorkoutSet {
   id: string;
   workout_log_entry_id: string;
@@ -239,6 +334,7 @@ export interface WorkoutSet {
   duration_seconds?: number;
   rpe?: number;
   is_warmup?: boolean;
+  set_type?: WorkoutSetType;
   completed?: boolean;
   created_at?: Date;
   updated_at?: Date;
@@ -260,6 +356,7 @@ export interface WorkoutRoutineEntry {
   routine_id: string;
   exercise_id: string;
   sort_order: number;
+  group_id?: string | null;
   notes?: string;
   created_at?: Date;
   updated_at?: Date;
@@ -275,6 +372,78 @@ export interface WorkoutRoutineSet {
   reps_max?: number;
   distance?: number;
   duration_seconds?: number;
+  set_type?: WorkoutSetType;
+  created_at?: Date;
+  updated_at?: Date;
+  synced?: number;
+}
+
+export interface WorkoutProgram {
+  id: string;
+  user_id: string;
+  name: string;
+  // Routines run in order as the days of every week.
+  routine_ids: string[];
+  next_week: number;
+  next_day: number;
+  cycle: number;
+  // Added to each program exercise's training max when a cycle completes.
+  training_max_increment: number;
+  last_workout_id?: string;
+  notes?: string;
+  created_at?: Date;
+  updated_at?: Date;
+  synced?: number;
+}
+
+export interface WorkoutProgramWeek {
+  id: string;
+  user_id: string;
+  program_id: string;
+  week_number: number;
+  name?: string;
+  intensity_modifier: number;
+  volume_modifier: number;
+  // Percent of training max per working set; empty keeps the routine's own sets.
+  set_percents?: number[];
+  set_reps?: number[];
+  is_deload?: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+  synced?: number;
+}
+
+export interface WorkoutTrainingMax {
+  id: string;
+  user_id: string;
+  exercise_id: string;
+  training_max: number;
+  created_at?: Date;
+  updated_at?: Date;
+  synced?: number;
+}
+
+export type PersonalRecordType =
+  | 'heaviest_weight'
+  | 'best_e1rm'
+  | 'most_reps'
+  | 'best_set_volume'
+  | 'longest_duration'
+  | 'longest_distance';
+
+export interface WorkoutPersonalRecord {
+  id: string;
+  user_id: string;
+  exercise_id: string;
+  workout_id: string;
+  workout_set_id: string;
+  record_type: PersonalRecordType;
+  value: number;
+  // Best value before this set; 0 when the exercise had never recorded this metric.
+  previous_value: number;
+  weight?: number;
+  reps?: number;
+  achieved_at: string;
   created_at?: Date;
   updated_at?: Date;
   synced?: number;
@@ -295,12 +464,15 @@ export class MyDatabase extends Dexie {
   foods!: Table<Food>;
   food_ingredients!: Table<FoodIngredient>;
   logs!: Table<DailyLog>;
+  saved_meals!: Table<SavedMeal>;
   goals!: Table<Goal>;
   metrics!: Table<BodyMetric>;
   settings!: Table<UserSettings>;
   activities!: Table<Activity>;
   activity_logs!: Table<ActivityLog>;
   sync_queue!: Table<SyncQueue>;
+  barcode_cache!: Table<BarcodeCacheEntry>;
+  sync_conflicts!: Table<SyncConflict>;
   // Workouts
   workout_exercises_def!: Table<WorkoutExerciseDef>;
   workouts!: Table<Workout>;
@@ -310,9 +482,15 @@ export class MyDatabase extends Dexie {
   workout_routines!: Table<WorkoutRoutine>;
   workout_routine_entries!: Table<WorkoutRoutineEntry>;
   workout_routine_sets!: Table<WorkoutRoutineSet>;
-
-  constructor() {
-    super('StupidCaloriesTrackerDB');
+  workout_programs!: Table<WorkoutProgram>;
+  workout_program_weeks!: Table<WorkoutProgramWeek>;
+  workout_training_maxes!: Table<WorkoutTrainingMax>;
+  workout_personal_records!: Table<WorkoutPersonalRecord>;
+  workout_rest_timers!: Table<WorkoutRestTimer>;
+  log_photos!: Table<LogPhoto>;
+
+  constructor(name = DEFAULT_DATABASE_NAME) {
+    super(name);
     this.version(4).stores({
       profiles: 'id',
       foods: 'id, user_id, name, is_recipe, synced',
@@ -373,14 +551,200 @@ export class MyDatabase extends Dexie {
       workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
       workout_routine_sets: 'id, routine_entry_id, synced'
     });
+
+    this.version(7).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced'
+    });
+
+    this.version(8).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      sync_conflicts: '++id, &[table+row_id], detected_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced'
+    });
+
+    this.version(9).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      sync_conflicts: '++id, &[table+row_id], detected_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced',
+      workout_programs: 'id, user_id, updated_at, synced',
+      workout_program_weeks: 'id, program_id, week_number, synced',
+      workout_training_maxes: 'id, user_id, exercise_id, [user_id+exercise_id], synced'
+    });
+
+    this.version(10).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      sync_conflicts: '++id, &[table+row_id], detected_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced',
+      workout_programs: 'id, user_id, updated_at, synced',
+      workout_program_weeks: 'id, program_id, week_number, synced',
+      workout_training_maxes: 'id, user_id, exercise_id, [user_id+exercise_id], synced',
+      workout_personal_records: 'id, user_id, exercise_id, workout_id, workout_set_id, achieved_at, synced'
+    });
+
+    this.version(11).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      sync_conflicts: '++id, &[table+row_id], detected_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced',
+      workout_programs: 'id, user_id, updated_at, synced',
+      workout_program_weeks: 'id, program_id, week_number, synced',
+      workout_training_maxes: 'id, user_id, exercise_id, [user_id+exercise_id], synced',
+      workout_personal_records: 'id, user_id, exercise_id, workout_id, workout_set_id, achieved_at, synced',
+      workout_rest_timers: 'workout_id'
+    });
+
+    this.version(12).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      saved_meals: 'id, user_id, name, last_used_at, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      sync_conflicts: '++id, &[table+row_id], detected_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced',
+      workout_programs: 'id, user_id, updated_at, synced',
+      workout_program_weeks: 'id, program_id, week_number, synced',
+      workout_training_maxes: 'id, user_id, exercise_id, [user_id+exercise_id], synced',
+      workout_personal_records: 'id, user_id, exercise_id, workout_id, workout_set_id, achieved_at, synced',
+      workout_rest_timers: 'workout_id'
+    });
+
+    this.version(13).stores({
+      profiles: 'id',
+      foods: 'id, user_id, name, barcode, is_recipe, is_supplement, synced',
+      food_ingredients: 'id, parent_food_id, child_food_id, synced',
+      logs: 'id, user_id, date, meal_type, synced',
+      saved_meals: 'id, user_id, name, last_used_at, synced',
+      goals: 'id, user_id, start_date, synced',
+      metrics: 'id, user_id, date, type, synced',
+      settings: 'id, user_id, synced',
+      activities: 'id, user_id, name, synced',
+      activity_logs: 'id, user_id, date, activity_id, synced',
+      sync_queue: '++id, table, action, created_at',
+      barcode_cache: 'barcode, cached_at',
+      sync_conflicts: '++id, &[table+row_id], detected_at',
+      workout_exercises_def: 'id, user_id, name, muscle_group, metric_type, synced',
+      workouts: 'id, user_id, start_time, synced',
+      workout_log_entries: 'id, workout_id, exercise_id, synced',
+      workout_sets: 'id, workout_log_entry_id, synced',
+      workout_rest_preferences: 'id, user_id, exercise_id, [user_id+exercise_id], updated_at, synced',
+      workout_routines: 'id, user_id, name, updated_at, synced',
+      workout_routine_entries: 'id, routine_id, exercise_id, sort_order, synced',
+      workout_routine_sets: 'id, routine_entry_id, synced',
+      workout_programs: 'id, user_id, updated_at, synced',
+      workout_program_weeks: 'id, program_id, week_number, synced',
+      workout_training_maxes: 'id, user_id, exercise_id, [user_id+exercise_id], synced',
+      workout_personal_records: 'id, user_id, exercise_id, workout_id, workout_set_id, achieved_at, synced',
+      workout_rest_timers: 'workout_id',
+      log_photos: 'log_id, created_at'
+    });
     
     // Hooks for sync
     const tablesToSync = [
-        'profiles', 'foods', 'food_ingredients', 'logs', 'goals', 'metrics', 
+        'profiles', 'foods', 'food_ingredients', 'logs', 'saved_meals', 'goals', 'metrics', 
       'settings',
         'activities', 'activity_logs',
         'workout_exercises_def', 'workouts', 'workout_log_entries', 'workout_sets', 'workout_rest_preferences',
-        'workout_routines', 'workout_routine_entries', 'workout_routine_sets'
+        'workout_routines', 'workout_routine_entries', 'workout_routine_sets',
+        'workout_programs', 'workout_program_weeks', 'workout_training_maxes', 'workout_personal_records'
     ] as const;
 
     tablesToSync.forEach((tableName) => {
@@ -441,7 +805,30 @@ export class MyDatabase extends Dexie {
         }, 0);
       });
     });
+
+    // Thumbnails are local-only, so they go with their log however it is deleted, synced pulls included.
+    this.logs.hook('deleting', (primKey, _obj, transaction) => {
+      transaction.on('complete', () => {
+        this.log_photos.delete(primKey).catch(err => console.error('[DB] Failed to delete log photo:', err));
+      });
+    });
   }
 }
 
-export const db = new MyDatabase();
+function readActiveDatabaseName() {
+  try {
+    return localStorage.getItem(ACTIVE_DATABASE_STORAGE_KEY) || DEFAULT_DATABASE_NAME;
+  } catch {
+    return DEFAULT_DATABASE_NAME;
+  }
+}
+
+export const db = new MyDatabase(readActiveDatabaseName());
+
+/**
+ * localStorage key for state that belongs to the open account database. The original database
+ * keeps the bare key so existing installs don't lose it.
+ */
+export function getAccountStorageKey(key: string) {
+  return db.name === DEFAULT_DATABASE_NAME ? key : `${key}:${db.name}`;
+}
@@ -0,0 +1,108 @@
+import { db, type UserSettings } from './db';
+import type { MetricType } from './workouts';
+
+export const DEFAULT_BODY_WEIGHT_KG = 70;
+export const DEFAULT_EAT_BACK_PERCENT = 50;
+
+// Rough MET values per exercise metric type, used when a workout has no logged burn.
+const WORKOUT_MET_BY_METRIC_TYPE: Record<MetricType, number> = {
+  weight_reps: 5,
+  reps_only: 3.8,
+  weighted_bodyweight: 5,
+  duration: 4,
+  duration_weight: 5,
+  distance_duration: 7,
+  distance_weight: 6
+};
+
+export interface BurnedCalories {
+  activityCalories: number;
+  workoutCalories: number;
+  total: number;
+}
+
+export interface CalorieBudget {
+  gross: number;
+  credited: number;
+  net: number;
+}
+
+type EatBackSettings = Pick<UserSettings['nutrition'], 'eatBackEnabled' | 'eatBackPercent'>;
+
+/**
+ * Estimates workout burn as MET x body weight x hours, where MET is averaged
+ * over the metric types of the exercises performed (weighted by set count).
+ */
+export function estimateWorkoutCalories(
+  durationMinutes: number,
+  metricTypes: Array<{ metricType?: string; weight: number }>,
+  bodyWeightKg: number
+): number {
+  if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) return 0;
+
+  const weightKg = Number.isFinite(bodyWeightKg) && bodyWeightKg > 0 ? bodyWeightKg : DEFAULT_BODY_WEIGHT_KG;
+  const totalWeight = metricTypes.reduce((sum, item) => sum + Math.max(0, item.weight), 0);
+  const met = totalWeight > 0
+    ? metricTypes.reduce((sum, item) => {
+        const itemMet = WORKOUT_MET_BY_METRIC_TYPE[(item.metricType || 'weight_reps') as MetricType] ?? WORKOUT_MET_BY_METRIC_TYPE.weight_reps;
+        return sum + itemMet * Math.max(0, item.weight);
+      }, 0) / totalWeight
+    : WORKOUT_MET_BY_METRIC_TYPE.weight_reps;
+
+  return Math.round(met * weightKg * (durationMinutes / 60));
+}
+
+export async function getBurnedCaloriesForDate(date: string, bodyWeightKg: number): Promise<BurnedCalories> {
+  const [activityLogs, dayWorkouts] = await Promise.all([
+    db.activity_logs.where('date').equals(date).toArray(),
+    db.workouts.where('start_time').startsWith(date).toArray()
+  ]);
+
+  const activityCalories = activityLogs.reduce((sum, log) => sum + Math.max(0, Number(log.calories_burned) || 0), 0);
+
+  const finishedWorkouts = dayWorkouts.filter((workout) => workout.end_time);
+  let workoutCalories = 0;
+
+  if (finishedWorkouts.length) {
+    const entries = await db.workout_log_entries.where('workout_id').anyOf(finishedWorkouts.map((workout) => workout.id)).toArray();
+    const entryIds = entries.map((entry) => entry.id);
+    const exerciseIds = [...new Set(entries.map((entry) => entry.exercise_id))];
+    const [sets, defs] = await Promise.all([
+      entryIds.length ? db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).toArray() : Promise.resolve([]),
+      exerciseIds.length ? db.workout_exercises_def.where('id').anyOf(exerciseIds).toArray() : Promise.resolve([])
+    ]);
+
+    const metricTypeByExerciseId = new Map(defs.map((def) => [def.id, def.metric_type]));
+    const completedSetsByEntryId = sets.reduce<Record<string, number>>((acc, set) => {
+      if (set.completed) acc[set.workout_log_entry_id] = (acc[set.workout_log_entry_id] || 0) + 1;
+      return acc;
+    }, {});
+
+    workoutCalories = finishedWorkouts.reduce((sum, workout) => {
+      const durationMinutes = (new Date(workout.end_time as string).getTime() - new Date(workout.start_time).getTime()) / 60000;
+      const metricTypes = entries
+        .filter((entry) => entry.workout_id === workout.id)
+        .map((entry) => ({
+          metricType: metricTypeByExerciseId.get(entry.exercise_id),
+          weight: completedSetsByEntryId[entry.id] || 1
+        }));
+
+      return sum + estimateWorkoutCalories(durationMinutes, metricTypes, bodyWeightKg);
+    }, 0);
+  }
+
+  return {
+    activityCalories: Math.round(activityCalories),
+    workoutCalories: Math.round(workoutCalories),
+    total: Math.round(activityCalories + workoutCalories)
+  };
+}
+
+export function getCalorieBudget(grossBudget: number, burned: number, settings?: EatBackSettings | null): CalorieBudget {
+  const gross = Math.max(0, Math.round(grossBudget));
+  if (!settings?.eatBackEnabled) return { gross, credited: 0, net: gross };
+
+  const percent = Math.min(100, Math.max(0, Number(settings.eatBackPercent ?? DEFAULT_EAT_BACK_PERCENT)));
+  const credited = Math.round(Math.max(0, burned) * (percent / 100));
+  return { gross, credited, net: gross + credited };
+}
@@ -0,0 +1,147 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type EquipmentProfile } from './db';
+import { SETTINGS_ID, updateLocalSettings } from './settings';
+import { fromDisplayWeight, normalizeUnitSystem, toDisplayWeight, type UnitSystem } from './units';
+
+const FREE_LOAD_STEP = 0.5;
+
+export const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Cable', 'Bodyweight', 'Kettlebell', 'Band', 'None'];
+
+export const DEFAULT_EQUIPMENT_PROFILE: EquipmentProfile = {
+  plates: [25, 20, 15, 10, 5, 2.5, 1.25],
+  bar_weights: { Barbell: 20 },
+  dumbbell_increment: 2,
+  machine_step: 5
+};
+
+// Common lb gym setup, stored in kg like every other profile.
+const IMPERIAL_EQUIPMENT_PROFILE_LB: EquipmentProfile = {
+  plates: [45, 35, 25, 10, 5, 2.5],
+  bar_weights: { Barbell: 45 },
+  dumbbell_increment: 5,
+  machine_step: 10
+};
+
+export function getDefaultEquipmentProfile(units: UnitSystem): EquipmentProfile {
+  if (units !== 'imperial') return DEFAULT_EQUIPMENT_PROFILE;
+  const toKg = (lb: number) => roundKg(fromDisplayWeight(lb, 'imperial'));
+  return {
+    plates: IMPERIAL_EQUIPMENT_PROFILE_LB.plates.map(toKg),
+    bar_weights: Object.fromEntries(Object.entries(IMPERIAL_EQUIPMENT_PROFILE_LB.bar_weights).map(([key, lb]) => [key, toKg(lb)])),
+    dumbbell_increment: toKg(IMPERIAL_EQUIPMENT_PROFILE_LB.dumbbell_increment),
+    machine_step: toKg(IMPERIAL_EQUIPMENT_PROFILE_LB.machine_step)
+  };
+}
+
+// How an equipment type is loaded: plates on a bar/sled, fixed dumbbell jumps, a pin-selected stack, or anything.
+export type LoadingKind = 'plates' | 'dumbbell' | 'stack' | 'free';
+
+export interface PlateBreakdown {
+  barWeight: number;
+  perSide: number[];
+  // Weight per side that the available plates can't make up.
+  remainder: number;
+}
+
+const roundTo = (value: number, step: number) => (step > 0 ? Math.round(value / step) * step : value);
+const roundKg = (value: number) => Math.round(value * 1000) / 1000;
+
+export function normalizeEquipmentProfile(
+  input?: Partial<EquipmentProfile> | null,
+  defaults: EquipmentProfile = DEFAULT_EQUIPMENT_PROFILE
+): EquipmentProfile {
+  const plates = (Array.isArray(input?.plates) ? input.plates : defaults.plates)
+    .map(Number)
+    .filter((plate) => Number.isFinite(plate) && plate > 0);
+  const barWeights = Object.entries(input?.bar_weights ?? defaults.bar_weights).reduce<Record<string, number>>(
+    (acc, [equipment, weight]) => {
+      const value = Number(weight);
+      if (equipment && Number.isFinite(value) && value >= 0) acc[equipment] = value;
+      return acc;
+    },
+    {}
+  );
+
+  return {
+    plates: [...new Set(plates)].sort((a, b) => b - a),
+    bar_weights: barWeights,
+    dumbbell_increment: Math.max(0, Number(input?.dumbbell_increment ?? defaults.dumbbell_increment) || 0),
+    machine_step: Math.max(0, Number(input?.machine_step ?? defaults.machine_step) || 0)
+  };
+}
+
+export function getLoadingKind(equipment: string | undefined, profile: EquipmentProfile): LoadingKind {
+  if (!equipment) return 'free';
+  if (equipment in profile.bar_weights) return 'plates';
+  if (equipment === 'Dumbbell' || equipment === 'Kettlebell') return 'dumbbell';
+  if (equipment === 'Machine' || equipment === 'Cable') return 'stack';
+  return 'free';
+}
+
+/**
+ * Greedy per-side plate breakdown, assuming as many of each plate as needed.
+ */
+export function getPlateBreakdown(totalWeight: number, barWeight: number, plates: number[]): PlateBreakdown {
+  let remaining = roundKg(Math.max(0, totalWeight - barWeight) / 2);
+  const perSide: number[] = [];
+
+  for (const plate of [...plates].sort((a, b) => b - a)) {
+    while (remaining + 1e-9 >= plate) {
+      perSide.push(plate);
+      remaining = roundKg(remaining - plate);
+    }
+  }
+
+  return { barWeight, perSide, remainder: remaining };
+}
+
+export function formatPlateBreakdown({ perSide }: PlateBreakdown, units: UnitSystem = 'metric') {
+  if (!perSide.length) return 'Empty bar';
+  const counts = perSide.reduce<Map<number, number>>((acc, plate) => {
+    const displayPlate = Math.round(toDisplayWeight(plate, units) * 100) / 100;
+    return acc.set(displayPlate, (acc.get(displayPlate) ?? 0) + 1);
+  }, new Map());
+  return `${[...counts].map(([plate, count]) => (count > 1 ? `${count}×${plate}` : `${plate}`)).join(' + ')} /side`;
+}
+
+/**
+ * Rounds a suggested weight to the nearest load the profile can actually make for this equipment.
+ */
+export function roundToAchievableLoad(weight: number, equipment: string | undefined, profile: EquipmentProfile) {
+  const safeWeight = Math.max(0, Number(weight) || 0);
+
+  switch (getLoadingKind(equipment, profile)) {
+    case 'plates': {
+      const barWeight = profile.bar_weights[equipment as string] ?? 0;
+      if (!profile.plates.length || safeWeight <= barWeight) return barWeight;
+      const step = 2 * Math.min(...profile.plates);
+      const candidate = roundKg(barWeight + roundTo(safeWeight - barWeight, step));
+      if (getPlateBreakdown(candidate, barWeight, profile.plates).remainder === 0) return candidate;
+      const fallback = getPlateBreakdown(safeWeight, barWeight, profile.plates);
+      return roundKg(barWeight + 2 * fallback.perSide.reduce((sum, plate) => sum + plate, 0));
+    }
+    case 'dumbbell':
+      return roundKg(roundTo(safeWeight, profile.dumbbell_increment));
+    case 'stack':
+      return roundKg(roundTo(safeWeight, profile.machine_step));
+    default:
+      return roundKg(roundTo(safeWeight, FREE_LOAD_STEP));
+  }
+}
+
+export function createLoadRounder(equipment: string | undefined, profile: EquipmentProfile) {
+  return (weight: number) => roundToAchievableLoad(weight, equipment, profile);
+}
+
+export async function getEquipmentProfile() {
+  const settings = await db.settings.get(SETTINGS_ID);
+  return normalizeEquipmentProfile(settings?.equipment, getDefaultEquipmentProfile(normalizeUnitSystem(settings?.units)));
+}
+
+export async function saveEquipmentProfile(profile: EquipmentProfile) {
+  await updateLocalSettings({ equipment: normalizeEquipmentProfile(profile) });
+}
+
+export function useEquipmentProfile() {
+  return useLiveQuery(getEquipmentProfile, [], DEFAULT_EQUIPMENT_PROFILE);
+}
@@ -28,6 +28,39 @@ export interface GeminiDailyCoachPayload {
   why?: string[];
 }
 
+export interface GeminiQuickLogPayload {
+  meal?: string;
+  items?: Array<{
+    name?: unknown;
+    quantity?: unknown;
+    unit?: unknown;
+    grams?: unknown;
+    calories?: unknown;
+    protein?: unknown;
+    carbs?: unknown;
+    fat?: unknown;
+  }>;
+}
+
+// Same shape as quick_log, estimated from a photo instead of text.
+export type GeminiMealPhotoPayload = GeminiQuickLogPayload;
+
+export interface GeminiNutritionLabelColumn {
+  calories?: unknown;
+  protein?: unknown;
+  carbs?: unknown;
+  fat?: unknown;
+  micros?: Record<string, unknown>;
+}
+
+export interface GeminiNutritionLabelPayload {
+  serving_size?: unknown;
+  serving_unit?: unknown;
+  per_serving?: GeminiNutritionLabelColumn | null;
+  per_100?: GeminiNutritionLabelColumn | null;
+  confidence?: Record<string, unknown>;
+}
+
 interface GeminiFunctionResponse<T> {
   ok?: boolean;
   message?: string;
@@ -121,6 +154,45 @@ export async function fetchGeminiRecipeIngredients(input: {
   });
 }
 
+export async function fetchGeminiQuickLog(input: {
+  text: string;
+  meals: Array<{ id: string; name: string }>;
+  localTime: string;
+}): Promise<GeminiQuickLogPayload> {
+  return invokeGeminiFunction<GeminiQuickLogPayload>({
+    action: 'quick_log',
+    text: input.text,
+    meals: input.meals,
+    localTime: input.localTime
+  });
+}
+
+export async function fetchGeminiMealPhoto(input: {
+  image: string;
+  mimeType: string;
+  meals: Array<{ id: string; name: string }>;
+  localTime: string;
+}): Promise<GeminiMealPhotoPayload> {
+  return invokeGeminiFunction<GeminiMealPhotoPayload>({
+    action: 'meal_photo',
+    image: input.image,
+    mimeType: input.mimeType,
+    meals: input.meals,
+    localTime: input.localTime
+  });
+}
+
+export async function fetchGeminiNutritionLabel(input: {
+  image: string;
+  mimeType: string;
+}): Promise<GeminiNutritionLabelPayload> {
+  return invokeGeminiFunction<GeminiNutritionLabelPayload>({
+    action: 'nutrition_label',
+    image: input.image,
+    mimeType: input.mimeType
+  });
+}
+
 export async function fetchGeminiDailyCoach(input: {
   date: string;
   caloriesGoal: number;
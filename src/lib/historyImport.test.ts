@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import {
+  detectSlashDateOrder,
+  importFoodDiary,
+  importStrengthLog,
+  matchExerciseNames,
+  parseFoodDiaryCsv,
+  parseStrengthLogCsv
+} from './historyImport';
+
+describe('parseFoodDiaryCsv', () => {
+  it('reads thousands separators and decimal commas', () => {
+    const rows = parseFoodDiaryCsv([
+      'Date,Meal,Food,Calories,Protein,Carbs,Fat',
+      '2026-03-01,Dinner,Pizza,"1,200",40.5,"120,5",50',
+      '2026-03-01,Dinner,Cake,"1.250,5",4,"1,100.25",9'
+    ].join('\n'));
+
+    expect(rows.map((row) => row.calories)).toEqual([1200, 1250.5]);
+    expect(rows[0].carbs).toBe(120.5);
+    expect(rows[1].carbs).toBe(1100.25);
+  });
+
+  it('reads semicolon exports with decimal commas', () => {
+    const [row] = parseFoodDiaryCsv('Date;Meal;Food;Calories;Protein\n2026-03-01;Lunch;Soup;250,5;12,3');
+    expect(row).toMatchObject({ calories: 250.5, protein: 12.3, meal: 'lunch' });
+  });
+});
+
+describe('slash dates', () => {
+  const diary = (...dates: string[]) => ['Date,Food,Calories', ...dates.map((date) => `${date},Egg,70`)].join('\n');
+
+  it('reads day-first files once any first field is above 12', () => {
+    const text = diary('04/03/2026', '25/03/2026');
+    expect(detectSlashDateOrder(text)).toBe('day_first');
+    expect(parseFoodDiaryCsv(text).map((row) => row.date)).toEqual(['2026-03-04', '2026-03-25']);
+  });
+
+  it('reads month-first files once any second field is above 12', () => {
+    const text = diary('03/04/2026', '03/25/2026');
+    expect(detectSlashDateOrder(text)).toBe('month_first');
+    expect(parseFoodDiaryCsv(text).map((row) => row.date)).toEqual(['2026-03-04', '2026-03-25']);
+  });
+
+  it('leaves files it cannot settle to the caller', () => {
+    const text = diary('04/03/2026');
+    expect(detectSlashDateOrder(text)).toBe('ambiguous');
+    expect(parseFoodDiaryCsv(text, 'day_first')[0].date).toBe('2026-03-04');
+    expect(detectSlashDateOrder(diary('2026-03-04'))).toBeNull();
+  });
+});
+
+describe('parseStrengthLogCsv', () => {
+  it('groups a Strong export into workouts and converts pounds', () => {
+    const workouts = parseStrengthLogCsv([
+      'Date,Workout Name,Exercise Name,Set Order,Weight (lbs),Reps,Distance,Seconds,RPE',
+      '2026-03-01 10:00:00,Push,Bench Press (Barbell),W,95,5,0,0,',
+      '2026-03-01 10:00:00,Push,Bench Press (Barbell),1,225,5,0,0,8.5',
+      '2026-03-01 10:00:00,Push,Plank,1,0,0,0,1:30,',
+      '2026-03-03 09:00:00,Pull,Pull Up,1,0,8,0,0,'
+    ].join('\n'));
+
+    expect(workouts.map((workout) => [workout.name, workout.exercises.map((exercise) => exercise.name)])).toEqual([
+      ['Push', ['Bench Press (Barbell)', 'Plank']],
+      ['Pull', ['Pull Up']]
+    ]);
+    const [warmup, working] = workouts[0].exercises[0].sets;
+    expect(warmup).toMatchObject({ set_number: 1, is_warmup: true, weight: 43.09, reps: 5 });
+    expect(working).toMatchObject({ set_number: 2, is_warmup: false, weight: 102.06, rpe: 8.5 });
+    expect(workouts[0].exercises[1].sets[0]).toMatchObject({ weight: undefined, duration_seconds: 90 });
+  });
+
+  it('needs date and exercise columns', () => {
+    expect(() => parseStrengthLogCsv('Weight,Reps\n100,5')).toThrow('date and exercise');
+  });
+
+  it('matches exercise names regardless of word order', () => {
+    const defs = [{ id: 'bench', name: 'Barbell Bench Press' }, { id: 'row', name: 'Row' }];
+    expect(matchExerciseNames(['Bench Press (Barbell)', 'row', 'Squat'], defs)).toEqual({
+      'Bench Press (Barbell)': 'bench',
+      row: 'row',
+      Squat: null
+    });
+  });
+});
+
+describe('importFoodDiary', () => {
+  beforeEach(async () => {
+    await db.foods.clear();
+    await db.logs.clear();
+  });
+
+  const csv = [
+    'Date,Meal,Food,Calories',
+    '2026-03-01,Breakfast,Egg,70',
+    '2026-03-01,Breakfast,Egg,70'
+  ].join('\n');
+
+  it('keeps identical entries within one file', async () => {
+    const result = await importFoodDiary(parseFoodDiaryCsv(csv), 'user-1');
+
+    expect(result).toEqual({ foodsCreated: 1, logsCreated: 2, duplicates: 0 });
+    expect(await db.logs.count()).toBe(2);
+  });
+
+  it('skips entries written by an earlier import of the same file', async () => {
+    await importFoodDiary(parseFoodDiaryCsv(csv), 'user-1');
+    const result = await importFoodDiary(parseFoodDiaryCsv(`${csv}\n2026-03-01,Breakfast,Egg,70`), 'user-1');
+
+    expect(result).toEqual({ foodsCreated: 0, logsCreated: 1, duplicates: 2 });
+    expect(await db.logs.count()).toBe(3);
+  });
+
+  it('does not treat manually logged rows as duplicates', async () => {
+    await importFoodDiary(parseFoodDiaryCsv(csv), 'user-1');
+    const [log] = await db.logs.toArray();
+    await db.logs.add({ ...log, id: 'manual-log' });
+    await db.logs.where('id').notEqual('manual-log').delete();
+
+    const result = await importFoodDiary(parseFoodDiaryCsv(csv), 'user-1');
+    expect(result.logsCreated).toBe(2);
+    expect(await db.logs.count()).toBe(3);
+  });
+});
+
+describe('importStrengthLog', () => {
+  beforeEach(async () => {
+    await Promise.all([db.workout_exercises_def.clear(), db.workouts.clear(), db.workout_log_entries.clear(), db.workout_sets.clear()]);
+  });
+
+  const csv = [
+    'Date,Workout Name,Exercise Name,Set Order,Weight (kg),Reps',
+    '2026-03-01 10:00:00,Push,Bench Press,1,100,5',
+    '2026-03-03 10:00:00,Legs,Squat,1,120,5'
+  ].join('\n');
+
+  it('only creates exercises for workouts it writes', async () => {
+    const [push, legs] = parseStrengthLogCsv(csv);
+    await importStrengthLog([push], { 'Bench Press': null }, 'user-1');
+
+    const result = await importStrengthLog([push, legs], { 'Bench Press': null, Squat: null }, 'user-1');
+    expect(result).toEqual({ workoutsCreated: 1, exercisesCreated: 1, duplicates: 1 });
+    expect((await db.workout_exercises_def.toArray()).map((def) => def.name).sort()).toEqual(['Bench Press', 'Squat']);
+
+    expect(await importStrengthLog([push, legs], { 'Bench Press': null, Squat: null }, 'user-1')).toEqual({
+      workoutsCreated: 0,
+      exercisesCreated: 0,
+      duplicates: 2
+    });
+    expect(await db.workout_exercises_def.count()).toBe(2);
+  });
+});
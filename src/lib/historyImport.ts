@@ -0,0 +1,532 @@
+import { db, type DailyLog, type Food, type WorkoutExerciseDef } from './db';
+import { v5 as uuidv5 } from 'uuid';
+import { generateId } from './index';
+import type { MetricType } from './workouts';
+import { KG_PER_LB, KM_PER_MI } from './units';
+
+type CsvRecord = Record<string, string>;
+
+// Namespace for deterministic ids of imported log rows, so re-importing a file finds its own rows.
+const IMPORTED_LOG_NAMESPACE = '6f1c2b0e-8a4d-4c57-9e3a-2d5b7f9c1a04';
+
+export interface FoodDiaryRow {
+  date: string;
+  meal: string;
+  food: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  amount: number;
+}
+
+export interface StrengthLogSet {
+  set_number: number;
+  weight?: number;
+  reps?: number;
+  rpe?: number;
+  distance?: number;
+  duration_seconds?: number;
+  is_warmup: boolean;
+}
+
+export interface StrengthLogExercise {
+  name: string;
+  sets: StrengthLogSet[];
+}
+
+// Order of the first two fields in a/b/yyyy dates: US exports are month first, most others day first.
+export type SlashDateOrder = 'month_first' | 'day_first';
+
+export interface StrengthLogWorkout {
+  key: string;
+  name: string;
+  start_time: string;
+  end_time?: string;
+  exercises: StrengthLogExercise[];
+}
+
+// Header aliases cover the CSV exports of the common diary/lifting apps (MyFitnessPal,
+// Cronometer, Lose It!, Strong, Hevy, FitNotes) after normalizeHeader().
+const FOOD_COLUMNS = {
+  date: ['date', 'day'],
+  meal: ['meal', 'group', 'type', 'mealtype', 'mealname'],
+  food: ['food', 'foodname', 'name', 'description', 'item'],
+  calories: ['calories', 'energy', 'energykcal', 'kcal', 'caloriesk'],
+  protein: ['protein', 'proteing'],
+  carbs: ['carbs', 'carbohydrates', 'carbohydratesg', 'carbsg', 'totalcarbs'],
+  fat: ['fat', 'fatg', 'totalfat'],
+  amount: ['amount', 'quantity', 'servings', 'numberofservings']
+} as const;
+
+const STRENGTH_COLUMNS = {
+  date: ['date', 'starttime', 'workoutdate'],
+  endTime: ['endtime'],
+  workout: ['workoutname', 'title', 'workout', 'routine'],
+  exercise: ['exercisename', 'exercise', 'exercisetitle'],
+  set: ['setorder', 'setindex', 'set', 'setnumber'],
+  setType: ['settype'],
+  weight: ['weight', 'weightkg', 'weightkgs', 'weightlbs', 'weightlb'],
+  reps: ['reps', 'repetitions'],
+  rpe: ['rpe'],
+  distance: ['distance', 'distancekm', 'distancem', 'distancemi', 'distancemiles'],
+  duration: ['seconds', 'durationseconds', 'time', 'duration']
+} as const;
+
+function normalizeHeader(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function normalizeExerciseName(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function exerciseNameTokens(value: string) {
+  return normalizeExerciseName(value).split(' ').filter(Boolean).sort().join(' ');
+}
+
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+  // European exports often use semicolons because the comma is the decimal separator.
+  const firstLine = input.split(/\r?\n/)[0];
+  const delimiter = (firstLine.match(/;/g)?.length || 0) > (firstLine.match(/,/g)?.length || 0) ? ';' : ',';
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((cells) => cells.some((value) => value.trim().length));
+  if (!header) return [];
+
+  const keys = header.map(normalizeHeader);
+  return body.map((cells) => keys.reduce<CsvRecord>((acc, key, index) => {
+    if (key && acc[key] === undefined) acc[key] = (cells[index] ?? '').trim();
+    return acc;
+  }, {}));
+}
+
+function findColumn(headers: string[], aliases: readonly string[]) {
+  return aliases.find((alias) => headers.includes(alias));
+}
+
+/**
+ * Reads "1,200", "1.200,5", "1,200.5" and "1,5". With both separators the last one is the decimal
+ * point. Commas before three-digit groups ("1,200") and repeated dots ("1.200.000") are thousands
+ * separators; any other lone comma is a decimal comma.
+ */
+function toNumber(value: string | undefined) {
+  if (!value) return undefined;
+  let raw = value.replace(/[^0-9.,-]/g, '');
+  const lastComma = raw.lastIndexOf(',');
+  const lastDot = raw.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    raw = lastComma > lastDot ? raw.replace(/\./g, '').replace(',', '.') : raw.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    raw = /^-?\d{1,3}(,\d{3})+$/.test(raw) ? raw.replace(/,/g, '') : raw.replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3}){2,}$/.test(raw)) {
+    raw = raw.replace(/\./g, '');
+  }
+
+  if (!raw || raw === '-') return undefined;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const SLASH_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2}))?/;
+
+/**
+ * Works out the field order of a file's a/b/yyyy dates: a first field above 12 can only be a day,
+ * a second field above 12 only a month. Returns 'ambiguous' when no date settles it and null when
+ * the file has no such dates.
+ */
+export function detectSlashDateOrder(text: string): SlashDateOrder | 'ambiguous' | null {
+  let hasSlashDates = false;
+  for (const record of parseCsv(text)) {
+    for (const value of Object.values(record)) {
+      const match = SLASH_DATE_PATTERN.exec(value);
+      if (!match) continue;
+      hasSlashDates = true;
+      if (Number(match[1]) > 12) return 'day_first';
+      if (Number(match[2]) > 12) return 'month_first';
+    }
+  }
+  return hasSlashDates ? 'ambiguous' : null;
+}
+
+const resolveDateOrder = (text: string, dateOrder?: SlashDateOrder): SlashDateOrder => {
+  if (dateOrder) return dateOrder;
+  const detected = detectSlashDateOrder(text);
+  return detected === 'day_first' ? 'day_first' : 'month_first';
+};
+
+/**
+ * Accepts ISO dates/timestamps and a/b/yyyy dates in the given field order.
+ */
+function parseDateTime(value: string | undefined, dateOrder: SlashDateOrder): Date | null {
+  const raw = (value || '').trim();
+  if (!raw) return null;
+
+  const slash = SLASH_DATE_PATTERN.exec(raw);
+  if (slash) {
+    const year = Number(slash[3]) < 100 ? 2000 + Number(slash[3]) : Number(slash[3]);
+    const [month, day] = dateOrder === 'day_first' ? [slash[2], slash[1]] : [slash[1], slash[2]];
+    return new Date(Date.UTC(year, Number(month) - 1, Number(day), Number(slash[4] || 12), Number(slash[5] || 0)));
+  }
+
+  const isoDateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw);
+  if (isoDateOnly) {
+    return new Date(Date.UTC(Number(isoDateOnly[1]), Number(isoDateOnly[2]) - 1, Number(isoDateOnly[3]), 12));
+  }
+
+  const parsed = new Date(raw.replace(' ', 'T'));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function parseDurationSeconds(value: string | undefined) {
+  const raw = (value || '').trim();
+  if (!raw) return undefined;
+  if (/^\d+(\.\d+)?$/.test(raw)) return Math.round(Number(raw));
+
+  const clock = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(raw);
+  if (clock) return Number(clock[1] || 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+
+  return undefined;
+}
+
+function normalizeMealType(value: string) {
+  const meal = value.trim().toLowerCase();
+  if (meal.startsWith('breakfast')) return 'breakfast';
+  if (meal.startsWith('lunch')) return 'lunch';
+  if (meal.startsWith('dinner') || meal.startsWith('supper')) return 'dinner';
+  if (meal.startsWith('snack')) return 'snack';
+  return meal || 'snack';
+}
+
+/**
+ * `dateOrder` overrides the order detected from the file's own dates.
+ */
+export function parseFoodDiaryCsv(text: string, dateOrder?: SlashDateOrder): FoodDiaryRow[] {
+  const records = parseCsv(text);
+  if (!records.length) return [];
+  const order = resolveDateOrder(text, dateOrder);
+
+  const headers = Object.keys(records[0]);
+  const columns = Object.fromEntries(
+    Object.entries(FOOD_COLUMNS).map(([field, aliases]) => [field, findColumn(headers, aliases)])
+  ) as Record<keyof typeof FOOD_COLUMNS, string | undefined>;
+
+  if (!columns.date || !columns.food || !columns.calories) {
+    throw new Error('Food diary CSV needs date, food and calories columns.');
+  }
+
+  return records.flatMap((record) => {
+    const date = parseDateTime(record[columns.date!], order);
+    const food = (record[columns.food!] || '').trim();
+    if (!date || !food) return [];
+
+    return [{
+      date: date.toISOString().split('T')[0],
+      meal: normalizeMealType(columns.meal ? record[columns.meal] : ''),
+      food,
+      calories: toNumber(record[columns.calories!]) ?? 0,
+      protein: (columns.protein && toNumber(record[columns.protein])) || 0,
+      carbs: (columns.carbs && toNumber(record[columns.carbs])) || 0,
+      fat: (columns.fat && toNumber(record[columns.fat])) || 0,
+      amount: (columns.amount && toNumber(record[columns.amount])) || 1
+    }];
+  });
+}
+
+export function parseStrengthLogCsv(text: string, dateOrder?: SlashDateOrder): StrengthLogWorkout[] {
+  const records = parseCsv(text);
+  if (!records.length) return [];
+  const order = resolveDateOrder(text, dateOrder);
+
+  const headers = Object.keys(records[0]);
+  const columns = Object.fromEntries(
+    Object.entries(STRENGTH_COLUMNS).map(([field, aliases]) => [field, findColumn(headers, aliases)])
+  ) as Record<keyof typeof STRENGTH_COLUMNS, string | undefined>;
+
+  if (!columns.date || !columns.exercise) {
+    throw new Error('Strength log CSV needs date and exercise columns.');
+  }
+
+  const weightFactor = columns.weight && /lb/.test(columns.weight) ? KG_PER_LB : 1;
+  const distanceFactor = columns.distance === 'distancem'
+    ? 0.001
+    : columns.distance && /mi/.test(columns.distance) ? KM_PER_MI : 1;
+
+  const workouts = new Map<string, StrengthLogWorkout>();
+
+  records.forEach((record) => {
+    const start = parseDateTime(record[columns.date!], order);
+    const exerciseName = (record[columns.exercise!] || '').trim();
+    if (!start || !exerciseName) return;
+
+    const workoutName = (columns.workout && record[columns.workout]) || 'Imported Workout';
+    // Apps that only export a date (FitNotes) get one workout per day.
+    const key = `${start.toISOString()}|${workoutName}`;
+    let workout = workouts.get(key);
+    if (!workout) {
+      const end = columns.endTime ? parseDateTime(record[columns.endTime], order) : null;
+      workout = {
+        key,
+        name: workoutName,
+        start_time: start.toISOString(),
+        end_time: end?.toISOString(),
+        exercises: []
+      };
+      workouts.set(key, workout);
+    }
+
+    let exercise = workout.exercises[workout.exercises.length - 1];
+    if (!exercise || exercise.name !== exerciseName) {
+      exercise = workout.exercises.find((item) => item.name === exerciseName) ?? { name: exerciseName, sets: [] };
+      if (!workout.exercises.includes(exercise)) workout.exercises.push(exercise);
+    }
+
+    const weight = columns.weight ? toNumber(record[columns.weight]) : undefined;
+    const distance = columns.distance ? toNumber(record[columns.distance]) : undefined;
+    const setType = (columns.setType ? record[columns.setType] : '').toLowerCase();
+
+    exercise.sets.push({
+      set_number: exercise.sets.length + 1,
+      weight: weight ? Math.round(weight * weightFactor * 100) / 100 : undefined,
+      reps: columns.reps ? toNumber(record[columns.reps]) || undefined : undefined,
+      rpe: columns.rpe ? toNumber(record[columns.rpe]) || undefined : undefined,
+      distance: distance ? Math.round(distance * distanceFactor * 1000) / 1000 : undefined,
+      duration_seconds: columns.duration ? parseDurationSeconds(record[columns.duration]) || undefined : undefined,
+      // Strong numbers warmups "W" in the set order column; Hevy has a set_type column.
+      is_warmup: setType === 'warmup' || (columns.set ? /^w/i.test(record[columns.set] || '') : false)
+    });
+  });
+
+  return [...workouts.values()].sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+/**
+ * Suggests an existing exercise for each imported name: exact match first, then the same
+ * words in any order (so "Bench Press (Barbell)" finds "Barbell Bench Press").
+ */
+export function matchExerciseNames(names: string[], defs: WorkoutExerciseDef[]): Record<string, string | null> {
+  const byName = new Map(defs.map((def) => [normalizeExerciseName(def.name), def.id]));
+  const byTokens = new Map(defs.map((def) => [exerciseNameTokens(def.name), def.id]));
+
+  return names.reduce<Record<string, string | null>>((acc, name) => {
+    acc[name] = byName.get(normalizeExerciseName(name)) ?? byTokens.get(exerciseNameTokens(name)) ?? null;
+    return acc;
+  }, {});
+}
+
+function inferMetricType(sets: StrengthLogSet[]): MetricType {
+  const has = (field: keyof StrengthLogSet) => sets.some((set) => Number(set[field]) > 0);
+  if (has('distance')) return has('weight') ? 'distance_weight' : 'distance_duration';
+  if (has('weight') && has('reps')) return 'weight_reps';
+  if (has('reps')) return 'reps_only';
+  if (has('duration_seconds')) return has('weight') ? 'duration_weight' : 'duration';
+  return 'weight_reps';
+}
+
+export async function importFoodDiary(rows: FoodDiaryRow[], userId: string | null) {
+  const resolvedUserId = userId || 'local-user';
+  let foodsCreated = 0;
+  let logsCreated = 0;
+  let duplicates = 0;
+
+  await db.transaction('rw', [db.foods, db.logs], async () => {
+    const existingFoods = await db.foods.toArray();
+    const foodKey = (food: Pick<Food, 'name' | 'calories' | 'protein' | 'carbs' | 'fat'>) =>
+      [food.name.trim().toLowerCase(), Math.round(food.calories), Math.round(food.protein), Math.round(food.carbs), Math.round(food.fat)].join('|');
+    const foodIdByKey = new Map(existingFoods.filter((food) => !food.is_recipe).map((food) => [foodKey(food), food.id]));
+
+    // Identical entries within a file are all kept; only rows written by an earlier import of the
+    // same entry (same nth occurrence) count as duplicates.
+    const occurrences = new Map<string, number>();
+
+    for (const row of rows) {
+      // Diaries export totals per entry, so each distinct entry becomes a one-serving food.
+      const amount = row.amount > 0 ? row.amount : 1;
+      const perServing = {
+        name: row.food,
+        calories: row.calories / amount,
+        protein: row.protein / amount,
+        carbs: row.carbs / amount,
+        fat: row.fat / amount
+      };
+      const key = foodKey(perServing);
+      let foodId = foodIdByKey.get(key);
+
+      if (!foodId) {
+        foodId = generateId();
+        await db.foods.add({
+          id: foodId,
+          user_id: resolvedUserId,
+          name: row.food,
+          calories: Math.round(perServing.calories),
+          protein: Math.round(perServing.protein * 10) / 10,
+          carbs: Math.round(perServing.carbs * 10) / 10,
+          fat: Math.round(perServing.fat * 10) / 10,
+          serving_size: 1,
+          serving_unit: 'serving',
+          is_recipe: false
+        });
+        foodIdByKey.set(key, foodId);
+        foodsCreated += 1;
+      }
+
+      const entryKey = `${resolvedUserId}|${row.date}|${row.meal}|${foodId}|${amount}`;
+      const occurrence = (occurrences.get(entryKey) || 0) + 1;
+      occurrences.set(entryKey, occurrence);
+
+      const logId = uuidv5(`${entryKey}|${occurrence}`, IMPORTED_LOG_NAMESPACE);
+      if (await db.logs.get(logId)) {
+        duplicates += 1;
+        continue;
+      }
+
+      const log: DailyLog = {
+        id: logId,
+        user_id: resolvedUserId,
+        date: row.date,
+        meal_type: row.meal,
+        food_id: foodId,
+        amount_consumed: amount
+      };
+      await db.logs.add(log);
+      logsCreated += 1;
+    }
+  });
+
+  return { foodsCreated, logsCreated, duplicates };
+}
+
+/**
+ * Writes imported workouts. `exerciseMapping` maps imported names to an existing
+ * exercise id, or null to create a user exercise with that name.
+ */
+export async function importStrengthLog(
+  workouts: StrengthLogWorkout[],
+  exerciseMapping: Record<string, string | null>,
+  userId: string | null
+) {
+  const resolvedUserId = userId || 'local-user';
+  let workoutsCreated = 0;
+  let exercisesCreated = 0;
+  let duplicates = 0;
+
+  await db.transaction('rw', [db.workout_exercises_def, db.workouts, db.workout_log_entries, db.workout_sets], async () => {
+    const existingStarts = new Set((await db.workouts.toArray()).map((workout) => workout.start_time));
+    const newWorkouts = workouts.filter((workout) => {
+      if (existingStarts.has(workout.start_time)) {
+        duplicates += 1;
+        return false;
+      }
+      existingStarts.add(workout.start_time);
+      return true;
+    });
+
+    // Only exercises of workouts that are actually written get created.
+    const exerciseIdByName = new Map<string, string>();
+    const setsByName = newWorkouts
+      .flatMap((workout) => workout.exercises)
+      .reduce<Record<string, StrengthLogSet[]>>((acc, exercise) => {
+        acc[exercise.name] = [...(acc[exercise.name] || []), ...exercise.sets];
+        return acc;
+      }, {});
+
+    for (const [name, sets] of Object.entries(setsByName)) {
+      const mappedId = exerciseMapping[name];
+      if (mappedId) {
+        exerciseIdByName.set(name, mappedId);
+        continue;
+      }
+
+      const id = generateId();
+      await db.workout_exercises_def.add({
+        id,
+        user_id: resolvedUserId,
+        name,
+        metric_type: inferMetricType(sets)
+      });
+      exerciseIdByName.set(name, id);
+      exercisesCreated += 1;
+    }
+
+    for (const workout of newWorkouts) {
+      const workoutId = generateId();
+      await db.workouts.add({
+        id: workoutId,
+        user_id: resolvedUserId,
+        name: workout.name,
+        start_time: workout.start_time,
+        end_time: workout.end_time ?? workout.start_time
+      });
+
+      for (const [index, exercise] of workout.exercises.entries()) {
+        const entryId = generateId();
+        await db.workout_log_entries.add({
+          id: entryId,
+          workout_id: workoutId,
+          exercise_id: exerciseIdByName.get(exercise.name)!,
+          sort_order: index
+        });
+
+        for (const set of exercise.sets) {
+          await db.workout_sets.add({
+            id: generateId(),
+            workout_log_entry_id: entryId,
+            set_number: set.set_number,
+            weight: set.weight,
+            reps: set.reps,
+            rpe: set.rpe,
+            distance: set.distance,
+            duration_seconds: set.duration_seconds,
+            is_warmup: set.is_warmup,
+            completed: true
+          });
+        }
+      }
+
+      workoutsCreated += 1;
+    }
+  });
+
+  return { workoutsCreated, exercisesCreated, duplicates };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyLog } from './db';
+import { buildCopiedLogs, getWeekdayDatesUntil, shiftDateKey } from './logCopy';
+
+const makeLog = (overrides: Partial<DailyLog>): DailyLog => ({
+  id: 'log',
+  user_id: 'local-user',
+  date: '2026-03-02',
+  meal_type: 'breakfast',
+  meal_time: '08:00',
+  food_id: 'oats',
+  amount_consumed: 50,
+  ...overrides
+});
+
+describe('buildCopiedLogs', () => {
+  it('copies identical selected rows into the same meal', () => {
+    const logs = [makeLog({ id: 'a' }), makeLog({ id: 'b' })];
+    const rows = buildCopiedLogs(logs, [{ date: '2026-03-02', mealType: 'breakfast' }]);
+
+    expect(rows).toHaveLength(2);
+    expect(new Set(rows.map((row) => row.id)).size).toBe(2);
+    expect(rows.every((row) => !logs.some((log) => log.id === row.id))).toBe(true);
+  });
+
+  it('uses the slot time when set and keeps the source time otherwise', () => {
+    const [timed, untimed] = buildCopiedLogs(
+      [makeLog({})],
+      [
+        { date: '2026-03-03', mealType: 'lunch', mealTime: '12:30' },
+        { date: '2026-03-04', mealType: 'snack' }
+      ]
+    );
+    expect(timed).toMatchObject({ date: '2026-03-03', meal_type: 'lunch', meal_time: '12:30', synced: 0 });
+    expect(untimed).toMatchObject({ date: '2026-03-04', meal_type: 'snack', meal_time: '08:00' });
+  });
+
+  it('resolves per-log slots', () => {
+    const rows = buildCopiedLogs(
+      [makeLog({ id: 'a', meal_type: 'breakfast' }), makeLog({ id: 'b', meal_type: 'dinner' })],
+      [(log) => ({ date: '2026-03-03', mealType: log.meal_type })]
+    );
+    expect(rows.map((row) => row.meal_type)).toEqual(['breakfast', 'dinner']);
+  });
+});
+
+describe('getWeekdayDatesUntil', () => {
+  it('skips weekends and the source date', () => {
+    // 2026-03-06 is a Friday.
+    expect(getWeekdayDatesUntil('2026-03-06', '2026-03-10')).toEqual(['2026-03-09', '2026-03-10']);
+  });
+
+  it('shifts across month ends', () => {
+    expect(shiftDateKey('2026-02-28', 1)).toBe('2026-03-01');
+  });
+});
@@ -0,0 +1,85 @@
+import { db, type DailyLog } from './db';
+import { generateId } from './index';
+
+// Guards "repeat until" against a mistyped year.
+const MAX_REPEAT_DAYS = 366;
+
+export interface LogSlot {
+  date: string; // YYYY-MM-DD
+  mealType: string;
+  mealTime?: string;
+}
+
+const parseDateKey = (date: string) => new Date(`${date}T00:00:00Z`);
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+export function shiftDateKey(date: string, days: number) {
+  const next = parseDateKey(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toDateKey(next);
+}
+
+/**
+ * Monday–Friday dates after `fromDate`, up to and including `untilDate`.
+ */
+export function getWeekdayDatesUntil(fromDate: string, untilDate: string) {
+  const dates: string[] = [];
+  for (let offset = 1; offset <= MAX_REPEAT_DAYS; offset += 1) {
+    const date = shiftDateKey(fromDate, offset);
+    if (date > untilDate) break;
+    const weekday = parseDateKey(date).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * New rows for each log in each slot. A slot without a configured time keeps the source row's
+ * meal_time. Every selected row is copied, even when the same food and amount is already logged
+ * there, since eating the same thing twice is a real entry.
+ */
+export function buildCopiedLogs(
+  logs: DailyLog[],
+  slots: Array<LogSlot | ((log: DailyLog) => LogSlot)>,
+  now = new Date()
+): DailyLog[] {
+  return slots.flatMap((slotOrResolver) =>
+    logs.map((log) => {
+      const slot = typeof slotOrResolver === 'function' ? slotOrResolver(log) : slotOrResolver;
+      return {
+        id: generateId(),
+        user_id: log.user_id || 'local-user',
+        date: slot.date,
+        meal_type: slot.mealType,
+        meal_time: slot.mealTime || log.meal_time,
+        food_id: log.food_id,
+        amount_consumed: log.amount_consumed,
+        synced: 0,
+        created_at: now
+      };
+    })
+  );
+}
+
+/**
+ * Writes the copies in one transaction so the sync hooks queue them together. Returns how many
+ * rows were added.
+ */
+export async function copyLogsToSlots(logs: DailyLog[], slots: Array<LogSlot | ((log: DailyLog) => LogSlot)>) {
+  const rows = buildCopiedLogs(logs, slots);
+  if (!rows.length) return 0;
+  await db.transaction('rw', db.logs, () => db.logs.bulkAdd(rows));
+  return rows.length;
+}
+
+export async function moveLogsToMeal(logIds: string[], mealType: string, mealTime?: string) {
+  await db.transaction('rw', db.logs, async () => {
+    for (const id of logIds) {
+      await db.logs.update(id, {
+        meal_type: mealType,
+        ...(mealTime ? { meal_time: mealTime } : {}),
+        synced: 0
+      });
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, type DailyLog } from './db';
+import { pruneOrphanedLogPhotos } from './mealPhoto';
+
+const makeLog = (id: string): DailyLog => ({
+  id,
+  user_id: 'local-user',
+  date: '2026-03-02',
+  meal_type: 'lunch',
+  food_id: 'food-1',
+  amount_consumed: 1
+});
+
+describe('log photos', () => {
+  beforeEach(async () => {
+    await Promise.all([db.logs.clear(), db.log_photos.clear()]);
+    await db.logs.bulkAdd([makeLog('log-1'), makeLog('log-2')]);
+    await db.log_photos.bulkAdd([
+      { log_id: 'log-1', thumbnail: 'data:image/jpeg;base64,AA', created_at: 1 },
+      { log_id: 'log-2', thumbnail: 'data:image/jpeg;base64,AA', created_at: 1 }
+    ]);
+  });
+
+  it('deletes the thumbnail with its log', async () => {
+    await db.logs.where('id').equals('log-1').delete();
+    await vi.waitFor(async () => expect(await db.log_photos.get('log-1')).toBeUndefined());
+    expect(await db.log_photos.get('log-2')).toBeDefined();
+  });
+
+  it('prunes thumbnails whose log is gone', async () => {
+    await db.log_photos.add({ log_id: 'log-missing', thumbnail: 'data:image/jpeg;base64,AA', created_at: 1 });
+
+    expect(await pruneOrphanedLogPhotos()).toBe(1);
+    expect(await db.log_photos.toCollection().primaryKeys()).toEqual(['log-1', 'log-2']);
+  });
+});
@@ -0,0 +1,70 @@
+import { db } from './db';
+
+const UPLOAD_MAX_DIMENSION = 1024;
+const THUMBNAIL_MAX_DIMENSION = 160;
+const LABEL_MAX_DIMENSION = 1600;
+
+export interface MealPhoto {
+  image: string; // base64 JPEG without the data URL prefix
+  mimeType: 'image/jpeg';
+  thumbnail: string; // JPEG data URL
+}
+
+function drawScaled(bitmap: ImageBitmap, maxDimension: number, quality: number) {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not read the photo.');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+async function withBitmap<T>(file: Blob, draw: (bitmap: ImageBitmap) => T) {
+  if (!file.type.startsWith('image/')) throw new Error('Choose an image file.');
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    return draw(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+const toBase64 = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+/**
+ * Downscales a camera or gallery photo into a JPEG small enough for the edge function, plus a
+ * thumbnail to keep on the logged rows.
+ */
+export async function prepareMealPhoto(file: Blob): Promise<MealPhoto> {
+  return withBitmap(file, (bitmap) => ({
+    image: toBase64(drawScaled(bitmap, UPLOAD_MAX_DIMENSION, 0.8)),
+    mimeType: 'image/jpeg',
+    thumbnail: drawScaled(bitmap, THUMBNAIL_MAX_DIMENSION, 0.7)
+  }));
+}
+
+// Labels need more pixels than meals for the small print to stay legible.
+export async function prepareLabelPhoto(file: Blob): Promise<Omit<MealPhoto, 'thumbnail'>> {
+  return withBitmap(file, (bitmap) => ({
+    image: toBase64(drawScaled(bitmap, LABEL_MAX_DIMENSION, 0.85)),
+    mimeType: 'image/jpeg'
+  }));
+}
+
+/**
+ * Drops thumbnails whose log no longer exists. The logs delete hook keeps them in step; this
+ * catches any it missed. Returns how many were removed.
+ */
+export async function pruneOrphanedLogPhotos() {
+  return db.transaction('rw', [db.logs, db.log_photos], async () => {
+    const logIds = await db.log_photos.toCollection().primaryKeys();
+    const logs = await db.logs.bulkGet(logIds);
+    const orphanIds = logIds.filter((_, index) => !logs[index]);
+    if (orphanIds.length) await db.log_photos.bulkDelete(orphanIds);
+    return orphanIds.length;
+  });
+}
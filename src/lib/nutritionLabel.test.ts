@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { convertNutritionLabel } from './nutritionLabel';
+
+describe('convertNutritionLabel', () => {
+  it('uses a per-serving column as is when the serving has a weight', () => {
+    const scan = convertNutritionLabel({
+      serving_size: 40,
+      serving_unit: 'g',
+      per_serving: { calories: 150, protein: 5, carbs: 27, fat: 2.5, micros: { fiber: 4, unknown: 9 } },
+      confidence: { calories: 'high', protein: 'high' }
+    });
+
+    expect(scan).toMatchObject({ servingSize: 40, servingUnit: 'g', basis: 'per_serving' });
+    expect(scan.values.micros).toEqual({ fiber: 4 });
+    expect(scan.confidence).toMatchObject({ calories: 'high', protein: 'high' });
+  });
+
+  it('scales a per-100 column to the serving weight', () => {
+    const scan = convertNutritionLabel({
+      serving_size: 250,
+      serving_unit: 'ml',
+      per_100: { calories: 64, protein: 3.4, carbs: 4.8, fat: 3.6 }
+    });
+
+    expect(scan).toMatchObject({ servingSize: 250, servingUnit: 'ml', basis: 'per_100' });
+    expect(scan.values).toMatchObject({ calories: 160, protein: 8.5, carbs: 12, fat: 9 });
+  });
+
+  it('flags the serving size when a per-serving panel has no weight', () => {
+    const scan = convertNutritionLabel({ serving_unit: 'piece', per_serving: { calories: 90, protein: 2, carbs: 18, fat: 1 } });
+    expect(scan).toMatchObject({ servingSize: 0, servingUnit: 'serving' });
+    expect(scan.confidence.serving_size).toBe('low');
+  });
+
+  it('lowers confidence when label calories disagree with the macros', () => {
+    const scan = convertNutritionLabel({
+      serving_size: 100,
+      serving_unit: 'g',
+      per_serving: { calories: 400, protein: 10, carbs: 20, fat: 5 },
+      confidence: { calories: 'high', protein: 'high', carbs: 'low' }
+    });
+    expect(scan.confidence).toMatchObject({ calories: 'medium', protein: 'medium', carbs: 'low', fat: 'medium' });
+  });
+
+  it('rejects a photo without a panel', () => {
+    expect(() => convertNutritionLabel({})).toThrow('No nutrition panel');
+  });
+});
@@ -0,0 +1,125 @@
+import { MICRO_NUTRIENTS } from './constants';
+import { fetchGeminiNutritionLabel, type GeminiNutritionLabelColumn, type GeminiNutritionLabelPayload } from './gemini';
+import { prepareLabelPhoto } from './mealPhoto';
+
+export type LabelConfidence = 'high' | 'medium' | 'low';
+
+export interface NutritionLabelValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  micros: Record<string, number>; // MICRO_NUTRIENTS keys and units
+}
+
+export interface NutritionLabelScan {
+  servingSize: number;
+  servingUnit: 'g' | 'ml' | 'serving';
+  values: NutritionLabelValues; // for one servingSize of servingUnit
+  // Keyed by serving_size, calories, protein, carbs, fat and MICRO_NUTRIENTS keys.
+  confidence: Record<string, LabelConfidence>;
+  basis: 'per_serving' | 'per_100';
+}
+
+const MICRO_KEYS = new Set(MICRO_NUTRIENTS.map((nutrient) => nutrient.key));
+const CONFIDENCE_RANK: Record<LabelConfidence, number> = { low: 0, medium: 1, high: 2 };
+// Beyond this, label calories and 4/4/9 macro calories disagree enough to double-check both.
+const CALORIE_MISMATCH_RATIO = 0.15;
+
+const toPositiveNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const roundTo = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const toConfidence = (value: unknown): LabelConfidence =>
+  value === 'high' || value === 'medium' || value === 'low' ? value : 'medium';
+
+const lowerConfidence = (a: LabelConfidence, b: LabelConfidence) => (CONFIDENCE_RANK[a] <= CONFIDENCE_RANK[b] ? a : b);
+
+function readColumn(column: GeminiNutritionLabelColumn | null | undefined): NutritionLabelValues | null {
+  if (!column || typeof column !== 'object') return null;
+
+  const micros = Object.entries(column.micros || {}).reduce<Record<string, number>>((acc, [key, value]) => {
+    const amount = toPositiveNumber(value);
+    if (MICRO_KEYS.has(key) && amount) acc[key] = amount;
+    return acc;
+  }, {});
+
+  const values = {
+    calories: toPositiveNumber(column.calories),
+    protein: toPositiveNumber(column.protein),
+    carbs: toPositiveNumber(column.carbs),
+    fat: toPositiveNumber(column.fat),
+    micros
+  };
+  const hasAnyValue = values.calories || values.protein || values.carbs || values.fat || Object.keys(micros).length;
+  return hasAnyValue ? values : null;
+}
+
+function scaleValues(values: NutritionLabelValues, factor: number): NutritionLabelValues {
+  return {
+    calories: roundTo(values.calories * factor, 1),
+    protein: roundTo(values.protein * factor, 2),
+    carbs: roundTo(values.carbs * factor, 2),
+    fat: roundTo(values.fat * factor, 2),
+    micros: Object.fromEntries(Object.entries(values.micros).map(([key, value]) => [key, roundTo(value * factor, 3)]))
+  };
+}
+
+/**
+ * Turns the panel as read into one serving for the food form. A per-serving column is used as is
+ * when the serving has a weight; a per-100 column is scaled to that weight, or kept as a 100 g/ml
+ * serving when the label gives none. A per-serving-only panel without a weight keeps the values
+ * but flags the serving size, since the form needs grams per serving.
+ */
+export function convertNutritionLabel(payload: GeminiNutritionLabelPayload): NutritionLabelScan {
+  const perServing = readColumn(payload.per_serving);
+  const per100 = readColumn(payload.per_100);
+  if (!perServing && !per100) throw new Error('No nutrition panel found in that photo.');
+
+  const rawUnit = String(payload.serving_unit || '').trim().toLowerCase();
+  const weightUnit: 'g' | 'ml' = rawUnit === 'ml' ? 'ml' : 'g';
+  const servingWeight = rawUnit === 'g' || rawUnit === 'ml' ? toPositiveNumber(payload.serving_size) : 0;
+
+  const confidence = Object.entries(payload.confidence || {}).reduce<Record<string, LabelConfidence>>((acc, [key, value]) => {
+    acc[key] = toConfidence(value);
+    return acc;
+  }, {});
+
+  let scan: NutritionLabelScan;
+  if (perServing && servingWeight) {
+    scan = { servingSize: servingWeight, servingUnit: weightUnit, values: perServing, confidence, basis: 'per_serving' };
+  } else if (per100 && servingWeight) {
+    scan = { servingSize: servingWeight, servingUnit: weightUnit, values: scaleValues(per100, servingWeight / 100), confidence, basis: 'per_100' };
+  } else if (per100) {
+    scan = { servingSize: 100, servingUnit: weightUnit, values: per100, confidence, basis: 'per_100' };
+  } else {
+    scan = {
+      servingSize: 0,
+      servingUnit: 'serving',
+      values: perServing!,
+      confidence: { ...confidence, serving_size: 'low' },
+      basis: 'per_serving'
+    };
+  }
+
+  const { calories, protein, carbs, fat } = scan.values;
+  const macroCalories = protein * 4 + carbs * 4 + fat * 9;
+  if (calories > 0 && Math.abs(macroCalories - calories) / calories > CALORIE_MISMATCH_RATIO) {
+    (['calories', 'protein', 'carbs', 'fat'] as const).forEach((key) => {
+      scan.confidence[key] = lowerConfidence(scan.confidence[key] ?? 'medium', 'medium');
+    });
+  }
+
+  return scan;
+}
+
+export async function scanNutritionLabel(file: Blob): Promise<NutritionLabelScan> {
+  const photo = await prepareLabelPhoto(file);
+  return convertNutritionLabel(await fetchGeminiNutritionLabel(photo));
+}
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type WorkoutSet } from './db';
+import { clearPersonalRecordsForEntries, findNewRecords, recomputePersonalRecords, recordPersonalRecordsForSet } from './personalRecords';
+import { pruneUnfinishedSets, repairWorkoutDrafts } from './workoutSessions';
+
+const makeSet = (overrides: Partial<WorkoutSet>): WorkoutSet => ({
+  id: 'set',
+  workout_log_entry_id: 'entry',
+  set_number: 1,
+  completed: true,
+  ...overrides
+});
+
+describe('findNewRecords', () => {
+  it('sets no records without history', () => {
+    expect(findNewRecords(makeSet({ weight: 100, reps: 5 }), [], 'weight_reps')).toEqual([]);
+  });
+
+  it('reports only the records the set beats', () => {
+    const history = [makeSet({ id: 'a', weight: 100, reps: 5 }), makeSet({ id: 'b', weight: 80, reps: 10 })];
+    const records = findNewRecords(makeSet({ weight: 105, reps: 3 }), history, 'weight_reps');
+    expect(records.map((record) => record.record_type)).toEqual(['heaviest_weight']);
+    expect(records[0]).toMatchObject({ value: 105, previous_value: 100 });
+  });
+
+  it('compares rep records only against sets at the same weight or heavier', () => {
+    const history = [makeSet({ id: 'a', weight: 100, reps: 5 }), makeSet({ id: 'b', weight: 60, reps: 12 })];
+    const records = findNewRecords(makeSet({ weight: 100, reps: 6 }), history, 'weight_reps');
+    expect(records.find((record) => record.record_type === 'most_reps')).toMatchObject({ value: 6, previous_value: 5 });
+  });
+});
+
+describe('personal record cleanup', () => {
+  beforeEach(async () => {
+    await Promise.all([db.workouts.clear(), db.workout_log_entries.clear(), db.workout_sets.clear(), db.workout_personal_records.clear()]);
+    await db.workouts.bulkAdd([
+      { id: 'w1', user_id: 'local-user', start_time: '2026-01-01T10:00:00.000Z', end_time: '2026-01-01T11:00:00.000Z' },
+      { id: 'w2', user_id: 'local-user', start_time: '2026-01-08T10:00:00.000Z' }
+    ]);
+    await db.workout_log_entries.bulkAdd([
+      { id: 'e1', workout_id: 'w1', exercise_id: 'bench', sort_order: 1 },
+      { id: 'e2', workout_id: 'w2', exercise_id: 'bench', sort_order: 1 }
+    ]);
+    await db.workout_sets.bulkAdd([
+      makeSet({ id: 's1', workout_log_entry_id: 'e1', weight: 100, reps: 5 }),
+      makeSet({ id: 's2', workout_log_entry_id: 'e2', weight: 110, reps: 5 })
+    ]);
+    await recordPersonalRecordsForSet('s2');
+  });
+
+  it('stores records for a set that beats earlier sessions', async () => {
+    expect(await db.workout_personal_records.where('workout_set_id').equals('s2').count()).toBeGreaterThan(0);
+  });
+
+  it('clears the records of removed exercise entries', async () => {
+    await clearPersonalRecordsForEntries(['e2']);
+    expect(await db.workout_personal_records.count()).toBe(0);
+  });
+
+  it('clears the records of sets dropped as unfinished', async () => {
+    await db.workout_sets.update('s2', { completed: false });
+    await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_personal_records], async () => {
+      await pruneUnfinishedSets('w2');
+    });
+    expect(await db.workout_sets.get('s2')).toBeUndefined();
+    expect(await db.workout_personal_records.count()).toBe(0);
+  });
+
+  it('clears the records of orphaned sets during repair', async () => {
+    await db.workout_log_entries.delete('e2');
+    await repairWorkoutDrafts();
+    expect(await db.workout_sets.get('s2')).toBeUndefined();
+    expect(await db.workout_personal_records.count()).toBe(0);
+  });
+});
+
+describe('recomputePersonalRecords', () => {
+  const heaviestWeightSetIds = async () =>
+    (await db.workout_personal_records.toArray())
+      .filter((record) => record.record_type === 'heaviest_weight')
+      .map((record) => record.workout_set_id)
+      .sort();
+
+  beforeEach(async () => {
+    await Promise.all([db.workouts.clear(), db.workout_log_entries.clear(), db.workout_sets.clear(), db.workout_personal_records.clear()]);
+    await db.workouts.bulkAdd([
+      { id: 'w1', user_id: 'local-user', start_time: '2026-01-01T10:00:00.000Z', end_time: '2026-01-01T11:00:00.000Z' },
+      { id: 'w2', user_id: 'local-user', start_time: '2026-01-08T10:00:00.000Z', end_time: '2026-01-08T11:00:00.000Z' },
+      { id: 'w3', user_id: 'local-user', start_time: '2026-01-15T10:00:00.000Z' }
+    ]);
+    await db.workout_log_entries.bulkAdd([
+      { id: 'e1', workout_id: 'w1', exercise_id: 'bench', sort_order: 1 },
+      { id: 'e2', workout_id: 'w2', exercise_id: 'bench', sort_order: 1 },
+      { id: 'e3', workout_id: 'w3', exercise_id: 'bench', sort_order: 1 }
+    ]);
+    await db.workout_sets.bulkAdd([
+      makeSet({ id: 's1', workout_log_entry_id: 'e1', weight: 100, reps: 5 }),
+      makeSet({ id: 's2', workout_log_entry_id: 'e2', set_number: 1, weight: 105, reps: 5 }),
+      makeSet({ id: 's3', workout_log_entry_id: 'e2', set_number: 2, weight: 110, reps: 5 }),
+      makeSet({ id: 's4', workout_log_entry_id: 'e3', weight: 112, reps: 5 })
+    ]);
+    await recomputePersonalRecords(['bench'], '2026-01-01T10:00:00.000Z');
+  });
+
+  it('compares each set only with the sets done before it', async () => {
+    expect(await heaviestWeightSetIds()).toEqual(['s2', 's3', 's4']);
+  });
+
+  it('takes records from later sets and sessions an edited set now beats', async () => {
+    await db.workout_sets.update('s2', { weight: 115 });
+    await recordPersonalRecordsForSet('s2');
+
+    expect(await heaviestWeightSetIds()).toEqual(['s2']);
+    const [record] = await db.workout_personal_records.where({ workout_set_id: 's2' }).filter((item) => item.record_type === 'heaviest_weight').toArray();
+    expect(record).toMatchObject({ value: 115, previous_value: 100 });
+  });
+
+  it('hands records on to later sets when an earlier set is removed', async () => {
+    await db.workout_sets.update('s3', { weight: 130 });
+    await recordPersonalRecordsForSet('s3');
+    expect(await heaviestWeightSetIds()).toEqual(['s2', 's3']);
+
+    await db.workout_sets.delete('s3');
+    await recomputePersonalRecords(['bench'], '2026-01-08T10:00:00.000Z');
+    expect(await heaviestWeightSetIds()).toEqual(['s2', 's4']);
+  });
+
+  it('keeps records that still hold as they are', async () => {
+    const before = await db.workout_personal_records.where('workout_set_id').equals('s4').toArray();
+    await db.workout_sets.update('s3', { reps: 6 });
+    await recordPersonalRecordsForSet('s3');
+
+    const after = await db.workout_personal_records.where('workout_set_id').equals('s4').toArray();
+    expect(after.find((record) => record.record_type === 'heaviest_weight')?.id).toBe(
+      before.find((record) => record.record_type === 'heaviest_weight')?.id
+    );
+  });
+});
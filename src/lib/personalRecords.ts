@@ -0,0 +1,225 @@
+import { db, type PersonalRecordType, type WorkoutPersonalRecord, type WorkoutSet } from './db';
+import { generateId } from './index';
+import { estimateOneRepMax } from './progression';
+import { formatDistance, formatWeight, type UnitSystem } from './units';
+import { getMetricConfig } from './workouts';
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  heaviest_weight: 'Heaviest weight',
+  best_e1rm: 'Best est. 1RM',
+  most_reps: 'Most reps',
+  best_set_volume: 'Best set volume',
+  longest_duration: 'Longest duration',
+  longest_distance: 'Longest distance'
+};
+
+export interface PersonalRecordCandidate {
+  record_type: PersonalRecordType;
+  value: number;
+  previous_value: number;
+}
+
+export function getRecordTypesForMetric(metricType?: string): PersonalRecordType[] {
+  const config = getMetricConfig(metricType);
+  const types: PersonalRecordType[] = [];
+  if (config.weight) types.push('heaviest_weight');
+  if (config.weight && config.reps) types.push('best_e1rm', 'best_set_volume');
+  if (config.reps) types.push('most_reps');
+  if (config.duration) types.push('longest_duration');
+  if (config.distance) types.push('longest_distance');
+  return types;
+}
+
+function getSetRecordValue(set: WorkoutSet, type: PersonalRecordType, metricType?: string) {
+  const weight = Number(set.weight) || 0;
+  const reps = Number(set.reps) || 0;
+  switch (type) {
+    case 'heaviest_weight':
+      // A loaded set only counts once at least one rep was done with it.
+      return getMetricConfig(metricType).reps && reps <= 0 ? 0 : weight;
+    case 'best_e1rm':
+      return Math.round(estimateOneRepMax(weight, reps) * 10) / 10;
+    case 'most_reps':
+      return reps;
+    case 'best_set_volume':
+      return weight * reps;
+    case 'longest_duration':
+      return Number(set.duration_seconds) || 0;
+    case 'longest_distance':
+      return Number(set.distance) || 0;
+  }
+}
+
+/**
+ * Records a completed set beats against earlier sets of the same exercise. Rep records only
+ * compare against sets at the same weight or heavier.
+ */
+export function findNewRecords(set: WorkoutSet, history: WorkoutSet[], metricType?: string): PersonalRecordCandidate[] {
+  if (!history.length) return [];
+  const hasWeight = getMetricConfig(metricType).weight;
+
+  return getRecordTypesForMetric(metricType).flatMap((recordType) => {
+    const value = getSetRecordValue(set, recordType, metricType);
+    if (value <= 0) return [];
+
+    const comparable =
+      recordType === 'most_reps' && hasWeight
+        ? history.filter((previous) => (Number(previous.weight) || 0) >= (Number(set.weight) || 0))
+        : history;
+    if (!comparable.length) return [];
+
+    const previousValue = Math.max(...comparable.map((previous) => getSetRecordValue(previous, recordType, metricType)));
+    return value > previousValue + 1e-6 ? [{ record_type: recordType, value, previous_value: previousValue }] : [];
+  });
+}
+
+const recordKey = (record: Pick<WorkoutPersonalRecord, 'workout_set_id' | 'record_type'>) => `${record.workout_set_id}:${record.record_type}`;
+
+/**
+ * Re-detects the records of an exercise's sets from the given workout start onward, walking its
+ * history in order so a set is only compared with the sets done before it. Later sets gain or lose
+ * records when an earlier one is edited or removed; records that still hold are left untouched.
+ * An exercise's first session only sets the baseline.
+ */
+export async function recomputePersonalRecords(exerciseIds: string[], fromStartTime: string) {
+  await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_exercises_def, db.workout_personal_records], async () => {
+    for (const exerciseId of new Set(exerciseIds)) {
+      const entries = await db.workout_log_entries.where('exercise_id').equals(exerciseId).toArray();
+      const workouts = await db.workouts.where('id').anyOf([...new Set(entries.map((entry) => entry.workout_id))]).toArray();
+      const workoutById = new Map(workouts.map((workout) => [workout.id, workout]));
+      const orderedEntries = entries
+        .filter((entry) => workoutById.has(entry.workout_id))
+        .sort((a, b) => {
+          const workoutA = workoutById.get(a.workout_id)!;
+          const workoutB = workoutById.get(b.workout_id)!;
+          return (
+            workoutA.start_time.localeCompare(workoutB.start_time) ||
+            workoutA.id.localeCompare(workoutB.id) ||
+            a.sort_order - b.sort_order
+          );
+        });
+      const sets = orderedEntries.length
+        ? await db.workout_sets.where('workout_log_entry_id').anyOf(orderedEntries.map((entry) => entry.id)).toArray()
+        : [];
+      const definition = await db.workout_exercises_def.get(exerciseId);
+      const now = new Date();
+
+      const history: WorkoutSet[] = [];
+      let firstWorkoutId: string | null = null;
+      const records: WorkoutPersonalRecord[] = [];
+      for (const entry of orderedEntries) {
+        const workout = workoutById.get(entry.workout_id)!;
+        const entrySets = sets
+          .filter((set) => set.workout_log_entry_id === entry.id && set.completed && !set.is_warmup)
+          .sort((a, b) => a.set_number - b.set_number);
+
+        for (const set of entrySets) {
+          firstWorkoutId ??= workout.id;
+          if (workout.start_time >= fromStartTime && firstWorkoutId !== workout.id) {
+            // Sets ticked off while editing a finished workout count from the day it was done.
+            const achievedAt = workout.end_time ? workout.start_time : now.toISOString();
+            records.push(
+              ...findNewRecords(set, history, definition?.metric_type).map((candidate) => ({
+                ...candidate,
+                id: generateId(),
+                user_id: workout.user_id || 'local-user',
+                exercise_id: exerciseId,
+                workout_id: workout.id,
+                workout_set_id: set.id,
+                weight: set.weight,
+                reps: set.reps,
+                achieved_at: achievedAt,
+                created_at: now,
+                synced: 0
+              }))
+            );
+          }
+          history.push(set);
+        }
+      }
+
+      const inScope = (record: WorkoutPersonalRecord) => {
+        const workout = workoutById.get(record.workout_id);
+        return !workout || workout.start_time >= fromStartTime;
+      };
+      const stored = (await db.workout_personal_records.where('exercise_id').equals(exerciseId).toArray()).filter(inScope);
+      const storedByKey = new Map(stored.map((record) => [recordKey(record), record]));
+      const keptIds = new Set<string>();
+
+      for (const record of records) {
+        const existing = storedByKey.get(recordKey(record));
+        if (!existing) {
+          await db.workout_personal_records.add(record);
+          continue;
+        }
+        keptIds.add(existing.id);
+        if (
+          existing.value !== record.value ||
+          existing.previous_value !== record.previous_value ||
+          existing.weight !== record.weight ||
+          existing.reps !== record.reps
+        ) {
+          await db.workout_personal_records.update(existing.id, {
+            value: record.value,
+            previous_value: record.previous_value,
+            weight: record.weight,
+            reps: record.reps
+          });
+        }
+      }
+
+      const staleIds = stored.filter((record) => !keptIds.has(record.id)).map((record) => record.id);
+      if (staleIds.length) await db.workout_personal_records.bulkDelete(staleIds);
+    }
+  });
+}
+
+/**
+ * Re-checks records after a set is ticked, unticked or edited, including the later sets the
+ * change affects. Returns the records the set now holds.
+ */
+export async function recordPersonalRecordsForSet(setId: string): Promise<WorkoutPersonalRecord[]> {
+  const set = await db.workout_sets.get(setId);
+  const entry = set ? await db.workout_log_entries.get(set.workout_log_entry_id) : undefined;
+  const workout = entry ? await db.workouts.get(entry.workout_id) : undefined;
+  if (!entry || !workout) return [];
+
+  await recomputePersonalRecords([entry.exercise_id], workout.start_time);
+  return db.workout_personal_records.where('workout_set_id').equals(setId).toArray();
+}
+
+export async function clearPersonalRecordsForSets(setIds: string[]) {
+  if (!setIds.length) return;
+  await db.workout_personal_records.where('workout_set_id').anyOf(setIds).delete();
+}
+
+/**
+ * Clears the records held by every set of the given exercise entries. Call it before the sets
+ * themselves are deleted.
+ */
+export async function clearPersonalRecordsForEntries(entryIds: string[]) {
+  if (!entryIds.length) return;
+  const setIds = await db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).primaryKeys();
+  await clearPersonalRecordsForSets(setIds);
+}
+
+export async function clearPersonalRecordsForWorkout(workoutId: string) {
+  await db.workout_personal_records.where('workout_id').equals(workoutId).delete();
+}
+
+export function formatPersonalRecordValue(record: Pick<WorkoutPersonalRecord, 'record_type' | 'value' | 'weight'>, units: UnitSystem) {
+  switch (record.record_type) {
+    case 'heaviest_weight':
+    case 'best_e1rm':
+    case 'best_set_volume':
+      return formatWeight(record.value, units);
+    case 'most_reps':
+      return record.weight ? `${record.value} reps @ ${formatWeight(record.weight, units)}` : `${record.value} reps`;
+    case 'longest_duration': {
+      const minutes = Math.floor(record.value / 60);
+      return `${minutes}:${String(Math.round(record.value % 60)).padStart(2, '0')}`;
+    }
+    case 'longest_distance':
+      return formatDistance(record.value, units);
+  }
+}
@@ -0,0 +1,275 @@
+import { db, type WorkoutProgram, type WorkoutProgramWeek, type WorkoutRoutineSet } from './db';
+import { generateId } from './index';
+import { roundToPlates } from './autoregulation';
+import { createLoadRounder, getEquipmentProfile } from './equipment';
+import { startRoutineAsWorkout, type PlannedSet } from './routines';
+
+export type ProgramTemplateId = 'five_three_one' | 'linear' | 'custom';
+
+export type ProgramWeekPlan = Pick<
+  WorkoutProgramWeek,
+  'name' | 'intensity_modifier' | 'volume_modifier' | 'set_percents' | 'set_reps' | 'is_deload'
+>;
+
+export interface ProgramTemplate {
+  label: string;
+  description: string;
+  trainingMaxIncrement: number;
+  weeks: ProgramWeekPlan[];
+}
+
+export const PROGRAM_TEMPLATES: Record<ProgramTemplateId, ProgramTemplate> = {
+  five_three_one: {
+    label: '5/3/1',
+    description: 'Three waves off your training max, then a deload. Training maxes rise each cycle.',
+    trainingMaxIncrement: 2.5,
+    weeks: [
+      { name: '5s week', intensity_modifier: 1, volume_modifier: 1, set_percents: [65, 75, 85], set_reps: [5, 5, 5] },
+      { name: '3s week', intensity_modifier: 1, volume_modifier: 1, set_percents: [70, 80, 90], set_reps: [3, 3, 3] },
+      { name: '5/3/1 week', intensity_modifier: 1, volume_modifier: 1, set_percents: [75, 85, 95], set_reps: [5, 3, 1] },
+      { name: 'Deload', intensity_modifier: 1, volume_modifier: 1, set_percents: [40, 50, 60], set_reps: [5, 5, 5], is_deload: true }
+    ]
+  },
+  linear: {
+    label: 'Linear progression',
+    description: 'Load climbs every week, then a lighter deload week. Uses routine loads when an exercise has no training max.',
+    trainingMaxIncrement: 2.5,
+    weeks: [
+      { name: 'Week 1', intensity_modifier: 1, volume_modifier: 1, set_percents: [80, 80, 80], set_reps: [5, 5, 5] },
+      { name: 'Week 2', intensity_modifier: 1.025, volume_modifier: 1, set_percents: [82.5, 82.5, 82.5], set_reps: [5, 5, 5] },
+      { name: 'Week 3', intensity_modifier: 1.05, volume_modifier: 1, set_percents: [85, 85, 85], set_reps: [5, 5, 5] },
+      { name: 'Deload', intensity_modifier: 0.9, volume_modifier: 0.6, set_percents: [65, 65], set_reps: [5, 5], is_deload: true }
+    ]
+  },
+  custom: {
+    label: 'Custom',
+    description: 'Start from one week at routine loads and add your own weeks and modifiers.',
+    trainingMaxIncrement: 0,
+    weeks: [{ name: 'Week 1', intensity_modifier: 1, volume_modifier: 1, set_percents: [], set_reps: [] }]
+  }
+};
+
+export interface ProgramPosition {
+  week: number;
+  day: number;
+  cycle: number;
+  completesCycle: boolean;
+}
+
+/**
+ * Builds the sets for one exercise in a program week. Weeks with set percents work off the
+ * exercise's training max; without one (or without percents) the routine's sets are scaled.
+ */
+export function planProgramSets(
+  templateSets: WorkoutRoutineSet[],
+  week: ProgramWeekPlan,
+  trainingMax?: number,
+  roundLoad: (weight: number) => number = roundToPlates
+): PlannedSet[] {
+  const percents = week.set_percents ?? [];
+  const reference = templateSets[0];
+
+  if (percents.length && trainingMax && trainingMax > 0) {
+    return percents.map((percent, index) => ({
+      weight: roundLoad((trainingMax * percent) / 100),
+      reps: week.set_reps?.[index] ?? reference?.reps_max ?? reference?.reps_min
+    }));
+  }
+
+  if (!templateSets.length) return [];
+  const setCount = Math.max(1, Math.round(templateSets.length * (week.volume_modifier || 1)));
+  return Array.from({ length: setCount }, (_, index) => {
+    const templateSet = templateSets[Math.min(index, templateSets.length - 1)];
+    const weight = Number(templateSet.weight) || 0;
+    return {
+      weight: weight > 0 ? roundLoad(weight * (week.intensity_modifier || 1)) : templateSet.weight,
+      reps: templateSet.reps_max ?? templateSet.reps_min,
+      reps_min: templateSet.reps_min,
+      reps_max: templateSet.reps_max,
+      distance: templateSet.distance,
+      duration_seconds: templateSet.duration_seconds,
+      set_type: templateSet.set_type
+    };
+  });
+}
+
+export function getFollowingProgramPosition(program: WorkoutProgram, weekCount: number): ProgramPosition {
+  const dayCount = Math.max(1, program.routine_ids.length);
+  if (program.next_day < dayCount) {
+    return { week: program.next_week, day: program.next_day + 1, cycle: program.cycle, completesCycle: false };
+  }
+  if (program.next_week < Math.max(1, weekCount)) {
+    return { week: program.next_week + 1, day: 1, cycle: program.cycle, completesCycle: false };
+  }
+  return { week: 1, day: 1, cycle: program.cycle + 1, completesCycle: true };
+}
+
+export async function getProgramWeeks(programId: string) {
+  return db.workout_program_weeks.where('program_id').equals(programId).sortBy('week_number');
+}
+
+export async function getTrainingMaxes(userId: string) {
+  const rows = await db.workout_training_maxes.where('user_id').equals(userId).toArray();
+  return rows.reduce<Record<string, number>>((acc, row) => {
+    acc[row.exercise_id] = row.training_max;
+    return acc;
+  }, {});
+}
+
+export async function setTrainingMax(userId: string, exerciseId: string, trainingMax: number) {
+  const normalized = Math.max(0, Math.round(trainingMax * 100) / 100);
+  const now = new Date();
+  const existing = await db.workout_training_maxes
+    .where('[user_id+exercise_id]')
+    .equals([userId, exerciseId])
+    .first();
+
+  if (existing) {
+    await db.workout_training_maxes.update(existing.id, { training_max: normalized, updated_at: now, synced: 0 });
+    return;
+  }
+
+  await db.workout_training_maxes.add({
+    id: generateId(),
+    user_id: userId,
+    exercise_id: exerciseId,
+    training_max: normalized,
+    created_at: now,
+    updated_at: now,
+    synced: 0
+  });
+}
+
+/**
+ * Saves a program and replaces its weeks. Returns the program id.
+ */
+export async function saveProgram(
+  program: Pick<WorkoutProgram, 'name' | 'routine_ids' | 'training_max_increment'> & { id?: string; user_id?: string },
+  weeks: ProgramWeekPlan[]
+) {
+  const programId = program.id || generateId();
+  const userId = program.user_id || 'local-user';
+  const now = new Date();
+
+  await db.transaction('rw', [db.workout_programs, db.workout_program_weeks], async () => {
+    const existing = await db.workout_programs.get(programId);
+    if (existing) {
+      await db.workout_programs.update(programId, {
+        name: program.name.trim() || 'Program',
+        routine_ids: program.routine_ids,
+        training_max_increment: program.training_max_increment,
+        next_week: Math.min(existing.next_week, Math.max(1, weeks.length)),
+        next_day: Math.min(existing.next_day, Math.max(1, program.routine_ids.length)),
+        updated_at: now,
+        synced: 0
+      });
+    } else {
+      await db.workout_programs.add({
+        id: programId,
+        user_id: userId,
+        name: program.name.trim() || 'Program',
+        routine_ids: program.routine_ids,
+        next_week: 1,
+        next_day: 1,
+        cycle: 1,
+        training_max_increment: program.training_max_increment,
+        created_at: now,
+        updated_at: now,
+        synced: 0
+      });
+    }
+
+    const existingWeeks = await getProgramWeeks(programId);
+    for (let index = 0; index < Math.max(existingWeeks.length, weeks.length); index += 1) {
+      const current = existingWeeks[index];
+      const plan = weeks[index];
+      if (!plan) {
+        await db.workout_program_weeks.delete(current.id);
+      } else if (current) {
+        await db.workout_program_weeks.update(current.id, { ...plan, week_number: index + 1, updated_at: now, synced: 0 });
+      } else {
+        await db.workout_program_weeks.add({
+          ...plan,
+          id: generateId(),
+          user_id: userId,
+          program_id: programId,
+          week_number: index + 1,
+          created_at: now,
+          updated_at: now,
+          synced: 0
+        });
+      }
+    }
+  });
+
+  return programId;
+}
+
+export async function deleteProgram(programId: string) {
+  await db.transaction('rw', [db.workout_programs, db.workout_program_weeks], async () => {
+    await db.workout_program_weeks.where('program_id').equals(programId).delete();
+    await db.workout_programs.delete(programId);
+  });
+}
+
+/**
+ * Starts the program's next scheduled session with loads planned from the current week and
+ * training maxes, then moves the program on to the following day.
+ */
+export async function startNextProgramSession(programId: string): Promise<string> {
+  const program = await db.workout_programs.get(programId);
+  if (!program) {
+    throw new Error('Program not found');
+  }
+
+  const weeks = await getProgramWeeks(programId);
+  if (!program.routine_ids.length || !weeks.length) {
+    throw new Error('Add at least one routine and one week to this program.');
+  }
+
+  const week = weeks[Math.min(program.next_week, weeks.length) - 1];
+  const day = Math.min(program.next_day, program.routine_ids.length);
+  const routineId = program.routine_ids[day - 1];
+  const routine = await db.workout_routines.get(routineId);
+  if (!routine) {
+    throw new Error('A routine in this program no longer exists. Edit the program to replace it.');
+  }
+
+  const trainingMaxes = await getTrainingMaxes(program.user_id);
+  const equipmentProfile = await getEquipmentProfile();
+  const routineEntries = await db.workout_routine_entries.where('routine_id').equals(routineId).toArray();
+  const definitions = await db.workout_exercises_def.bulkGet(routineEntries.map((entry) => entry.exercise_id));
+  const equipmentByExercise = new Map(definitions.map((def) => [def?.id, def?.equipment]));
+  const workoutId = await startRoutineAsWorkout(routineId, {
+    name: `${routine.name || 'Workout'} · ${program.name} W${week.week_number}D${day}`,
+    planSets: (exerciseId, templateSets) =>
+      planProgramSets(
+        templateSets,
+        week,
+        trainingMaxes[exerciseId],
+        createLoadRounder(equipmentByExercise.get(exerciseId), equipmentProfile)
+      )
+  });
+
+  const following = getFollowingProgramPosition({ ...program, next_day: day }, weeks.length);
+  await db.transaction('rw', [db.workout_programs, db.workout_training_maxes, db.workout_routine_entries], async () => {
+    await db.workout_programs.update(programId, {
+      next_week: following.week,
+      next_day: following.day,
+      cycle: following.cycle,
+      last_workout_id: workoutId,
+      updated_at: new Date(),
+      synced: 0
+    });
+
+    if (!following.completesCycle || !(program.training_max_increment > 0)) return;
+    const entries = await db.workout_routine_entries.where('routine_id').anyOf(program.routine_ids).toArray();
+    const exerciseIds = new Set(entries.map((entry) => entry.exercise_id));
+    for (const exerciseId of exerciseIds) {
+      const current = trainingMaxes[exerciseId];
+      if (current > 0) await setTrainingMax(program.user_id, exerciseId, current + program.training_max_increment);
+    }
+  });
+
+  return workoutId;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkoutSet } from './db';
+import { estimateOneRepMax, isPlateaued, suggestNextTargets } from './progression';
+
+const makeSet = (overrides: Partial<WorkoutSet>): WorkoutSet => ({
+  id: 'set',
+  workout_log_entry_id: 'entry',
+  set_number: 1,
+  completed: true,
+  ...overrides
+});
+
+describe('estimateOneRepMax', () => {
+  it('uses Epley and takes singles at face value', () => {
+    expect(estimateOneRepMax(100, 5)).toBeCloseTo(116.67, 2);
+    expect(estimateOneRepMax(100, 1)).toBe(100);
+    expect(estimateOneRepMax(0, 5)).toBe(0);
+  });
+});
+
+describe('suggestNextTargets', () => {
+  it('adds weight once every working set reached the top of its range', () => {
+    const result = suggestNextTargets('weight_reps', [
+      makeSet({ weight: 40, reps: 5, is_warmup: true }),
+      makeSet({ weight: 100, reps: 10, reps_min: 8, reps_max: 10 }),
+      makeSet({ weight: 100, reps: 10, reps_min: 8, reps_max: 10 }),
+      makeSet({ weight: 70, reps: 6, set_type: 'dropset' })
+    ]);
+
+    expect(result?.targets).toEqual([
+      { weight: 102.5, reps: 8, reps_min: 8, reps_max: 10 },
+      { weight: 102.5, reps: 8, reps_min: 8, reps_max: 10 }
+    ]);
+    expect(result?.summary).toContain('every set reached 10 reps');
+  });
+
+  it('adds a rep per set, capped at the top of the range, until then', () => {
+    const result = suggestNextTargets('weight_reps', [
+      makeSet({ weight: 100, reps: 9, reps_min: 8, reps_max: 10 }),
+      makeSet({ weight: 100, reps: 10, reps_min: 8, reps_max: 10 })
+    ]);
+    expect(result?.targets.map((target) => [target.weight, target.reps])).toEqual([
+      [100, 10],
+      [100, 10]
+    ]);
+  });
+
+  it('extends timed work and skips sessions without working sets', () => {
+    expect(suggestNextTargets('duration', [makeSet({ duration_seconds: 60 })])?.targets).toEqual([
+      { weight: undefined, duration_seconds: 65 }
+    ]);
+    expect(suggestNextTargets('weight_reps', [makeSet({ weight: 40, reps: 5, is_warmup: true })])).toBeNull();
+  });
+});
+
+describe('isPlateaued', () => {
+  const session = (weight: number) => [makeSet({ weight, reps: 5 })];
+
+  it('flags when the latest sessions never beat the earlier best', () => {
+    expect(isPlateaued([session(100), session(100), session(95), session(100)])).toBe(true);
+    expect(isPlateaued([session(102.5), session(100), session(95), session(100)])).toBe(false);
+  });
+
+  it('needs more sessions than the window', () => {
+    expect(isPlateaued([session(90), session(90), session(90)])).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { db, type Workout, type WorkoutSet } from './db';
+import type { MetricType } from './workouts';
+import { createLoadRounder, getEquipmentProfile } from './equipment';
+import { formatWeight, getUnitSystem, type UnitSystem } from './units';
+
+const WEIGHT_INCREMENT_KG = 2.5;
+const DURATION_INCREASE_RATIO = 0.1;
+const DISTANCE_INCREASE_RATIO = 0.05;
+// Sessions without a new best e1RM before an exercise is flagged as plateaued.
+export const PLATEAU_SESSION_COUNT = 3;
+
+export type SetTarget = Pick<WorkoutSet, 'weight' | 'reps' | 'reps_min' | 'reps_max' | 'distance' | 'duration_seconds'>;
+
+export interface ExerciseProgression {
+  targets: SetTarget[];
+  summary: string;
+  plateau: boolean;
+  bestOneRepMax: number | null;
+}
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/**
+ * Epley estimate; a single rep is taken at face value.
+ */
+export function estimateOneRepMax(weight?: number, reps?: number) {
+  const safeWeight = Number(weight) || 0;
+  const safeReps = Number(reps) || 0;
+  if (safeWeight <= 0 || safeReps <= 0) return 0;
+  if (safeReps === 1) return safeWeight;
+  return safeWeight * (1 + safeReps / 30);
+}
+
+export function getBestOneRepMax(sets: WorkoutSet[]) {
+  return sets.reduce((best, set) => Math.max(best, estimateOneRepMax(set.weight, set.reps)), 0);
+}
+
+const getWorkingSets = (sets: WorkoutSet[]) =>
+  sets.filter((set) => set.completed !== false && !set.is_warmup && set.set_type !== 'dropset');
+
+/**
+ * Proposes next session's targets from last session's working sets: add weight once every set
+ * reached the top of its rep range, otherwise add reps; timed and distance work is extended.
+ */
+export function suggestNextTargets(
+  metricType: string | undefined,
+  previousSets: WorkoutSet[],
+  roundLoad: (weight: number) => number = (weight) => roundTo(weight, 0.5),
+  units: UnitSystem = 'metric'
+): { targets: SetTarget[]; summary: string } | null {
+  const workingSets = getWorkingSets(previousSets);
+  if (!workingSets.length) return null;
+
+  const type = (metricType || 'weight_reps') as MetricType;
+  const keepRange = (set: WorkoutSet) => ({ reps_min: set.reps_min, reps_max: set.reps_max });
+
+  switch (type) {
+    case 'weight_reps':
+    case 'weighted_bodyweight': {
+      const hasRange = workingSets.every((set) => Number(set.reps_max) > 0);
+      const allHitTop = hasRange && workingSets.every((set) => (Number(set.reps) || 0) >= Number(set.reps_max));
+      if (allHitTop) {
+        const targets = workingSets.map((set) => ({
+          ...keepRange(set),
+          weight: roundLoad((Number(set.weight) || 0) + WEIGHT_INCREMENT_KG),
+          reps: set.reps_min ?? set.reps_max
+        }));
+        const increment = targets[0].weight - (Number(workingSets[0].weight) || 0);
+        return {
+          targets,
+          summary: `+${formatWeight(increment, units)} — every set reached ${workingSets[0].reps_max} reps`
+        };
+      }
+      return {
+        targets: workingSets.map((set) => {
+          const nextReps = (Number(set.reps) || 0) + 1;
+          return {
+            ...keepRange(set),
+            weight: set.weight,
+            reps: set.reps_max ? Math.min(nextReps, Number(set.reps_max)) : nextReps
+          };
+        }),
+        summary: hasRange ? '+1 rep per set until the top of the range' : '+1 rep per set'
+      };
+    }
+    case 'reps_only':
+      return {
+        targets: workingSets.map((set) => ({ ...keepRange(set), reps: (Number(set.reps) || 0) + 1 })),
+        summary: '+1 rep per set'
+      };
+    case 'duration':
+    case 'duration_weight':
+      return {
+        targets: workingSets.map((set) => {
+          const seconds = Number(set.duration_seconds) || 0;
+          return {
+            weight: set.weight,
+            duration_seconds: seconds + Math.max(5, roundTo(seconds * DURATION_INCREASE_RATIO, 5))
+          };
+        }),
+        summary: `+${DURATION_INCREASE_RATIO * 100}% time`
+      };
+    case 'distance_duration':
+    case 'distance_weight':
+      return {
+        targets: workingSets.map((set) => {
+          const distance = Number(set.distance) || 0;
+          return {
+            weight: set.weight,
+            duration_seconds: set.duration_seconds,
+            distance: Math.round((distance + Math.max(0.1, distance * DISTANCE_INCREASE_RATIO)) * 10) / 10
+          };
+        }),
+        summary: `+${DISTANCE_INCREASE_RATIO * 100}% distance`
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Plateaued when none of the latest sessions beat the best e1RM set before them.
+ * Sessions are ordered most recent first.
+ */
+export function isPlateaued(sessions: WorkoutSet[][], sessionCount = PLATEAU_SESSION_COUNT) {
+  if (sessions.length <= sessionCount) return false;
+  const recentBest = Math.max(...sessions.slice(0, sessionCount).map((sets) => getBestOneRepMax(getWorkingSets(sets))));
+  const earlierBest = Math.max(...sessions.slice(sessionCount).map((sets) => getBestOneRepMax(getWorkingSets(sets))));
+  return earlierBest > 0 && recentBest <= earlierBest;
+}
+
+/**
+ * Loads the finished sessions before `beforeDate` for each exercise (most recent first, sets ordered).
+ */
+export async function getRecentExerciseSessions(
+  exerciseIds: string[],
+  beforeDate: string,
+  limit = PLATEAU_SESSION_COUNT + 1
+): Promise<Record<string, WorkoutSet[][]>> {
+  if (!exerciseIds.length) return {};
+
+  const entries = await db.workout_log_entries.where('exercise_id').anyOf(exerciseIds).toArray();
+  if (!entries.length) return {};
+
+  const workouts = await db.workouts.where('id').anyOf([...new Set(entries.map((entry) => entry.workout_id))]).toArray();
+  const workoutById = new Map<string, Workout>(workouts.map((workout) => [workout.id, workout]));
+
+  const entriesByExercise = new Map<string, typeof entries>();
+  entries.forEach((entry) => {
+    const workout = workoutById.get(entry.workout_id);
+    if (!workout?.end_time || workout.start_time >= beforeDate) return;
+    entriesByExercise.set(entry.exercise_id, [...(entriesByExercise.get(entry.exercise_id) ?? []), entry]);
+  });
+
+  const selectedEntries = [...entriesByExercise.values()].flatMap((exerciseEntries) =>
+    exerciseEntries
+      .sort((a, b) => (workoutById.get(b.workout_id)?.start_time || '').localeCompare(workoutById.get(a.workout_id)?.start_time || ''))
+      .slice(0, limit)
+  );
+  if (!selectedEntries.length) return {};
+
+  const sets = await db.workout_sets.where('workout_log_entry_id').anyOf(selectedEntries.map((entry) => entry.id)).toArray();
+  const setsByEntryId = sets.reduce<Record<string, WorkoutSet[]>>((acc, set) => {
+    if (!acc[set.workout_log_entry_id]) acc[set.workout_log_entry_id] = [];
+    acc[set.workout_log_entry_id].push(set);
+    return acc;
+  }, {});
+
+  return selectedEntries.reduce<Record<string, WorkoutSet[][]>>((acc, entry) => {
+    const entrySets = (setsByEntryId[entry.id] || []).sort((a, b) => a.set_number - b.set_number);
+    if (!entrySets.length) return acc;
+    if (!acc[entry.exercise_id]) acc[entry.exercise_id] = [];
+    acc[entry.exercise_id].push(entrySets);
+    return acc;
+  }, {});
+}
+
+export async function getExerciseProgressions(
+  exercises: { exercise_id: string; metric_type?: string; equipment?: string }[],
+  beforeDate: string
+): Promise<Record<string, ExerciseProgression>> {
+  const sessionsByExercise = await getRecentExerciseSessions(exercises.map((exercise) => exercise.exercise_id), beforeDate);
+  const equipmentProfile = await getEquipmentProfile();
+  const units = await getUnitSystem();
+
+  return exercises.reduce<Record<string, ExerciseProgression>>((acc, { exercise_id, metric_type, equipment }) => {
+    const sessions = sessionsByExercise[exercise_id];
+    const suggestion = sessions?.length
+      ? suggestNextTargets(metric_type, sessions[0], createLoadRounder(equipment, equipmentProfile), units)
+      : null;
+    if (!suggestion) return acc;
+
+    const tracksOneRepMax = !metric_type || metric_type === 'weight_reps' || metric_type === 'weighted_bodyweight';
+    const bestOneRepMax = tracksOneRepMax ? Math.max(...sessions.map((sets) => getBestOneRepMax(getWorkingSets(sets)))) : 0;
+    acc[exercise_id] = {
+      ...suggestion,
+      plateau: tracksOneRepMax && isPlateaued(sessions),
+      bestOneRepMax: bestOneRepMax > 0 ? Math.round(bestOneRepMax * 10) / 10 : null
+    };
+    return acc;
+  }, {});
+}
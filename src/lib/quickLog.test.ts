@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type Food } from './db';
+import { buildQuickLogDraft, matchLocalFood, withLocalFood, withProposedFood } from './quickLog';
+
+const makeFood = (id: string, name: string, overrides: Partial<Food> = {}): Food => ({
+  id,
+  user_id: 'local-user',
+  name,
+  calories: 100,
+  protein: 5,
+  carbs: 10,
+  fat: 3,
+  serving_size: 100,
+  serving_unit: 'g',
+  is_recipe: false,
+  ...overrides
+});
+
+describe('matchLocalFood', () => {
+  const foods = [makeFood('a', 'Chocolate milk'), makeFood('b', 'Banana'), makeFood('c', 'Skim milk')];
+
+  it('prefers an exact singularised name', () => {
+    expect(matchLocalFood('bananas', foods, new Map())?.id).toBe('b');
+  });
+
+  it('falls back to the most-logged food containing the name as whole words', () => {
+    expect(matchLocalFood('milk', foods, new Map([['a', 5]]))?.id).toBe('a');
+    expect(matchLocalFood('milk', foods, new Map([['c', 2]]))?.id).toBe('c');
+    expect(matchLocalFood('mil', foods, new Map())).toBeNull();
+  });
+});
+
+describe('buildQuickLogDraft', () => {
+  beforeEach(async () => {
+    await Promise.all([db.foods.clear(), db.logs.clear()]);
+    await db.foods.add(makeFood('choc', 'Chocolate milk'));
+  });
+
+  it('keeps the proposed food on matched items so a wrong match can be swapped', async () => {
+    const draft = await buildQuickLogDraft(
+      { meal: 'Breakfast', items: [{ name: 'milk', quantity: 250, unit: 'ml', calories: 120, protein: 8, carbs: 12, fat: 5 }] },
+      [{ id: 'breakfast', name: 'Breakfast' }],
+      'user-1',
+      'text'
+    );
+
+    const [item] = draft.items;
+    expect(draft.mealId).toBe('breakfast');
+    expect(item).toMatchObject({ isNew: false, food: { id: 'choc' } });
+
+    const swapped = withProposedFood(item);
+    expect(swapped).toMatchObject({ isNew: true, amount: 1, food: { name: 'Milk', calories: 120, serving_size: 250, serving_unit: 'ml' } });
+
+    const picked = withLocalFood(swapped, makeFood('skim', 'Skim milk', { serving_size: 200, serving_unit: 'ml' }));
+    expect(picked).toMatchObject({ isNew: false, amount: 1.25, food: { id: 'skim' } });
+  });
+
+  it('rejects a reply without foods', async () => {
+    await expect(buildQuickLogDraft({ items: [] }, [], 'user-1', 'photo')).rejects.toThrow('No foods recognised');
+  });
+});
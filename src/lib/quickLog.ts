@@ -0,0 +1,262 @@
+import { db, type DailyLog, type Food } from './db';
+import { fetchGeminiMealPhoto, fetchGeminiQuickLog, type GeminiQuickLogPayload } from './gemini';
+import { generateId } from './index';
+import { convertFoodAmount } from './units';
+
+const WEIGHT_BASED_REGEX = /^(g|ml|oz|fl oz)$/i;
+
+export type QuickLogSource = 'text' | 'photo';
+
+const AI_NOTES_BY_SOURCE: Record<QuickLogSource, string> = {
+  text: 'Estimated by Gemini from a quick log entry. Check the values before relying on them.',
+  photo: 'Estimated by Gemini from a meal photo. Check the values before relying on them.'
+};
+
+export interface QuickLogMealOption {
+  id: string;
+  name: string;
+}
+
+export interface QuickLogItem {
+  key: string;
+  // What the text said, e.g. "2 piece roti".
+  parsedLabel: string;
+  parsed: ParsedQuickLogItem;
+  food: Food;
+  // True when `food` is the proposed new one rather than a local food.
+  isNew: boolean;
+  amount: number; // Multiplier of the food's serving size
+  // Gemini's estimate as a new food, kept so a wrong match can be swapped for it.
+  proposed: { food: Food; amount: number };
+}
+
+export interface QuickLogDraft {
+  mealId: string | null;
+  items: QuickLogItem[];
+}
+
+export interface QuickLogTarget {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  mealType: string;
+  mealTime?: string;
+  // Local-only thumbnail attached to every logged row.
+  photoThumbnail?: string;
+}
+
+export interface ParsedQuickLogItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  grams: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+const toPositiveNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const roundTo2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeFoodName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (word.endsWith('ies') ? `${word.slice(0, -3)}y` : word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word))
+    .join(' ');
+
+const formatClockTime = (date: Date) => `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+function parseQuickLogItems(items: unknown): ParsedQuickLogItem[] {
+  if (!Array.isArray(items)) return [];
+
+  return items
+    .map((item) => {
+      const record = (item || {}) as Record<string, unknown>;
+      return {
+        name: String(record.name || '').trim(),
+        quantity: toPositiveNumber(record.quantity) || 1,
+        unit: String(record.unit || '').trim().toLowerCase() || 'serving',
+        grams: toPositiveNumber(record.grams),
+        calories: toPositiveNumber(record.calories),
+        protein: toPositiveNumber(record.protein),
+        carbs: toPositiveNumber(record.carbs),
+        fat: toPositiveNumber(record.fat)
+      };
+    })
+    .filter((item) => item.name);
+}
+
+/**
+ * Best local food for a parsed name: an exact (singularised) name match, else the most-logged
+ * food whose name contains it as whole words, shortest name first on ties.
+ */
+export function matchLocalFood(name: string, foods: Food[], usageByFoodId: Map<string, number>): Food | null {
+  const target = normalizeFoodName(name);
+  if (!target) return null;
+
+  const exact = foods.filter((food) => normalizeFoodName(food.name) === target);
+  const candidates = exact.length
+    ? exact
+    : foods.filter((food) => ` ${normalizeFoodName(food.name)} `.includes(` ${target} `));
+
+  return (
+    candidates.sort(
+      (a, b) => (usageByFoodId.get(b.id) || 0) - (usageByFoodId.get(a.id) || 0) || a.name.length - b.name.length
+    )[0] ?? null
+  );
+}
+
+/**
+ * Servings of `food` that make up the parsed quantity. Falls back to the quantity itself when the
+ * units can't be compared (e.g. "2 piece" against a 100 g serving without a weight estimate).
+ */
+function getServingsForFood(food: Food, item: ParsedQuickLogItem) {
+  const servingSize = Number(food.serving_size) > 0 ? Number(food.serving_size) : 0;
+  const servingUnit = (food.serving_unit || '').trim().toLowerCase();
+  if (!servingSize || !WEIGHT_BASED_REGEX.test(servingUnit)) return Math.max(0.01, roundTo2(item.quantity));
+
+  if (WEIGHT_BASED_REGEX.test(item.unit)) {
+    return Math.max(0.01, roundTo2(convertFoodAmount(item.quantity, item.unit, servingUnit) / servingSize));
+  }
+  if (item.grams > 0) return Math.max(0.01, roundTo2(item.grams / servingSize));
+  return Math.max(0.01, roundTo2(item.quantity));
+}
+
+/**
+ * A new food from Gemini's estimate. Weighed items keep the parsed amount as one serving;
+ * counted ones ("2 roti") get one unit per serving so the quantity stays editable.
+ */
+function buildProposedFood(item: ParsedQuickLogItem, userId: string, source: QuickLogSource): { food: Food; amount: number } {
+  const isWeighed = WEIGHT_BASED_REGEX.test(item.unit);
+  const divisor = isWeighed ? 1 : item.quantity;
+  const now = new Date();
+
+  return {
+    food: {
+      id: generateId(),
+      user_id: userId,
+      name: item.name.replace(/^\w/, (char) => char.toUpperCase()),
+      brand: 'AI Estimate',
+      calories: Math.round(item.calories / divisor),
+      protein: roundTo2(item.protein / divisor),
+      carbs: roundTo2(item.carbs / divisor),
+      fat: roundTo2(item.fat / divisor),
+      serving_size: isWeighed ? item.quantity : 1,
+      serving_unit: item.unit,
+      micros: {},
+      is_recipe: false,
+      ai_notes: AI_NOTES_BY_SOURCE[source],
+      created_at: now,
+      updated_at: now,
+      synced: 0
+    },
+    amount: isWeighed ? 1 : roundTo2(item.quantity)
+  };
+}
+
+/**
+ * Points a draft item at a local food, re-working the servings from what was parsed.
+ */
+export function withLocalFood(item: QuickLogItem, food: Food): QuickLogItem {
+  return { ...item, food, isNew: false, amount: getServingsForFood(food, item.parsed) };
+}
+
+export function withProposedFood(item: QuickLogItem): QuickLogItem {
+  return { ...item, food: item.proposed.food, isNew: true, amount: item.proposed.amount };
+}
+
+/**
+ * Turns a `quick_log` or `meal_photo` reply into an editable draft: items that match a local food
+ * use it, the rest get a proposed food that is only saved with the log. Every item keeps its
+ * proposed food so the sheet can switch between the two.
+ */
+export async function buildQuickLogDraft(
+  payload: GeminiQuickLogPayload,
+  meals: QuickLogMealOption[],
+  userId: string,
+  source: QuickLogSource
+): Promise<QuickLogDraft> {
+  const parsedItems = parseQuickLogItems(payload.items);
+  if (!parsedItems.length) {
+    throw new Error(source === 'photo' ? 'No foods recognised in that photo.' : 'No foods found in that text. Try naming each food.');
+  }
+
+  const [foods, logs] = await Promise.all([db.foods.toArray(), db.logs.toArray()]);
+  const usageByFoodId = logs.reduce<Map<string, number>>((acc, log) => acc.set(log.food_id, (acc.get(log.food_id) || 0) + 1), new Map());
+
+  const items = parsedItems.map((item): QuickLogItem => {
+    const proposed = buildProposedFood(item, userId, source);
+    const draftItem = {
+      key: generateId(),
+      parsedLabel: `${item.quantity} ${item.unit} ${item.name}`,
+      parsed: item,
+      proposed,
+      food: proposed.food,
+      isNew: true,
+      amount: proposed.amount
+    };
+    const match = matchLocalFood(item.name, foods, usageByFoodId);
+    return match ? withLocalFood(draftItem, match) : draftItem;
+  });
+
+  const mealKey = String(payload.meal || '').trim().toLowerCase();
+  const meal = mealKey
+    ? meals.find((option) => option.id.toLowerCase() === mealKey || option.name.toLowerCase() === mealKey)
+    : undefined;
+
+  return { mealId: meal?.id ?? null, items };
+}
+
+export async function parseQuickLog(text: string, meals: QuickLogMealOption[], userId: string): Promise<QuickLogDraft> {
+  const payload = await fetchGeminiQuickLog({ text, meals, localTime: formatClockTime(new Date()) });
+  return buildQuickLogDraft(payload, meals, userId, 'text');
+}
+
+export async function parseMealPhoto(
+  photo: { image: string; mimeType: string },
+  meals: QuickLogMealOption[],
+  userId: string
+): Promise<QuickLogDraft> {
+  const payload = await fetchGeminiMealPhoto({ ...photo, meals, localTime: formatClockTime(new Date()) });
+  return buildQuickLogDraft(payload, meals, userId, 'photo');
+}
+
+/**
+ * Saves proposed foods, one DailyLog row per item and any photo thumbnail in a single transaction.
+ * Returns the number of rows logged.
+ */
+export async function saveQuickLog(items: QuickLogItem[], { userId, date, mealType, mealTime, photoThumbnail }: QuickLogTarget) {
+  const now = new Date();
+  const itemsToLog = items.filter((item) => item.amount > 0 && item.food.name.trim());
+
+  await db.transaction('rw', [db.foods, db.logs, db.log_photos], async () => {
+    const newFoods = itemsToLog.filter((item) => item.isNew).map((item) => ({ ...item.food, name: item.food.name.trim() }));
+    if (newFoods.length) await db.foods.bulkAdd(newFoods);
+
+    const rows: DailyLog[] = itemsToLog.map((item) => ({
+      id: generateId(),
+      user_id: userId,
+      date,
+      meal_type: mealType,
+      meal_time: mealTime || formatClockTime(now),
+      food_id: item.food.id,
+      amount_consumed: item.amount,
+      synced: 0,
+      created_at: now
+    }));
+    await db.logs.bulkAdd(rows);
+
+    if (photoThumbnail) {
+      await db.log_photos.bulkPut(rows.map((row) => ({ log_id: row.id, thumbnail: photoThumbnail, created_at: now.getTime() })));
+    }
+  });
+
+  return itemsToLog.length;
+}
@@ -0,0 +1,22 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { isReminderScheduledOn, toLocalDateKey } from './reminders';
+
+describe('reminder days', () => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'Pacific/Auckland';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('keys the day on the local date, like the weekday check', () => {
+    // 08:00 in Auckland is still the previous day in UTC.
+    const morning = new Date(2026, 2, 2, 8, 0);
+    expect(morning.toISOString().startsWith('2026-03-01')).toBe(true);
+    expect(toLocalDateKey(morning)).toBe('2026-03-02');
+    expect(isReminderScheduledOn([1], morning.getDay())).toBe(true);
+  });
+});
@@ -0,0 +1,283 @@
+import { db, getAccountStorageKey, type UserSettings } from './db';
+import { SETTINGS_ID } from './settings';
+
+const REMINDER_CHECK_INTERVAL_MS = 30000; // 30 seconds
+const REMINDER_STATE_KEY = 'stupid_tracker_reminder_state_v1';
+const REMINDER_SNOOZE_MINUTES = 10;
+// Reminders are only delivered while the app is running; skip ones that are too stale to be useful.
+const REMINDER_FIRE_WINDOW_MINUTES = 60;
+
+export type ReminderKey = keyof UserSettings['reminders'];
+
+export const REMINDER_ACTION_SNOOZE = 'reminder-snooze';
+export const REMINDER_ACTION_DONE = 'reminder-done';
+// Set by the service worker when a reminder action opens the app because no window was running.
+const REMINDER_ACTION_PARAM = 'reminder_action';
+const REMINDER_KEY_PARAM = 'reminder_key';
+
+interface ReminderDayState {
+  date: string; // YYYY-MM-DD
+  fired?: boolean;
+  done?: boolean;
+  snoozedUntil?: string; // ISO string
+}
+
+type ReminderState = Partial<Record<ReminderKey, ReminderDayState>>;
+
+const REMINDER_COPY: Record<ReminderKey, { title: string; body: string; route: string }> = {
+  food: { title: 'Time to log your meal', body: 'Add what you ate to keep your budget accurate.', route: '/log' },
+  water: { title: 'Drink some water', body: 'Log a glass to stay on track with your water target.', route: '/?panel=water' },
+  workout: { title: 'Workout time', body: 'Start a routine or log today\'s session.', route: '/workouts/start' },
+  walk: { title: 'Go for a walk', body: 'Start a walk timer to track the movement.', route: '/activities' },
+  weight: { title: 'Weigh in', body: 'Log today\'s weight while it\'s fresh.', route: '/?panel=weight' },
+  medicine: { title: 'Take your supplements', body: 'Tick off today\'s supplements in the log.', route: '/log' }
+};
+
+// Reminder days follow the local clock, like their weekdays and times.
+export function toLocalDateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseClockMinutes(value?: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function readReminderState(): ReminderState {
+  try {
+    const raw = localStorage.getItem(getAccountStorageKey(REMINDER_STATE_KEY));
+    return raw ? (JSON.parse(raw) as ReminderState) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeReminderState(state: ReminderState) {
+  localStorage.setItem(getAccountStorageKey(REMINDER_STATE_KEY), JSON.stringify(state));
+}
+
+/**
+ * Returns true when today's data already covers the reminder, so it doesn't need to fire.
+ */
+async function isReminderSatisfied(key: ReminderKey, settings: UserSettings, today: string): Promise<boolean> {
+  switch (key) {
+    case 'weight':
+      return (await db.metrics.where('date').equals(today).and((metric) => metric.type === 'weight').count()) > 0;
+    case 'water': {
+      const waterEntries = await db.metrics.where('date').equals(today).and((metric) => metric.type === 'water').toArray();
+      const waterTarget = Number(settings.nutrition?.waterTarget) || 0;
+      const total = waterEntries.reduce((sum, entry) => sum + (Number(entry.value) || 0), 0);
+      return waterTarget > 0 ? total >= waterTarget : waterEntries.length > 0;
+    }
+    case 'food': {
+      const mealId = getMealForReminder(settings, settings.reminders.food.time);
+      const todaysLogs = await db.logs.where('date').equals(today).toArray();
+      if (!mealId) return todaysLogs.length > 0;
+      return todaysLogs.some((log) => (log.meal_type || '').trim().toLowerCase() === mealId);
+    }
+    case 'workout':
+      return (await db.workouts.where('start_time').startsWith(today).count()) > 0;
+    case 'walk': {
+      const activityLogs = await db.activity_logs.where('date').equals(today).toArray();
+      if (!activityLogs.length) return false;
+      const activities = await db.activities.where('id').anyOf(activityLogs.map((log) => log.activity_id)).toArray();
+      return activities.some((activity) => /walk/i.test(activity.name));
+    }
+    case 'medicine': {
+      const todaysLogs = await db.logs.where('date').equals(today).toArray();
+      if (todaysLogs.some((log) => (log.meal_type || '').trim().toLowerCase() === 'supplement')) return true;
+      const foodIds = [...new Set(todaysLogs.map((log) => log.food_id))];
+      if (!foodIds.length) return false;
+      const foods = await db.foods.where('id').anyOf(foodIds).toArray();
+      return foods.some((food) => food.is_supplement);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * The food reminder targets the configured meal whose time is closest to the reminder time.
+ */
+function getMealForReminder(settings: UserSettings, reminderTime: string): string | null {
+  const reminderMinutes = parseClockMinutes(reminderTime);
+  if (reminderMinutes === null || !settings.meals?.length) return null;
+
+  let closest: { id: string; distance: number } | null = null;
+  for (const meal of settings.meals) {
+    const mealMinutes = parseClockMinutes(meal.time);
+    if (mealMinutes === null) continue;
+    const distance = Math.abs(mealMinutes - reminderMinutes);
+    if (!closest || distance < closest.distance) {
+      closest = { id: meal.id.trim().toLowerCase(), distance };
+    }
+  }
+
+  return closest?.id ?? null;
+}
+
+export function isReminderScheduledOn(days: number[] | undefined, weekday: number) {
+  return !days?.length || days.includes(weekday);
+}
+
+export class ReminderScheduler {
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+  private isChecking = false;
+
+  private handleServiceWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type !== 'REMINDER_ACTION') return;
+    const key = event.data.reminderKey as ReminderKey;
+    if (!key || !(key in REMINDER_COPY)) return;
+    if (this.applyAction(key, event.data.action)) return;
+
+    window.location.hash = `#${REMINDER_COPY[key].route}`;
+  };
+
+  private applyAction(key: ReminderKey, action: unknown) {
+    if (action === REMINDER_ACTION_SNOOZE) {
+      this.snooze(key);
+      return true;
+    }
+    if (action === REMINDER_ACTION_DONE) {
+      this.markDone(key);
+      return true;
+    }
+    return false;
+  }
+
+  private applyLaunchAction() {
+    const url = new URL(window.location.href);
+    const key = url.searchParams.get(REMINDER_KEY_PARAM) as ReminderKey | null;
+    const action = url.searchParams.get(REMINDER_ACTION_PARAM);
+    if (!key && !action) return;
+
+    if (key && key in REMINDER_COPY) this.applyAction(key, action);
+    url.searchParams.delete(REMINDER_KEY_PARAM);
+    url.searchParams.delete(REMINDER_ACTION_PARAM);
+    window.history.replaceState(window.history.state, '', url.href);
+  }
+
+  start() {
+    if (this.checkInterval || typeof window === 'undefined') return;
+    if (!('Notification' in window) || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.addEventListener('message', this.handleServiceWorkerMessage);
+    this.applyLaunchAction();
+    void this.check();
+    this.checkInterval = setInterval(() => {
+      void this.check();
+    }, REMINDER_CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.handleServiceWorkerMessage);
+    }
+  }
+
+  async requestPermission(): Promise<boolean> {
+    if (typeof window === 'undefined' || !('Notification' in window)) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+  }
+
+  snooze(key: ReminderKey, minutes = REMINDER_SNOOZE_MINUTES) {
+    const today = toLocalDateKey(new Date());
+    const state = readReminderState();
+    state[key] = {
+      date: today,
+      fired: true,
+      snoozedUntil: new Date(Date.now() + minutes * 60000).toISOString()
+    };
+    writeReminderState(state);
+  }
+
+  markDone(key: ReminderKey) {
+    const state = readReminderState();
+    state[key] = { date: toLocalDateKey(new Date()), fired: true, done: true };
+    writeReminderState(state);
+  }
+
+  async check() {
+    if (this.isChecking || Notification.permission !== 'granted') return;
+    this.isChecking = true;
+
+    try {
+      const settings = (await db.settings.get(SETTINGS_ID)) as UserSettings | undefined;
+      if (!settings?.reminders) return;
+
+      const now = new Date();
+      const today = toLocalDateKey(now);
+      // Diary rows are dated by their UTC day.
+      const dataDate = now.toISOString().split('T')[0];
+      const nowMinutes = now.getHours() * 60 + now.getMinutes();
+      const state = readReminderState();
+
+      for (const key of Object.keys(REMINDER_COPY) as ReminderKey[]) {
+        const reminder = settings.reminders[key];
+        if (!reminder?.enabled || !isReminderScheduledOn(reminder.days, now.getDay())) continue;
+
+        const dayState = state[key]?.date === today ? state[key] : undefined;
+        if (dayState?.done) continue;
+
+        if (dayState?.snoozedUntil) {
+          if (new Date(dayState.snoozedUntil).getTime() > now.getTime()) continue;
+        } else {
+          const scheduledMinutes = parseClockMinutes(reminder.time);
+          if (scheduledMinutes === null || dayState?.fired) continue;
+          if (nowMinutes < scheduledMinutes || nowMinutes - scheduledMinutes > REMINDER_FIRE_WINDOW_MINUTES) continue;
+        }
+
+        if (await isReminderSatisfied(key, settings, dataDate)) {
+          state[key] = { date: today, fired: true, done: true };
+          continue;
+        }
+
+        await this.showReminder(key);
+        state[key] = { date: today, fired: true };
+      }
+
+      writeReminderState(state);
+    } catch (error) {
+      console.error('Reminder check failed:', error);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async showReminder(key: ReminderKey) {
+    const registration = await navigator.serviceWorker.ready;
+    const copy = REMINDER_COPY[key];
+    const url = `${window.location.origin}${window.location.pathname}#${copy.route}`;
+
+    registration.active?.postMessage({
+      type: 'SHOW_NOTIFICATION',
+      payload: {
+        title: copy.title,
+        options: {
+          body: copy.body,
+          tag: `reminder-${key}`,
+          data: { url, reminderKey: key },
+          actions: [
+            { action: REMINDER_ACTION_SNOOZE, title: `Snooze ${REMINDER_SNOOZE_MINUTES} min` },
+            { action: REMINDER_ACTION_DONE, title: 'Done' }
+          ]
+        }
+      }
+    });
+  }
+}
+
+export const reminderScheduler = new ReminderScheduler();
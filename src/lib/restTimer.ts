@@ -0,0 +1,168 @@
+import { db, type WorkoutRestTimer } from './db';
+
+// Must match the action ids handled in service-worker.ts.
+export const TIMER_ACTION_ADD = 'timer-add-30';
+export const TIMER_ACTION_SKIP = 'timer-skip';
+export const TIMER_ACTION_ADD_SECONDS = 30;
+
+interface RestTimerStart {
+  workoutId: string;
+  entryId: string;
+  exerciseId: string;
+  seconds: number;
+}
+
+const getRemainingSeconds = (timer: WorkoutRestTimer, now = Date.now()) => Math.max(0, Math.ceil((timer.end_time - now) / 1000));
+
+async function postToServiceWorker(message: Record<string, unknown>) {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+}
+
+/**
+ * Hands the finished-rest notification to the service worker. Delivery is best-effort where the
+ * browser lacks notification triggers; see scheduleTimerNotification in the worker.
+ */
+async function scheduleRestTimerNotification(timer: WorkoutRestTimer) {
+  if (typeof window === 'undefined' || !('Notification' in window) || Notification.permission !== 'granted') return;
+  const definition = await db.workout_exercises_def.get(timer.exercise_id);
+
+  await postToServiceWorker({
+    type: 'SCHEDULE_TIMER_NOTIFICATION',
+    payload: {
+      timerId: timer.workout_id,
+      endTime: timer.end_time,
+      title: 'Rest over',
+      body: definition?.name ? `${definition.name}: time for your next set.` : 'Time for your next set.',
+      url: `${window.location.origin}${window.location.pathname}#/workouts/${timer.workout_id}`
+    }
+  });
+}
+
+function cancelRestTimerNotification(workoutId: string) {
+  return postToServiceWorker({ type: 'CANCEL_TIMER_NOTIFICATION', payload: { timerId: workoutId } });
+}
+
+export async function startRestTimer({ workoutId, entryId, exerciseId, seconds }: RestTimerStart) {
+  const timer: WorkoutRestTimer = {
+    workout_id: workoutId,
+    workout_log_entry_id: entryId,
+    exercise_id: exerciseId,
+    total_seconds: seconds,
+    end_time: Date.now() + seconds * 1000
+  };
+  await db.workout_rest_timers.put(timer);
+
+  // Ask on the first rest after a set is ticked off, while there's still a user gesture to attach the prompt to.
+  if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'default') {
+    await Notification.requestPermission().catch(() => 'denied');
+  }
+  void scheduleRestTimerNotification(timer).catch((error) => console.error('Failed to schedule rest notification:', error));
+  return timer;
+}
+
+/**
+ * Adds (or removes) seconds from the running rest. Adding to a rest that already ran out restarts
+ * it from now, which is what "+30s" on the notification means.
+ */
+export async function adjustRestTimer(workoutId: string, adjustment: number) {
+  const timer = await db.workout_rest_timers.get(workoutId);
+  if (!timer) return null;
+
+  const now = Date.now();
+  const remainingBefore = getRemainingSeconds(timer, now);
+  const remaining = remainingBefore + adjustment;
+  if (remaining <= 0) {
+    await skipRestTimer(workoutId);
+    return null;
+  }
+
+  const nextTimer: WorkoutRestTimer = {
+    ...timer,
+    end_time: now + remaining * 1000,
+    total_seconds: remainingBefore <= 0 ? remaining : adjustment > 0 ? timer.total_seconds + adjustment : timer.total_seconds
+  };
+  await db.workout_rest_timers.put(nextTimer);
+  void scheduleRestTimerNotification(nextTimer).catch((error) => console.error('Failed to schedule rest notification:', error));
+  return nextTimer;
+}
+
+export async function skipRestTimer(workoutId: string) {
+  await db.workout_rest_timers.delete(workoutId);
+  void cancelRestTimerNotification(workoutId).catch((error) => console.error('Failed to cancel rest notification:', error));
+}
+
+/**
+ * Drops a timer that has run out. The notification is left alone: the service worker shows it
+ * only if the app is in the background by then.
+ */
+export async function clearExpiredRestTimer(workoutId: string) {
+  await db.workout_rest_timers
+    .where('workout_id')
+    .equals(workoutId)
+    .filter((timer) => timer.end_time <= Date.now())
+    .delete();
+}
+
+export class RestTimerNotifier {
+  private started = false;
+
+  private handleServiceWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type !== 'TIMER_ACTION' || !event.data.timerId) return;
+    const workoutId = event.data.timerId as string;
+
+    if (event.data.action === TIMER_ACTION_SKIP) {
+      void skipRestTimer(workoutId).catch((error) => console.error('Failed to skip rest timer:', error));
+      return;
+    }
+
+    if (event.data.action === TIMER_ACTION_ADD) {
+      void adjustRestTimer(workoutId, TIMER_ACTION_ADD_SECONDS)
+        .then(async (timer) => {
+          // The worker already queued a follow-up; drop it if the timer is gone here.
+          if (!timer) await cancelRestTimerNotification(workoutId);
+        })
+        .catch((error) => console.error('Failed to extend rest timer:', error));
+      return;
+    }
+
+    window.location.hash = `#/workouts/${workoutId}`;
+  };
+
+  start() {
+    if (this.started || typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+    this.started = true;
+
+    navigator.serviceWorker.addEventListener('message', this.handleServiceWorkerMessage);
+    void this.restore();
+  }
+
+  stop() {
+    if (!this.started) return;
+    this.started = false;
+    navigator.serviceWorker.removeEventListener('message', this.handleServiceWorkerMessage);
+  }
+
+  /**
+   * A reload may have outlived the worker's pending notification, so re-arm running timers
+   * and drop the ones that finished while the app was closed.
+   */
+  private async restore() {
+    try {
+      const now = Date.now();
+      const timers = await db.workout_rest_timers.toArray();
+      for (const timer of timers) {
+        if (timer.end_time <= now) {
+          await db.workout_rest_timers.delete(timer.workout_id);
+        } else {
+          await scheduleRestTimerNotification(timer);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to restore rest timers:', error);
+    }
+  }
+}
+
+export const restTimerNotifier = new RestTimerNotifier();
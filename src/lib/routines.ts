@@ -1,7 +1,27 @@
-import { db } from './db';
+import { db, type WorkoutRoutineSet, type WorkoutSet } from './db';
 import { generateId } from './index';
+import { createGroupIdRemapper } from './workouts';
 
-export async function startRoutineAsWorkout(routineId: string): Promise<string> {
+export type PlannedSet = Pick<WorkoutSet, 'weight' | 'reps' | 'reps_min' | 'reps_max' | 'distance' | 'duration_seconds' | 'set_type'>;
+
+export interface StartRoutineOptions {
+  name?: string;
+  // Replaces an exercise's template sets with the sets to log, e.g. for a program week.
+  planSets?: (exerciseId: string, templateSets: WorkoutRoutineSet[]) => PlannedSet[];
+}
+
+const copyTemplateSets = (_exerciseId: string, templateSets: WorkoutRoutineSet[]): PlannedSet[] =>
+  templateSets.map((templateSet) => ({
+    weight: templateSet.weight,
+    reps: templateSet.reps_max ?? templateSet.reps_min,
+    reps_min: templateSet.reps_min,
+    reps_max: templateSet.reps_max,
+    distance: templateSet.distance,
+    duration_seconds: templateSet.duration_seconds,
+    set_type: templateSet.set_type,
+  }));
+
+export async function startRoutineAsWorkout(routineId: string, options: StartRoutineOptions = {}): Promise<string> {
   const routine = await db.workout_routines.get(routineId);
   if (!routine) {
     throw new Error('Routine not found');
@@ -29,12 +49,13 @@ export async function startRoutineAsWorkout(routineId: string): Promise<string>
 
   const newWorkoutId = generateId();
   const now = new Date();
+  const remapGroupId = createGroupIdRemapper();
 
   await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
     await db.workouts.add({
       id: newWorkoutId,
       user_id: routine.user_id || 'local-user',
-      name: routine.name || 'Workout',
+      name: options.name || routine.name || 'Workout',
       start_time: now.toISOString(),
       created_at: now,
       synced: 0,
@@ -48,23 +69,19 @@ export async function startRoutineAsWorkout(routineId: string): Promise<string>
         workout_id: newWorkoutId,
         exercise_id: entry.exercise_id,
         sort_order: entry.sort_order,
+        group_id: remapGroupId(entry.group_id),
         notes: entry.notes,
         created_at: now,
         synced: 0,
       });
 
-      const templateSets = setsByEntryId[entry.id] || [];
-      for (const templateSet of templateSets) {
+      const plannedSets = (options.planSets ?? copyTemplateSets)(entry.exercise_id, setsByEntryId[entry.id] || []);
+      for (let index = 0; index < plannedSets.length; index += 1) {
         await db.workout_sets.add({
+          ...plannedSets[index],
           id: generateId(),
           workout_log_entry_id: newEntryId,
-          set_number: templateSet.set_number,
-          weight: templateSet.weight,
-          reps: templateSet.reps_max ?? templateSet.reps_min,
-          reps_min: templateSet.reps_min,
-          reps_max: templateSet.reps_max,
-          distance: templateSet.distance,
-          duration_seconds: templateSet.duration_seconds,
+          set_number: index + 1,
           completed: false,
           created_at: now,
           synced: 0,
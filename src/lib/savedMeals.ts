@@ -0,0 +1,72 @@
+import { db, type DailyLog, type SavedMeal, type SavedMealItem } from './db';
+import { generateId } from './index';
+
+export interface SavedMealTarget {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  mealType: string;
+  mealTime?: string;
+}
+
+/**
+ * Saved meals, most recently used first; never-used ones follow alphabetically.
+ */
+export async function getSavedMeals() {
+  const meals = await db.saved_meals.toArray();
+  return meals.sort((a, b) => (b.last_used_at || '').localeCompare(a.last_used_at || '') || a.name.localeCompare(b.name));
+}
+
+export async function saveMealTemplate(name: string, logs: Array<Pick<DailyLog, 'food_id' | 'amount_consumed'>>, userId: string) {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('Give the meal a name.');
+
+  const items: SavedMealItem[] = logs
+    .filter((log) => log.food_id && Number(log.amount_consumed) > 0)
+    .map((log) => ({ food_id: log.food_id, amount_consumed: Number(log.amount_consumed) }));
+  if (!items.length) throw new Error('There is nothing in this meal to save.');
+
+  const savedMeal: SavedMeal = {
+    id: generateId(),
+    user_id: userId,
+    name: trimmedName,
+    items,
+    synced: 0
+  };
+  await db.saved_meals.add(savedMeal);
+  return savedMeal;
+}
+
+/**
+ * Logs every item as its own DailyLog row, so each stays editable, and marks the meal as used.
+ * Items whose food has since been deleted are skipped. Returns the number of rows added.
+ */
+export async function logSavedMeal(savedMealId: string, { userId, date, mealType, mealTime }: SavedMealTarget) {
+  return db.transaction('rw', [db.saved_meals, db.logs, db.foods], async () => {
+    const savedMeal = await db.saved_meals.get(savedMealId);
+    if (!savedMeal) throw new Error('Saved meal not found.');
+
+    const foods = await db.foods.bulkGet(savedMeal.items.map((item) => item.food_id));
+    const now = new Date();
+    const rows: DailyLog[] = savedMeal.items
+      .filter((_, index) => Boolean(foods[index]))
+      .map((item) => ({
+        id: generateId(),
+        user_id: userId,
+        date,
+        meal_type: mealType,
+        meal_time: mealTime,
+        food_id: item.food_id,
+        amount_consumed: item.amount_consumed,
+        synced: 0,
+        created_at: now
+      }));
+
+    if (rows.length) await db.logs.bulkAdd(rows);
+    await db.saved_meals.update(savedMealId, { last_used_at: now.toISOString(), synced: 0 });
+    return rows.length;
+  });
+}
+
+export async function deleteSavedMeal(savedMealId: string) {
+  await db.saved_meals.delete(savedMealId);
+}
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import { createDefaultSettings, normalizeSettings, SETTINGS_ID, updateLocalSettings } from './settings';
+
+describe('updateLocalSettings', () => {
+  beforeEach(async () => {
+    await db.settings.clear();
+  });
+
+  it('seeds a missing row from the defaults', async () => {
+    await updateLocalSettings({ units: 'imperial' });
+
+    const row = await db.settings.get(SETTINGS_ID);
+    expect(row?.units).toBe('imperial');
+    expect(row?.nutrition).toEqual(createDefaultSettings().nutrition);
+    expect(row?.meals.length).toBeGreaterThan(0);
+    expect(row?.synced).toBe(0);
+  });
+
+  it('keeps the other settings of an existing row', async () => {
+    const existing = { ...createDefaultSettings(), user_id: 'user-1', abandoned_workout_hours: 4 };
+    existing.nutrition.calorieBudget = 2600;
+    await db.settings.put(existing);
+
+    await updateLocalSettings({ units: 'imperial' });
+
+    const row = await db.settings.get(SETTINGS_ID);
+    expect(row).toMatchObject({ user_id: 'user-1', abandoned_workout_hours: 4, units: 'imperial' });
+    expect(row?.nutrition.calorieBudget).toBe(2600);
+  });
+});
+
+describe('normalizeSettings', () => {
+  it('fills gaps from the defaults and gives meals canonical ids', () => {
+    const settings = normalizeSettings({
+      meals: [{ id: '', name: 'Early breakfast', time: '07:00', targetMode: 'percent', targetValue: 30 }]
+    });
+    expect(settings.meals[0].id).toBe('breakfast');
+    expect(settings.reminders.food.time).toBe('08:00');
+    expect(settings.nutrition.calorieBudget).toBe(2000);
+  });
+});
@@ -0,0 +1,173 @@
+import { db, type MealSetting, type ReminderSetting, type UserSettings } from './db';
+import { generateId } from './index';
+
+// The one settings row per account database; the server row is mapped onto this id on pull.
+export const SETTINGS_ID = 'local-settings';
+
+export type LocalSettingsRow = UserSettings & { id: typeof SETTINGS_ID };
+type ReminderKey = keyof UserSettings['reminders'];
+
+export const REMINDER_KEYS: ReminderKey[] = ['food', 'water', 'workout', 'walk', 'weight', 'medicine'];
+const CANONICAL_MEAL_IDS = new Set(['breakfast', 'lunch', 'dinner', 'snack', 'supplement']);
+
+const canonicalMealIdFromName = (name: string): string | null => {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (normalized.includes('break')) return 'breakfast';
+  if (normalized.includes('lunch')) return 'lunch';
+  if (normalized.includes('dinner') || normalized.includes('supper')) return 'dinner';
+  if (normalized.includes('snack')) return 'snack';
+  if (normalized.includes('supplement') || normalized.includes('vitamin')) return 'supplement';
+
+  return null;
+};
+
+const normalizeMealId = (
+  meal: Partial<MealSetting>,
+  index: number,
+  usedCanonicalMealIds: Set<string>
+): string => {
+  const rawId = typeof meal.id === 'string' ? meal.id.trim().toLowerCase() : '';
+  if (rawId) {
+    if (!CANONICAL_MEAL_IDS.has(rawId)) return rawId;
+    if (!usedCanonicalMealIds.has(rawId)) {
+      usedCanonicalMealIds.add(rawId);
+      return rawId;
+    }
+  }
+
+  const canonicalFromName = canonicalMealIdFromName(typeof meal.name === 'string' ? meal.name : '');
+  if (canonicalFromName && !usedCanonicalMealIds.has(canonicalFromName)) {
+    usedCanonicalMealIds.add(canonicalFromName);
+    return canonicalFromName;
+  }
+
+  if (index === 0 && !usedCanonicalMealIds.has('breakfast')) {
+    usedCanonicalMealIds.add('breakfast');
+    return 'breakfast';
+  }
+  if (index === 1 && !usedCanonicalMealIds.has('lunch')) {
+    usedCanonicalMealIds.add('lunch');
+    return 'lunch';
+  }
+  if (index === 2 && !usedCanonicalMealIds.has('dinner')) {
+    usedCanonicalMealIds.add('dinner');
+    return 'dinner';
+  }
+  if (index === 3 && !usedCanonicalMealIds.has('snack')) {
+    usedCanonicalMealIds.add('snack');
+    return 'snack';
+  }
+
+  return rawId || generateId();
+};
+
+export const createDefaultSettings = (): LocalSettingsRow => ({
+  id: SETTINGS_ID,
+  nutrition: {
+    calorieBudget: 2000,
+    proteinPercent: 30,
+    carbPercent: 40,
+    fatPercent: 30,
+    fiberGrams: 30,
+    proteinTargetGrams: 150,
+    carbsTargetGrams: 200,
+    fatTargetGrams: 65,
+    sleepTarget: 8,
+    waterTarget: 2000,
+    weightTarget: 0,
+    eatBackEnabled: false,
+    eatBackPercent: 50
+  },
+  meals: [
+    { id: 'breakfast', name: 'Breakfast', time: '08:00', targetMode: 'percent', targetValue: 25 },
+    { id: 'lunch', name: 'Lunch', time: '13:00', targetMode: 'percent', targetValue: 35 },
+    { id: 'dinner', name: 'Dinner', time: '19:00', targetMode: 'percent', targetValue: 30 },
+    { id: 'snack', name: 'Snack', time: '16:00', targetMode: 'percent', targetValue: 10 }
+  ],
+  reminders: {
+    food: { enabled: true, time: '08:00' },
+    water: { enabled: true, time: '10:00' },
+    workout: { enabled: false, time: '18:00' },
+    walk: { enabled: false, time: '17:00' },
+    weight: { enabled: false, time: '07:00' },
+    medicine: { enabled: false, time: '09:00' }
+  },
+  updated_at: new Date().toISOString()
+});
+
+export const toNonNegativeNumber = (value: number, fallback = 0) => {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.max(0, value);
+};
+
+export const normalizeSettings = (input: Partial<LocalSettingsRow> | null | undefined): LocalSettingsRow => {
+  const defaults = createDefaultSettings();
+  const nutrition = input?.nutrition ?? defaults.nutrition;
+  const remindersInput = input?.reminders ?? defaults.reminders;
+  const usedCanonicalMealIds = new Set<string>();
+
+  const reminders = REMINDER_KEYS.reduce((acc, key) => {
+    const item = remindersInput[key] ?? defaults.reminders[key];
+    acc[key] = {
+      enabled: Boolean(item?.enabled),
+      time: item?.time || defaults.reminders[key].time,
+      days: Array.isArray(item?.days)
+        ? [...new Set(item.days.map(Number).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))].sort()
+        : []
+    };
+    return acc;
+  }, {} as Record<ReminderKey, ReminderSetting>);
+
+  const meals: MealSetting[] = (input?.meals ?? defaults.meals).map((meal, index) => ({
+    id: normalizeMealId(meal, index, usedCanonicalMealIds),
+    name: (meal.name || `Meal ${index + 1}`).trim(),
+    time: meal.time || '12:00',
+    targetMode: meal.targetMode === 'calories' ? 'calories' : 'percent',
+    targetValue: toNonNegativeNumber(Number(meal.targetValue), 0)
+  }));
+
+  return {
+    id: SETTINGS_ID,
+    user_id: input?.user_id ?? null,
+    nutrition: {
+      calorieBudget: toNonNegativeNumber(Number(nutrition.calorieBudget), defaults.nutrition.calorieBudget),
+      proteinPercent: toNonNegativeNumber(Number(nutrition.proteinPercent), defaults.nutrition.proteinPercent),
+      carbPercent: toNonNegativeNumber(Number(nutrition.carbPercent), defaults.nutrition.carbPercent),
+      fatPercent: toNonNegativeNumber(Number(nutrition.fatPercent), defaults.nutrition.fatPercent),
+      fiberGrams: toNonNegativeNumber(Number(nutrition.fiberGrams), defaults.nutrition.fiberGrams),
+      proteinTargetGrams: toNonNegativeNumber(Number(nutrition.proteinTargetGrams), defaults.nutrition.proteinTargetGrams),
+      carbsTargetGrams: toNonNegativeNumber(Number(nutrition.carbsTargetGrams), defaults.nutrition.carbsTargetGrams),
+      fatTargetGrams: toNonNegativeNumber(Number(nutrition.fatTargetGrams), defaults.nutrition.fatTargetGrams),
+      sleepTarget: toNonNegativeNumber(Number(nutrition.sleepTarget), defaults.nutrition.sleepTarget),
+      waterTarget: toNonNegativeNumber(Number(nutrition.waterTarget), defaults.nutrition.waterTarget),
+      weightTarget: toNonNegativeNumber(Number(nutrition.weightTarget), defaults.nutrition.weightTarget),
+      eatBackEnabled: Boolean(nutrition.eatBackEnabled),
+      eatBackPercent: Math.min(100, toNonNegativeNumber(Number(nutrition.eatBackPercent), defaults.nutrition.eatBackPercent))
+    },
+    meals,
+    reminders,
+    ...(input?.equipment ? { equipment: input.equipment } : {}),
+    ...(input?.units ? { units: input.units } : {}),
+    ...(input?.abandoned_workout_hours ? { abandoned_workout_hours: input.abandoned_workout_hours } : {}),
+    updated_at: input?.updated_at || new Date().toISOString()
+  };
+};
+
+/**
+ * Writes a few fields of the settings row. When the row doesn't exist yet it is seeded from the
+ * defaults rather than left blank, so a later push can't wipe the account's other settings.
+ */
+export async function updateLocalSettings(patch: Partial<Omit<UserSettings, 'id' | 'updated_at' | 'synced'>>) {
+  await db.transaction('rw', db.settings, async () => {
+    const existing = await db.settings.get(SETTINGS_ID);
+    await db.settings.put({
+      ...(existing ?? createDefaultSettings()),
+      ...patch,
+      id: SETTINGS_ID,
+      updated_at: new Date().toISOString(),
+      synced: 0
+    });
+  });
+}
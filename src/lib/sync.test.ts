@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import { syncManager } from './sync';
+
+const settleSyncQueue = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('retryQueueItem', () => {
+  beforeEach(async () => {
+    await db.logs.clear();
+    await settleSyncQueue();
+    await db.sync_queue.clear();
+    await db.logs.add({ id: 'log-1', user_id: 'user-1', date: '2026-03-01', meal_type: 'lunch', food_id: 'food-1', amount_consumed: 1 });
+    await settleSyncQueue();
+  });
+
+  it('applies an edited payload to the local row without queueing it again', async () => {
+    const [queued] = await db.sync_queue.toArray();
+    const edited = { ...queued.data, id: 'other-id', amount_consumed: 2 };
+
+    // Signed out here, so the push itself fails and the item stays queued.
+    expect(await syncManager.retryQueueItem(queued.id!, edited)).toBe('Not signed in');
+    await settleSyncQueue();
+
+    expect(await db.logs.get('log-1')).toMatchObject({ amount_consumed: 2, synced: 0 });
+    expect(await db.logs.get('other-id')).toBeUndefined();
+    const queue = await db.sync_queue.toArray();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].data).toMatchObject({ id: 'log-1', amount_consumed: 2 });
+  });
+});
@@ -1,10 +1,54 @@
 import { db, type SyncQueue, withRemoteSyncWrite } from './db';
 import { supabase } from './supabaseClient';
 import Dexie from 'dexie';
+import { isDatabaseOpenForSession } from './accounts';
+import { classifySyncError } from './syncErrors';
+import { coalesceSyncQueue, isQueueItemDue, SYNC_TABLE_ORDER } from './syncQueue';
+import { findConflictingLocalRow, getConflictingFields, getOpenConflictKeys, recordSyncConflict } from './syncConflicts';
+import { getInProgressWorkouts, isWorkoutAbandoned } from './workoutSessions';
 
 const SYNC_INTERVAL_MS = 30000; // 30 seconds
+const PUSH_BATCH_SIZE = 200;
 const LAST_SYNCED_KEY_BASE = 'stupid_calorie_tracker_last_synced';
 
+const TABLES_WITH_USER_ID = new Set([
+    'foods',
+    'logs',
+    'saved_meals',
+    'goals',
+    'metrics',
+    'settings',
+    'activities',
+    'activity_logs',
+    'workout_exercises_def',
+    'workout_rest_preferences',
+    'workout_routines',
+    'workout_routine_entries',
+    'workout_programs',
+    'workout_program_weeks',
+    'workout_training_maxes',
+    'workout_personal_records',
+    'workouts',
+    'workout_log_entries'
+]);
+const STRICT_USER_OWNED_TABLES = new Set([
+    'logs',
+    'saved_meals',
+    'goals',
+    'metrics',
+    'settings',
+    'activity_logs',
+    'workout_rest_preferences',
+    'workout_routines',
+    'workout_routine_entries',
+    'workout_programs',
+    'workout_program_weeks',
+    'workout_training_maxes',
+    'workout_personal_records',
+    'workouts',
+    'workout_log_entries'
+]);
+
 interface SyncTableConfig {
     dexie: string;
     supabase: string;
@@ -45,6 +89,68 @@ export class SyncManager {
         return failedIds.length;
     }
 
+    async getQueueItems() {
+        const queue = await db.sync_queue.orderBy('created_at').toArray();
+        return queue.map((item) => ({
+            ...item,
+            error_type: item.error_type ?? (item.last_error ? classifySyncError(item.last_error) : undefined)
+        }));
+    }
+
+    async discardQueueItem(id: number) {
+        await db.sync_queue.delete(id);
+    }
+
+    /**
+     * Pushes one queued item right away, optionally with an edited payload. Edits are applied to
+     * the local row too, so the device keeps what gets pushed; the row id can't be edited.
+     * Returns the error message when it fails again (the item stays queued).
+     */
+    async retryQueueItem(id: number, editedData?: Record<string, any>): Promise<string | null> {
+        const item = await db.sync_queue.get(id);
+        if (!item) return null;
+
+        if (editedData) {
+            const rowId = item.data?.id;
+            const data = rowId === undefined ? editedData : { ...editedData, id: rowId };
+            const table = db.table(item.table);
+            await db.transaction('rw', [db.sync_queue, table], async () => {
+                await db.sync_queue.update(id, { data });
+                if (item.action === 'delete' || rowId === undefined) return;
+                // The queue item already carries the change, so the local write must not queue another.
+                await withRemoteSyncWrite(async () => {
+                    const localRow = await table.get(rowId);
+                    if (localRow) await table.put({ ...localRow, ...data, synced: 0 });
+                });
+            });
+            item.data = data;
+        }
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.user) {
+            const message = 'Not signed in';
+            await db.sync_queue.update(id, { last_attempt_at: Date.now(), last_error: message, error_type: 'auth' });
+            return message;
+        }
+
+        try {
+            await this.processQueueItem(item, session);
+            await db.sync_queue.delete(id);
+            return null;
+        } catch (error) {
+            await this.recordQueueItemFailure(item, error);
+            return this.describeSyncError(error);
+        }
+    }
+
+    private describeSyncError(error: unknown): string {
+        if (error && typeof error === 'object' && 'message' in error) {
+            const { code, message } = error as { code?: string; message?: string };
+            return code ? `${message} (${code})` : String(message);
+        }
+        return String(error ?? 'Unknown error');
+    }
+
     async clearAllQueuedChanges() {
         const count = await db.sync_queue.count();
         if (count > 0) {
@@ -72,12 +178,18 @@ export class SyncManager {
     }
 
     private isWorkoutSessionSyncTable(table: string): boolean {
-        return table === 'workouts' || table === 'workout_log_entries' || table === 'workout_sets';
+        return (
+            table === 'workouts' ||
+            table === 'workout_log_entries' ||
+            table === 'workout_sets' ||
+            table === 'workout_personal_records'
+        );
     }
 
+    // Abandoned sessions don't hold back sync; they'd otherwise defer it until someone resolves them.
     private async hasInProgressWorkoutSession(): Promise<boolean> {
-        const workouts = await db.workouts.toArray();
-        return workouts.some((workout) => !workout.end_time);
+        const sessions = await getInProgressWorkouts();
+        return sessions.some((session) => !isWorkoutAbandoned(session));
     }
 
     private async fetchRemoteIds(config: SyncTableConfig): Promise<Set<string> | null> {
@@ -265,10 +377,11 @@ export class SyncManager {
         }
     }
 
+    // Scoped per local database too, so each account's database keeps its own pull cursor.
     private getLastSyncedKey(session: any): string {
         const userId = session?.user?.id;
-        if (userId) return `${LAST_SYNCED_KEY_BASE}_${userId}`;
-        return `${LAST_SYNCED_KEY_BASE}_public`;
+        if (userId) return `${LAST_SYNCED_KEY_BASE}_${db.name}_${userId}`;
+        return `${LAST_SYNCED_KEY_BASE}_${db.name}_public`;
     }
 
   constructor() {
@@ -305,11 +418,12 @@ export class SyncManager {
      
      // Need type assertion or check if table exists in db
      const tables = [
-         'profiles', 'foods', 'food_ingredients', 'logs', 'goals', 'metrics', 
+         'profiles', 'foods', 'food_ingredients', 'logs', 'saved_meals', 'goals', 'metrics', 
          'settings',
          'activities', 'activity_logs',
          'workout_exercises_def', 'workout_rest_preferences', 'workout_routines', 'workout_routine_entries', 'workout_routine_sets',
-         'workouts', 'workout_log_entries', 'workout_sets'
+         'workout_programs', 'workout_program_weeks', 'workout_training_maxes',
+         'workouts', 'workout_log_entries', 'workout_sets', 'workout_personal_records'
      ] as const;
      
      for (const table of tables) {
@@ -370,6 +484,10 @@ export class SyncManager {
       console.log('[SyncManager] Starting sync process...');
       
       const { data: { session } } = await supabase.auth.getSession();
+      if (!isDatabaseOpenForSession(session)) {
+        console.log('[SyncManager] Sync skipped: Open database belongs to another account');
+        return;
+      }
       
       await this.pushChanges(session);
       await this.pullChanges(session);
@@ -383,82 +501,55 @@ export class SyncManager {
   }
 
   async pushChanges(session: any) {
-    const queue = await db.sync_queue.orderBy('created_at').toArray();
-    if (queue.length === 0) return;
+    if ((await db.sync_queue.count()) === 0) return;
 
     if (!session?.user) {
         console.log('[SyncManager] No active session. Skipping push.');
         return;
     }
 
-        const actionPriority: Record<SyncQueue['action'], number> = {
-            create: 0,
-            update: 1,
-            delete: 2
-        };
-        const createTablePriority: Record<string, number> = {
-            profiles: 1,
-            foods: 2,
-            food_ingredients: 3,
-            goals: 4,
-            metrics: 4,
-            settings: 4,
-            logs: 5,
-            activities: 5,
-            activity_logs: 6,
-            workout_exercises_def: 7,
-            workout_rest_preferences: 8,
-            workout_routines: 9,
-            workout_routine_entries: 10,
-            workout_routine_sets: 11,
-            workouts: 12,
-            workout_log_entries: 13,
-            workout_sets: 14
-        };
-
-        const sortedQueue = [...queue].sort((a, b) => {
-            const actionDiff = actionPriority[a.action] - actionPriority[b.action];
-            if (actionDiff !== 0) return actionDiff;
-
-            if (a.action === 'create' && b.action === 'create') {
-                const tableDiff = (createTablePriority[a.table] ?? 999) - (createTablePriority[b.table] ?? 999);
-                if (tableDiff !== 0) return tableDiff;
-            }
+        const coalescedCount = await coalesceSyncQueue();
+        if (coalescedCount > 0) {
+            console.log(`[SyncManager] Coalesced ${coalescedCount} redundant queue item(s)`);
+        }
 
-            return a.created_at - b.created_at;
-        });
+        const queue = await db.sync_queue.orderBy('created_at').toArray();
+        const now = Date.now();
+        const dueQueue = queue.filter((item) => isQueueItemDue(item, now));
+        const backedOffCount = queue.length - dueQueue.length;
 
-        console.log(`[SyncManager] Pushing ${sortedQueue.length} changes for user ${session.user.id}...`);
+        console.log(`[SyncManager] Pushing ${dueQueue.length} changes for user ${session.user.id}...`);
 
         const deferWorkoutSessionSync = await this.hasInProgressWorkoutSession();
         let failedCount = 0;
         let deferredWorkoutCount = 0;
         this.skippedSharedWorkoutExerciseUpdates = 0;
 
-        for (const item of sortedQueue) {
+        const upsertsByTable = new Map<string, SyncQueue[]>();
+        const deletesByTable = new Map<string, SyncQueue[]>();
+        for (const item of dueQueue) {
             if (deferWorkoutSessionSync && this.isWorkoutSessionSyncTable(item.table)) {
                 deferredWorkoutCount += 1;
                 continue;
             }
 
-      try {
-        await this.processQueueItem(item, session);
-        if (item.id) {
-          await db.sync_queue.delete(item.id);
+            const target = item.action === 'delete' ? deletesByTable : upsertsByTable;
+            target.set(item.table, [...(target.get(item.table) ?? []), item]);
+        }
+
+        const tableRank = (table: string) => {
+            const index = SYNC_TABLE_ORDER.indexOf(table);
+            return index === -1 ? SYNC_TABLE_ORDER.length : index;
+        };
+        const upsertTables = [...upsertsByTable.keys()].sort((a, b) => tableRank(a) - tableRank(b));
+        const deleteTables = [...deletesByTable.keys()].sort((a, b) => tableRank(b) - tableRank(a));
+
+        for (const table of upsertTables) {
+            failedCount += await this.pushUpsertBatch(table, upsertsByTable.get(table) ?? [], session);
+        }
+        for (const table of deleteTables) {
+            failedCount += await this.pushDeleteBatch(table, deletesByTable.get(table) ?? [], session);
         }
-      } catch (error) {
-        console.error('Failed to process queue item:', item, error);
-                                if (item.id) {
-                                        const prevAttempts = item.attempt_count ?? 0;
-                                        await db.sync_queue.update(item.id, {
-                                                attempt_count: prevAttempts + 1,
-                                                last_attempt_at: Date.now(),
-                                                last_error: error instanceof Error ? error.message : String(error ?? 'Unknown error')
-                                        });
-                                }
-                failedCount += 1;
-      }
-    }
 
         if (this.skippedSharedWorkoutExerciseUpdates > 0) {
             console.log(
@@ -470,11 +561,141 @@ export class SyncManager {
             console.warn(`[SyncManager] ${failedCount} queue item(s) failed and were kept for retry`);
         }
 
+        if (backedOffCount > 0) {
+            console.log(`[SyncManager] ${backedOffCount} failed queue item(s) are waiting for their retry backoff`);
+        }
+
         if (deferredWorkoutCount > 0) {
             console.log(`[SyncManager] Deferred ${deferredWorkoutCount} in-progress workout queue item(s) until workout completion`);
         }
   }
 
+    /**
+     * Upserts a table's queued creates/updates in chunks. When a chunk is rejected the items are
+     * retried one by one so a single bad row doesn't hold back the rest of the table.
+     */
+    private async pushUpsertBatch(table: string, items: SyncQueue[], session: any): Promise<number> {
+        const supabaseTable = this.getSupabaseTable(table);
+        const doneIds: number[] = [];
+        const ready: Array<{ item: SyncQueue; payload: Record<string, any> }> = [];
+        let failedCount = 0;
+
+        for (const item of items) {
+            try {
+                const payload = await this.prepareUpsertPayload(item, session);
+                if (!payload) {
+                    if (item.id) doneIds.push(item.id);
+                } else if (item.action === 'update' && !payload.id) {
+                    throw new Error('No ID for update');
+                } else {
+                    ready.push({ item, payload });
+                }
+            } catch (error) {
+                await this.recordQueueItemFailure(item, error);
+                failedCount += 1;
+            }
+        }
+
+        const updates = ready.filter(({ item }) => item.action === 'update');
+        const remoteRows = updates.length
+            ? await this.fetchRemoteRowsById(supabaseTable, updates.map(({ payload }) => payload.id))
+            : null;
+        const toUpsert: typeof ready = [];
+        for (const entry of ready) {
+            if (
+                entry.item.action === 'update' &&
+                await this.shouldSkipStaleRemoteUpdate(table, supabaseTable, entry.payload, remoteRows)
+            ) {
+                if (entry.item.id) doneIds.push(entry.item.id);
+                continue;
+            }
+            toUpsert.push(entry);
+        }
+
+        for (let start = 0; start < toUpsert.length; start += PUSH_BATCH_SIZE) {
+            const chunk = toUpsert.slice(start, start + PUSH_BATCH_SIZE);
+            console.log(`[SyncManager] Upserting ${chunk.length} row(s) into ${supabaseTable}`);
+
+            const error = await this.upsertRows(table, supabaseTable, chunk.map(({ payload }) => payload));
+            if (!error) {
+                await this.markRowsSynced(table, chunk.map(({ payload }) => payload.id));
+                chunk.forEach(({ item }) => {
+                    if (item.id) doneIds.push(item.id);
+                });
+                continue;
+            }
+
+            console.warn(`[SyncManager] Bulk upsert into ${supabaseTable} failed, retrying ${chunk.length} item(s) individually`, error);
+            for (const { item } of chunk) {
+                try {
+                    await this.processQueueItem(item, session);
+                    if (item.id) doneIds.push(item.id);
+                } catch (itemError) {
+                    await this.recordQueueItemFailure(item, itemError);
+                    failedCount += 1;
+                }
+            }
+        }
+
+        if (doneIds.length) await db.sync_queue.bulkDelete(doneIds);
+        return failedCount;
+    }
+
+    private async pushDeleteBatch(table: string, items: SyncQueue[], session: any): Promise<number> {
+        const supabaseTable = this.getSupabaseTable(table);
+        const doneIds: number[] = [];
+        const toDelete: Array<{ item: SyncQueue; id: string }> = [];
+        let failedCount = 0;
+
+        items.forEach((item) => {
+            const id = this.resolveDeleteId(item, session);
+            if (id) {
+                toDelete.push({ item, id });
+            } else if (item.id) {
+                doneIds.push(item.id);
+            }
+        });
+
+        for (let start = 0; start < toDelete.length; start += PUSH_BATCH_SIZE) {
+            const chunk = toDelete.slice(start, start + PUSH_BATCH_SIZE);
+            const ids = [...new Set(chunk.map(({ id }) => id))];
+            console.log(`[SyncManager] Deleting ${ids.length} row(s) from ${supabaseTable}`);
+
+            const { error } = await supabase.from(supabaseTable).delete().in('id', ids);
+            if (!error) {
+                chunk.forEach(({ item }) => {
+                    if (item.id) doneIds.push(item.id);
+                });
+                continue;
+            }
+
+            console.warn(`[SyncManager] Bulk delete from ${supabaseTable} failed, retrying ${chunk.length} item(s) individually`, error);
+            for (const { item } of chunk) {
+                try {
+                    await this.processQueueItem(item, session);
+                    if (item.id) doneIds.push(item.id);
+                } catch (itemError) {
+                    await this.recordQueueItemFailure(item, itemError);
+                    failedCount += 1;
+                }
+            }
+        }
+
+        if (doneIds.length) await db.sync_queue.bulkDelete(doneIds);
+        return failedCount;
+    }
+
+    private async recordQueueItemFailure(item: SyncQueue, error: unknown) {
+        console.error('Failed to process queue item:', item, error);
+        if (!item.id) return;
+        await db.sync_queue.update(item.id, {
+            attempt_count: (item.attempt_count ?? 0) + 1,
+            last_attempt_at: Date.now(),
+            last_error: this.describeSyncError(error),
+            error_type: classifySyncError(error)
+        });
+    }
+
     private inferCanonicalMealType(value: string): string | null {
         const normalized = value.trim().toLowerCase();
         if (!normalized) return null;
@@ -703,23 +924,44 @@ export class SyncManager {
         return true;
     }
 
-    private async shouldSkipStaleRemoteUpdate(table: string, supabaseTable: string, payload: Record<string, any>): Promise<boolean> {
-        const id = payload?.id;
-        if (!id) return false;
-        const localUpdatedAt = payload?.updated_at;
+    /**
+     * Loads the current server copies of rows about to be updated, for the freshness check.
+     * Returns null when they can't be read, in which case updates are pushed unchecked.
+     */
+    private async fetchRemoteRowsById(supabaseTable: string, ids: string[]): Promise<Map<string, any> | null> {
+        const rows = new Map<string, any>();
+        const uniqueIds = [...new Set(ids)];
 
-        const { data, error } = await supabase
-            .from(supabaseTable)
-            .select('*')
-            .eq('id', id)
-            .maybeSingle();
+        for (let start = 0; start < uniqueIds.length; start += PUSH_BATCH_SIZE) {
+            const { data, error } = await supabase
+                .from(supabaseTable)
+                .select('*')
+                .in('id', uniqueIds.slice(start, start + PUSH_BATCH_SIZE));
 
-        if (error) {
-            if (this.isMissingRelationError(error)) return false;
-            console.warn(`[SyncManager] Could not compare remote freshness for ${supabaseTable}.${id}:`, error);
-            return false;
+            if (error) {
+                if (!this.isMissingRelationError(error)) {
+                    console.warn(`[SyncManager] Could not compare remote freshness for ${supabaseTable}:`, error);
+                }
+                return null;
+            }
+
+            (data || []).forEach((row: any) => rows.set(String(row.id), row));
         }
 
+        return rows;
+    }
+
+    private async shouldSkipStaleRemoteUpdate(
+        table: string,
+        supabaseTable: string,
+        payload: Record<string, any>,
+        remoteRows: Map<string, any> | null
+    ): Promise<boolean> {
+        const id = payload?.id;
+        if (!id || !remoteRows) return false;
+        const localUpdatedAt = payload?.updated_at;
+        const data = remoteRows.get(String(id));
+
         if (!data) {
             const localId = table === 'settings' ? 'local-settings' : id;
             await withRemoteSyncWrite(async () => {
@@ -741,6 +983,13 @@ export class SyncManager {
 
         if (remoteTs <= localTs) return false;
 
+        const localId = table === 'settings' ? 'local-settings' : id;
+        const conflictingLocal = await findConflictingLocalRow(table, localId, data);
+        if (conflictingLocal) {
+            await recordSyncConflict(table, localId, conflictingLocal, data);
+            return true;
+        }
+
         const normalizedRow = { ...data, synced: 1 };
         if (table === 'settings') {
             normalizedRow.id = 'local-settings';
@@ -755,45 +1004,40 @@ export class SyncManager {
         return true;
     }
 
-  private async processQueueItem(item: SyncQueue, session: any) {
-    const { table, action, data } = item;
-        const tablesWithUserId = new Set([
-            'foods',
-            'logs',
-            'goals',
-            'metrics',
-            'settings',
-            'activities',
-            'activity_logs',
-            'workout_exercises_def',
-            'workout_rest_preferences',
-            'workout_routines',
-            'workout_routine_entries',
-            'workouts',
-            'workout_log_entries'
-        ]);
-        const strictUserOwnedTables = new Set([
-            'logs',
-            'goals',
-            'metrics',
-            'settings',
-            'activity_logs',
-            'workout_rest_preferences',
-            'workout_routines',
-            'workout_routine_entries',
-            'workouts',
-            'workout_log_entries'
-        ]);
-        const supportsUserId = tablesWithUserId.has(table);
-    
-    // table mapping
-    let supabaseTable = table;
-    if (table === 'logs') supabaseTable = 'daily_logs'; 
-    if (table === 'metrics') supabaseTable = 'body_metrics'; 
-    if (table === 'settings') supabaseTable = 'user_settings';
-    
-    // For delete, we only need the ID
-    if (action === 'delete') {
+    /**
+     * Pulled rows must not overwrite local rows that still carry unsynced edits. Those
+     * rows are recorded as sync conflicts (or refresh an open one) and left untouched.
+     */
+    private async excludeConflictingPulledRows(tableName: string, rows: Record<string, any>[]) {
+        const localRows = await db.table(tableName).bulkGet(rows.map((row) => row.id));
+        const openConflicts = await getOpenConflictKeys();
+        const rowsToWrite: Record<string, any>[] = [];
+
+        for (const [index, row] of rows.entries()) {
+            const local = localRows[index];
+            const { synced: _synced, ...remote } = row;
+            const hasOpenConflict = openConflicts.has(`${tableName}:${row.id}`);
+
+            if (local && (hasOpenConflict || (local.synced === 0 && getConflictingFields(local, remote).length > 0))) {
+                await recordSyncConflict(tableName, row.id, local, remote);
+                continue;
+            }
+
+            rowsToWrite.push(row);
+        }
+
+        return rowsToWrite;
+    }
+
+    private getSupabaseTable(table: string) {
+        if (table === 'logs') return 'daily_logs';
+        if (table === 'metrics') return 'body_metrics';
+        if (table === 'settings') return 'user_settings';
+        return table;
+    }
+
+    private resolveDeleteId(item: SyncQueue, session: any): string | null {
+         const { table, data } = item;
          // handle both string ID or object with ID
          const rawId = (typeof data === 'object' && data !== null) ? data.id : data;
          let id = rawId;
@@ -807,22 +1051,29 @@ export class SyncManager {
 
          if (!id) {
              console.warn('No ID for delete, skipping', item);
-             return; 
+             return null;
          }
 
          if (table === 'settings' && !this.isUuid(id)) {
              console.warn('[SyncManager] Invalid user_settings delete id, skipping', { rawId, resolvedId: id });
-             return;
+             return null;
          }
-         
-         const { error } = await supabase.from(supabaseTable).delete().eq('id', id);
-         if (error) throw error;
-         return;
+
+         return id;
     }
 
-    // For create/update, we need to clean the data (remove local-only fields if any)
+    /**
+     * Builds the server payload for a queued create/update. Returns null when the item needs
+     * no upload (skipped shared rows, malformed entries), so it can simply be dropped.
+     */
+    private async prepareUpsertPayload(item: SyncQueue, session: any): Promise<Record<string, any> | null> {
+    const { table, action, data } = item;
+        const supportsUserId = TABLES_WITH_USER_ID.has(table);
+        const supabaseTable = this.getSupabaseTable(table);
+
+    // Clean the data (remove local-only fields if any)
     const { synced, ...rawPayload } = data;
-    let payload = this.normalizeDottedPayloadKeys(rawPayload as Record<string, any>);
+    const payload = this.normalizeDottedPayloadKeys(rawPayload as Record<string, any>);
 
         // Permanent behavior: shared/public exercise definitions (user_id null)
         // are reference data and should not be mutated by regular client sync.
@@ -838,7 +1089,7 @@ export class SyncManager {
                 } catch (markError) {
                     console.warn('[SyncManager] Failed to mark shared workout exercise as synced after skip', markError);
                 }
-                return;
+                return null;
             }
         }
 
@@ -853,7 +1104,7 @@ export class SyncManager {
                 } catch (markError) {
                     console.warn('[SyncManager] Failed to mark non-owned/public food as synced after skip', markError);
                 }
-                return;
+                return null;
             }
         }
 
@@ -870,7 +1121,7 @@ export class SyncManager {
                     console.warn('[SyncManager] Failed to delete malformed local workout_log_entries row', cleanupError);
                 }
             }
-            return;
+            return null;
         }
 
         if (!supportsUserId && 'user_id' in payload) {
@@ -882,7 +1133,7 @@ export class SyncManager {
          if (table === 'settings') {
              payload.id = session.user.id;
          }
-         if (strictUserOwnedTables.has(table)) {
+         if (STRICT_USER_OWNED_TABLES.has(table)) {
              payload.user_id = session.user.id;
          } else if (
             payload.user_id === 'local-user' ||
@@ -919,104 +1170,102 @@ export class SyncManager {
         : `id ${payload.id ?? 'unknown'}`;
     console.log(`[SyncManager] Processing ${action} for ${supabaseTable} (${actorLabel})`, payload);
 
+        return payload;
+    }
+
+    /**
+     * Upserts one or more rows, dropping columns the server schema doesn't know about.
+     * Returns the final error, if any.
+     */
+    private async upsertRows(table: string, supabaseTable: string, payloads: Record<string, any>[]) {
+        const supportsUserId = TABLES_WITH_USER_ID.has(table);
+        const upsert = () => supabase
+            .from(supabaseTable)
+            .upsert(payloads, { onConflict: 'id', defaultToNull: false });
+        const hasColumn = (column: string) => payloads.some((payload) => Object.prototype.hasOwnProperty.call(payload, column));
+        const dropColumn = (column: string) => payloads.forEach((payload) => delete payload[column]);
+
         const shouldRetryWithoutUserId = (error: any) => {
       return (
         supportsUserId &&
-        Object.prototype.hasOwnProperty.call(payload, 'user_id') &&
+        hasColumn('user_id') &&
         error?.code === 'PGRST204' &&
         typeof error?.message === 'string' &&
         error.message.includes("'user_id' column")
       );
     };
 
-        const executeCreate = async () => {
-            let { error } = await supabase
-                .from(supabaseTable)
-                .upsert(payload, { onConflict: 'id' });
-
-            if (error && shouldRetryWithoutUserId(error)) {
-                console.warn(`[SyncManager] Retrying ${supabaseTable} upsert without user_id due to schema mismatch`);
-                delete payload.user_id;
-                ({ error } = await supabase
-                    .from(supabaseTable)
-                    .upsert(payload, { onConflict: 'id' }));
-            }
+        let { error } = await upsert();
 
-            let missingColumn = this.getMissingColumnFromError(error);
-            while (error && missingColumn && Object.prototype.hasOwnProperty.call(payload, missingColumn)) {
-                console.warn(`[SyncManager] Retrying ${supabaseTable} upsert without missing column ${missingColumn}`);
-                delete payload[missingColumn];
-                ({ error } = await supabase
-                    .from(supabaseTable)
-                    .upsert(payload, { onConflict: 'id' }));
-                missingColumn = this.getMissingColumnFromError(error);
-            }
+        if (error && shouldRetryWithoutUserId(error)) {
+            console.warn(`[SyncManager] Retrying ${supabaseTable} upsert without user_id due to schema mismatch`);
+            dropColumn('user_id');
+            ({ error } = await upsert());
+        }
 
-            return error;
-        };
+        let missingColumn = this.getMissingColumnFromError(error);
+        while (error && missingColumn && hasColumn(missingColumn)) {
+            console.warn(`[SyncManager] Retrying ${supabaseTable} upsert without missing column ${missingColumn}`);
+            dropColumn(missingColumn);
+            ({ error } = await upsert());
+            missingColumn = this.getMissingColumnFromError(error);
+        }
 
-        const executeUpdate = async () => {
-            let { error } = await supabase
-                .from(supabaseTable)
-                .upsert(payload, { onConflict: 'id' });
-
-            if (error && shouldRetryWithoutUserId(error)) {
-                console.warn(`[SyncManager] Retrying ${supabaseTable} upsert(update) without user_id due to schema mismatch`);
-                delete payload.user_id;
-                ({ error } = await supabase
-                    .from(supabaseTable)
-                    .upsert(payload, { onConflict: 'id' }));
-            }
+        return error;
+    }
 
-            let missingColumn = this.getMissingColumnFromError(error);
-            while (error && missingColumn && Object.prototype.hasOwnProperty.call(payload, missingColumn)) {
-                console.warn(`[SyncManager] Retrying ${supabaseTable} upsert(update) without missing column ${missingColumn}`);
-                delete payload[missingColumn];
-                ({ error } = await supabase
-                    .from(supabaseTable)
-                    .upsert(payload, { onConflict: 'id' }));
-                missingColumn = this.getMissingColumnFromError(error);
-            }
+    private async markRowsSynced(table: string, ids: Array<string | undefined>) {
+    // Passing synced=1 makes the updating hook ignore this write.
+    try {
+        const keys = ids.filter((id): id is string => Boolean(id));
+        if (keys.length) {
+            await db.table(table).bulkUpdate(keys.map((key) => ({ key, changes: { synced: 1 } })));
+        }
+    } catch (e) {
+        console.warn('[SyncManager] Failed to mark local item as synced', e);
+    }
+    }
 
-            return error;
-        };
+  private async processQueueItem(item: SyncQueue, session: any) {
+    const { table, action } = item;
+    const supabaseTable = this.getSupabaseTable(table);
 
-    if (action === 'create') {
-                const error = await executeCreate();
-        if (error) { 
-            console.error('[SyncManager] Insert error:', error);
-            throw error; 
-        }
-    } else if (action === 'update') {
+    // For delete, we only need the ID
+    if (action === 'delete') {
+         const id = this.resolveDeleteId(item, session);
+         if (!id) return;
+
+         const { error } = await supabase.from(supabaseTable).delete().eq('id', id);
+         if (error) throw error;
+         return;
+    }
+
+    const payload = await this.prepareUpsertPayload(item, session);
+    if (!payload) return;
+
+    if (action === 'update') {
         if (!payload.id) throw new Error('No ID for update');
 
-        const staleLocalUpdate = await this.shouldSkipStaleRemoteUpdate(table, supabaseTable, payload);
+        const remoteRows = await this.fetchRemoteRowsById(supabaseTable, [payload.id]);
+        const staleLocalUpdate = await this.shouldSkipStaleRemoteUpdate(table, supabaseTable, payload, remoteRows);
         if (staleLocalUpdate) {
             return;
         }
-
-                const error = await executeUpdate();
-        if (table === 'foods' && error?.code === '42501') {
-            const handled = await this.resolveForbiddenFoodUpdate(payload.id, session?.user?.id ?? null);
-            if (handled) {
-                return;
-            }
-        }
-        if (error) throw error;
     }
 
-    // Mark as synced locally
-    // We need to update the local record to set synced=1
-    // But wait, updating it will trigger the 'updating' hook!
-    // We need to make sure we pass synced=1 so the hook ignores it.
-    try {
-        const id = payload.id;
-        if (id) {
-            await db.table(table).update(id, { synced: 1 });
+    const error = await this.upsertRows(table, supabaseTable, [payload]);
+    if (action === 'update' && table === 'foods' && error?.code === '42501') {
+        const handled = await this.resolveForbiddenFoodUpdate(payload.id, session?.user?.id ?? null);
+        if (handled) {
+            return;
         }
-    } catch (e) {
-        console.warn('[SyncManager] Failed to mark local item as synced', e);
     }
+    if (error) {
+        console.error(`[SyncManager] ${action === 'create' ? 'Insert' : 'Update'} error:`, error);
+        throw error;
+    }
+
+    await this.markRowsSynced(table, [payload.id]);
   }
 
   async pullChanges(session: any) {
@@ -1044,6 +1293,7 @@ export class SyncManager {
         { dexie: 'foods', supabase: 'foods', dateField: 'updated_at', public: true },
         { dexie: 'food_ingredients', supabase: 'food_ingredients', dateField: 'updated_at', fallbackDateField: 'created_at', public: true },
         { dexie: 'logs', supabase: 'daily_logs', dateField: 'updated_at', fallbackDateField: 'created_at' },
+        { dexie: 'saved_meals', supabase: 'saved_meals', dateField: 'updated_at' },
         { dexie: 'goals', supabase: 'goals', dateField: 'updated_at', fallbackDateField: 'created_at' },
         { dexie: 'metrics', supabase: 'body_metrics', dateField: 'updated_at', fallbackDateField: 'created_at' },
         { dexie: 'settings', supabase: 'user_settings', dateField: 'updated_at', reconcileDeletes: true },
@@ -1054,9 +1304,13 @@ export class SyncManager {
         { dexie: 'workout_routines', supabase: 'workout_routines', dateField: 'updated_at' },
         { dexie: 'workout_routine_entries', supabase: 'workout_routine_entries', dateField: 'updated_at', fallbackDateField: 'created_at' },
         { dexie: 'workout_routine_sets', supabase: 'workout_routine_sets', dateField: 'updated_at', fallbackDateField: 'created_at' },
+        { dexie: 'workout_programs', supabase: 'workout_programs', dateField: 'updated_at' },
+        { dexie: 'workout_program_weeks', supabase: 'workout_program_weeks', dateField: 'updated_at' },
+        { dexie: 'workout_training_maxes', supabase: 'workout_training_maxes', dateField: 'updated_at' },
         { dexie: 'workouts', supabase: 'workouts', dateField: 'updated_at' },
         { dexie: 'workout_log_entries', supabase: 'workout_log_entries', dateField: 'updated_at', fallbackDateField: 'created_at' },
-        { dexie: 'workout_sets', supabase: 'workout_sets', dateField: 'updated_at', fallbackDateField: 'created_at' }
+        { dexie: 'workout_sets', supabase: 'workout_sets', dateField: 'updated_at', fallbackDateField: 'created_at' },
+        { dexie: 'workout_personal_records', supabase: 'workout_personal_records', dateField: 'updated_at', fallbackDateField: 'created_at' }
     ];
 
     const deferWorkoutSessionSync = await this.hasInProgressWorkoutSession();
@@ -1164,8 +1418,9 @@ export class SyncManager {
                     }
                     return normalizedRow;
                 });
+                const rowsToWrite = await this.excludeConflictingPulledRows(config.dexie, rows);
                 await withRemoteSyncWrite(async () => {
-                    await db.table(config.dexie).bulkPut(rows);
+                    await db.table(config.dexie).bulkPut(rowsToWrite);
                 });
 
                 // Track max timestamp from the data we just received
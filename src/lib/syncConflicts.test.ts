@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type BodyMetric } from './db';
+import { syncManager } from './sync';
+import { resolveSyncConflict } from './syncConflicts';
+
+const settleSyncQueue = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const localMetric: BodyMetric = { id: 'metric-1', user_id: 'user-1', date: '2026-03-01', type: 'weight', value: 80, unit: 'kg' };
+const remoteMetric = { ...localMetric, value: 82, date: '2026-03-02', updated_at: '2026-03-02T08:00:00.000Z' };
+
+async function pullConflictingRow() {
+  const rowsToWrite = await syncManager['excludeConflictingPulledRows']('metrics', [{ ...remoteMetric, synced: 1 }]);
+  expect(rowsToWrite).toEqual([]);
+  const [conflict] = await db.sync_conflicts.toArray();
+  return conflict;
+}
+
+describe('sync conflicts', () => {
+  beforeEach(async () => {
+    await Promise.all([db.metrics.clear(), db.sync_conflicts.clear()]);
+    // Clearing queues deletes through the hooks; let those land before emptying the queue.
+    await settleSyncQueue();
+    await db.sync_queue.clear();
+    await db.metrics.add(localMetric);
+    await db.metrics.update('metric-1', { value: 81 });
+    await settleSyncQueue();
+  });
+
+  it('records a pulled row that disagrees with a pending local edit and drops the queued push', async () => {
+    expect(await db.sync_queue.count()).toBeGreaterThan(0);
+
+    const conflict = await pullConflictingRow();
+    expect(conflict).toMatchObject({ table: 'metrics', row_id: 'metric-1', fields: ['date', 'value'] });
+    expect(conflict.local.value).toBe(81);
+    expect(conflict.remote.value).toBe(82);
+    expect(await db.sync_queue.count()).toBe(0);
+    expect((await db.metrics.get('metric-1'))?.value).toBe(81);
+  });
+
+  it('writes pulled rows straight through when the local copy is synced', async () => {
+    await db.metrics.put({ ...localMetric, synced: 1 });
+    const rowsToWrite = await syncManager['excludeConflictingPulledRows']('metrics', [{ ...remoteMetric, synced: 1 }]);
+    expect(rowsToWrite).toHaveLength(1);
+    expect(await db.sync_conflicts.count()).toBe(0);
+  });
+
+  it('keeps the remote copy as synced without queueing it', async () => {
+    const conflict = await pullConflictingRow();
+    await resolveSyncConflict(conflict.id!, 'remote');
+    await settleSyncQueue();
+
+    expect(await db.metrics.get('metric-1')).toMatchObject({ value: 82, date: '2026-03-02', synced: 1 });
+    expect(await db.sync_queue.count()).toBe(0);
+    expect(await db.sync_conflicts.count()).toBe(0);
+  });
+
+  it('keeps the local copy and queues it to be pushed again', async () => {
+    const conflict = await pullConflictingRow();
+    await resolveSyncConflict(conflict.id!, 'local');
+    await settleSyncQueue();
+
+    expect(await db.metrics.get('metric-1')).toMatchObject({ value: 81, date: '2026-03-01', synced: 0 });
+    const queue = await db.sync_queue.toArray();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ table: 'metrics', action: 'update', data: { id: 'metric-1', value: 81 } });
+  });
+
+  it('merges the chosen side of each field and queues the result', async () => {
+    const conflict = await pullConflictingRow();
+    await resolveSyncConflict(conflict.id!, { value: 'local', date: 'remote' });
+    await settleSyncQueue();
+
+    expect(await db.metrics.get('metric-1')).toMatchObject({ value: 81, date: '2026-03-02', synced: 0 });
+    const queue = await db.sync_queue.toArray();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].data).toMatchObject({ value: 81, date: '2026-03-02' });
+  });
+});
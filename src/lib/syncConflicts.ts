@@ -0,0 +1,114 @@
+import { db, type SyncConflict, withRemoteSyncWrite } from './db';
+
+export type ConflictSide = 'local' | 'remote';
+export type ConflictResolution = ConflictSide | Record<string, ConflictSide>;
+
+// Bookkeeping columns that always differ between devices and are never merged by hand.
+const IGNORED_CONFLICT_FIELDS = new Set(['id', 'synced', 'created_at', 'updated_at', 'user_id']);
+
+function isSameValue(a: unknown, b: unknown) {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a ?? 0) === Number(b ?? 0);
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function getConflictingFields(local: Record<string, any>, remote: Record<string, any>): string[] {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  return [...keys].filter((key) => {
+    if (IGNORED_CONFLICT_FIELDS.has(key)) return false;
+    // Columns only one side knows about (local-only or server-only) aren't a disagreement.
+    if (!(key in local) || !(key in remote)) return false;
+    return !isSameValue(local[key], remote[key]);
+  });
+}
+
+/**
+ * Returns the local row when it still has unsynced edits that disagree with the remote copy.
+ */
+export async function findConflictingLocalRow(
+  table: string,
+  localId: string,
+  remote: Record<string, any>
+): Promise<Record<string, any> | null> {
+  const local = await db.table(table).get(localId);
+  if (!local || local.synced === 1) return null;
+  return getConflictingFields(local, remote).length ? local : null;
+}
+
+/**
+ * Stores both versions of the row and drops its pending queue items, so neither side
+ * overwrites the other until the user resolves the conflict.
+ */
+export async function recordSyncConflict(
+  table: string,
+  localId: string,
+  local: Record<string, any>,
+  remote: Record<string, any>
+) {
+  const fields = getConflictingFields(local, remote);
+  if (!fields.length) return;
+
+  await db.transaction('rw', db.sync_conflicts, db.sync_queue, async () => {
+    const existing = await db.sync_conflicts.where('[table+row_id]').equals([table, localId]).first();
+    if (existing?.id) {
+      await db.sync_conflicts.update(existing.id, { remote, fields, detected_at: Date.now() });
+    } else {
+      await db.sync_conflicts.add({ table, row_id: localId, local, remote, fields, detected_at: Date.now() });
+    }
+
+    const queuedIds = (await db.sync_queue.where('table').equals(table).toArray())
+      .filter((item) => item.action !== 'delete' && item.data?.id === localId)
+      .map((item) => item.id)
+      .filter((id): id is number => typeof id === 'number');
+    if (queuedIds.length) await db.sync_queue.bulkDelete(queuedIds);
+  });
+
+  console.warn(`[SyncManager] Recorded sync conflict for ${table}.${localId} (${fields.join(', ')})`);
+}
+
+export async function getOpenConflictKeys(): Promise<Set<string>> {
+  const conflicts = await db.sync_conflicts.toArray();
+  return new Set(conflicts.map((conflict) => `${conflict.table}:${conflict.row_id}`));
+}
+
+export function buildMergedRow(conflict: SyncConflict, resolution: ConflictResolution): Record<string, any> {
+  if (resolution === 'remote') return { ...conflict.remote };
+  if (resolution === 'local') return { ...conflict.remote, ...conflict.local };
+
+  const merged: Record<string, any> = { ...conflict.remote, ...conflict.local };
+  conflict.fields.forEach((field) => {
+    merged[field] = resolution[field] === 'remote' ? conflict.remote[field] : conflict.local[field];
+  });
+  return merged;
+}
+
+/**
+ * Applies the chosen version. Keeping the remote copy is written as already synced;
+ * anything containing local values goes through the update hook so it is pushed again.
+ */
+export async function resolveSyncConflict(conflictId: number, resolution: ConflictResolution) {
+  const conflict = await db.sync_conflicts.get(conflictId);
+  if (!conflict) return;
+
+  const merged = buildMergedRow(conflict, resolution);
+  const table = db.table(conflict.table);
+
+  if (resolution === 'remote') {
+    await withRemoteSyncWrite(async () => {
+      await table.put({ ...merged, id: conflict.row_id, synced: 1 });
+    });
+  } else {
+    const { id: _id, synced: _synced, ...changes } = merged;
+    // A fresh updated_at guarantees a real write, so the update hook re-queues the row.
+    changes.updated_at = new Date().toISOString();
+    const exists = await table.get(conflict.row_id);
+    if (exists) {
+      await table.update(conflict.row_id, changes);
+    } else {
+      await table.add({ ...changes, id: conflict.row_id });
+    }
+  }
+
+  await db.sync_conflicts.delete(conflictId);
+}
@@ -0,0 +1,64 @@
+export type SyncErrorType =
+  | 'auth'
+  | 'forbidden'
+  | 'foreign_key'
+  | 'invalid_uuid'
+  | 'network'
+  | 'validation'
+  | 'unknown';
+
+export const SYNC_ERROR_LABELS: Record<SyncErrorType, string> = {
+  auth: 'Auth',
+  forbidden: 'RLS / forbidden',
+  foreign_key: 'FK violation',
+  invalid_uuid: 'Invalid UUID',
+  network: 'Network',
+  validation: 'Validation',
+  unknown: 'Unknown'
+};
+
+export const SYNC_ERROR_HINTS: Record<SyncErrorType, string> = {
+  auth: 'Session expired or missing. Sign in again, then retry.',
+  forbidden: 'The server refused the write (row-level security). The row may belong to another user or be shared data.',
+  foreign_key: 'A referenced row (food, workout, exercise...) is missing on the server. Sync the parent first or discard.',
+  invalid_uuid: 'An id is not a valid UUID, often a leftover local placeholder. Edit the payload or discard.',
+  network: 'The server could not be reached. It will be retried automatically.',
+  validation: 'The server rejected a value (missing column, null or constraint). Edit the payload or discard.',
+  unknown: 'Unclassified error. Check the message below.'
+};
+
+/**
+ * Maps Supabase/PostgREST/Postgres errors (or a stored message string) onto the taxonomy above.
+ */
+export function classifySyncError(error: unknown): SyncErrorType {
+  if (!error) return 'unknown';
+
+  const code = typeof error === 'object' && error !== null ? String((error as { code?: unknown }).code ?? '') : '';
+  const status = typeof error === 'object' && error !== null ? Number((error as { status?: unknown }).status) : NaN;
+  const message = (
+    typeof error === 'string'
+      ? error
+      : error instanceof Error
+        ? error.message
+        : String((error as { message?: unknown })?.message ?? '')
+  ).toLowerCase();
+
+  if (code === '42501' || status === 403 || message.includes('row-level security') || message.includes('permission denied')) {
+    return 'forbidden';
+  }
+  if (code.startsWith('PGRST3') || status === 401 || /jwt|auth session|not authenticated|invalid token/.test(message)) {
+    return 'auth';
+  }
+  if (code === '23503' || message.includes('foreign key')) return 'foreign_key';
+  if ((code === '22P02' && message.includes('uuid')) || message.includes('invalid input syntax for type uuid')) {
+    return 'invalid_uuid';
+  }
+  if (/failed to fetch|load failed|network|fetch|timeout|offline/.test(message) || ['500', '502', '503', '504'].includes(code)) {
+    return 'network';
+  }
+  if (/^(22|23)/.test(code) || code === 'PGRST204' || code === '42703' || /violates|null value|invalid input|column/.test(message)) {
+    return 'validation';
+  }
+
+  return 'unknown';
+}
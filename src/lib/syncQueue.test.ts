@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type SyncQueue } from './db';
+import { coalesceSyncQueue, foldQueueItems, getRetryDelayMs, isQueueItemDue } from './syncQueue';
+
+const item = (action: SyncQueue['action'], data: Record<string, unknown>, overrides: Partial<SyncQueue> = {}): SyncQueue => ({
+  table: 'logs',
+  action,
+  data: { id: 'row-1', ...data },
+  created_at: 0,
+  ...overrides
+});
+
+describe('foldQueueItems', () => {
+  it('keeps a create with the latest data when updates follow it', () => {
+    expect(foldQueueItems([item('create', { amount: 1 }), item('update', { amount: 2 })])).toEqual({
+      action: 'create',
+      data: { id: 'row-1', amount: 2 }
+    });
+  });
+
+  it('drops a row created and deleted before it was ever pushed', () => {
+    expect(foldQueueItems([item('create', {}), item('update', {}), item('delete', {})])).toBeNull();
+  });
+
+  it('keeps the delete when an attempted create may have reached the server', () => {
+    expect(foldQueueItems([item('create', {}, { attempt_count: 1 }), item('delete', {})])?.action).toBe('delete');
+  });
+
+  it('keeps the delete for rows that predate the queue', () => {
+    expect(foldQueueItems([item('update', {}), item('delete', {})])?.action).toBe('delete');
+  });
+
+  it('turns a delete followed by a re-create into a create', () => {
+    expect(foldQueueItems([item('delete', {}), item('update', { amount: 3 })])).toEqual({
+      action: 'create',
+      data: { id: 'row-1', amount: 3 }
+    });
+  });
+});
+
+describe('retry backoff', () => {
+  it('doubles up to the cap', () => {
+    expect(getRetryDelayMs(0)).toBe(0);
+    expect(getRetryDelayMs(1)).toBe(30_000);
+    expect(getRetryDelayMs(3)).toBe(120_000);
+    expect(getRetryDelayMs(20)).toBe(30 * 60 * 1000);
+  });
+
+  it('holds failed items until their retry time', () => {
+    const failed = item('update', {}, { attempt_count: 2, last_attempt_at: 1_000 });
+    expect(isQueueItemDue(failed, 1_000 + 59_999)).toBe(false);
+    expect(isQueueItemDue(failed, 1_000 + 60_000)).toBe(true);
+    expect(isQueueItemDue(item('update', {}))).toBe(true);
+  });
+});
+
+describe('coalesceSyncQueue', () => {
+  beforeEach(async () => {
+    await db.sync_queue.clear();
+  });
+
+  it('collapses each row to its oldest item and keeps the latest retry state', async () => {
+    await db.sync_queue.bulkAdd([
+      item('create', { amount: 1 }, { created_at: 1, attempt_count: 2, last_attempt_at: 50, last_error: 'offline' }),
+      item('update', { id: 'row-2' }, { created_at: 2 }),
+      item('update', { amount: 2 }, { created_at: 3 }),
+      item('create', { id: 'row-3' }, { created_at: 4 }),
+      item('delete', { id: 'row-3' }, { created_at: 5 })
+    ]);
+
+    expect(await coalesceSyncQueue()).toBe(3);
+
+    const queue = await db.sync_queue.orderBy('created_at').toArray();
+    expect(queue).toHaveLength(2);
+    expect(queue[0]).toMatchObject({
+      action: 'create',
+      data: { id: 'row-1', amount: 2 },
+      attempt_count: 2,
+      last_attempt_at: 50,
+      last_error: 'offline'
+    });
+    expect(queue[1]).toMatchObject({ action: 'update', data: { id: 'row-2' } });
+  });
+});
@@ -0,0 +1,123 @@
+import { db, type SyncQueue } from './db';
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Upserts run parents-first so foreign keys resolve; deletes run in reverse (children first).
+export const SYNC_TABLE_ORDER = [
+  'profiles',
+  'foods',
+  'food_ingredients',
+  'goals',
+  'metrics',
+  'settings',
+  'logs',
+  'saved_meals',
+  'activities',
+  'activity_logs',
+  'workout_exercises_def',
+  'workout_rest_preferences',
+  'workout_routines',
+  'workout_routine_entries',
+  'workout_routine_sets',
+  'workout_programs',
+  'workout_program_weeks',
+  'workout_training_maxes',
+  'workouts',
+  'workout_log_entries',
+  'workout_sets',
+  'workout_personal_records'
+];
+
+export function getQueueRowId(item: SyncQueue): string | null {
+  const rawId = typeof item.data === 'object' && item.data !== null ? item.data.id : item.data;
+  return rawId === undefined || rawId === null || rawId === '' ? null : String(rawId);
+}
+
+export function getRetryDelayMs(attemptCount = 0) {
+  if (attemptCount <= 0) return 0;
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1), RETRY_MAX_DELAY_MS);
+}
+
+export function getNextRetryAt(item: SyncQueue): number | null {
+  if (!item.attempt_count || !item.last_attempt_at) return null;
+  return item.last_attempt_at + getRetryDelayMs(item.attempt_count);
+}
+
+export function isQueueItemDue(item: SyncQueue, now = Date.now()) {
+  const nextRetryAt = getNextRetryAt(item);
+  return nextRetryAt === null || nextRetryAt <= now;
+}
+
+type FoldedQueueItem = Pick<SyncQueue, 'action' | 'data'>;
+
+/**
+ * Folds a row's queued changes (oldest first) into the single change the server still needs:
+ * create+update → create, update+delete → delete, create+delete → nothing.
+ */
+export function foldQueueItems(items: SyncQueue[]): FoldedQueueItem | null {
+  let result = null as FoldedQueueItem | null;
+  let mayExistRemotely = false;
+
+  for (const item of items) {
+    if (item.action === 'delete') {
+      const neverPushed: boolean = result?.action === 'create' && !mayExistRemotely;
+      result = neverPushed ? null : { action: 'delete', data: item.data };
+      mayExistRemotely = !neverPushed;
+      continue;
+    }
+
+    // A leading update means the row predates the queue; an attempted create may have landed.
+    if ((item.action === 'update' && !result) || (item.attempt_count ?? 0) > 0) mayExistRemotely = true;
+
+    // Everything is pushed as an upsert, so anything following a create or delete stays a create.
+    result = { action: result && result.action !== 'update' ? 'create' : item.action, data: item.data };
+  }
+
+  return result;
+}
+
+/**
+ * Collapses the queue to at most one item per table/row. The oldest item of each row is
+ * kept (with the row's latest retry state) so ordering and backoff survive coalescing.
+ */
+export async function coalesceSyncQueue() {
+  return db.transaction('rw', db.sync_queue, async () => {
+    const queue = await db.sync_queue.orderBy('created_at').toArray();
+    const groups = new Map<string, SyncQueue[]>();
+
+    queue.forEach((item) => {
+      const rowId = getQueueRowId(item);
+      if (!rowId || typeof item.id !== 'number') return;
+      const key = `${item.table}:${rowId}`;
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+
+    const removedIds: number[] = [];
+    for (const items of groups.values()) {
+      if (items.length < 2) continue;
+
+      const [survivor, ...rest] = items;
+      const folded = foldQueueItems(items);
+      removedIds.push(...rest.map((item) => item.id as number));
+
+      if (!folded) {
+        removedIds.push(survivor.id as number);
+        continue;
+      }
+
+      const lastAttempted = [...items].sort((a, b) => (b.last_attempt_at ?? 0) - (a.last_attempt_at ?? 0))[0];
+      await db.sync_queue.update(survivor.id as number, {
+        action: folded.action,
+        data: folded.data,
+        attempt_count: Math.max(...items.map((item) => item.attempt_count ?? 0)),
+        last_attempt_at: lastAttempted.last_attempt_at,
+        last_error: lastAttempted.last_error,
+        error_type: lastAttempted.error_type
+      });
+    }
+
+    if (removedIds.length) await db.sync_queue.bulkDelete(removedIds);
+    return removedIds.length;
+  });
+}
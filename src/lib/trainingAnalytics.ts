@@ -0,0 +1,177 @@
+import { db } from './db';
+import { getMetricConfig } from './workouts';
+
+export const ANALYTICS_WEEK_COUNT = 12;
+// Weeks averaged for "typical week" figures and balance checks.
+export const RECENT_WEEK_COUNT = 4;
+// A set counts half towards each secondary muscle group.
+export const SECONDARY_MUSCLE_WEIGHT = 0.5;
+
+const PUSH_GROUPS = ['Chest', 'Shoulders'];
+const PULL_GROUPS = ['Back'];
+const UPPER_GROUPS = ['Chest', 'Back', 'Shoulders', 'Arms'];
+const LOWER_GROUPS = ['Legs'];
+const MAJOR_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders'];
+const IMBALANCE_RATIO = 1.5;
+const MIN_WEEKLY_SETS = 4;
+
+export interface TrainingVolumeSet {
+  startTime: string;
+  muscleGroup?: string;
+  secondaryMuscleGroups?: string[];
+  weight: number;
+  reps: number;
+  usesWeight: boolean;
+}
+
+export interface MuscleGroupWeek {
+  weekStart: string;
+  sets: number;
+  tonnage: number;
+}
+
+export interface MuscleGroupVolume {
+  muscleGroup: string;
+  weeks: MuscleGroupWeek[];
+  recentAverageSets: number;
+  recentAverageTonnage: number;
+}
+
+export function getWeekStart(date: Date) {
+  const start = new Date(date);
+  const day = start.getDay();
+  start.setDate(start.getDate() - (day === 0 ? 6 : day - 1));
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Hard sets and tonnage per muscle group for each of the last `weekCount` weeks (Monday starts),
+ * oldest first. Secondary muscle groups get a fractional share of each set.
+ */
+export function buildWeeklyMuscleVolume(
+  sets: TrainingVolumeSet[],
+  now = new Date(),
+  weekCount = ANALYTICS_WEEK_COUNT
+): MuscleGroupVolume[] {
+  const firstWeek = addDays(getWeekStart(now), -7 * (weekCount - 1));
+  const weekStarts = Array.from({ length: weekCount }, (_, index) => addDays(firstWeek, 7 * index));
+  const weekIndexByStart = new Map(weekStarts.map((weekStart, index) => [weekStart.getTime(), index]));
+  const byGroup = new Map<string, MuscleGroupWeek[]>();
+
+  const add = (muscleGroup: string, weekIndex: number, share: number, tonnage: number) => {
+    if (!byGroup.has(muscleGroup)) {
+      byGroup.set(muscleGroup, weekStarts.map((weekStart) => ({ weekStart: weekStart.toISOString(), sets: 0, tonnage: 0 })));
+    }
+    const week = byGroup.get(muscleGroup)![weekIndex];
+    week.sets += share;
+    week.tonnage += tonnage * share;
+  };
+
+  for (const set of sets) {
+    const weekIndex = weekIndexByStart.get(getWeekStart(new Date(set.startTime)).getTime());
+    if (weekIndex === undefined) continue;
+
+    const primary = set.muscleGroup || 'Other';
+    const tonnage = set.usesWeight ? Math.max(0, set.weight) * Math.max(0, set.reps) : 0;
+    add(primary, weekIndex, 1, tonnage);
+    for (const secondary of new Set(set.secondaryMuscleGroups ?? [])) {
+      if (secondary && secondary !== primary) add(secondary, weekIndex, SECONDARY_MUSCLE_WEIGHT, tonnage);
+    }
+  }
+
+  const recentCount = Math.min(RECENT_WEEK_COUNT, weekCount);
+  return [...byGroup]
+    .map(([muscleGroup, weeks]) => {
+      const recent = weeks.slice(-recentCount);
+      return {
+        muscleGroup,
+        weeks,
+        recentAverageSets: recent.reduce((sum, week) => sum + week.sets, 0) / recentCount,
+        recentAverageTonnage: recent.reduce((sum, week) => sum + week.tonnage, 0) / recentCount
+      };
+    })
+    .sort((a, b) => b.recentAverageSets - a.recentAverageSets || a.muscleGroup.localeCompare(b.muscleGroup));
+}
+
+const formatSets = (value: number) => `${Math.round(value * 10) / 10}`;
+
+/**
+ * Push/pull, upper/lower and neglected-group warnings from the recent weeks' set counts.
+ */
+export function getTrainingBalanceWarnings(volumes: MuscleGroupVolume[]): string[] {
+  const averageFor = (groups: string[]) =>
+    volumes.filter((volume) => groups.includes(volume.muscleGroup)).reduce((sum, volume) => sum + volume.recentAverageSets, 0);
+  const warnings: string[] = [];
+  // Groups already called out by a ratio warning aren't repeated as under-trained.
+  const flagged = new Set<string>();
+
+  const push = averageFor(PUSH_GROUPS);
+  const pull = averageFor(PULL_GROUPS);
+  if (push > 0 && pull === 0) {
+    warnings.push(`No back work in the last ${RECENT_WEEK_COUNT} weeks against ${formatSets(push)} push sets a week. Add rows or pull-ups.`);
+    PULL_GROUPS.forEach((group) => flagged.add(group));
+  } else if (pull > 0 && push / pull > IMBALANCE_RATIO) {
+    warnings.push(`Push volume is ${formatSets(push / pull)}× pull (${formatSets(push)} vs ${formatSets(pull)} sets a week). Add rows or pull-ups.`);
+    PULL_GROUPS.forEach((group) => flagged.add(group));
+  } else if (push > 0 && pull / push > IMBALANCE_RATIO) {
+    warnings.push(`Pull volume is ${formatSets(pull / push)}× push (${formatSets(pull)} vs ${formatSets(push)} sets a week). Add presses.`);
+    PUSH_GROUPS.forEach((group) => flagged.add(group));
+  }
+
+  const upper = averageFor(UPPER_GROUPS);
+  const lower = averageFor(LOWER_GROUPS);
+  // Legs are one coarse group against four upper ones, so only flag a wide gap.
+  if (upper > 0 && lower * IMBALANCE_RATIO * 2 < upper) {
+    warnings.push(`Legs get ${formatSets(lower)} sets a week against ${formatSets(upper)} for the upper body.`);
+    LOWER_GROUPS.forEach((group) => flagged.add(group));
+  }
+
+  const total = volumes.reduce((sum, volume) => sum + volume.recentAverageSets, 0);
+  if (total >= MIN_WEEKLY_SETS * MAJOR_GROUPS.length) {
+    for (const muscleGroup of MAJOR_GROUPS) {
+      const average = averageFor([muscleGroup]);
+      if (average < MIN_WEEKLY_SETS && !flagged.has(muscleGroup)) {
+        warnings.push(`${muscleGroup} averages ${formatSets(average)} sets a week, under ${MIN_WEEKLY_SETS}.`);
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Completed, non-warmup sets from workouts started on or after `since`, with their exercise's muscle groups.
+ */
+export async function getTrainingVolumeSets(since: Date): Promise<TrainingVolumeSet[]> {
+  const workouts = await db.workouts.where('start_time').aboveOrEqual(since.toISOString()).toArray();
+  if (!workouts.length) return [];
+
+  const startTimeByWorkout = new Map(workouts.map((workout) => [workout.id, workout.start_time]));
+  const entries = await db.workout_log_entries.where('workout_id').anyOf([...startTimeByWorkout.keys()]).toArray();
+  const entryById = new Map(entries.map((entry) => [entry.id, entry]));
+  const sets = entries.length ? await db.workout_sets.where('workout_log_entry_id').anyOf([...entryById.keys()]).toArray() : [];
+  const definitions = await db.workout_exercises_def.bulkGet([...new Set(entries.map((entry) => entry.exercise_id))]);
+  const definitionById = new Map(definitions.filter(Boolean).map((definition) => [definition!.id, definition!]));
+
+  return sets.flatMap((set) => {
+    const entry = entryById.get(set.workout_log_entry_id);
+    if (!set.completed || set.is_warmup || !entry) return [];
+    const definition = definitionById.get(entry.exercise_id);
+    const config = getMetricConfig(definition?.metric_type);
+    return [{
+      startTime: startTimeByWorkout.get(entry.workout_id) || '',
+      muscleGroup: definition?.muscle_group,
+      secondaryMuscleGroups: definition?.secondary_muscle_groups,
+      weight: Number(set.weight) || 0,
+      reps: Number(set.reps) || 0,
+      usesWeight: config.weight && config.reps
+    }];
+  });
+}
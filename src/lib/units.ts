@@ -0,0 +1,173 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from './db';
+import { SETTINGS_ID, updateLocalSettings } from './settings';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+export const UNIT_SYSTEM_OPTIONS: Array<{ value: UnitSystem; label: string; hint: string }> = [
+  { value: 'metric', label: 'Metric', hint: 'kg, km, cm, ml, g' },
+  { value: 'imperial', label: 'Imperial', hint: 'lb, mi, in, fl oz, oz' }
+];
+
+export const KG_PER_LB = 0.45359237;
+export const KM_PER_MI = 1.609344;
+export const CM_PER_IN = 2.54;
+export const ML_PER_FL_OZ = 29.5735;
+export const G_PER_OZ = 28.3495;
+
+export interface UnitLabels {
+  weight: 'kg' | 'lb';
+  distance: 'km' | 'mi';
+  length: 'cm' | 'in';
+  volume: 'ml' | 'fl oz';
+  mass: 'g' | 'oz';
+}
+
+const METRIC_LABELS: UnitLabels = { weight: 'kg', distance: 'km', length: 'cm', volume: 'ml', mass: 'g' };
+const IMPERIAL_LABELS: UnitLabels = { weight: 'lb', distance: 'mi', length: 'in', volume: 'fl oz', mass: 'oz' };
+
+// Food serving units that can also be logged in the other system's unit.
+export const FOOD_UNIT_COUNTERPARTS: Record<string, string> = { g: 'oz', ml: 'fl oz', oz: 'g', 'fl oz': 'ml' };
+
+export const normalizeUnitSystem = (value: unknown): UnitSystem => (value === 'imperial' ? 'imperial' : 'metric');
+
+export const getUnitLabels = (system: UnitSystem): UnitLabels => (system === 'imperial' ? IMPERIAL_LABELS : METRIC_LABELS);
+
+const normalizeUnitKey = (unit: string | undefined) =>
+  (unit || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s.]+/g, ' ');
+
+export const roundTo = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Converts a stored or entered weight in any supported unit to kilograms.
+ */
+export function toKg(value: number, unit?: string): number {
+  if (!Number.isFinite(value)) return 0;
+  switch (normalizeUnitKey(unit)) {
+    case 'lb':
+    case 'lbs':
+    case 'pound':
+    case 'pounds':
+      return value * KG_PER_LB;
+    case 'g':
+    case 'gram':
+    case 'grams':
+      return value / 1000;
+    default:
+      return value;
+  }
+}
+
+export function fromKg(valueKg: number, unit?: string): number {
+  if (!Number.isFinite(valueKg)) return 0;
+  switch (normalizeUnitKey(unit)) {
+    case 'lb':
+    case 'lbs':
+      return valueKg / KG_PER_LB;
+    case 'g':
+      return valueKg * 1000;
+    default:
+      return valueKg;
+  }
+}
+
+export const toCm = (value: number, unit?: string) => (normalizeUnitKey(unit) === 'in' ? value * CM_PER_IN : value);
+
+export const toMl = (value: number, unit?: string) => {
+  const key = normalizeUnitKey(unit);
+  if (key === 'fl oz' || key === 'floz') return value * ML_PER_FL_OZ;
+  if (key === 'l') return value * 1000;
+  return value;
+};
+
+// Canonical (kg/km/cm/ml) <-> display values for the user's unit system.
+export const toDisplayWeight = (kg: number, system: UnitSystem) => (system === 'imperial' ? kg / KG_PER_LB : kg);
+export const fromDisplayWeight = (value: number, system: UnitSystem) => (system === 'imperial' ? value * KG_PER_LB : value);
+export const toDisplayDistance = (km: number, system: UnitSystem) => (system === 'imperial' ? km / KM_PER_MI : km);
+export const fromDisplayDistance = (value: number, system: UnitSystem) => (system === 'imperial' ? value * KM_PER_MI : value);
+export const toDisplayLength = (cm: number, system: UnitSystem) => (system === 'imperial' ? cm / CM_PER_IN : cm);
+export const fromDisplayLength = (value: number, system: UnitSystem) => (system === 'imperial' ? value * CM_PER_IN : value);
+export const toDisplayVolume = (ml: number, system: UnitSystem) => (system === 'imperial' ? ml / ML_PER_FL_OZ : ml);
+export const fromDisplayVolume = (value: number, system: UnitSystem) => (system === 'imperial' ? value * ML_PER_FL_OZ : value);
+
+export const formatWeight = (kg: number, system: UnitSystem, digits = 1) =>
+  `${roundTo(toDisplayWeight(kg, system), digits)} ${getUnitLabels(system).weight}`;
+
+export const formatDistance = (km: number, system: UnitSystem, digits = 2) =>
+  `${roundTo(toDisplayDistance(km, system), digits)} ${getUnitLabels(system).distance}`;
+
+export const formatLength = (cm: number, system: UnitSystem, digits = 1) =>
+  `${roundTo(toDisplayLength(cm, system), digits)} ${getUnitLabels(system).length}`;
+
+export const formatVolume = (ml: number, system: UnitSystem) =>
+  system === 'imperial' ? `${roundTo(toDisplayVolume(ml, system), 1)} fl oz` : `${Math.round(ml)} ml`;
+
+/**
+ * Formats a body metric entry, whatever unit it was recorded in, in the user's unit system.
+ */
+export function formatBodyMetric(value: number, unit: string | undefined, system: UnitSystem) {
+  switch (normalizeUnitKey(unit)) {
+    case 'kg':
+    case 'lb':
+    case 'lbs':
+      return formatWeight(toKg(value, unit), system);
+    case 'cm':
+    case 'in':
+      return formatLength(toCm(value, unit), system);
+    case 'ml':
+    case 'fl oz':
+    case 'l':
+      return formatVolume(toMl(value, unit), system);
+    default:
+      return `${value} ${unit || ''}`.trim();
+  }
+}
+
+/**
+ * Converts a food amount between g/oz or ml/fl oz. Amounts in unrelated units are returned unchanged.
+ */
+export function convertFoodAmount(value: number, fromUnit: string | undefined, toUnit: string | undefined) {
+  const from = normalizeUnitKey(fromUnit);
+  const to = normalizeUnitKey(toUnit);
+  if (from === to) return value;
+  if ((from === 'g' || from === 'oz') && (to === 'g' || to === 'oz')) {
+    return from === 'oz' ? value * G_PER_OZ : value / G_PER_OZ;
+  }
+  if ((from === 'ml' || from === 'fl oz') && (to === 'ml' || to === 'fl oz')) {
+    return from === 'fl oz' ? value * ML_PER_FL_OZ : value / ML_PER_FL_OZ;
+  }
+  return value;
+}
+
+/**
+ * Formats a logged food amount, showing g and ml foods in oz and fl oz for imperial users.
+ */
+export function formatFoodAmount(amount: number, unit: string, system: UnitSystem) {
+  const key = normalizeUnitKey(unit);
+  if (system === 'imperial' && (key === 'g' || key === 'ml')) {
+    const imperialUnit = FOOD_UNIT_COUNTERPARTS[key];
+    return `${roundTo(convertFoodAmount(amount, key, imperialUnit), 1)} ${imperialUnit}`;
+  }
+  return `${Math.round(amount)}${unit}`;
+}
+
+export async function getUnitSystem() {
+  const settings = await db.settings.get(SETTINGS_ID);
+  return normalizeUnitSystem(settings?.units);
+}
+
+export async function saveUnitSystem(system: UnitSystem) {
+  await updateLocalSettings({ units: normalizeUnitSystem(system) });
+}
+
+export function useUnitSystem() {
+  return useLiveQuery(getUnitSystem, [], DEFAULT_UNIT_SYSTEM);
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type WorkoutSet } from './db';
+import { getInProgressWorkouts, isWorkoutAbandoned, repairWorkoutDrafts } from './workoutSessions';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const makeSet = (overrides: Partial<WorkoutSet>): WorkoutSet => ({
+  id: 'set',
+  workout_log_entry_id: 'entry',
+  set_number: 1,
+  completed: true,
+  ...overrides
+});
+
+const clearWorkoutTables = () =>
+  Promise.all([
+    db.settings.clear(),
+    db.workouts.clear(),
+    db.workout_log_entries.clear(),
+    db.workout_sets.clear(),
+    db.workout_personal_records.clear()
+  ]);
+
+describe('getInProgressWorkouts', () => {
+  beforeEach(async () => {
+    await clearWorkoutTables();
+    await db.workouts.bulkAdd([
+      { id: 'done', user_id: 'local-user', start_time: '2026-03-01T08:00:00.000Z', end_time: '2026-03-01T09:00:00.000Z' },
+      { id: 'open', user_id: 'local-user', start_time: '2026-03-02T08:00:00.000Z', updated_at: new Date('2026-03-02T08:00:00.000Z') }
+    ]);
+    await db.workout_log_entries.add({
+      id: 'e1',
+      workout_id: 'open',
+      exercise_id: 'bench',
+      sort_order: 1,
+      created_at: new Date('2026-03-02T08:05:00.000Z'),
+      updated_at: new Date('2026-03-02T08:05:00.000Z')
+    });
+    await db.workout_sets.add(
+      makeSet({ id: 's1', workout_log_entry_id: 'e1', created_at: new Date('2026-03-02T08:10:00.000Z'), updated_at: new Date('2026-03-02T08:40:00.000Z') })
+    );
+  });
+
+  it('dates abandonment from the last change to the session', async () => {
+    const [session] = await getInProgressWorkouts();
+    const lastSetAt = new Date('2026-03-02T08:40:00.000Z').getTime();
+
+    expect(session.workout.id).toBe('open');
+    expect(session.lastCompletedSetAt).toBe(lastSetAt);
+    expect(session.abandonedAt).toBe(lastSetAt + 12 * HOUR_MS);
+    expect(isWorkoutAbandoned(session, lastSetAt + 12 * HOUR_MS - 1)).toBe(false);
+    expect(isWorkoutAbandoned(session, lastSetAt + 12 * HOUR_MS)).toBe(true);
+  });
+});
+
+describe('repairWorkoutDrafts', () => {
+  beforeEach(async () => {
+    await clearWorkoutTables();
+    await db.workouts.add({ id: 'w1', user_id: 'local-user', start_time: '2026-03-02T08:00:00.000Z' });
+    await db.workout_log_entries.add({ id: 'e1', workout_id: 'w1', exercise_id: 'bench', sort_order: 1 });
+  });
+
+  const settleSyncQueue = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const clearSyncQueue = async () => {
+    await settleSyncQueue();
+    await db.sync_queue.clear();
+  };
+
+  it('drops unpushed orphans and closes up local set numbers', async () => {
+    await db.workout_log_entries.add({ id: 'e-lost', workout_id: 'w-lost', exercise_id: 'bench', sort_order: 1 });
+    await db.workout_sets.bulkAdd([
+      makeSet({ id: 's-lost', workout_log_entry_id: 'e-lost' }),
+      makeSet({ id: 's1', workout_log_entry_id: 'e1', set_number: 1 }),
+      makeSet({ id: 's2', workout_log_entry_id: 'e1', set_number: 3 })
+    ]);
+
+    expect(await repairWorkoutDrafts()).toEqual({ orphanedSets: 1, orphanedEntries: 1, renumberedSets: 1 });
+    expect(await db.workout_log_entries.get('e-lost')).toBeUndefined();
+    expect(await db.workout_sets.get('s-lost')).toBeUndefined();
+    expect((await db.workout_sets.get('s2'))?.set_number).toBe(2);
+  });
+
+  it('leaves synced rows alone, orphaned or not', async () => {
+    await db.workout_log_entries.add({ id: 'e-pulled', workout_id: 'w-not-pulled-yet', exercise_id: 'bench', sort_order: 1, synced: 1 });
+    await db.workout_sets.bulkAdd([
+      makeSet({ id: 's-pulled', workout_log_entry_id: 'e-not-pulled-yet', synced: 1 }),
+      makeSet({ id: 's1', workout_log_entry_id: 'e1', set_number: 1, synced: 1 }),
+      makeSet({ id: 's2', workout_log_entry_id: 'e1', set_number: 3, synced: 1 })
+    ]);
+    await db.workout_personal_records.add({
+      id: 'pr-1',
+      user_id: 'user-1',
+      exercise_id: 'bench',
+      workout_id: 'w-not-pulled-yet',
+      workout_set_id: 's-pulled',
+      record_type: 'heaviest_weight',
+      value: 100,
+      previous_value: 90,
+      achieved_at: '2026-03-01T08:00:00.000Z',
+      synced: 1
+    });
+    await clearSyncQueue();
+
+    expect(await repairWorkoutDrafts()).toEqual({ orphanedSets: 0, orphanedEntries: 0, renumberedSets: 0 });
+    expect(await db.workout_log_entries.get('e-pulled')).toBeDefined();
+    expect(await db.workout_sets.get('s-pulled')).toMatchObject({ synced: 1 });
+    expect(await db.workout_sets.get('s2')).toMatchObject({ set_number: 3, synced: 1 });
+    expect(await db.workout_personal_records.get('pr-1')).toBeDefined();
+
+    await settleSyncQueue();
+    expect(await db.sync_queue.count()).toBe(0);
+  });
+
+  it('drops the synced record of an unpushed orphan without queueing a remote delete', async () => {
+    await db.workout_sets.add(makeSet({ id: 's-lost', workout_log_entry_id: 'e-lost' }));
+    await db.workout_personal_records.add({
+      id: 'pr-1',
+      user_id: 'user-1',
+      exercise_id: 'bench',
+      workout_id: 'w1',
+      workout_set_id: 's-lost',
+      record_type: 'heaviest_weight',
+      value: 100,
+      previous_value: 90,
+      achieved_at: '2026-03-01T08:00:00.000Z',
+      synced: 1
+    });
+    await clearSyncQueue();
+
+    await repairWorkoutDrafts();
+    await settleSyncQueue();
+
+    expect(await db.workout_personal_records.get('pr-1')).toBeUndefined();
+    const queued = await db.sync_queue.toArray();
+    expect(queued.filter((item) => item.table === 'workout_personal_records')).toEqual([]);
+  });
+});
@@ -0,0 +1,249 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, withRemoteSyncWrite, type Workout, type WorkoutLogEntry, type WorkoutSet } from './db';
+import { clearPersonalRecordsForEntries, clearPersonalRecordsForSets, clearPersonalRecordsForWorkout, recomputePersonalRecords } from './personalRecords';
+import { skipRestTimer } from './restTimer';
+import { SETTINGS_ID, updateLocalSettings } from './settings';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_ABANDONED_WORKOUT_HOURS = 12;
+export const ABANDONED_WORKOUT_HOUR_OPTIONS = [2, 4, 8, 12, 24, 48];
+
+export interface InProgressWorkout {
+  workout: Workout;
+  entries: WorkoutLogEntry[];
+  lastActivityAt: number;
+  lastCompletedSetAt: number | null;
+  // When the session counts as abandoned if nothing else changes.
+  abandonedAt: number;
+}
+
+export interface WorkoutRepairSummary {
+  orphanedSets: number;
+  orphanedEntries: number;
+  renumberedSets: number;
+}
+
+const toTime = (value?: Date | string | null) => {
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isFinite(time) ? time : 0;
+};
+
+export const normalizeAbandonedWorkoutHours = (value: unknown) => {
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_ABANDONED_WORKOUT_HOURS;
+};
+
+export async function getAbandonedWorkoutHours() {
+  const settings = await db.settings.get(SETTINGS_ID);
+  return normalizeAbandonedWorkoutHours(settings?.abandoned_workout_hours);
+}
+
+export async function saveAbandonedWorkoutHours(hours: number) {
+  await updateLocalSettings({ abandoned_workout_hours: normalizeAbandonedWorkoutHours(hours) });
+}
+
+export function useAbandonedWorkoutHours() {
+  return useLiveQuery(getAbandonedWorkoutHours, [], DEFAULT_ABANDONED_WORKOUT_HOURS);
+}
+
+/**
+ * Last time the session was touched, and when its latest completed set was ticked off. Sets have
+ * no completion timestamp, so a completed set's last update stands in for it.
+ */
+export function getWorkoutActivity(workout: Workout, entries: WorkoutLogEntry[], sets: WorkoutSet[]) {
+  const touchedAt = [
+    toTime(workout.start_time),
+    toTime(workout.updated_at),
+    ...entries.map((entry) => Math.max(toTime(entry.created_at), toTime(entry.updated_at))),
+    ...sets.map((set) => Math.max(toTime(set.created_at), toTime(set.updated_at)))
+  ];
+  const completedAt = sets.filter((set) => set.completed).map((set) => Math.max(toTime(set.created_at), toTime(set.updated_at)));
+
+  return {
+    lastActivityAt: Math.max(...touchedAt),
+    lastCompletedSetAt: completedAt.length ? Math.max(...completedAt) : null
+  };
+}
+
+/**
+ * end_time for closing a session after the fact: its last completed set, never before it started.
+ */
+export function inferWorkoutEndTime(workout: Workout, lastCompletedSetAt: number | null) {
+  const startMs = toTime(workout.start_time);
+  return new Date(Math.max(startMs, lastCompletedSetAt ?? startMs)).toISOString();
+}
+
+export const isWorkoutAbandoned = (session: InProgressWorkout, now = Date.now()) => now >= session.abandonedAt;
+
+/**
+ * Unfinished workouts, newest first. A session counts as abandoned once nothing in it has changed
+ * for the configured number of hours.
+ */
+export async function getInProgressWorkouts(): Promise<InProgressWorkout[]> {
+  const workouts = (await db.workouts.toArray()).filter((workout) => !workout.end_time);
+  if (!workouts.length) return [];
+
+  const abandonedAfterMs = (await getAbandonedWorkoutHours()) * HOUR_MS;
+  const entries = await db.workout_log_entries.where('workout_id').anyOf(workouts.map((workout) => workout.id)).toArray();
+  const sets = entries.length ? await db.workout_sets.where('workout_log_entry_id').anyOf(entries.map((entry) => entry.id)).toArray() : [];
+
+  return workouts
+    .map((workout) => {
+      const workoutEntries = entries.filter((entry) => entry.workout_id === workout.id).sort((a, b) => a.sort_order - b.sort_order);
+      const entryIds = new Set(workoutEntries.map((entry) => entry.id));
+      const activity = getWorkoutActivity(workout, workoutEntries, sets.filter((set) => entryIds.has(set.workout_log_entry_id)));
+      return { workout, entries: workoutEntries, ...activity, abandonedAt: activity.lastActivityAt + abandonedAfterMs };
+    })
+    .sort((a, b) => toTime(b.workout.start_time) - toTime(a.workout.start_time));
+}
+
+/**
+ * Drops sets that were never completed (and exercises left without any), then closes up the
+ * sort order and set numbers. Runs inside the caller's transaction.
+ */
+export async function pruneUnfinishedSets(workoutId: string) {
+  const sourceEntries = await db.workout_log_entries.where('workout_id').equals(workoutId).sortBy('sort_order');
+  const sourceEntryIds = sourceEntries.map((entry) => entry.id);
+  const sourceSets = sourceEntryIds.length ? await db.workout_sets.where('workout_log_entry_id').anyOf(sourceEntryIds).toArray() : [];
+
+  const completedSetsByEntryId = sourceSets.reduce<Record<string, WorkoutSet[]>>((acc, set) => {
+    if (!set.completed) return acc;
+    if (!acc[set.workout_log_entry_id]) acc[set.workout_log_entry_id] = [];
+    acc[set.workout_log_entry_id].push(set);
+    return acc;
+  }, {});
+
+  const keepEntryIds = new Set(Object.keys(completedSetsByEntryId));
+  const removeEntryIds = sourceEntries.filter((entry) => !keepEntryIds.has(entry.id)).map((entry) => entry.id);
+
+  if (removeEntryIds.length) {
+    await clearPersonalRecordsForEntries(removeEntryIds);
+    await db.workout_sets.where('workout_log_entry_id').anyOf(removeEntryIds).delete();
+    await db.workout_log_entries.where('id').anyOf(removeEntryIds).delete();
+  }
+
+  const keepEntries = sourceEntries.filter((entry) => keepEntryIds.has(entry.id));
+
+  for (let entryIndex = 0; entryIndex < keepEntries.length; entryIndex += 1) {
+    const entry = keepEntries[entryIndex];
+    const nextSortOrder = entryIndex + 1;
+    if (entry.sort_order !== nextSortOrder) {
+      await db.workout_log_entries.update(entry.id, { sort_order: nextSortOrder, synced: 0 });
+    }
+
+    const completedSets = (completedSetsByEntryId[entry.id] || []).sort((a, b) => a.set_number - b.set_number);
+    const keepSetIds = new Set(completedSets.map((set) => set.id));
+    const removeSetIds = sourceSets
+      .filter((set) => set.workout_log_entry_id === entry.id && !keepSetIds.has(set.id))
+      .map((set) => set.id);
+
+    if (removeSetIds.length) {
+      await clearPersonalRecordsForSets(removeSetIds);
+      await db.workout_sets.where('id').anyOf(removeSetIds).delete();
+    }
+
+    for (let setIndex = 0; setIndex < completedSets.length; setIndex += 1) {
+      const set = completedSets[setIndex];
+      const nextSetNumber = setIndex + 1;
+      if (set.set_number !== nextSetNumber) {
+        await db.workout_sets.update(set.id, { set_number: nextSetNumber, synced: 0 });
+      }
+    }
+  }
+}
+
+/**
+ * Closes an abandoned session as if it had been finished right after its last completed set.
+ */
+export async function finishWorkoutAtLastSet(workoutId: string) {
+  await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_personal_records], async () => {
+    const workout = await db.workouts.get(workoutId);
+    if (!workout || workout.end_time) return;
+
+    const entries = await db.workout_log_entries.where('workout_id').equals(workoutId).toArray();
+    const sets = entries.length ? await db.workout_sets.where('workout_log_entry_id').anyOf(entries.map((entry) => entry.id)).toArray() : [];
+    const { lastCompletedSetAt } = getWorkoutActivity(workout, entries, sets);
+
+    await pruneUnfinishedSets(workoutId);
+    await db.workouts.update(workoutId, {
+      end_time: inferWorkoutEndTime(workout, lastCompletedSetAt),
+      updated_at: new Date(),
+      synced: 0
+    });
+  });
+  await skipRestTimer(workoutId);
+}
+
+export async function discardWorkout(workoutId: string) {
+  await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_exercises_def, db.workout_personal_records], async () => {
+    const workout = await db.workouts.get(workoutId);
+    const entries = await db.workout_log_entries.where('workout_id').equals(workoutId).toArray();
+    const entryIds = entries.map((entry) => entry.id);
+    await clearPersonalRecordsForWorkout(workoutId);
+    if (entryIds.length) {
+      await db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).delete();
+    }
+    await db.workout_log_entries.where('workout_id').equals(workoutId).delete();
+    await db.workouts.delete(workoutId);
+    if (workout) await recomputePersonalRecords(entries.map((entry) => entry.exercise_id), workout.start_time);
+  });
+  await skipRestTimer(workoutId);
+}
+
+/**
+ * Cleans up what a crash mid-write can leave behind in rows not yet pushed: sets whose exercise
+ * entry is gone, entries whose workout is gone, and duplicate or missing set numbers. Synced rows
+ * are left alone, since a parent missing locally may just not have been pulled yet.
+ */
+export async function repairWorkoutDrafts(): Promise<WorkoutRepairSummary> {
+  const summary: WorkoutRepairSummary = { orphanedSets: 0, orphanedEntries: 0, renumberedSets: 0 };
+
+  await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_personal_records], async () => {
+    const pendingEntries = await db.workout_log_entries.where('synced').equals(0).toArray();
+    const pendingSets = await db.workout_sets.where('synced').equals(0).toArray();
+    if (!pendingEntries.length && !pendingSets.length) return;
+
+    const workoutIds = new Set(await db.workouts.where('id').anyOf(pendingEntries.map((entry) => entry.workout_id)).primaryKeys());
+    const orphanedEntries = pendingEntries.filter((entry) => !workoutIds.has(entry.workout_id));
+    const orphanedEntryIds = new Set(orphanedEntries.map((entry) => entry.id));
+    const parentEntryIds = new Set(
+      (await db.workout_log_entries.where('id').anyOf(pendingSets.map((set) => set.workout_log_entry_id)).primaryKeys()).filter(
+        (id) => !orphanedEntryIds.has(id)
+      )
+    );
+    const orphanedSets = pendingSets.filter((set) => !parentEntryIds.has(set.workout_log_entry_id));
+
+    if (orphanedSets.length) {
+      // The sets never reached the server, but a record of theirs may have; only drop that one here.
+      const records = await db.workout_personal_records.where('workout_set_id').anyOf(orphanedSets.map((set) => set.id)).toArray();
+      const localRecordIds = records.filter((record) => record.synced !== 1).map((record) => record.id);
+      const remoteRecordIds = records.filter((record) => record.synced === 1).map((record) => record.id);
+      if (localRecordIds.length) await db.workout_personal_records.bulkDelete(localRecordIds);
+      if (remoteRecordIds.length) await withRemoteSyncWrite(() => db.workout_personal_records.bulkDelete(remoteRecordIds));
+      await db.workout_sets.bulkDelete(orphanedSets.map((set) => set.id));
+    }
+    if (orphanedEntries.length) await db.workout_log_entries.bulkDelete([...orphanedEntryIds]);
+    summary.orphanedSets = orphanedSets.length;
+    summary.orphanedEntries = orphanedEntries.length;
+
+    // Only entries with unpushed sets can have been left mid-write.
+    const draftEntryIds = [...new Set(pendingSets.map((set) => set.workout_log_entry_id))].filter((id) => parentEntryIds.has(id));
+    const draftSets = draftEntryIds.length ? await db.workout_sets.where('workout_log_entry_id').anyOf(draftEntryIds).toArray() : [];
+    const setsByEntry = draftSets.reduce<Record<string, WorkoutSet[]>>((acc, set) => {
+      (acc[set.workout_log_entry_id] ??= []).push(set);
+      return acc;
+    }, {});
+
+    for (const entrySets of Object.values(setsByEntry)) {
+      const ordered = entrySets.sort((a, b) => a.set_number - b.set_number || toTime(a.created_at) - toTime(b.created_at));
+      for (let index = 0; index < ordered.length; index += 1) {
+        if (ordered[index].set_number === index + 1) continue;
+        await db.workout_sets.update(ordered[index].id, { set_number: index + 1, synced: 0 });
+        summary.renumberedSets += 1;
+      }
+    }
+  });
+
+  return summary;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkoutSet } from './db';
+import {
+  CLUSTER_REST_SECONDS,
+  getEntryGroupPositions,
+  getLinkWithNextChanges,
+  getRestAfterSet,
+  getUnlinkChanges,
+  groupWorkoutEntries
+} from './workouts';
+
+const entries = [
+  { id: 'a', group_id: null },
+  { id: 'b', group_id: 'g1' },
+  { id: 'c', group_id: 'g1' },
+  { id: 'd', group_id: 'g2' },
+  { id: 'e', group_id: 'g1' }
+];
+
+describe('groupWorkoutEntries', () => {
+  it('groups adjacent entries and treats lone group ids as ungrouped', () => {
+    expect(groupWorkoutEntries(entries).map((group) => [group.groupId, group.entries.map((entry) => entry.id)])).toEqual([
+      [undefined, ['a']],
+      ['g1', ['b', 'c']],
+      [undefined, ['d']],
+      [undefined, ['e']]
+    ]);
+  });
+
+  it('labels supersets and circuits', () => {
+    const circuit = [{ id: 'x', group_id: 'g' }, { id: 'y', group_id: 'g' }, { id: 'z', group_id: 'g' }];
+    expect(getEntryGroupPositions(circuit).z).toEqual({ label: 'Circuit', position: 3, size: 3 });
+    expect(getEntryGroupPositions(entries)).toEqual({
+      b: { label: 'Superset', position: 1, size: 2 },
+      c: { label: 'Superset', position: 2, size: 2 }
+    });
+  });
+});
+
+describe('linking entries', () => {
+  it('merges an entry into the next one\'s group', () => {
+    expect(getLinkWithNextChanges(entries, 'a')).toEqual([{ id: 'a', group_id: 'g1' }]);
+  });
+
+  it('clears the partner left on its own when a superset is split', () => {
+    expect(getUnlinkChanges(entries.slice(0, 4), 'b')).toEqual([
+      { id: 'b', group_id: null },
+      { id: 'c', group_id: null }
+    ]);
+  });
+});
+
+describe('getRestAfterSet', () => {
+  const set = (id: string, overrides: Partial<WorkoutSet> = {}): WorkoutSet => ({
+    id,
+    workout_log_entry_id: 'c',
+    set_number: 1,
+    ...overrides
+  });
+  const restByEntry: Record<string, number> = { a: 90, b: 60, c: 120 };
+  const getRestSeconds = (entry: { id: string }) => restByEntry[entry.id] ?? 0;
+
+  it('skips rest before a dropset and pauses briefly before a cluster set', () => {
+    const entrySets = [set('s1'), set('s2', { set_type: 'dropset' }), set('s3', { set_type: 'cluster' })];
+    expect(getRestAfterSet({ entries, entryId: 'c', entrySets, setId: 's1', getRestSeconds })).toBe(0);
+    expect(getRestAfterSet({ entries, entryId: 'c', entrySets, setId: 's2', getRestSeconds })).toBe(CLUSTER_REST_SECONDS);
+  });
+
+  it('rests only after the last exercise of a group, for the group\'s longest rest', () => {
+    const entrySets = [set('s1'), set('s2')];
+    expect(getRestAfterSet({ entries, entryId: 'b', entrySets, setId: 's1', getRestSeconds })).toBe(0);
+    expect(getRestAfterSet({ entries, entryId: 'c', entrySets, setId: 's1', getRestSeconds })).toBe(120);
+    expect(getRestAfterSet({ entries, entryId: 'a', entrySets, setId: 's2', getRestSeconds })).toBe(90);
+  });
+});
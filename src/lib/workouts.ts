@@ -1,4 +1,6 @@
-import { db, type WorkoutLogEntry, type WorkoutSet, type Workout } from './db';
+import { db, type WorkoutLogEntry, type WorkoutSet, type Workout, type WorkoutSetType } from './db';
+import { generateId } from './index';
+import { getUnitLabels, roundTo, toDisplayDistance, toDisplayWeight, type UnitSystem } from './units';
 
 export type MetricType = 
   | 'weight_reps' 
@@ -47,15 +49,144 @@ export function getMetricConfig(type: string = 'weight_reps'): MetricInputConfig
   }
 }
 
-export function formatSet(set: any, type: string = 'weight_reps'): string {
+export const SET_TYPES: Record<WorkoutSetType, { label: string; short: string }> = {
+  normal: { label: 'Normal', short: '' },
+  dropset: { label: 'Dropset', short: 'D' },
+  cluster: { label: 'Cluster', short: 'C' }
+};
+
+// Intra-set rest before the next mini-set of a cluster.
+export const CLUSTER_REST_SECONDS = 20;
+
+export const getNextSetType = (type?: WorkoutSetType): WorkoutSetType =>
+  type === 'dropset' ? 'cluster' : type === 'cluster' ? 'normal' : 'dropset';
+
+interface GroupableEntry {
+  id: string;
+  group_id?: string | null;
+}
+
+export interface EntryGroup<T extends GroupableEntry> {
+  groupId?: string | null;
+  entries: T[];
+}
+
+/**
+ * Splits sort-ordered entries into runs of adjacent entries sharing a group_id. Ungrouped
+ * entries, and group ids left with a single entry, come back as groups of one.
+ */
+export function groupWorkoutEntries<T extends GroupableEntry>(entries: T[]): EntryGroup<T>[] {
+  const groups: EntryGroup<T>[] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (entry.group_id && last?.groupId === entry.group_id) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ groupId: entry.group_id, entries: [entry] });
+    }
+  }
+  return groups.map((group) => (group.entries.length > 1 ? group : { entries: group.entries }));
+}
+
+export const getEntryGroupLabel = (size: number) => (size > 2 ? 'Circuit' : size === 2 ? 'Superset' : '');
+
+export function getEntryGroupPositions<T extends GroupableEntry>(entries: T[]) {
+  const positions: Record<string, { label: string; position: number; size: number }> = {};
+  for (const group of groupWorkoutEntries(entries)) {
+    const label = getEntryGroupLabel(group.entries.length);
+    if (!label) continue;
+    group.entries.forEach((entry, index) => {
+      positions[entry.id] = { label, position: index + 1, size: group.entries.length };
+    });
+  }
+  return positions;
+}
+
+/**
+ * Group id changes that link an entry with the one after it, merging both into a single group.
+ */
+export function getLinkWithNextChanges<T extends GroupableEntry>(entries: T[], entryId: string) {
+  const index = entries.findIndex((entry) => entry.id === entryId);
+  const current = entries[index];
+  const next = entries[index + 1];
+  if (!current || !next) return [];
+
+  const groupId = current.group_id || next.group_id || generateId();
+  const mergedGroupIds = new Set([current.group_id, next.group_id].filter(Boolean));
+  return entries
+    .filter((entry) => entry.id === current.id || entry.id === next.id || (entry.group_id && mergedGroupIds.has(entry.group_id)))
+    .filter((entry) => entry.group_id !== groupId)
+    .map((entry) => ({ id: entry.id, group_id: groupId as string | null }));
+}
+
+/**
+ * Group id changes that take an entry out of its group, also clearing any entry left on its own.
+ */
+export function getUnlinkChanges<T extends GroupableEntry>(entries: T[], entryId: string) {
+  const entry = entries.find((item) => item.id === entryId);
+  if (!entry?.group_id) return [];
+
+  const changes: Array<{ id: string; group_id: string | null }> = [{ id: entryId, group_id: null }];
+  const remaining = entries.map((item) => (item.id === entryId ? { ...item, group_id: null } : item));
+  for (const group of groupWorkoutEntries(remaining)) {
+    const [single] = group.entries;
+    if (group.entries.length === 1 && single.group_id === entry.group_id) {
+      changes.push({ id: single.id, group_id: null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Maps group ids to fresh ones when entries are copied into another workout or routine.
+ */
+export function createGroupIdRemapper() {
+  const remapped = new Map<string, string>();
+  return (groupId?: string | null) => {
+    if (!groupId) return undefined;
+    if (!remapped.has(groupId)) remapped.set(groupId, generateId());
+    return remapped.get(groupId);
+  };
+}
+
+/**
+ * Rest to start after completing a set. Dropsets follow immediately and cluster mini-sets get a
+ * short pause; within a superset/circuit only the last exercise rests, for the group's longest rest.
+ */
+export function getRestAfterSet<T extends GroupableEntry>({
+  entries,
+  entryId,
+  entrySets,
+  setId,
+  getRestSeconds
+}: {
+  entries: T[];
+  entryId: string;
+  entrySets: WorkoutSet[];
+  setId: string;
+  getRestSeconds: (entry: T) => number;
+}) {
+  const setIndex = entrySets.findIndex((set) => set.id === setId);
+  const nextSet = setIndex >= 0 ? entrySets[setIndex + 1] : undefined;
+  if (nextSet?.set_type === 'dropset') return 0;
+  if (nextSet?.set_type === 'cluster') return CLUSTER_REST_SECONDS;
+
+  const group = groupWorkoutEntries(entries).find((item) => item.entries.some((entry) => entry.id === entryId));
+  if (!group) return 0;
+  if (group.entries[group.entries.length - 1].id !== entryId) return 0;
+  return Math.max(0, ...group.entries.map(getRestSeconds));
+}
+
+export function formatSet(set: any, type: string = 'weight_reps', units: UnitSystem = 'metric'): string {
   if (!set) return '-';
   
   const config = getMetricConfig(type);
+  const labels = getUnitLabels(units);
   const parts = [];
 
-  if (config.weight) parts.push(`${set.weight || 0}kg`);
+  if (config.weight) parts.push(`${roundTo(toDisplayWeight(set.weight || 0, units))}${labels.weight}`);
   if (config.reps) parts.push(`${set.reps || 0}reps`);
-  if (config.distance) parts.push(`${set.distance || 0}km`); // Or m, need handling
+  if (config.distance) parts.push(`${roundTo(toDisplayDistance(set.distance || 0, units), 2)}${labels.distance}`);
   if (config.duration) {
       // Format seconds to mm:ss or similar
       const mins = Math.floor((set.duration_seconds || 0) / 60);
@@ -5,8 +5,22 @@ import { db, type BodyMetric, type Food, type Profile, type UserSettings, type W
 import { generateId } from '../lib';
 import { fetchGeminiDailyCoach, type GeminiDailyCoachPayload } from '../lib/gemini';
 import { analyzeEaaRatio } from '../lib/eaa';
+import { getBurnedCaloriesForDate, getCalorieBudget } from '../lib/energyBalance';
 import { supabase } from '../lib/supabaseClient';
 import { useStackNavigation } from '../lib/useStackNavigation';
+import {
+  formatBodyMetric,
+  formatVolume,
+  formatWeight,
+  fromDisplayVolume,
+  fromDisplayWeight,
+  getUnitLabels,
+  roundTo,
+  toDisplayWeight,
+  toKg,
+  toMl,
+  useUnitSystem
+} from '../lib/units';
 import RouteHeader from '../lib/components/RouteHeader';
 import { getFastingWindowHint, getMealTimingAdvice } from './profile/mealPlanning';
 
@@ -183,16 +197,6 @@ function buildWorkoutProgressChart(workouts: Workout[], now: Date): WorkoutProgr
   };
 }
 
-function toKg(value: number, unit: string) {
-  if (unit === 'lb') return value / 2.20462;
-  return value;
-}
-
-function fromKg(valueKg: number, unit: string) {
-  if (unit === 'lb') return valueKg * 2.20462;
-  return valueKg;
-}
-
 function getCreatedAtTime(value: BodyMetric['created_at']) {
   if (!value) return 0;
   if (value instanceof Date) return value.getTime();
@@ -257,6 +261,8 @@ function isHomePanel(value: string | null): value is HomePanel {
 export default function Home() {
   const [searchParams, setSearchParams] = useSearchParams();
   const { push } = useStackNavigation();
+  const unitSystem = useUnitSystem();
+  const unitLabels = getUnitLabels(unitSystem);
   const now = new Date();
   const today = useMemo(() => toYyyyMmDd(now), [now]);
   const weekStartIso = useMemo(() => getWeekStart(now).toISOString(), [now]);
@@ -268,8 +274,7 @@ export default function Home() {
   });
   const [weightForm, setWeightForm] = useState({
     date: today,
-    value: '',
-    unit: 'kg'
+    value: ''
   });
   const [weightQuickAddFeedback, setWeightQuickAddFeedback] = useState('');
   const [weightGoalFeedback, setWeightGoalFeedback] = useState('');
@@ -433,20 +438,27 @@ export default function Home() {
     data?.settings?.nutrition?.fatTargetGrams ??
     Math.round((calorieGoal * ((data?.settings?.nutrition?.fatPercent ?? 30) / 100)) / 9);
 
+  const latestWeightKg = recentWeight[0] ? toKg(recentWeight[0].value, recentWeight[0].unit) : 0;
+  const burnedCalories = useLiveQuery(
+    () => getBurnedCaloriesForDate(today, latestWeightKg),
+    [today, latestWeightKg]
+  );
+  const calorieBudget = getCalorieBudget(calorieGoal, burnedCalories?.total ?? 0, data?.settings?.nutrition);
+
   const caloriesConsumed = Math.round(data?.calorieTotals.calories ?? 0);
   const proteinConsumed = Math.round(data?.calorieTotals.protein ?? 0);
   const carbsConsumed = Math.round(data?.calorieTotals.carbs ?? 0);
   const fatConsumed = Math.round(data?.calorieTotals.fat ?? 0);
-  const calorieProgress = Math.min((caloriesConsumed / Math.max(1, calorieGoal)) * 100, 100);
+  const calorieProgress = Math.min((caloriesConsumed / Math.max(1, calorieBudget.net)) * 100, 100);
   const proteinProgress = Math.min((proteinConsumed / Math.max(1, proteinGoal)) * 100, 100);
   const carbsProgress = Math.min((carbsConsumed / Math.max(1, carbsGoal)) * 100, 100);
   const fatProgress = Math.min((fatConsumed / Math.max(1, fatGoal)) * 100, 100);
-  const latestWeightLabel = recentWeight[0] ? `${recentWeight[0].value} ${recentWeight[0].unit}` : 'No entries yet';
-  const latestWaterLabel = recentWater[0] ? `${recentWater[0].value} ${recentWater[0].unit}` : 'No entries yet';
+  const latestWeightLabel = recentWeight[0] ? formatBodyMetric(recentWeight[0].value, recentWeight[0].unit, unitSystem) : 'No entries yet';
+  const latestWaterLabel = recentWater[0] ? formatBodyMetric(recentWater[0].value, recentWater[0].unit, unitSystem) : 'No entries yet';
   const latestSleepLabel = recentSleep[0] ? `${recentSleep[0].value} ${recentSleep[0].unit}` : 'No entries yet';
   const waterGoal = Math.max(0, data?.settings?.nutrition?.waterTarget ?? 0);
   const sleepGoal = Math.max(0, data?.settings?.nutrition?.sleepTarget ?? 0);
-  const todayWater = recentWater.filter((entry) => entry.date === today).reduce((sum, entry) => sum + (entry.value || 0), 0);
+  const todayWater = recentWater.filter((entry) => entry.date === today).reduce((sum, entry) => sum + toMl(entry.value || 0, entry.unit), 0);
   const todaySleep = recentSleep.filter((entry) => entry.date === today).reduce((sum, entry) => sum + (entry.value || 0), 0);
   const hasWeightToday = recentWeight.some((entry) => entry.date === today);
   const waterProgress = waterGoal > 0 ? Math.min((todayWater / waterGoal) * 100, 100) : todayWater > 0 ? 100 : 0;
@@ -743,9 +755,8 @@ export default function Home() {
     window.localStorage.setItem(COACH_STYLE_STORAGE_KEY, coachStyle);
   }, [coachStyle]);
 
-  const saveWeightMetric = async (valueInput: number, dateInput?: string, unitInput?: string) => {
-    const value = Number(valueInput);
-    const unit = unitInput || weightForm.unit;
+  const saveWeightMetric = async (valueKgInput: number, dateInput?: string) => {
+    const value = Number(valueKgInput);
 
     if (!Number.isFinite(value) || value <= 0) {
       alert('Enter a valid weight');
@@ -758,8 +769,8 @@ export default function Home() {
         user_id: currentUserId,
         date: dateInput || weightForm.date || today,
         type: 'weight',
-        value: Math.round(value * 10) / 10,
-        unit,
+        value: roundTo(value, 2),
+        unit: 'kg',
         synced: 0,
         created_at: new Date()
       };
@@ -779,13 +790,11 @@ export default function Home() {
       return;
     }
 
-    const nextUnit = previousWeightEntry?.unit === 'lb' ? 'lb' : weightForm.unit;
-    const nextValueInUnit = Math.round(fromKg(weightSliderKg, nextUnit) * 10) / 10;
-    const didSave = await saveWeightMetric(nextValueInUnit, weightForm.date || today, nextUnit);
+    const didSave = await saveWeightMetric(weightSliderKg, weightForm.date || today);
     if (!didSave) return;
 
-    setWeightForm((prev) => ({ ...prev, value: String(nextValueInUnit), unit: nextUnit }));
-    setWeightQuickAddFeedback(`Saved ${nextValueInUnit} ${nextUnit}`);
+    setWeightForm((prev) => ({ ...prev, value: String(roundTo(toDisplayWeight(weightSliderKg, unitSystem))) }));
+    setWeightQuickAddFeedback(`Saved ${formatWeight(weightSliderKg, unitSystem)}`);
     setTimeout(() => setWeightQuickAddFeedback(''), 1400);
   };
 
@@ -795,20 +804,17 @@ export default function Home() {
       return;
     }
 
-    const didSave = await saveWeightMetric(
-      previousWeightEntry.value,
-      weightForm.date || today,
-      previousWeightEntry.unit
-    );
+    const previousKg = toKg(previousWeightEntry.value, previousWeightEntry.unit);
+    const didSave = await saveWeightMetric(previousKg, weightForm.date || today);
     if (!didSave) return;
 
-    setWeightForm((prev) => ({ ...prev, value: String(previousWeightEntry.value), unit: previousWeightEntry.unit }));
-    setWeightQuickAddFeedback(`Saved ${previousWeightEntry.value} ${previousWeightEntry.unit}`);
+    setWeightForm((prev) => ({ ...prev, value: String(roundTo(toDisplayWeight(previousKg, unitSystem))) }));
+    setWeightQuickAddFeedback(`Saved ${formatWeight(previousKg, unitSystem)}`);
     setTimeout(() => setWeightQuickAddFeedback(''), 1400);
   };
 
   const saveWeightGoal = async (valueInput: number) => {
-    const value = Number(valueInput);
+    const value = fromDisplayWeight(Number(valueInput), unitSystem);
     if (!Number.isFinite(value) || value <= 0) {
       alert('Enter a valid goal weight');
       return false;
@@ -841,7 +847,7 @@ export default function Home() {
       };
 
       await db.settings.put(settingsToSave);
-      setWeightGoalFeedback(`Goal saved: ${settingsToSave.nutrition.weightTarget} kg`);
+      setWeightGoalFeedback(`Goal saved: ${formatWeight(settingsToSave.nutrition.weightTarget ?? value, unitSystem)}`);
       setTimeout(() => setWeightGoalFeedback(''), 1600);
       return true;
     } catch (error) {
@@ -852,7 +858,7 @@ export default function Home() {
   };
 
   const openWeightGoalModal = () => {
-    setWeightGoalDraft(goalWeightKg !== null ? goalWeightKg.toFixed(1) : '');
+    setWeightGoalDraft(goalWeightKg !== null ? toDisplayWeight(goalWeightKg, unitSystem).toFixed(1) : '');
     setWeightGoalModalOpen(true);
   };
 
@@ -862,8 +868,8 @@ export default function Home() {
     setWeightGoalModalOpen(false);
   };
 
-  const saveWaterMetric = async (valueInput: number) => {
-    const value = Number(valueInput);
+  const saveWaterMetric = async (valueMlInput: number) => {
+    const value = Number(valueMlInput);
     if (!Number.isFinite(value) || value <= 0) {
       alert('Enter a valid water intake');
       return false;
@@ -892,7 +898,7 @@ export default function Home() {
 
   const addWater = async (event: React.FormEvent) => {
     event.preventDefault();
-    const didSave = await saveWaterMetric(Number(waterForm.value));
+    const didSave = await saveWaterMetric(fromDisplayVolume(Number(waterForm.value), unitSystem));
     if (didSave) {
       setWaterForm((prev) => ({ ...prev, value: '' }));
     }
@@ -902,7 +908,7 @@ export default function Home() {
     const didSave = await saveWaterMetric(amount);
     if (!didSave) return;
 
-    setWaterQuickAddFeedback(`Added ${amount} ml`);
+    setWaterQuickAddFeedback(`Added ${formatVolume(amount, unitSystem)}`);
     setTimeout(() => setWaterQuickAddFeedback(''), 1400);
   };
 
@@ -1037,7 +1043,7 @@ export default function Home() {
                 <div className="rounded-lg bg-card border border-border-subtle px-3 py-2">
                   <p className="text-[11px] text-text-muted">Current</p>
                   <p className="text-base font-bold text-text-main">
-                    {previousWeightKg !== null ? `${previousWeightKg.toFixed(1)} kg` : '--'}
+                    {previousWeightKg !== null ? formatWeight(previousWeightKg, unitSystem) : '--'}
                   </p>
                 </div>
                 <button
@@ -1047,7 +1053,7 @@ export default function Home() {
                 >
                   <p className="text-[11px] text-text-muted">Goal</p>
                   <p className="text-base font-bold text-text-main">
-                    {goalWeightKg !== null ? `${goalWeightKg.toFixed(1)} kg` : '--'}
+                    {goalWeightKg !== null ? formatWeight(goalWeightKg, unitSystem) : '--'}
                   </p>
                   <p className="text-[10px] text-text-muted mt-0.5">Tap to edit</p>
                 </button>
@@ -1062,7 +1068,7 @@ export default function Home() {
                     />
                   </div>
                   <p className="text-[11px] text-text-muted mt-1">
-                    {distanceToGoalKg.toFixed(1)} kg away from goal
+                    {formatWeight(distanceToGoalKg, unitSystem)} away from goal
                     {goalJourneyProgress !== null ? ` • Progress ${(goalJourneyProgress).toFixed(0)}%` : ''}
                   </p>
                 </div>
@@ -1102,15 +1108,15 @@ export default function Home() {
 
                   <div className="mt-2 flex items-center justify-between gap-2 text-[11px]">
                     <p className="text-text-muted">
-                      Start: <span className="font-semibold text-text-main">{weightTrend.firstKg?.toFixed(1)} kg</span>
+                      Start: <span className="font-semibold text-text-main">{weightTrend.firstKg !== null ? formatWeight(weightTrend.firstKg, unitSystem) : '--'}</span>
                     </p>
                     <p className="text-text-muted">
-                      Now: <span className="font-semibold text-text-main">{weightTrend.lastKg?.toFixed(1)} kg</span>
+                      Now: <span className="font-semibold text-text-main">{weightTrend.lastKg !== null ? formatWeight(weightTrend.lastKg, unitSystem) : '--'}</span>
                     </p>
                     <p className="text-text-muted">
                       Change:{' '}
                       <span className="font-semibold text-text-main">
-                        {weightTrend.deltaKg !== null ? `${weightTrend.deltaKg > 0 ? '+' : ''}${weightTrend.deltaKg.toFixed(1)} kg` : '--'}
+                        {weightTrend.deltaKg !== null ? `${weightTrend.deltaKg > 0 ? '+' : ''}${formatWeight(weightTrend.deltaKg, unitSystem)}` : '--'}
                       </span>
                     </p>
                   </div>
@@ -1128,21 +1134,21 @@ export default function Home() {
                   <p className="text-sm text-text-main mt-1">
                     Previous:{' '}
                     <span className="font-bold">
-                      {previousWeightEntry ? `${previousWeightEntry.value} ${previousWeightEntry.unit}` : '—'}
+                      {previousWeightEntry ? formatBodyMetric(previousWeightEntry.value, previousWeightEntry.unit, unitSystem) : '—'}
                     </span>
                   </p>
                   <div className="mt-2">
                     <div className="flex items-center justify-between gap-2 text-xs text-text-muted mb-1">
-                      <span>{sliderMinKg} kg</span>
-                      <span className="font-semibold text-text-main">{sliderValueKg.toFixed(1)} kg</span>
-                      <span>{sliderMaxKg} kg</span>
+                      <span>{formatWeight(sliderMinKg, unitSystem, 0)}</span>
+                      <span className="font-semibold text-text-main">{formatWeight(sliderValueKg, unitSystem)}</span>
+                      <span>{formatWeight(sliderMaxKg, unitSystem, 0)}</span>
                     </div>
                     <div className="relative">
                       <input
                         type="range"
                         min={sliderMinKg}
                         max={sliderMaxKg}
-                        step={0.5}
+                        step={unitSystem === 'imperial' ? fromDisplayWeight(0.5, unitSystem) : 0.5}
                         value={sliderValueKg}
                         onChange={(event) => setWeightSliderKg(Number(event.target.value))}
                         className="w-full accent-brand"
@@ -1157,7 +1163,7 @@ export default function Home() {
                     </div>
                     <div className="flex items-center justify-between mt-1">
                       <p className="text-[11px] text-text-muted">
-                        {goalWeightKg !== null ? `Goal marker: ${goalWeightKg.toFixed(1)} kg` : 'Set weight goal in profile for marker'}
+                        {goalWeightKg !== null ? `Goal marker: ${formatWeight(goalWeightKg, unitSystem)}` : 'Set weight goal in profile for marker'}
                       </p>
                       <button
                         type="button"
@@ -1189,7 +1195,7 @@ export default function Home() {
                 <div className="mt-1 flex items-center justify-between gap-2">
                   <p className="text-xs text-text-muted">{recentWeight[0].date}</p>
                   <p className="text-sm font-semibold text-text-main">
-                    {recentWeight[0].value} {recentWeight[0].unit}
+                    {formatBodyMetric(recentWeight[0].value, recentWeight[0].unit, unitSystem)}
                   </p>
                 </div>
               ) : (
@@ -1201,7 +1207,7 @@ export default function Home() {
               <div className="fixed inset-0 z-40 bg-black/30 flex items-end sm:items-center justify-center p-4">
                 <div className="w-full max-w-sm rounded-2xl border border-border-subtle bg-card p-4 shadow-lg">
                   <p className="text-sm font-bold text-text-main">Set weight goal</p>
-                  <p className="text-xs text-text-muted mt-1">Enter target in kg</p>
+                  <p className="text-xs text-text-muted mt-1">Enter target in {unitLabels.weight}</p>
                   <input
                     type="number"
                     step="0.1"
@@ -1259,7 +1265,7 @@ export default function Home() {
                     >
                       <p className="text-base leading-none">{option.icon}</p>
                       <p className="text-[11px] font-semibold mt-1">{option.label}</p>
-                      <p className="text-[10px] text-text-muted mt-0.5">{option.amount} ml</p>
+                      <p className="text-[10px] text-text-muted mt-0.5">{formatVolume(option.amount, unitSystem)}</p>
                     </button>
                   );
                 })}
@@ -1269,11 +1275,11 @@ export default function Home() {
             <form onSubmit={addWater} className="grid grid-cols-3 gap-2 mb-3">
               <input
                 type="number"
-                step="1"
+                step={unitSystem === 'imperial' ? '0.1' : '1'}
                 min="0"
                 value={waterForm.value}
                 onChange={(e) => setWaterForm((prev) => ({ ...prev, value: e.target.value }))}
-                placeholder="Water (ml)"
+                placeholder={`Water (${unitLabels.volume})`}
                 className="col-span-2 p-2.5 rounded-xl border border-border-subtle bg-surface text-text-main text-sm"
               />
               <button
@@ -1290,7 +1296,7 @@ export default function Home() {
                 <div className="mt-1 flex items-center justify-between gap-2">
                   <p className="text-xs text-text-muted">{recentWater[0].date}</p>
                   <p className="text-sm font-semibold text-text-main">
-                    {recentWater[0].value} {recentWater[0].unit}
+                    {formatBodyMetric(recentWater[0].value, recentWater[0].unit, unitSystem)}
                   </p>
                 </div>
               ) : (
@@ -1368,9 +1374,14 @@ export default function Home() {
         >
           <p className="mt-2 text-3xl text-text-main leading-tight whitespace-nowrap">
             <span className="font-extrabold">{caloriesConsumed}</span>
-            <span className="text-text-muted font-normal"> / {Math.round(calorieGoal)}</span>{' '}
+            <span className="text-text-muted font-normal"> / {calorieBudget.net}</span>{' '}
             <span className="text-sm font-semibold text-text-muted align-middle">Calories Eaten</span>
           </p>
+          {calorieBudget.credited > 0 && (
+            <p className="mt-1 text-xs text-text-muted text-left">
+              {calorieBudget.gross} kcal budget + {calorieBudget.credited} kcal earned from {burnedCalories?.total ?? 0} kcal burned
+            </p>
+          )}
 
           <div className="mt-3 h-4 bg-surface rounded-full overflow-hidden shadow-inner">
             <div
@@ -1565,7 +1576,7 @@ export default function Home() {
                   />
                 </div>
                 <p className="text-[11px] text-text-muted mt-1">
-                  {waterGoal > 0 ? `${Math.round(todayWater)} / ${Math.round(waterGoal)} ml today` : `${Math.round(todayWater)} ml today`}
+                  {waterGoal > 0 ? `${formatVolume(todayWater, unitSystem)} / ${formatVolume(waterGoal, unitSystem)} today` : `${formatVolume(todayWater, unitSystem)} today`}
                 </p>
               </div>
             </button>
@@ -3,7 +3,12 @@ import { useLocation } from 'react-router-dom';
 import BottomNav from '../lib/components/BottomNav';
 import ActiveWorkoutBanner from '../lib/components/ActiveWorkoutBanner';
 import { syncManager } from '../lib/sync';
+import { reminderScheduler } from '../lib/reminders';
+import { restTimerNotifier } from '../lib/restTimer';
+import { repairWorkoutDrafts } from '../lib/workoutSessions';
+import { pruneOrphanedLogPhotos } from '../lib/mealPhoto';
 import { supabase } from '../lib/supabaseClient';
+import { handleAccountSession } from '../lib/accounts';
 // import { Router } from 'svelte-spa-router';
 // import routes from './routes.ts';
 
@@ -17,11 +22,28 @@ function Layout({ children }: { children: React.ReactNode }) {
         : 'calc(10.5rem + env(safe-area-inset-bottom))';
 
     useEffect(() => {
+        void repairWorkoutDrafts()
+            .then((summary) => {
+                if (summary.orphanedSets || summary.orphanedEntries || summary.renumberedSets) {
+                    console.warn('[Layout] Repaired workout data left by an interrupted session:', summary);
+                }
+            })
+            .catch((error) => console.error('Failed to check workout data:', error));
+        void pruneOrphanedLogPhotos().catch((error) => console.error('Failed to clean up log photos:', error));
         syncManager.start();
+        reminderScheduler.start();
+        restTimerNotifier.start();
+
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+            if (event === 'INITIAL_SESSION' || event === 'SIGNED_OUT') {
+                void handleAccountSession(session);
+                return;
+            }
 
-        const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
             if (event === 'SIGNED_IN') {
-                syncManager.sync();
+                void handleAccountSession(session).then((isReady) => {
+                    if (isReady) syncManager.sync();
+                });
                 return;
             }
 
@@ -32,6 +54,8 @@ function Layout({ children }: { children: React.ReactNode }) {
 
         return () => {
             syncManager.stop();
+            reminderScheduler.stop();
+            restTimerNotifier.stop();
             subscription.unsubscribe();
         };
     }, []);
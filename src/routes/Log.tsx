@@ -8,16 +8,24 @@ import {
   ChartLineUpIcon as AnalyticsIcon
 } from '@phosphor-icons/react';
 import { useSearchParams, Link } from 'react-router-dom';
-import { db, type BodyMetric, type DailyLog, type Food, type Profile } from '../lib/db';
+import { db, getAccountStorageKey, type Activity, type BodyMetric, type DailyLog, type Food, type Profile } from '../lib/db';
 import { generateId } from '../lib';
 import { analyzeEaaRatio } from '../lib/eaa';
+import { formatActivityDuration } from '../lib/activities';
+import { getBurnedCaloriesForDate, getCalorieBudget } from '../lib/energyBalance';
+import { formatFoodAmount, toKg, useUnitSystem } from '../lib/units';
 import RouteHeader from '../lib/components/RouteHeader';
+import { saveMealTemplate } from '../lib/savedMeals';
+import { parseQuickLog, saveQuickLog, type QuickLogDraft, type QuickLogItem } from '../lib/quickLog';
+import { copyLogsToSlots, getWeekdayDatesUntil, moveLogsToMeal, shiftDateKey, type LogSlot } from '../lib/logCopy';
+import LogCopySheet, { type LogCopyMode, type LogCopyTarget } from './log/components/LogCopySheet';
+import QuickLogSheet from './log/components/QuickLogSheet';
 
 const SETTINGS_KEY = 'stupid_tracker_settings_v1';
 const SETTINGS_ID = 'local-settings';
 const DEFAULT_MEAL_IDS = ['breakfast', 'lunch', 'dinner', 'snack', 'supplement'] as const;
 const CANONICAL_MEAL_IDS = new Set(DEFAULT_MEAL_IDS);
-const WEIGHT_BASED_REGEX = /^(g|ml|oz)$/i;
+const WEIGHT_BASED_REGEX = /^(g|ml|oz|fl oz)$/i;
 const FIBER_KEY_REGEX = /^fibre$|^fiber$|^dietary[_\s-]*fiber$/i;
 
 type MacroTabKey = 'protein' | 'carbs' | 'fat' | 'fiber';
@@ -63,6 +71,8 @@ interface TrackerNutrition {
   carbPercent: number;
   fatPercent: number;
   fiberGrams: number;
+  eatBackEnabled?: boolean;
+  eatBackPercent?: number;
 }
 
 interface TrackerMealSetting {
@@ -353,7 +363,7 @@ function getMetricCreatedAtTime(value: BodyMetric['created_at']): number {
   return 0;
 }
 
-function formatLogCreatedAtTime(value: DailyLog['created_at']): string | null {
+function formatLogCreatedAtTime(value: DailyLog['created_at'] | string): string | null {
   if (!value) return null;
 
   const date = value instanceof Date ? value : new Date(value);
@@ -378,21 +388,6 @@ function normalizeClockTime(value?: string): string | null {
   return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
 }
 
-function toKg(value: number, unit: string): number {
-  if (!Number.isFinite(value)) return 0;
-  const normalizedUnit = normalizeKey(unit || '');
-  if (!normalizedUnit || normalizedUnit === 'kg' || normalizedUnit === 'kgs' || normalizedUnit === 'kilogram' || normalizedUnit === 'kilograms') {
-    return value;
-  }
-  if (normalizedUnit === 'lb' || normalizedUnit === 'lbs' || normalizedUnit === 'pound' || normalizedUnit === 'pounds') {
-    return value / 2.20462;
-  }
-  if (normalizedUnit === 'g' || normalizedUnit === 'gram' || normalizedUnit === 'grams') {
-    return value / 1000;
-  }
-  return value;
-}
-
 function getAminoGramsFromMicros(
   micros: Record<string, number> | undefined,
   aliases: string[],
@@ -471,7 +466,9 @@ function parseTrackerSettings(raw: unknown): TrackerSettings | null {
         proteinPercent: Math.max(0, proteinPercent),
         carbPercent: Math.max(0, carbPercent),
         fatPercent: Math.max(0, fatPercent),
-        fiberGrams: Math.max(0, fiberGrams)
+        fiberGrams: Math.max(0, fiberGrams),
+        eatBackEnabled: Boolean(nutritionRaw.eatBackEnabled),
+        eatBackPercent: toNumber(nutritionRaw.eatBackPercent)
       },
       meals
     };
@@ -482,7 +479,7 @@ function parseTrackerSettings(raw: unknown): TrackerSettings | null {
 
 function readSettingsFromLocalStorage(): TrackerSettings | null {
   if (typeof window === 'undefined') return null;
-  return parseTrackerSettings(window.localStorage.getItem(SETTINGS_KEY));
+  return parseTrackerSettings(window.localStorage.getItem(getAccountStorageKey(SETTINGS_KEY)));
 }
 
 async function readSettingsFromDb(): Promise<TrackerSettings | null> {
@@ -593,12 +590,71 @@ function getLogMinutesForMealPlacement(log: Pick<DailyLog, 'meal_time' | 'create
   return null;
 }
 
+/**
+ * Buckets logs under the configured meals: by nearest meal time when any meal has one, otherwise
+ * by meal_type alias. Logs that match nothing are left out of `matchedLogIds`.
+ */
+function groupLogsByMeal<T extends DailyLog>(logs: T[], mealDefinitions: MealDefinition[]) {
+  const matchedLogIds = new Set<string>();
+  const logsByMealId = new Map<string, T[]>(mealDefinitions.map((meal) => [meal.id, []]));
+  const supplementMeal = mealDefinitions.find((meal) => normalizeKey(meal.id) === 'supplement');
+  const timedMeals = mealDefinitions
+    .map((meal) => ({ meal, minutes: parseMealTimeToMinutes(meal.time) }))
+    .filter((item): item is { meal: MealDefinition; minutes: number } => item.minutes !== null);
+
+  const addToMeal = (mealId: string, log: T) => {
+    logsByMealId.get(mealId)?.push(log);
+    matchedLogIds.add(log.id);
+  };
+
+  if (timedMeals.length === 0) {
+    mealDefinitions.forEach((meal) => {
+      logs.forEach((log) => {
+        if (meal.aliases.has(normalizeKey(log.meal_type || ''))) addToMeal(meal.id, log);
+      });
+    });
+    return { logsByMealId, matchedLogIds };
+  }
+
+  logs.forEach((log) => {
+    const isSupplementLog = normalizeKey(log.meal_type || '') === 'supplement';
+    if (isSupplementLog && supplementMeal) {
+      addToMeal(supplementMeal.id, log);
+      return;
+    }
+
+    const logMinutes = getLogMinutesForMealPlacement(log);
+    if (logMinutes === null) return;
+
+    let closestMealId: string | null = null;
+    let closestDistance = Number.POSITIVE_INFINITY;
+
+    timedMeals.forEach(({ meal, minutes }) => {
+      const distance = circularMinuteDistance(logMinutes, minutes);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closestMealId = meal.id;
+      }
+    });
+
+    if (closestMealId) addToMeal(closestMealId, log);
+  });
+
+  return { logsByMealId, matchedLogIds };
+}
+
 export default function DailyLogPage() {
   const [searchParams, setSearchParams] = useSearchParams();
+  const unitSystem = useUnitSystem();
   const [settings, setSettings] = useState<TrackerSettings | null>(() => readSettingsFromLocalStorage());
   const [activeMacroTab, setActiveMacroTab] = useState<MacroTabKey>('protein');
   const [timeTick, setTimeTick] = useState(() => Date.now());
   const [openActionsLogId, setOpenActionsLogId] = useState<string | null>(null);
+  const [selectedLogIds, setSelectedLogIds] = useState<string[]>([]);
+  const [copySheet, setCopySheet] = useState<{ mode: LogCopyMode; logIds: string[]; defaultMealId?: string } | null>(null);
+  const [quickLogText, setQuickLogText] = useState('');
+  const [isParsingQuickLog, setIsParsingQuickLog] = useState(false);
+  const [quickLogDraft, setQuickLogDraft] = useState<QuickLogDraft | null>(null);
 
   const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
   const activePanel = searchParams.get('panel');
@@ -606,6 +662,11 @@ export default function DailyLogPage() {
   const showAnalytics = isReportView;
   const isToday = date === new Date().toISOString().split('T')[0];
 
+  useEffect(() => {
+    setSelectedLogIds([]);
+    setCopySheet(null);
+  }, [date]);
+
   useEffect(() => {
     const refreshSettings = async () => {
       const dbSettings = await readSettingsFromDb();
@@ -694,6 +755,7 @@ export default function DailyLogPage() {
 
   const data = useLiveQuery(async () => {
     const daysLogs = await db.logs.where('date').equals(date).toArray();
+    const previousDayLogs = await db.logs.where('date').equals(shiftDateKey(date, -1)).toArray();
     const foodIds = [...new Set(daysLogs.map((log) => log.food_id))];
     const foods = foodIds.length ? await db.foods.where('id').anyOf(foodIds).toArray() : [];
     const settingsRow = await db.settings.get(SETTINGS_ID);
@@ -703,9 +765,28 @@ export default function DailyLogPage() {
       return acc;
     }, {});
 
-    return { daysLogs, foodsMap, settingsRow };
+    const logPhotos = daysLogs.length ? await db.log_photos.where('log_id').anyOf(daysLogs.map((log) => log.id)).toArray() : [];
+    const photosByLogId = new Map(logPhotos.map((photo) => [photo.log_id, photo.thumbnail]));
+
+    return { daysLogs, previousDayLogs, foodsMap, settingsRow, photosByLogId };
+  }, [date]);
+
+  const activityTimeline = useLiveQuery(async () => {
+    const activityLogs = await db.activity_logs.where('date').equals(date).toArray();
+    const activityIds = [...new Set(activityLogs.map((log) => log.activity_id))];
+    const activities = activityIds.length ? await db.activities.where('id').anyOf(activityIds).toArray() : [];
+    const activitiesMap = new Map<string, Activity>(activities.map((activity) => [activity.id, activity]));
+
+    return activityLogs
+      .map((log) => ({ ...log, activity: activitiesMap.get(log.activity_id) }))
+      .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
   }, [date]);
 
+  const activityCaloriesBurned = useMemo(
+    () => Math.round((activityTimeline || []).reduce((sum, log) => sum + Number(log.calories_burned || 0), 0)),
+    [activityTimeline]
+  );
+
   const currentUserId = useMemo(() => {
     const fromLogs = data?.daysLogs.find((log) => typeof log.user_id === 'string' && log.user_id.trim())?.user_id?.trim();
     return fromLogs || 'local-user';
@@ -767,6 +848,16 @@ export default function DailyLogPage() {
     [settings, baseGoals.calories, baseGoals.protein, baseGoals.carbs, baseGoals.fat]
   );
 
+  const burnedCalories = useLiveQuery(
+    () => getBurnedCaloriesForDate(date, latestWeightKg),
+    [date, latestWeightKg]
+  );
+
+  const calorieBudget = useMemo(
+    () => getCalorieBudget(goals.calories, burnedCalories?.total ?? 0, settings?.nutrition),
+    [goals.calories, burnedCalories?.total, settings?.nutrition]
+  );
+
   const extendedLogs = useMemo<ExtendedLog[]>(() => {
     if (!data) return [];
 
@@ -799,9 +890,9 @@ export default function DailyLogPage() {
     [extendedLogs]
   );
 
-  const caloriePercent = Math.min((dailyTotals.calories / Math.max(goals.calories, 1)) * 100, 100);
-  const caloriePercentRaw = (dailyTotals.calories / Math.max(goals.calories, 1)) * 100;
-  const remainingCalories = Math.round(goals.calories - dailyTotals.calories);
+  const caloriePercent = Math.min((dailyTotals.calories / Math.max(calorieBudget.net, 1)) * 100, 100);
+  const caloriePercentRaw = (dailyTotals.calories / Math.max(calorieBudget.net, 1)) * 100;
+  const remainingCalories = Math.round(calorieBudget.net - dailyTotals.calories);
   const fiberGoal = Math.max(0, settings?.nutrition?.fiberGrams ?? 30);
 
   const analytics = useMemo(() => {
@@ -998,76 +1089,18 @@ export default function DailyLogPage() {
   }, [settings]);
 
   const mealSections = useMemo<MealSection[]>(() => {
-    const matchedLogIds = new Set<string>();
-    const supplementMeal = mealDefinitions.find((meal) => normalizeKey(meal.id) === 'supplement');
-    const timedMeals = mealDefinitions
-      .map((meal) => ({ meal, minutes: parseMealTimeToMinutes(meal.time) }))
-      .filter((item): item is { meal: MealDefinition; minutes: number } => item.minutes !== null);
-
-    const logsByMealId = new Map<string, ExtendedLog[]>();
-
-    if (timedMeals.length > 0) {
-      timedMeals.forEach(({ meal }) => {
-        logsByMealId.set(meal.id, []);
-      });
-
-      extendedLogs.forEach((log) => {
-        const isSupplementLog = normalizeKey(log.meal_type || '') === 'supplement';
-        if (isSupplementLog && supplementMeal) {
-          const supplementBucket = logsByMealId.get(supplementMeal.id) || [];
-          supplementBucket.push(log);
-          logsByMealId.set(supplementMeal.id, supplementBucket);
-          matchedLogIds.add(log.id);
-          return;
-        }
-
-        const logMinutes = getLogMinutesForMealPlacement(log);
-        if (logMinutes === null) return;
-
-        let closestMealId: string | null = null;
-        let closestDistance = Number.POSITIVE_INFINITY;
-
-        timedMeals.forEach(({ meal, minutes }) => {
-          const distance = circularMinuteDistance(logMinutes, minutes);
-          if (distance < closestDistance) {
-            closestDistance = distance;
-            closestMealId = meal.id;
-          }
-        });
-
-        if (!closestMealId) return;
-
-        const bucket = logsByMealId.get(closestMealId) || [];
-        bucket.push(log);
-        logsByMealId.set(closestMealId, bucket);
-        matchedLogIds.add(log.id);
-      });
-    }
-
-    const configuredSectionsWithOrder = mealDefinitions.map((meal, index) => {
-      const logs = (logsByMealId.get(meal.id) || []).slice();
+    const { logsByMealId, matchedLogIds } = groupLogsByMeal(extendedLogs, mealDefinitions);
 
-      if (timedMeals.length === 0) {
-        extendedLogs.forEach((log) => {
-          const logMeal = normalizeKey(log.meal_type || '');
-          const isMatch = meal.aliases.has(logMeal);
-          if (!isMatch) return;
-          logs.push(log);
-          matchedLogIds.add(log.id);
-        });
-      }
-
-      return {
-        order: index,
-        section: {
-          id: meal.id,
-          label: meal.name,
-          time: meal.time,
-          targetKcal: resolveMealTargetKcal(meal, goals.calories),
-          logs
-        } satisfies MealSection
-      };
-    });
+    const configuredSectionsWithOrder = mealDefinitions.map((meal, index) => ({
+      order: index,
+      section: {
+        id: meal.id,
+        label: meal.name,
+        time: meal.time,
+        targetKcal: resolveMealTargetKcal(meal, goals.calories),
+        logs: logsByMealId.get(meal.id) || []
+      } satisfies MealSection
+    }));
 
     const configuredSections: MealSection[] = configuredSectionsWithOrder
       .sort((a, b) => {
@@ -1254,32 +1287,125 @@ export default function DailyLogPage() {
     }
   };
 
-  const moveLogToMeal = async (log: ExtendedLog, currentMealId: string) => {
-    const currentMeal = normalizeKey(currentMealId || log.meal_type || '');
-    const candidates = moveMealOptions.filter((option) => normalizeKey(option.id) !== currentMeal);
+  const deleteActivityLog = async (id: string) => {
+    if (window.confirm('Delete this activity?')) {
+      await db.activity_logs.delete(id);
+    }
+  };
 
-    if (!candidates.length) {
-      alert('No other meal available to move this item.');
-      return;
+  const previousDayLogsByMealId = useMemo(() => {
+    const previousDayLogs = data?.previousDayLogs || [];
+    const { logsByMealId, matchedLogIds } = groupLogsByMeal(previousDayLogs, mealDefinitions);
+
+    previousDayLogs
+      .filter((log) => !matchedLogIds.has(log.id) && log.meal_type)
+      .forEach((log) => {
+        const bucket = logsByMealId.get(log.meal_type) || [];
+        bucket.push(log);
+        logsByMealId.set(log.meal_type, bucket);
+      });
+
+    return logsByMealId;
+  }, [data?.previousDayLogs, mealDefinitions]);
+
+  const mealIdByLogId = useMemo(
+    () =>
+      mealSections.reduce<Map<string, string>>((acc, meal) => {
+        meal.logs.forEach((log) => {
+          if (!acc.has(log.id)) acc.set(log.id, meal.id);
+        });
+        return acc;
+      }, new Map()),
+    [mealSections]
+  );
+
+  const getMealSlot = (mealId: string, slotDate: string): LogSlot => ({
+    date: slotDate,
+    mealType: mealId,
+    mealTime: mealTimeById.get(normalizeKey(mealId))
+  });
+
+  const isSelecting = selectedLogIds.length > 0;
+
+  const toggleLogSelection = (id: string) => {
+    setOpenActionsLogId(null);
+    setSelectedLogIds((current) => (current.includes(id) ? current.filter((logId) => logId !== id) : [...current, id]));
+  };
+
+  const openCopySheet = (mode: LogCopyMode, logIds: string[], defaultMealId?: string) => {
+    setOpenActionsLogId(null);
+    setCopySheet({ mode, logIds, defaultMealId });
+  };
+
+  const submitCopySheet = async ({ date: targetDate, mealId, untilDate }: LogCopyTarget) => {
+    if (!copySheet) return;
+    const logs = extendedLogs.filter((log) => copySheet.logIds.includes(log.id));
+    if (!logs.length) return;
+
+    if (copySheet.mode === 'move') {
+      await moveLogsToMeal(logs.map((log) => log.id), mealId, mealTimeById.get(normalizeKey(mealId)));
+    } else if (copySheet.mode === 'copy') {
+      await copyLogsToSlots(logs, [getMealSlot(mealId, targetDate)]);
+    } else {
+      const dates = getWeekdayDatesUntil(date, untilDate);
+      const slots = dates.map((slotDate) => (log: DailyLog) => getMealSlot(mealIdByLogId.get(log.id) || log.meal_type, slotDate));
+      await copyLogsToSlots(logs, slots);
     }
 
-    const optionsText = candidates.map((option, index) => `${index + 1}. ${option.label}`).join('\n');
-    const selected = window.prompt(`Move to which meal?\n\n${optionsText}\n\nEnter number:`);
+    setSelectedLogIds([]);
+  };
 
-    if (!selected) return;
+  const submitQuickLog = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const text = quickLogText.trim();
+    if (!text || isParsingQuickLog) return;
 
-    const selectedIndex = Number.parseInt(selected, 10) - 1;
-    if (!Number.isInteger(selectedIndex) || selectedIndex < 0 || selectedIndex >= candidates.length) {
-      alert('Invalid selection.');
-      return;
+    setIsParsingQuickLog(true);
+    try {
+      const meals = mealDefinitions.map((meal) => ({ id: meal.id, name: meal.name }));
+      setQuickLogDraft(await parseQuickLog(text, meals, currentUserId || 'local-user'));
+    } catch (error) {
+      console.error('Failed to parse quick log:', error);
+      alert(error instanceof Error ? error.message : 'Failed to parse quick log');
+    } finally {
+      setIsParsingQuickLog(false);
     }
+  };
 
-    await db.logs.update(log.id, {
-      meal_time: mealTimeById.get(normalizeKey(candidates[selectedIndex].id)),
-      synced: 0
+  const saveQuickLogDraft = async (items: QuickLogItem[], mealId: string) => {
+    await saveQuickLog(items, {
+      userId: currentUserId || 'local-user',
+      date,
+      mealType: mealId,
+      mealTime: mealTimeById.get(normalizeKey(mealId))
     });
+    setQuickLogText('');
+  };
 
-    setOpenActionsLogId(null);
+  const saveMealSection = async (meal: MealSection) => {
+    const name = window.prompt('Save this meal as:', meal.label);
+    if (!name?.trim()) return;
+
+    try {
+      await saveMealTemplate(name, meal.logs, currentUserId || 'local-user');
+      alert(`Saved "${name.trim()}". Find it under Saved Meals when adding food.`);
+    } catch (error) {
+      console.error('Failed to save meal:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save meal');
+    }
+  };
+
+  const copyPreviousDayMeal = async (meal: MealSection) => {
+    const logs = previousDayLogsByMealId.get(meal.id) || [];
+    if (!logs.length) return;
+    if (meal.logs.length && !window.confirm(`${meal.label} already has entries today. Add yesterday's as well?`)) return;
+
+    try {
+      await copyLogsToSlots(logs, [getMealSlot(meal.id, date)]);
+    } catch (error) {
+      console.error('Failed to copy previous day meal:', error);
+      alert('Failed to copy meal');
+    }
   };
 
   const toggleSupplementCompletion = async (food: Food) => {
@@ -1377,7 +1503,12 @@ export default function DailyLogPage() {
 
               <div>
                 <p className="text-3xl font-extrabold text-text-main leading-none">{Math.round(dailyTotals.calories)}</p>
-                <p className="text-sm text-text-muted mt-0.5">/ {goals.calories}</p>
+                <p className="text-sm text-text-muted mt-0.5">/ {calorieBudget.net}</p>
+                {calorieBudget.credited > 0 && (
+                  <p className="text-[11px] text-text-muted">
+                    {calorieBudget.gross} budget + {calorieBudget.credited} burned
+                  </p>
+                )}
                 <p className={`mt-1 inline-flex px-2 py-0.5 rounded-full text-[11px] font-bold ${remainingCalories >= 0 ? 'text-brand bg-surface' : 'text-macro-fat bg-surface'}`}>
                   {remainingCalories >= 0 ? `${remainingCalories} kcal left` : `${Math.abs(remainingCalories)} kcal over`}
                 </p>
@@ -1583,11 +1714,33 @@ export default function DailyLogPage() {
           )}
         </div>
 
+        {!isReportView && (
+          <form onSubmit={submitQuickLog} className="flex gap-2">
+            <input
+              type="text"
+              value={quickLogText}
+              onChange={(e) => setQuickLogText(e.target.value)}
+              placeholder="Quick log: 2 rotis, dal and a glass of milk at lunch"
+              className="flex-1 min-w-0 p-3 bg-surface text-sm text-text-main border border-border-subtle rounded-xl shadow-sm focus:ring-2 focus:ring-brand focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={isParsingQuickLog || !quickLogText.trim()}
+              className="px-4 rounded-xl bg-brand text-brand-fg text-sm font-bold disabled:opacity-60"
+            >
+              {isParsingQuickLog ? '...' : 'Log'}
+            </button>
+          </form>
+        )}
+
         {!isReportView && mealSections.map((meal) => {
           const mealCalories = meal.logs.reduce((sum, log) => sum + log.calories, 0);
           const mealAmino = perMealAminoByMealId[meal.id];
           const isSupplementSection = normalizeKey(meal.id) === 'supplement';
           const usesSupplementChecklist = isSupplementSection && (supplementFoods?.length || 0) > 0;
+          const previousDayMealLogs = previousDayLogsByMealId.get(meal.id) || [];
+          const mealLogIds = meal.logs.map((log) => log.id);
+          const allMealLogsSelected = mealLogIds.length > 0 && mealLogIds.every((id) => selectedLogIds.includes(id));
 
           return (
             <div key={meal.id} className="mb-6">
@@ -1608,6 +1761,47 @@ export default function DailyLogPage() {
                 <span className="text-sm text-text-muted font-medium">{mealCalories} kcal</span>
               </div>
 
+              {!usesSupplementChecklist && (mealLogIds.length > 0 || (!isSelecting && previousDayMealLogs.length > 0)) && (
+                <div className="-mt-1 mb-3 flex justify-end gap-3">
+                  {isSelecting ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSelectedLogIds((current) =>
+                          allMealLogsSelected
+                            ? current.filter((id) => !mealLogIds.includes(id))
+                            : [...new Set([...current, ...mealLogIds])]
+                        )
+                      }
+                      className="text-[11px] font-semibold text-brand"
+                    >
+                      {allMealLogsSelected ? 'Deselect meal' : 'Select meal'}
+                    </button>
+                  ) : (
+                    <>
+                      {previousDayMealLogs.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => void copyPreviousDayMeal(meal)}
+                          className="text-[11px] font-semibold text-brand"
+                        >
+                          Copy yesterday's {meal.label.toLowerCase()} ({previousDayMealLogs.length})
+                        </button>
+                      )}
+                      {mealLogIds.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => void saveMealSection(meal)}
+                          className="text-[11px] font-semibold text-brand"
+                        >
+                          Save meal
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
               {!isSupplementSection && (
                 <div className="mb-3 bg-surface rounded-xl p-2.5 border border-border-subtle">
                   <div className="flex items-center justify-between gap-2 mb-1.5">
@@ -1683,18 +1877,24 @@ export default function DailyLogPage() {
                   const carbsPct = (carbsKcal / macroKcalTotal) * 100;
                   const fatPct = (fatKcal / macroKcalTotal) * 100;
                   const addedTime = normalizeClockTime(log.meal_time) || formatLogCreatedAtTime(log.created_at);
+                  const isSelected = selectedLogIds.includes(log.id);
+                  const photo = data?.photosByLogId.get(log.id);
 
                   return (
                     <div
                       key={log.id}
-                      className="bg-card p-4 rounded-xl shadow-sm border border-border-subtle flex justify-between items-start relative"
+                      onClick={isSelecting ? () => toggleLogSelection(log.id) : undefined}
+                      className={`bg-card p-4 rounded-xl shadow-sm border flex justify-between items-start relative ${
+                        isSelected ? 'border-brand' : 'border-border-subtle'
+                      } ${isSelecting ? 'cursor-pointer' : ''}`}
                     >
+                      {photo && <img src={photo} alt="" className="w-10 h-10 shrink-0 rounded-lg object-cover mr-3" />}
                       <div className="flex-1 min-w-0 pr-2">
                         <div className="font-medium text-text-main truncate">
                           {log.food?.name || 'Unknown Food'}
                           <span className="text-xs text-text-muted font-normal ml-1">
                             ({log.food?.serving_unit && WEIGHT_BASED_REGEX.test(log.food.serving_unit)
-                              ? `${Math.round(log.amount_consumed * (log.food.serving_size || 100))}${log.food.serving_unit}`
+                              ? formatFoodAmount(log.amount_consumed * (log.food.serving_size || 100), log.food.serving_unit, unitSystem)
                               : `${log.amount_consumed} ${log.food?.serving_unit || 'svg'}`})
                           </span>
                         </div>
@@ -1708,42 +1908,67 @@ export default function DailyLogPage() {
                           {addedTime && <span className="ml-auto text-[10px] text-text-muted/80">{addedTime}</span>}
                         </div>
                       </div>
-                      <div className="shrink-0 relative">
-                        <button
-                          type="button"
-                          onClick={() => setOpenActionsLogId((current) => (current === log.id ? null : log.id))}
-                          className="w-8 h-8 rounded-full border border-border-subtle bg-surface text-text-muted hover:text-text-main hover:border-brand transition-colors flex items-center justify-center"
-                          aria-label="Open food log actions"
+                      {isSelecting ? (
+                        <span
+                          className={`shrink-0 w-6 h-6 rounded-full border flex items-center justify-center text-xs font-bold ${
+                            isSelected ? 'bg-brand border-brand text-white' : 'border-border-subtle text-transparent'
+                          }`}
+                          aria-label={isSelected ? 'Selected' : 'Not selected'}
                         >
-                          ⋯
-                        </button>
+                          ✓
+                        </span>
+                      ) : (
+                        <div className="shrink-0 relative">
+                          <button
+                            type="button"
+                            onClick={() => setOpenActionsLogId((current) => (current === log.id ? null : log.id))}
+                            className="w-8 h-8 rounded-full border border-border-subtle bg-surface text-text-muted hover:text-text-main hover:border-brand transition-colors flex items-center justify-center"
+                            aria-label="Open food log actions"
+                          >
+                            ⋯
+                          </button>
 
-                        {openActionsLogId === log.id && (
-                          <div className="absolute right-0 top-9 z-20 min-w-28 bg-card border border-border-subtle rounded-lg shadow-sm py-1">
-                            <Link
-                              to={`/log/add?date=${date}&meal=${encodeURIComponent(log.meal_type || meal.id)}&log_id=${log.id}`}
-                              onClick={() => setOpenActionsLogId(null)}
-                              className="block px-3 py-1.5 text-[11px] font-semibold text-brand hover:bg-surface"
-                            >
-                              Edit qty
-                            </Link>
-                            <button
-                              type="button"
-                              onClick={() => moveLogToMeal(log, meal.id)}
-                              className="w-full text-left px-3 py-1.5 text-[11px] font-semibold text-text-main hover:bg-surface"
-                            >
-                              Move
-                            </button>
-                            <button
-                              type="button"
-                              onClick={() => deleteLog(log.id)}
-                              className="w-full text-left px-3 py-1.5 text-[11px] font-semibold text-red-500 hover:bg-surface"
-                            >
-                              Delete
-                            </button>
-                          </div>
-                        )}
-                      </div>
+                          {openActionsLogId === log.id && (
+                            <div className="absolute right-0 top-9 z-20 min-w-28 bg-card border border-border-subtle rounded-lg shadow-sm py-1">
+                              <Link
+                                to={`/log/add?date=${date}&meal=${encodeURIComponent(log.meal_type || meal.id)}&log_id=${log.id}`}
+                                onClick={() => setOpenActionsLogId(null)}
+                                className="block px-3 py-1.5 text-[11px] font-semibold text-brand hover:bg-surface"
+                              >
+                                Edit qty
+                              </Link>
+                              <button
+                                type="button"
+                                onClick={() => openCopySheet('move', [log.id], moveMealOptions.find((option) => option.id !== meal.id)?.id)}
+                                className="w-full text-left px-3 py-1.5 text-[11px] font-semibold text-text-main hover:bg-surface"
+                              >
+                                Move
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => openCopySheet('copy', [log.id], meal.id)}
+                                className="w-full text-left px-3 py-1.5 text-[11px] font-semibold text-text-main hover:bg-surface"
+                              >
+                                Copy
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => toggleLogSelection(log.id)}
+                                className="w-full text-left px-3 py-1.5 text-[11px] font-semibold text-text-main hover:bg-surface"
+                              >
+                                Select
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => deleteLog(log.id)}
+                                className="w-full text-left px-3 py-1.5 text-[11px] font-semibold text-red-500 hover:bg-surface"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -1762,7 +1987,120 @@ export default function DailyLogPage() {
             </div>
           );
         })}
+
+        {!isReportView && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3 gap-2">
+              <h3 className="text-lg font-bold text-text-main">Activity</h3>
+              <span className="text-sm text-text-muted font-medium">{activityCaloriesBurned} kcal burned</span>
+            </div>
+
+            <div className="space-y-3">
+              {(activityTimeline || []).map((log) => {
+                const startLabel = formatLogCreatedAtTime(log.start_time);
+                const endLabel = formatLogCreatedAtTime(log.end_time);
+
+                return (
+                  <div
+                    key={log.id}
+                    className="bg-card p-4 rounded-xl shadow-sm border border-border-subtle flex justify-between items-start gap-2"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-text-main truncate">
+                        {log.activity?.name || 'Unknown Activity'}
+                        {log.activity?.category && (
+                          <span className="text-xs text-text-muted font-normal ml-1">({log.activity.category})</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-text-muted mt-1 flex items-center gap-2">
+                        <span className="whitespace-nowrap">{Math.round(log.calories_burned)} kcal</span>
+                        <span>•</span>
+                        <span className="whitespace-nowrap">{formatActivityDuration(log.duration_minutes)}</span>
+                        {startLabel && (
+                          <span className="ml-auto text-[10px] text-text-muted/80">
+                            {startLabel}{endLabel ? `–${endLabel}` : ''}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => deleteActivityLog(log.id)}
+                      className="w-8 h-8 rounded-full border border-border-subtle bg-surface text-text-muted hover:text-red-500 hover:border-red-500 transition-colors flex items-center justify-center shrink-0"
+                      aria-label="Delete activity"
+                    >
+                      ×
+                    </button>
+                  </div>
+                );
+              })}
+
+              <Link
+                to="/activities"
+                className="block w-full text-center py-3 border-2 border-dashed border-border-subtle rounded-xl text-text-muted hover:border-brand hover:text-brand hover:bg-surface transition-all text-sm font-medium"
+              >
+                + Track Activity
+              </Link>
+            </div>
+          </div>
+        )}
       </main>
+
+      {isSelecting && !copySheet && (
+        <div className="fixed bottom-20 left-4 right-4 z-40 max-w-md mx-auto rounded-2xl border border-border-subtle bg-card p-3 shadow-xl space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-text-main">{selectedLogIds.length} selected</span>
+            <button type="button" onClick={() => setSelectedLogIds([])} className="text-xs font-semibold text-text-muted">
+              Cancel
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              onClick={() => openCopySheet('copy', selectedLogIds)}
+              className="rounded-lg bg-brand px-3 py-2 text-xs font-bold text-white"
+            >
+              Copy to…
+            </button>
+            <button
+              type="button"
+              onClick={() => openCopySheet('move', selectedLogIds)}
+              className="rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main"
+            >
+              Move
+            </button>
+            <button
+              type="button"
+              onClick={() => openCopySheet('repeat', selectedLogIds)}
+              className="rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main"
+            >
+              Repeat…
+            </button>
+          </div>
+        </div>
+      )}
+
+      {quickLogDraft && (
+        <QuickLogSheet
+          draft={quickLogDraft}
+          mealOptions={moveMealOptions}
+          defaultMealId={highlightedMealId ?? undefined}
+          onSave={saveQuickLogDraft}
+          onClose={() => setQuickLogDraft(null)}
+        />
+      )}
+
+      {copySheet && (
+        <LogCopySheet
+          mode={copySheet.mode}
+          count={copySheet.logIds.length}
+          sourceDate={date}
+          mealOptions={moveMealOptions}
+          defaultMealId={copySheet.defaultMealId}
+          onSubmit={submitCopySheet}
+          onClose={() => setCopySheet(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,467 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { PlayIcon, StopIcon, PlusIcon, PencilSimpleIcon, TrashIcon } from '@phosphor-icons/react';
+import { db, type Activity } from '../../lib/db';
+import { generateId } from '../../lib';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  ACTIVITY_CATEGORIES,
+  calculateActivityCalories,
+  canEditActivity,
+  cancelActivityTimer,
+  formatActivityDuration,
+  getActiveActivityTimer,
+  logActivity,
+  startActivityTimer,
+  stopActivityTimer,
+  type ActiveActivityTimer,
+} from '../../lib/activities';
+import { useStackNavigation } from '../../lib/useStackNavigation';
+import RouteHeader from '../../lib/components/RouteHeader';
+
+type ActivityDraft = {
+  id: string | null;
+  name: string;
+  category: string;
+  calories_per_hour: string;
+  target_duration_minutes: string;
+  target_type: 'min' | 'max';
+};
+
+const EMPTY_DRAFT: ActivityDraft = {
+  id: null,
+  name: '',
+  category: 'Other',
+  calories_per_hour: '',
+  target_duration_minutes: '',
+  target_type: 'min',
+};
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mm = minutes.toString().padStart(2, '0');
+  const ss = seconds.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+export default function ActivitiesPage() {
+  const { pop } = useStackNavigation();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [activeTimer, setActiveTimer] = useState<ActiveActivityTimer | null>(() => getActiveActivityTimer());
+  const [now, setNow] = useState(() => Date.now());
+  const [draft, setDraft] = useState<ActivityDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!activeTimer) return;
+
+    const interval = window.setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [activeTimer]);
+
+  const activities = useLiveQuery(() => db.activities.orderBy('name').toArray(), []);
+  const todaysLogs = useLiveQuery(() => db.activity_logs.where('date').equals(today).toArray(), [today]);
+
+  const minutesTodayByActivity = useMemo(() => {
+    return (todaysLogs || []).reduce<Record<string, number>>((acc, log) => {
+      acc[log.activity_id] = (acc[log.activity_id] || 0) + Number(log.duration_minutes || 0);
+      return acc;
+    }, {});
+  }, [todaysLogs]);
+
+  const activitiesByCategory = useMemo(() => {
+    const groups = new Map<string, Activity[]>();
+    (activities || []).forEach((activity) => {
+      const category = activity.category || 'Other';
+      if (!groups.has(category)) groups.set(category, []);
+      groups.get(category)!.push(activity);
+    });
+
+    return Array.from(groups.entries()).sort(([a], [b]) => {
+      const aIndex = ACTIVITY_CATEGORIES.indexOf(a as typeof ACTIVITY_CATEGORIES[number]);
+      const bIndex = ACTIVITY_CATEGORIES.indexOf(b as typeof ACTIVITY_CATEGORIES[number]);
+      return (aIndex === -1 ? 99 : aIndex) - (bIndex === -1 ? 99 : bIndex);
+    });
+  }, [activities]);
+
+  const runningActivity = useMemo(
+    () => (activeTimer ? activities?.find((activity) => activity.id === activeTimer.activity_id) : undefined),
+    [activities, activeTimer]
+  );
+
+  const runningElapsedMs = activeTimer ? now - new Date(activeTimer.start_time).getTime() : 0;
+
+  const handleStart = (activity: Activity) => {
+    if (activeTimer) {
+      alert('Stop the running activity before starting another one.');
+      return;
+    }
+
+    setNow(Date.now());
+    setActiveTimer(startActivityTimer(activity.id, currentUserId || 'local-user'));
+  };
+
+  const handleStop = async () => {
+    try {
+      const log = await stopActivityTimer();
+      if (!log) {
+        alert('Activity was shorter than a minute and was not logged.');
+      }
+    } catch (error) {
+      console.error('Failed to stop activity:', error);
+      alert('Failed to log activity');
+    } finally {
+      setActiveTimer(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Discard the running activity?')) return;
+    cancelActivityTimer();
+    setActiveTimer(null);
+  };
+
+  const handleLogManually = async (activity: Activity) => {
+    const input = window.prompt(`How many minutes of ${activity.name}?`, String(activity.target_duration_minutes || 30));
+    if (input === null) return;
+
+    const minutes = Number(input);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      alert('Enter a duration in minutes.');
+      return;
+    }
+
+    try {
+      const endTime = new Date();
+      const startTime = new Date(endTime.getTime() - minutes * 60000);
+      await logActivity(activity, startTime, endTime, currentUserId || 'local-user');
+    } catch (error) {
+      console.error('Failed to log activity:', error);
+      alert('Failed to log activity');
+    }
+  };
+
+  const handleEdit = (activity: Activity) => {
+    if (!canEditActivity(activity.user_id, currentUserId)) return;
+    setDraft({
+      id: activity.id,
+      name: activity.name,
+      category: activity.category || 'Other',
+      calories_per_hour: String(activity.calories_per_hour ?? ''),
+      target_duration_minutes: activity.target_duration_minutes ? String(activity.target_duration_minutes) : '',
+      target_type: activity.target_type || 'min',
+    });
+  };
+
+  const handleDelete = async (activity: Activity) => {
+    if (!canEditActivity(activity.user_id, currentUserId)) return;
+
+    const logCount = await db.activity_logs.where('activity_id').equals(activity.id).count();
+    const message = logCount > 0
+      ? `Delete ${activity.name} and its ${logCount} logged session(s)?`
+      : `Delete ${activity.name}?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await db.transaction('rw', [db.activities, db.activity_logs], async () => {
+        await db.activity_logs.where('activity_id').equals(activity.id).delete();
+        await db.activities.delete(activity.id);
+      });
+
+      if (activeTimer?.activity_id === activity.id) {
+        cancelActivityTimer();
+        setActiveTimer(null);
+      }
+    } catch (error) {
+      console.error('Failed to delete activity:', error);
+      alert('Failed to delete activity');
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const caloriesPerHour = Number(draft.calories_per_hour);
+    const targetMinutes = Number(draft.target_duration_minutes);
+
+    if (!name) {
+      alert('Activity name is required.');
+      return;
+    }
+
+    if (!Number.isFinite(caloriesPerHour) || caloriesPerHour < 0) {
+      alert('Calories per hour must be zero or more.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name,
+        category: draft.category,
+        calories_per_hour: caloriesPerHour,
+        target_duration_minutes: Number.isFinite(targetMinutes) && targetMinutes > 0 ? targetMinutes : undefined,
+        target_type: Number.isFinite(targetMinutes) && targetMinutes > 0 ? draft.target_type : undefined,
+      };
+
+      if (draft.id) {
+        await db.activities.update(draft.id, payload);
+      } else {
+        await db.activities.add({
+          id: generateId(),
+          user_id: currentUserId || 'local-user',
+          ...payload,
+        });
+      }
+
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to save activity:', error);
+      alert('Failed to save activity');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-page font-sans">
+      <RouteHeader
+        title="Activities"
+        onBack={() => pop()}
+        rightAction={
+          <button
+            type="button"
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            className="rounded-lg border border-border-subtle bg-surface px-3 py-1.5 text-xs font-semibold text-text-main hover:border-brand-light inline-flex items-center gap-1"
+          >
+            <PlusIcon size={14} />
+            New Activity
+          </button>
+        }
+      />
+
+      <main className="max-w-md mx-auto p-4 space-y-5 pb-28">
+        {activeTimer && (
+          <section className="rounded-2xl border border-brand bg-brand/10 p-4">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-brand">In progress</p>
+            <div className="mt-1 flex items-end justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-lg font-bold text-text-main truncate">{runningActivity?.name || 'Activity'}</p>
+                <p className="text-xs text-text-muted">
+                  ~{calculateActivityCalories(runningActivity?.calories_per_hour || 0, runningElapsedMs / 60000)} kcal burned
+                </p>
+              </div>
+              <p className="text-3xl font-extrabold text-text-main tabular-nums">{formatElapsed(runningElapsedMs)}</p>
+            </div>
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="rounded-xl border border-border-subtle bg-card py-2 text-sm font-semibold text-text-muted"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={handleStop}
+                className="rounded-xl bg-brand text-brand-fg py-2 text-sm font-bold inline-flex items-center justify-center gap-1.5"
+              >
+                <StopIcon size={16} weight="fill" />
+                Stop & Log
+              </button>
+            </div>
+          </section>
+        )}
+
+        {draft && (
+          <section className="rounded-2xl border border-border-subtle bg-card p-4 space-y-3">
+            <p className="text-sm font-bold text-text-main">{draft.id ? 'Edit Activity' : 'New Activity'}</p>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name (e.g. Walking)"
+              className="w-full rounded-xl border border-border-subtle bg-surface px-3 py-2 text-sm text-text-main"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="block text-[11px] font-semibold uppercase text-text-muted mb-1">Category</span>
+                <select
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                  className="w-full rounded-xl border border-border-subtle bg-surface px-3 py-2 text-sm text-text-main"
+                >
+                  {ACTIVITY_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-[11px] font-semibold uppercase text-text-muted mb-1">kcal / hour</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={draft.calories_per_hour}
+                  onChange={(e) => setDraft({ ...draft, calories_per_hour: e.target.value })}
+                  className="w-full rounded-xl border border-border-subtle bg-surface px-3 py-2 text-sm text-text-main"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-[11px] font-semibold uppercase text-text-muted mb-1">Daily target (min)</span>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  value={draft.target_duration_minutes}
+                  onChange={(e) => setDraft({ ...draft, target_duration_minutes: e.target.value })}
+                  placeholder="Optional"
+                  className="w-full rounded-xl border border-border-subtle bg-surface px-3 py-2 text-sm text-text-main"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-[11px] font-semibold uppercase text-text-muted mb-1">Target type</span>
+                <select
+                  value={draft.target_type}
+                  onChange={(e) => setDraft({ ...draft, target_type: e.target.value as 'min' | 'max' })}
+                  className="w-full rounded-xl border border-border-subtle bg-surface px-3 py-2 text-sm text-text-main"
+                >
+                  <option value="min">At least</option>
+                  <option value="max">At most</option>
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="rounded-xl border border-border-subtle bg-surface py-2 text-sm font-semibold text-text-muted"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveDraft}
+                disabled={isSaving}
+                className="rounded-xl bg-brand text-brand-fg py-2 text-sm font-bold disabled:opacity-60"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {!activities ? (
+          <p className="text-text-muted">Loading...</p>
+        ) : activities.length === 0 ? (
+          <p className="text-sm text-text-muted">No activities yet. Add walks, chores or commutes to track them.</p>
+        ) : (
+          activitiesByCategory.map(([category, items]) => (
+            <section key={category}>
+              <h2 className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-2">{category}</h2>
+              <div className="space-y-2">
+                {items.map((activity) => {
+                  const minutesToday = minutesTodayByActivity[activity.id] || 0;
+                  const target = activity.target_duration_minutes || 0;
+                  const progress = target > 0 ? Math.min((minutesToday / target) * 100, 100) : 0;
+                  const overLimit = activity.target_type === 'max' && target > 0 && minutesToday > target;
+                  const isRunning = activeTimer?.activity_id === activity.id;
+                  const canEdit = canEditActivity(activity.user_id, currentUserId);
+
+                  return (
+                    <div key={activity.id} className="bg-card rounded-xl border border-border-subtle p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-text-main truncate">{activity.name}</p>
+                          <p className="text-xs text-text-muted">
+                            {activity.calories_per_hour} kcal/h
+                            {target > 0 && ` • ${activity.target_type === 'max' ? 'max' : 'min'} ${formatActivityDuration(target)}/day`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {canEdit && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => handleEdit(activity)}
+                                className="h-8 w-8 rounded-lg border border-border-subtle bg-surface text-text-muted flex items-center justify-center"
+                                aria-label={`Edit ${activity.name}`}
+                              >
+                                <PencilSimpleIcon size={14} />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(activity)}
+                                className="h-8 w-8 rounded-lg border border-border-subtle bg-surface text-red-500 flex items-center justify-center"
+                                aria-label={`Delete ${activity.name}`}
+                              >
+                                <TrashIcon size={14} />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+
+                      {target > 0 && (
+                        <div className="mt-2">
+                          <div className="h-1.5 rounded-full bg-surface border border-border-subtle overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${overLimit ? 'bg-macro-fat' : 'bg-brand'}`}
+                              style={{ width: `${progress}%` }}
+                            />
+                          </div>
+                          <p className="text-[11px] text-text-muted mt-1">
+                            Today: {formatActivityDuration(minutesToday)} / {formatActivityDuration(target)}
+                          </p>
+                        </div>
+                      )}
+
+                      <div className="mt-3 grid grid-cols-2 gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleLogManually(activity)}
+                          className="rounded-lg border border-border-subtle bg-surface py-1.5 text-xs font-semibold text-text-main"
+                        >
+                          Log minutes
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => (isRunning ? handleStop() : handleStart(activity))}
+                          disabled={Boolean(activeTimer) && !isRunning}
+                          className="rounded-lg bg-brand text-brand-fg py-1.5 text-xs font-bold inline-flex items-center justify-center gap-1 disabled:opacity-50"
+                        >
+                          {isRunning ? <StopIcon size={12} weight="fill" /> : <PlayIcon size={12} weight="fill" />}
+                          {isRunning ? 'Stop' : 'Start'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
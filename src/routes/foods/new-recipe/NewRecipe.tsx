@@ -14,6 +14,7 @@ import {
 } from '../../../lib/spoonacular';
 import { supabase } from '../../../lib/supabaseClient';
 import { analyzeEaaRatio, type EaaInputItem } from '../../../lib/eaa';
+import { G_PER_OZ, ML_PER_FL_OZ } from '../../../lib/units';
 import { fetchGeminiRecipeIngredients } from '../../../lib/gemini';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
 import RouteHeader from '../../../lib/components/RouteHeader';
@@ -82,6 +83,7 @@ const normalizeUnit = (value: string) => {
   if (['gram', 'grams', 'g'].includes(unit)) return 'g';
   if (['milliliter', 'milliliters', 'ml'].includes(unit)) return 'ml';
   if (['ounce', 'ounces', 'oz'].includes(unit)) return 'oz';
+  if (['fl oz', 'fl. oz', 'floz', 'fluid ounce', 'fluid ounces'].includes(unit)) return 'fl oz';
   if (['tablespoon', 'tablespoons', 'tbsp'].includes(unit)) return 'tbsp';
   if (['teaspoon', 'teaspoons', 'tsp'].includes(unit)) return 'tsp';
   if (['cup', 'cups'].includes(unit)) return 'cup';
@@ -93,11 +95,12 @@ type UnitCategory = 'mass' | 'volume' | 'count' | 'unknown';
 
 const MASS_TO_GRAMS: Record<string, number> = {
   g: 1,
-  oz: 28.3495
+  oz: G_PER_OZ
 };
 
 const VOLUME_TO_ML: Record<string, number> = {
   ml: 1,
+  'fl oz': ML_PER_FL_OZ,
   tsp: 4.92892,
   tbsp: 14.7868,
   cup: 240
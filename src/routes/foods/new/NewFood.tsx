@@ -1,12 +1,15 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'; // Assuming React Router
 import { db } from '../../../lib/db';
-import { ESSENTIAL_AMINO_ACIDS } from '../../../lib/constants';
+import { ESSENTIAL_AMINO_ACIDS, MICRO_NUTRIENTS } from '../../../lib/constants';
 import { generateId } from '../../../lib';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
 import { fetchGeminiNutritionProfile } from '../../../lib/gemini';
 import { supabase } from '../../../lib/supabaseClient';
 import RouteHeader from '../../../lib/components/RouteHeader';
+import BarcodeScanner from '../../../lib/components/BarcodeScanner';
+import { lookupBarcode, normalizeBarcode } from '../../../lib/barcode';
+import { scanNutritionLabel, type LabelConfidence, type NutritionLabelScan } from '../../../lib/nutritionLabel';
 
 const ESSENTIAL_VITAMIN_KEYS = [
   'Vitamin A',
@@ -191,6 +194,18 @@ const getMicroValue = (source: Record<string, unknown>, key: string): number =>
   return 0;
 };
 
+// Label micros use MICRO_NUTRIENTS keys; the ones the form has a field for are stored under that field.
+const toFormMicroKey = (key: string): string =>
+  REQUIRED_MICRO_KEYS.find((microKey) =>
+    (KEY_ALIASES[microKey] ?? [microKey]).some((alias) => normalizeMicroKey(alias) === normalizeMicroKey(key))
+  ) ?? key;
+
+const LABEL_CONFIDENCE_RING: Record<LabelConfidence, string> = {
+  high: 'ring-2 ring-green-500/60',
+  medium: 'ring-2 ring-amber-400',
+  low: 'ring-2 ring-red-500'
+};
+
 const parseAiJsonFromText = (rawValue: string): Record<string, any> | null => {
   const jsonMatch = rawValue.match(/\{[\s\S]*\}/);
   if (!jsonMatch) return null;
@@ -224,6 +239,7 @@ const SERVING_UNIT_OPTIONS = [
   { value: 'g', label: 'Grams (g)', copyLabel: 'gram' },
   { value: 'ml', label: 'Milliliters (ml)', copyLabel: 'ml' },
   { value: 'oz', label: 'Ounces (oz)', copyLabel: 'oz' },
+  { value: 'fl oz', label: 'Fluid ounces (fl oz)', copyLabel: 'fl oz' },
   { value: 'tablet', label: 'Tablet', copyLabel: 'tablet' },
   { value: 'serving', label: 'Serving', copyLabel: 'serving' }
 ] as const;
@@ -235,6 +251,7 @@ const normalizeServingUnit = (rawUnit?: string) => {
   if (unit === 'g' || unit === 'gram' || unit === 'grams' || unit === 'gm') return 'g';
   if (unit === 'ml' || unit === 'milliliter' || unit === 'milliliters') return 'ml';
   if (unit === 'oz' || unit === 'ounce' || unit === 'ounces') return 'oz';
+  if (unit === 'fl oz' || unit === 'floz' || unit === 'fluid ounce' || unit === 'fluid ounces') return 'fl oz';
   if (unit === 'tablet' || unit === 'tablets' || unit === 'tab' || unit === 'tabs') return 'tablet';
   if (unit === 'serving' || unit === 'servings' || unit === 'piece' || unit === 'pieces' || unit === 'pc') {
     return 'serving';
@@ -304,6 +321,9 @@ const CreateFood: React.FC = () => {
   const [name, setName] = useState('');
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [brand, setBrand] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
   const [servingSize, setServingSize] = useState<number>(100);
   const [servingUnit, setServingUnit] = useState('g');
   
@@ -316,6 +336,10 @@ const CreateFood: React.FC = () => {
   const [aiNotes, setAiNotes] = useState('');
   const [aiInput, setAiInput] = useState('');
   const [showAiPasteInput, setShowAiPasteInput] = useState(false);
+  const [isScanningLabel, setIsScanningLabel] = useState(false);
+  // Form field -> how clearly the label scan read it; cleared per field once edited.
+  const [labelConfidence, setLabelConfidence] = useState<Record<string, LabelConfidence>>({});
+  const [labelScan, setLabelScan] = useState<NutritionLabelScan | null>(null);
   const [isRecipeFood, setIsRecipeFood] = useState(false);
   const [isSupplement, setIsSupplement] = useState(false);
   const [recipeIngredients, setRecipeIngredients] = useState<Array<{
@@ -338,6 +362,7 @@ const CreateFood: React.FC = () => {
   const [isFetching, setIsFetching] = useState(false);
   const hydratedFoodIdRef = useRef<string | null>(null);
   const hasPrefilledNameRef = useRef(false);
+  const hasPrefilledBarcodeRef = useRef(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -363,6 +388,16 @@ const CreateFood: React.FC = () => {
     hasPrefilledNameRef.current = true;
   }, [isEditMode, name, searchParams]);
 
+  useEffect(() => {
+    if (isEditMode || hasPrefilledBarcodeRef.current) return;
+
+    const prefillBarcode = normalizeBarcode(searchParams.get('barcode') || '');
+    if (!prefillBarcode) return;
+
+    setBarcode(prefillBarcode);
+    hasPrefilledBarcodeRef.current = true;
+  }, [isEditMode, searchParams]);
+
   useEffect(() => {
     if (!editFoodId) return;
     if (hydratedFoodIdRef.current === editFoodId) return;
@@ -382,6 +417,7 @@ const CreateFood: React.FC = () => {
 
         setName(existingFood.name || '');
         setBrand(existingFood.brand || '');
+        setBarcode(existingFood.barcode || '');
         setServingSize(existingFood.serving_size ?? 100);
         setServingUnit(normalizeServingUnit(existingFood.serving_unit));
         setProtein(existingFood.protein || 0);
@@ -538,6 +574,106 @@ const CreateFood: React.FC = () => {
 
 
 
+  const applyLabelScan = (scan: NutritionLabelScan) => {
+    const scannedMicros: Record<string, number> = {};
+    const confidence: Record<string, LabelConfidence> = {
+      // Kcal is worked out from the macros, so the label's own calorie reading isn't outlined.
+      servingSize: scan.confidence.serving_size ?? 'medium',
+      protein: scan.confidence.protein ?? 'medium',
+      carbs: scan.confidence.carbs ?? 'medium',
+      fat: scan.confidence.fat ?? 'medium'
+    };
+
+    Object.entries(scan.values.micros).forEach(([key, value]) => {
+      const formKey = toFormMicroKey(key);
+      scannedMicros[formKey] = value;
+      confidence[formKey] = scan.confidence[key] ?? 'medium';
+    });
+
+    setServingSize(scan.servingSize);
+    setServingUnit(scan.servingUnit);
+    setProtein(scan.values.protein);
+    setCarbs(scan.values.carbs);
+    setFat(scan.values.fat);
+    setMicros((prev) => ({ ...prev, ...scannedMicros }));
+    setLabelConfidence(confidence);
+    setLabelScan(scan);
+  };
+
+  const handleLabelPhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsScanningLabel(true);
+    try {
+      applyLabelScan(await scanNutritionLabel(file));
+    } catch (error) {
+      console.error('Nutrition label scan failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to read nutrition label');
+    } finally {
+      setIsScanningLabel(false);
+    }
+  };
+
+  const clearLabelConfidence = (key: string) => {
+    setLabelConfidence((prev) => {
+      if (!(key in prev)) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const labelConfidenceRing = (key: string) => (labelConfidence[key] ? LABEL_CONFIDENCE_RING[labelConfidence[key]] : '');
+
+  const labelOnlyMicros = useMemo(() => {
+    if (!labelScan) return [];
+    return MICRO_NUTRIENTS.filter((nutrient) => {
+      const value = labelScan.values.micros[nutrient.key];
+      return value !== undefined && toFormMicroKey(nutrient.key) === nutrient.key;
+    }).map((nutrient) => `${nutrient.label} ${labelScan.values.micros[nutrient.key]} ${nutrient.unit}`);
+  }, [labelScan]);
+
+  const handleBarcodeDetected = async (scannedBarcode: string) => {
+    setIsScannerOpen(false);
+    setBarcode(scannedBarcode);
+    setIsLookingUpBarcode(true);
+
+    try {
+      const result = await lookupBarcode(scannedBarcode);
+
+      if (result.source === 'food') {
+        if (result.food.id !== editFoodId && confirm(`"${result.food.name}" already uses this barcode. Open it instead?`)) {
+          navigate(`/foods/${result.food.id}/edit`);
+        }
+        return;
+      }
+
+      if (result.source === 'none') {
+        alert('No product found for this barcode. Fill in the details manually.');
+        return;
+      }
+
+      const { product } = result;
+      setName(product.name);
+      setBrand(product.brand || '');
+      setServingSize(Number(product.serving_size) || 100);
+      setServingUnit(normalizeServingUnit(product.serving_unit));
+      setProtein(Number(product.protein) || 0);
+      setCarbs(Number(product.carbs) || 0);
+      setFat(Number(product.fat) || 0);
+      if (product.micros) {
+        setMicros((prev) => ({ ...prev, ...product.micros }));
+      }
+    } catch (error) {
+      console.error('Barcode lookup failed:', error);
+      alert('Failed to look up barcode');
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  };
+
   // --- Logic ---
   const calories = useMemo(() => {
     return Math.round((protein * 4) + (carbs * 4) + (fat * 9));
@@ -656,6 +792,7 @@ const CreateFood: React.FC = () => {
         await db.foods.update(editFoodId, {
           name,
           brand: brand || undefined,
+          barcode: normalizeBarcode(barcode) || undefined,
           is_supplement: isSupplement,
           diet_tags: dietTags,
           allergen_tags: allergenTags,
@@ -676,6 +813,7 @@ const CreateFood: React.FC = () => {
           id: generateId(),
           name,
           brand: brand || undefined,
+          barcode: normalizeBarcode(barcode) || undefined,
           is_supplement: isSupplement,
           diet_tags: dietTags,
           allergen_tags: allergenTags,
@@ -748,6 +886,31 @@ const CreateFood: React.FC = () => {
               className="w-full h-24 p-2 text-sm border border-border-subtle rounded-lg focus:ring-2 focus:ring-brand focus:outline-none bg-card placeholder:text-text-muted"
             />
           )}
+          <label
+            className={`mt-2 block w-full p-3 text-center text-sm font-bold border border-border-subtle rounded-lg bg-card text-text-main transition-colors ${
+              isScanningLabel ? 'opacity-60 pointer-events-none' : 'cursor-pointer hover:bg-brand hover:text-brand-fg hover:border-brand'
+            }`}
+          >
+            {isScanningLabel ? 'Reading label...' : 'Scan Nutrition Label'}
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              disabled={isScanningLabel}
+              onChange={(e) => void handleLabelPhoto(e)}
+            />
+          </label>
+          {labelScan && (
+            <div className="mt-2 space-y-1 text-[11px] text-text-muted">
+              <p>
+                Label: {labelScan.values.calories} kcal per {labelScan.servingSize || 1} {labelScan.servingUnit}
+                {labelScan.basis === 'per_100' && labelScan.servingSize !== 100 ? ' (converted from per 100)' : ''}.
+                Outlines show how clearly each value was read: green clear, amber check, red likely wrong.
+              </p>
+              {labelOnlyMicros.length > 0 && <p>Also saved: {labelOnlyMicros.join(', ')}.</p>}
+            </div>
+          )}
         </div>
       )}
 
@@ -766,6 +929,23 @@ const CreateFood: React.FC = () => {
             onChange={(e) => setBrand(e.target.value)}
             className="w-full p-2 text-sm text-text-muted bg-surface rounded border-none focus:ring-1 focus:ring-brand" 
           />
+          <div className="flex gap-2">
+            <input
+              placeholder="Barcode (Optional)"
+              inputMode="numeric"
+              value={barcode}
+              onChange={(e) => setBarcode(e.target.value)}
+              className="flex-1 p-2 text-sm text-text-muted bg-surface rounded border-none focus:ring-1 focus:ring-brand"
+            />
+            <button
+              type="button"
+              onClick={() => setIsScannerOpen(true)}
+              disabled={isLookingUpBarcode}
+              className="rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-bold text-text-main disabled:opacity-60"
+            >
+              {isLookingUpBarcode ? 'Looking up...' : 'Scan'}
+            </button>
+          </div>
           <label className="inline-flex items-center gap-2 rounded-lg border border-border-subtle bg-surface px-3 py-2">
             <input
               type="checkbox"
@@ -786,8 +966,11 @@ const CreateFood: React.FC = () => {
             <input 
               type="number"
               value={servingSize}
-              onChange={(e) => setServingSize(parseFloat(e.target.value) || 0)}
-              className="w-full p-2 border border-border-subtle rounded-lg text-center font-bold bg-card text-text-main"
+              onChange={(e) => {
+                setServingSize(parseFloat(e.target.value) || 0);
+                clearLabelConfidence('servingSize');
+              }}
+              className={`w-full p-2 border border-border-subtle rounded-lg text-center font-bold bg-card text-text-main ${labelConfidenceRing('servingSize')}`}
             />
             {isServingUnit && (
               <p className="mt-1 text-[11px] text-text-muted">
@@ -946,9 +1129,27 @@ const CreateFood: React.FC = () => {
 
         {/* Macros Grid */}
         <div className="grid grid-cols-4 gap-2">
-          <MacroBox label="Prot" color="text-macro-protein" val={protein} set={setProtein} />
-          <MacroBox label="Carb" color="text-macro-carbs" val={carbs} set={setCarbs} />
-          <MacroBox label="Fat" color="text-macro-fat" val={fat} set={setFat} />
+          <MacroBox
+            label="Prot"
+            color="text-macro-protein"
+            val={protein}
+            set={(value: number) => { setProtein(value); clearLabelConfidence('protein'); }}
+            highlight={labelConfidenceRing('protein')}
+          />
+          <MacroBox
+            label="Carb"
+            color="text-macro-carbs"
+            val={carbs}
+            set={(value: number) => { setCarbs(value); clearLabelConfidence('carbs'); }}
+            highlight={labelConfidenceRing('carbs')}
+          />
+          <MacroBox
+            label="Fat"
+            color="text-macro-fat"
+            val={fat}
+            set={(value: number) => { setFat(value); clearLabelConfidence('fat'); }}
+            highlight={labelConfidenceRing('fat')}
+          />
           <div className="flex flex-col items-center justify-center bg-brand text-brand-fg rounded-xl py-2">
             <span className="text-[10px] uppercase opacity-60">Kcal</span>
             <span className="text-lg font-black">{calories}</span>
@@ -998,8 +1199,11 @@ const CreateFood: React.FC = () => {
                       type="number" 
                       step="any"
                       value={micros[vitamin] ?? ''} 
-                      onChange={(e) => setMicros(p => ({ ...p, [vitamin]: parseFloat(e.target.value) || 0 }))}
-                      className="w-full p-2 pr-10 text-sm border border-border-subtle rounded-lg focus:ring-1 focus:ring-brand outline-none bg-card text-text-main" 
+                      onChange={(e) => {
+                        setMicros(p => ({ ...p, [vitamin]: parseFloat(e.target.value) || 0 }));
+                        clearLabelConfidence(vitamin);
+                      }}
+                      className={`w-full p-2 pr-10 text-sm border border-border-subtle rounded-lg focus:ring-1 focus:ring-brand outline-none bg-card text-text-main ${labelConfidenceRing(vitamin)}`} 
                     />
                     <span className="absolute right-2 top-2 text-[10px] text-text-muted">{ESSENTIAL_VITAMIN_UNITS[vitamin]}</span>
                   </div>
@@ -1022,8 +1226,11 @@ const CreateFood: React.FC = () => {
                       type="number" 
                       step="any"
                       value={micros[mineral] ?? ''} 
-                      onChange={(e) => setMicros(p => ({ ...p, [mineral]: parseFloat(e.target.value) || 0 }))}
-                      className="w-full p-2 pr-10 text-sm border border-border-subtle rounded-lg focus:ring-1 focus:ring-brand outline-none bg-card text-text-main" 
+                      onChange={(e) => {
+                        setMicros(p => ({ ...p, [mineral]: parseFloat(e.target.value) || 0 }));
+                        clearLabelConfidence(mineral);
+                      }}
+                      className={`w-full p-2 pr-10 text-sm border border-border-subtle rounded-lg focus:ring-1 focus:ring-brand outline-none bg-card text-text-main ${labelConfidenceRing(mineral)}`} 
                     />
                     <span className="absolute right-2 top-2 text-[10px] text-text-muted">{ESSENTIAL_MINERAL_UNITS[mineral]}</span>
                   </div>
@@ -1069,13 +1276,20 @@ const CreateFood: React.FC = () => {
         </div>
         </form>
       </div>
+
+      {isScannerOpen && (
+        <BarcodeScanner
+          onDetected={(scannedBarcode) => void handleBarcodeDetected(scannedBarcode)}
+          onClose={() => setIsScannerOpen(false)}
+        />
+      )}
     </div>
   );
 };
 
 // Sub-component for Macro Inputs
-const MacroBox = ({ label, color, val, set }: any) => (
-  <div className="flex flex-col items-center p-2 bg-card border border-border-subtle rounded-xl shadow-sm">
+const MacroBox = ({ label, color, val, set, highlight = '' }: any) => (
+  <div className={`flex flex-col items-center p-2 bg-card border border-border-subtle rounded-xl shadow-sm ${highlight}`}>
     <label className={`text-[10px] font-black uppercase mb-1 ${color}`}>{label}</label>
     <input 
       type="number" 
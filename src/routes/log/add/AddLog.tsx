@@ -12,8 +12,15 @@ import {
   normalizeDietaryPreferences
 } from '../../../lib/dietaryProfile';
 import RouteHeader from '../../../lib/components/RouteHeader';
+import BarcodeScanner from '../../../lib/components/BarcodeScanner';
+import { buildFoodFromProduct, lookupBarcode } from '../../../lib/barcode';
+import { convertFoodAmount, FOOD_UNIT_COUNTERPARTS, useUnitSystem } from '../../../lib/units';
+import { deleteSavedMeal, getSavedMeals, logSavedMeal } from '../../../lib/savedMeals';
+import { prepareMealPhoto } from '../../../lib/mealPhoto';
+import { parseMealPhoto, saveQuickLog, type QuickLogDraft, type QuickLogItem } from '../../../lib/quickLog';
+import QuickLogSheet from '../components/QuickLogSheet';
 
-const WEIGHT_BASED_REGEX = /^(g|ml|oz)$/i;
+const WEIGHT_BASED_REGEX = /^(g|ml|oz|fl oz)$/i;
 
 const EAA_GROUP_LABELS: Record<EaaRatioGroupKey, string> = {
   leucine: 'Leucine',
@@ -29,7 +36,7 @@ const EAA_GROUP_SHORT_LABELS: Record<EaaRatioGroupKey, string> = {
   rest: 'Rest EAAs'
 };
 
-type FoodSortOption = 'default' | 'recent' | 'frequent' | 'protein';
+type FoodSortOption = 'default' | 'recent' | 'frequent' | 'protein' | 'saved';
 
 const MICRONUTRIENT_META = [
   { key: 'vitamin_a', label: 'Vitamin A', unit: 'mcg', aliases: ['vitamin a', 'retinol', 'vitamin a rae'] },
@@ -112,7 +119,7 @@ function extractMealTimeFromSettings(settingsRow: unknown, mealType: string): st
 
 export default function AddLogEntry() {
   const [searchParams] = useSearchParams();
-  const { pop } = useStackNavigation();
+  const { pop, push } = useStackNavigation();
 
   // --- Route Params ---
   const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
@@ -124,11 +131,16 @@ export default function AddLogEntry() {
   const [selectedFood, setSelectedFood] = useState<Food | null>(null);
   const [inputValue, setInputValue] = useState(1);
   const [selectedUnit, setSelectedUnit] = useState('serving');
+  const unitSystem = useUnitSystem();
   const [sortOption, setSortOption] = useState<FoodSortOption>('frequent');
   const [addedCount, setAddedCount] = useState(0);
   const [addedFoodIds, setAddedFoodIds] = useState<string[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [servingConfigMessage, setServingConfigMessage] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const [isEstimatingPhoto, setIsEstimatingPhoto] = useState(false);
+  const [photoDraft, setPhotoDraft] = useState<{ draft: QuickLogDraft; thumbnail: string } | null>(null);
 
   const settingsRow = useLiveQuery(async () => db.settings.get('local-settings'), []);
   const profileRow = useLiveQuery(
@@ -298,6 +310,21 @@ export default function AddLogEntry() {
 
   const allLogs = useLiveQuery(async () => db.logs.toArray(), []);
 
+  const savedMeals = useLiveQuery(async () => {
+    const meals = await getSavedMeals();
+    const foodIds = [...new Set(meals.flatMap((meal) => meal.items.map((item) => item.food_id)))];
+    const foods = foodIds.length ? await db.foods.where('id').anyOf(foodIds).toArray() : [];
+    const foodsById = new Map(foods.map((food) => [food.id, food]));
+
+    return meals.map((meal) => ({
+      meal,
+      foodNames: meal.items.map((item) => foodsById.get(item.food_id)?.name).filter((name): name is string => Boolean(name)),
+      calories: Math.round(
+        meal.items.reduce((sum, item) => sum + (Number(foodsById.get(item.food_id)?.calories) || 0) * item.amount_consumed, 0)
+      )
+    }));
+  }, []);
+
   const logUsageByFood = useMemo(() => {
     const usageMap = new Map<string, { count: number; latestLoggedAt: number }>();
 
@@ -416,7 +443,8 @@ export default function AddLogEntry() {
       ? inputValue
       : (() => {
           const size = selectedFood.serving_size || 1;
-          return size > 0 ? inputValue / size : inputValue;
+          const amount = convertFoodAmount(inputValue, selectedUnit, selectedFood.serving_unit);
+          return size > 0 ? amount / size : amount;
         })();
 
     const selectedScore = scoreFoodForEaaDeficit(selectedFood.micros, eaaDeficit, guidanceQuantity);
@@ -474,12 +502,17 @@ export default function AddLogEntry() {
     !!(selectedFood?.serving_unit && WEIGHT_BASED_REGEX.test(selectedFood.serving_unit)), 
     [selectedFood]
   );
+  // g and ml foods can also be logged in oz / fl oz; amounts are converted back to the food's own unit.
+  const alternateFoodUnit = selectedFood?.serving_unit
+    ? FOOD_UNIT_COUNTERPARTS[selectedFood.serving_unit.trim().toLowerCase()]
+    : undefined;
 
   const quantity = useMemo(() => {
     if (!selectedFood) return 1;
     if (selectedUnit === 'serving') return inputValue;
     const size = selectedFood.serving_size || 1;
-    return size > 0 ? inputValue / size : inputValue;
+    const amount = convertFoodAmount(inputValue, selectedUnit, selectedFood.serving_unit);
+    return size > 0 ? amount / size : amount;
   }, [inputValue, selectedUnit, selectedFood]);
 
   const stats = useMemo(() => ({
@@ -602,8 +635,10 @@ export default function AddLogEntry() {
     setSelectedFood(food);
     const isWeight = food.serving_unit && WEIGHT_BASED_REGEX.test(food.serving_unit);
     if (isWeight) {
-      setSelectedUnit(food.serving_unit!);
-      setInputValue(food.serving_size || 100);
+      const imperialUnit = FOOD_UNIT_COUNTERPARTS[food.serving_unit!.trim().toLowerCase()];
+      const preferredUnit = unitSystem === 'imperial' && imperialUnit ? imperialUnit : food.serving_unit!;
+      setSelectedUnit(preferredUnit);
+      setInputValue(parseFloat(convertFoodAmount(food.serving_size || 100, food.serving_unit, preferredUnit).toFixed(1)));
     } else {
       setSelectedUnit('serving');
       setInputValue(1);
@@ -614,6 +649,34 @@ export default function AddLogEntry() {
     }
   };
 
+  const handleBarcodeDetected = async (barcode: string) => {
+    setIsScannerOpen(false);
+    setIsLookingUpBarcode(true);
+
+    try {
+      const result = await lookupBarcode(barcode);
+
+      if (result.source === 'food') {
+        handleSelectFood(result.food);
+        return;
+      }
+
+      if (result.source === 'none') {
+        push(`/foods/new?barcode=${encodeURIComponent(barcode)}`);
+        return;
+      }
+
+      const food = buildFoodFromProduct(result.product, generateId(), currentUserId);
+      await db.foods.add(food);
+      handleSelectFood(food);
+    } catch (error) {
+      console.error('Barcode lookup failed:', error);
+      alert('Failed to look up barcode');
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  };
+
   const updateUnit = (newUnit: string) => {
     if (!selectedFood) return;
     const servingSize = selectedFood.serving_size || 1;
@@ -626,9 +689,11 @@ export default function AddLogEntry() {
     setServingConfigMessage('');
     
     if (newUnit === 'serving' && selectedUnit !== 'serving') {
-      setInputValue(prev => parseFloat((prev / servingSize).toFixed(2)));
+      setInputValue(prev => parseFloat((convertFoodAmount(prev, selectedUnit, selectedFood.serving_unit) / servingSize).toFixed(2)));
     } else if (newUnit !== 'serving' && selectedUnit === 'serving') {
-      setInputValue(prev => parseFloat((prev * servingSize).toFixed(1)));
+      setInputValue(prev => parseFloat(convertFoodAmount(prev * servingSize, selectedFood.serving_unit, newUnit).toFixed(1)));
+    } else if (newUnit !== selectedUnit) {
+      setInputValue(prev => parseFloat(convertFoodAmount(prev, selectedUnit, newUnit).toFixed(1)));
     }
     setSelectedUnit(newUnit);
   };
@@ -689,6 +754,65 @@ export default function AddLogEntry() {
     }
   };
 
+  const addSavedMeal = async (savedMealId: string) => {
+    try {
+      const added = await logSavedMeal(savedMealId, {
+        userId: currentUserId || 'local-user',
+        date,
+        mealType,
+        mealTime: extractMealTimeFromSettings(settingsRow, mealType) || formatTimeHHmm(new Date())
+      });
+      if (!added) {
+        alert('The foods in this saved meal no longer exist.');
+        return;
+      }
+      setAddedCount((count) => count + added);
+    } catch (error) {
+      console.error('Failed to log saved meal:', error);
+      alert('Failed to log saved meal');
+    }
+  };
+
+  const handleMealPhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsEstimatingPhoto(true);
+    try {
+      const photo = await prepareMealPhoto(file);
+      const draft = await parseMealPhoto(photo, [{ id: mealType, name: mealLabel }], currentUserId || 'local-user');
+      setPhotoDraft({ draft, thumbnail: photo.thumbnail });
+    } catch (error) {
+      console.error('Failed to estimate meal photo:', error);
+      alert(error instanceof Error ? error.message : 'Failed to estimate meal photo');
+    } finally {
+      setIsEstimatingPhoto(false);
+    }
+  };
+
+  const savePhotoDraft = async (items: QuickLogItem[]) => {
+    const added = await saveQuickLog(items, {
+      userId: currentUserId || 'local-user',
+      date,
+      mealType,
+      mealTime: extractMealTimeFromSettings(settingsRow, mealType) || formatTimeHHmm(new Date()),
+      photoThumbnail: photoDraft?.thumbnail
+    });
+    setAddedCount((count) => count + added);
+  };
+
+  const removeSavedMeal = async (savedMealId: string, name: string) => {
+    if (!window.confirm(`Delete saved meal "${name}"? Logged entries stay.`)) return;
+
+    try {
+      await deleteSavedMeal(savedMealId);
+    } catch (error) {
+      console.error('Failed to delete saved meal:', error);
+      alert('Failed to delete saved meal');
+    }
+  };
+
   const toggleFoodInMeal = async (food: Food) => {
     try {
       const existingIds = mealLogIdsByFood.get(food.id) || [];
@@ -746,14 +870,37 @@ export default function AddLogEntry() {
 
       {!selectedFood ? (
         <>
-          <div className="mb-4">
+          <div className="mb-4 flex gap-2">
             <input
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               placeholder="Search foods..."
-              className="w-full p-3 bg-surface text-text-main border border-transparent rounded-lg shadow-sm focus:ring-2 focus:ring-brand focus:outline-none"
+              className="flex-1 p-3 bg-surface text-text-main border border-transparent rounded-lg shadow-sm focus:ring-2 focus:ring-brand focus:outline-none"
             />
+            <button
+              type="button"
+              onClick={() => setIsScannerOpen(true)}
+              disabled={isLookingUpBarcode}
+              className="px-3 rounded-lg bg-surface border border-border-subtle text-xs font-bold text-text-main shadow-sm disabled:opacity-60"
+            >
+              {isLookingUpBarcode ? '...' : 'Scan'}
+            </button>
+            <label
+              className={`px-3 rounded-lg bg-surface border border-border-subtle text-xs font-bold text-text-main shadow-sm flex items-center ${
+                isEstimatingPhoto ? 'opacity-60 pointer-events-none' : 'cursor-pointer'
+              }`}
+            >
+              {isEstimatingPhoto ? '...' : 'Photo'}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                disabled={isEstimatingPhoto}
+                onChange={(e) => void handleMealPhoto(e)}
+              />
+            </label>
           </div>
 
           {isSupplementMeal && (supplementFoods?.length || 0) > 0 && searchQuery.trim().length === 0 && (
@@ -804,7 +951,48 @@ export default function AddLogEntry() {
             <SortChip active={sortOption === 'protein'} onClick={() => setSortOption('protein')}>
               Protein Rich
             </SortChip>
+            <SortChip active={sortOption === 'saved'} onClick={() => setSortOption('saved')}>
+              Saved Meals
+            </SortChip>
           </div>
+          {sortOption === 'saved' ? (
+            <div className="space-y-2">
+              {savedMeals && savedMeals.length > 0 ? savedMeals.map(({ meal, foodNames, calories }) => (
+                <div
+                  key={meal.id}
+                  className="w-full p-4 bg-card border border-border-subtle rounded-lg shadow-sm flex justify-between items-center gap-3"
+                >
+                  <div className="min-w-0">
+                    <div className="font-bold text-lg text-text-main truncate">{meal.name}</div>
+                    <div className="text-sm text-text-muted">
+                      {meal.items.length} item{meal.items.length === 1 ? '' : 's'} • {calories} cal
+                    </div>
+                    {foodNames.length > 0 && <div className="text-xs text-text-muted truncate">{foodNames.join(', ')}</div>}
+                    <button
+                      type="button"
+                      onClick={() => void removeSavedMeal(meal.id, meal.name)}
+                      className="mt-1 text-[11px] font-semibold text-red-500"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void addSavedMeal(meal.id)}
+                    className="w-8 h-8 shrink-0 rounded-full text-2xl flex items-center justify-center bg-brand text-brand-fg"
+                    aria-label={`Log ${meal.name}`}
+                    title="Log all items"
+                  >
+                    +
+                  </button>
+                </div>
+              )) : (
+                <div className="text-center text-text-muted mt-8 italic">
+                  No saved meals yet. Use "Save meal" on a meal in the daily log.
+                </div>
+              )}
+            </div>
+          ) : (
           <div className="space-y-2">
             {normalizedSearchQuery.length > 0 && !hasExactFoodNameMatch && (
               <div className="p-3 bg-surface border border-border-subtle rounded-lg flex items-center justify-between gap-2">
@@ -874,6 +1062,7 @@ export default function AddLogEntry() {
               <div className="text-center text-text-muted mt-8 italic">Start typing to search...</div>
             )}
           </div>
+          )}
         </>
       ) : (
         <div className="bg-card rounded-xl shadow-lg p-6 border border-border-subtle">
@@ -917,9 +1106,14 @@ export default function AddLogEntry() {
                   >
                     Serving
                   </UnitBtn>
-                  <UnitBtn active={selectedUnit !== 'serving'} onClick={() => updateUnit(selectedFood.serving_unit!)}>
+                  <UnitBtn active={selectedUnit === selectedFood.serving_unit} onClick={() => updateUnit(selectedFood.serving_unit!)}>
                     {selectedFood.serving_unit}
                   </UnitBtn>
+                  {alternateFoodUnit && (
+                    <UnitBtn active={selectedUnit === alternateFoodUnit} onClick={() => updateUnit(alternateFoodUnit)}>
+                      {alternateFoodUnit}
+                    </UnitBtn>
+                  )}
                 </div>
               )}
             </div>
@@ -932,7 +1126,7 @@ export default function AddLogEntry() {
             
             <div className="flex items-center space-x-4">
               <StepperBtn onClick={() => {
-                const step = selectedUnit === 'serving' ? 0.25 : 10;
+                const step = selectedUnit === 'serving' ? 0.25 : selectedUnit === alternateFoodUnit ? 1 : 10;
                 setInputValue(v => Math.max(step, selectedUnit !== 'serving' ? Math.round(v - step) : v - step));
               }}>-</StepperBtn>
               
@@ -951,7 +1145,7 @@ export default function AddLogEntry() {
               </div>
 
               <StepperBtn onClick={() => {
-                const step = selectedUnit === 'serving' ? 0.25 : 10;
+                const step = selectedUnit === 'serving' ? 0.25 : selectedUnit === alternateFoodUnit ? 1 : 10;
                 setInputValue(v => selectedUnit !== 'serving' ? Math.round(v + step) : v + step);
               }}>+</StepperBtn>
             </div>
@@ -1060,6 +1254,24 @@ export default function AddLogEntry() {
         </div>
       )}
       </div>
+
+      {isScannerOpen && (
+        <BarcodeScanner
+          onDetected={(barcode) => void handleBarcodeDetected(barcode)}
+          onClose={() => setIsScannerOpen(false)}
+        />
+      )}
+
+      {photoDraft && (
+        <QuickLogSheet
+          draft={photoDraft.draft}
+          mealOptions={[{ id: mealType, label: mealLabel }]}
+          defaultMealId={mealType}
+          photo={photoDraft.thumbnail}
+          onSave={savePhotoDraft}
+          onClose={() => setPhotoDraft(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { getWeekdayDatesUntil, shiftDateKey } from '../../../lib/logCopy';
+
+export type LogCopyMode = 'copy' | 'move' | 'repeat';
+
+export interface LogCopyMealOption {
+  id: string;
+  label: string;
+}
+
+export interface LogCopyTarget {
+  date: string;
+  mealId: string;
+  untilDate: string;
+}
+
+const TITLES: Record<LogCopyMode, string> = {
+  copy: 'Copy to date & meal',
+  move: 'Move to meal',
+  repeat: 'Repeat every weekday'
+};
+
+export default function LogCopySheet({
+  mode,
+  count,
+  sourceDate,
+  mealOptions,
+  defaultMealId,
+  onSubmit,
+  onClose
+}: {
+  mode: LogCopyMode;
+  count: number;
+  sourceDate: string;
+  mealOptions: LogCopyMealOption[];
+  defaultMealId?: string;
+  onSubmit: (target: LogCopyTarget) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [date, setDate] = useState(() => shiftDateKey(sourceDate, 1));
+  const [mealId, setMealId] = useState(() => defaultMealId || mealOptions[0]?.id || '');
+  const [untilDate, setUntilDate] = useState(() => shiftDateKey(sourceDate, 7));
+  const [isSaving, setIsSaving] = useState(false);
+  const repeatDayCount = mode === 'repeat' ? getWeekdayDatesUntil(sourceDate, untilDate).length : 0;
+  const itemLabel = `${count} item${count === 1 ? '' : 's'}`;
+
+  const submit = async () => {
+    setIsSaving(true);
+    try {
+      await onSubmit({ date, mealId, untilDate });
+      onClose();
+    } catch (error) {
+      console.error(`Failed to ${mode} log entries:`, error);
+      alert(error instanceof Error ? error.message : `Failed to ${mode} entries`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = mode === 'repeat' ? repeatDayCount > 0 : Boolean(mealId) && (mode === 'move' || Boolean(date));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 flex items-end justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md rounded-t-2xl border border-border-subtle bg-card p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-base font-bold text-text-main">{TITLES[mode]}</h2>
+          <p className="text-xs text-text-muted">
+            {mode === 'repeat'
+              ? `Adds ${itemLabel} to the same meal on each weekday after this day.`
+              : mode === 'move'
+                ? `Moves ${itemLabel} to another meal on this day.`
+                : `Adds a copy of ${itemLabel}, timed like the target meal.`}
+          </p>
+        </div>
+
+        {mode === 'copy' && (
+          <label className="block text-xs font-semibold text-text-muted">
+            Date
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-border-subtle bg-surface p-2 text-sm text-text-main"
+            />
+          </label>
+        )}
+
+        {mode !== 'repeat' && (
+          <label className="block text-xs font-semibold text-text-muted">
+            Meal
+            <select
+              value={mealId}
+              onChange={(e) => setMealId(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-border-subtle bg-surface p-2 text-sm text-text-main"
+            >
+              {mealOptions.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {mode === 'repeat' && (
+          <label className="block text-xs font-semibold text-text-muted">
+            Until
+            <input
+              type="date"
+              value={untilDate}
+              min={shiftDateKey(sourceDate, 1)}
+              onChange={(e) => setUntilDate(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-border-subtle bg-surface p-2 text-sm text-text-main"
+            />
+            <span className="mt-1 block font-normal">
+              {repeatDayCount} weekday{repeatDayCount === 1 ? '' : 's'}.
+            </span>
+          </label>
+        )}
+
+        <button
+          type="button"
+          onClick={() => void submit()}
+          disabled={isSaving || !canSubmit}
+          className="w-full rounded-xl bg-brand py-3 text-sm font-black text-brand-fg disabled:opacity-60"
+        >
+          {isSaving ? 'Saving...' : mode === 'move' ? `Move ${itemLabel}` : mode === 'repeat' ? `Repeat ${itemLabel}` : `Copy ${itemLabel}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type Food } from '../../../lib/db';
+import { withLocalFood, withProposedFood, type QuickLogDraft, type QuickLogItem } from '../../../lib/quickLog';
+import type { LogCopyMealOption } from './LogCopySheet';
+
+const WEIGHT_BASED_REGEX = /^(g|ml|oz|fl oz)$/i;
+const MAX_PICKER_RESULTS = 6;
+
+const formatServing = (item: QuickLogItem) => {
+  const unit = (item.food.serving_unit || '').trim();
+  const size = Number(item.food.serving_size) || 0;
+  if (!unit) return 'serving';
+  if (WEIGHT_BASED_REGEX.test(unit)) return `${size || 100}${unit}`;
+  return size && size !== 1 ? `${size} ${unit}` : unit;
+};
+
+export default function QuickLogSheet({
+  draft,
+  mealOptions,
+  defaultMealId,
+  photo,
+  onSave,
+  onClose
+}: {
+  draft: QuickLogDraft;
+  mealOptions: LogCopyMealOption[];
+  defaultMealId?: string;
+  photo?: string;
+  onSave: (items: QuickLogItem[], mealId: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [items, setItems] = useState<QuickLogItem[]>(draft.items);
+  const [mealId, setMealId] = useState(() => draft.mealId || defaultMealId || mealOptions[0]?.id || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [pickingKey, setPickingKey] = useState<string | null>(null);
+  const [foodQuery, setFoodQuery] = useState('');
+  const foods = useLiveQuery(() => db.foods.toArray(), [], [] as Food[]);
+  const totalCalories = Math.round(items.reduce((sum, item) => sum + item.food.calories * item.amount, 0));
+
+  const pickerResults = useMemo(() => {
+    const query = foodQuery.trim().toLowerCase();
+    if (!pickingKey || !query) return [];
+    return foods
+      .filter((food) => food.name.toLowerCase().includes(query))
+      .sort((a, b) => a.name.length - b.name.length)
+      .slice(0, MAX_PICKER_RESULTS);
+  }, [foodQuery, foods, pickingKey]);
+
+  const updateItem = (key: string, changes: Partial<QuickLogItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const switchFood = (key: string, next: (item: QuickLogItem) => QuickLogItem) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? next(item) : item)));
+    setPickingKey(null);
+  };
+
+  const togglePicker = (key: string) => {
+    setPickingKey((current) => (current === key ? null : key));
+    setFoodQuery('');
+  };
+
+  const renameProposedFood = (item: QuickLogItem, name: string) => {
+    const food = { ...item.food, name };
+    updateItem(item.key, { food, proposed: { ...item.proposed, food } });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(items, mealId);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save quick log:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save quick log');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 flex items-end justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto rounded-t-2xl border border-border-subtle bg-card p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3">
+          {photo && <img src={photo} alt="Meal photo" className="w-16 h-16 shrink-0 rounded-xl object-cover" />}
+          <div>
+            <h2 className="text-base font-bold text-text-main">Check before logging</h2>
+            <p className="text-xs text-text-muted">
+              Matched foods come from your library. New foods use AI estimates and are saved with this log.
+            </p>
+          </div>
+        </div>
+
+        <label className="block text-xs font-semibold text-text-muted">
+          Meal
+          <select
+            value={mealId}
+            onChange={(e) => setMealId(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-border-subtle bg-surface p-2 text-sm text-text-main"
+          >
+            {mealOptions.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div key={item.key} className="rounded-xl border border-border-subtle bg-surface p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                {item.isNew ? (
+                  <input
+                    type="text"
+                    value={item.food.name}
+                    onChange={(e) => renameProposedFood(item, e.target.value)}
+                    className="flex-1 min-w-0 rounded-lg border border-border-subtle bg-card p-2 text-sm font-semibold text-text-main"
+                    aria-label="Food name"
+                  />
+                ) : (
+                  <span className="flex-1 min-w-0 truncate text-sm font-semibold text-text-main">{item.food.name}</span>
+                )}
+                <span
+                  className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-bold ${
+                    item.isNew ? 'bg-amber-500/15 text-amber-700' : 'bg-brand/10 text-brand'
+                  }`}
+                >
+                  {item.isNew ? 'New food' : 'Matched'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setItems((prev) => prev.filter((entry) => entry.key !== item.key))}
+                  className="shrink-0 text-xs font-semibold text-red-500"
+                  aria-label={`Remove ${item.food.name}`}
+                >
+                  ×
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={item.amount || ''}
+                  onChange={(e) => updateItem(item.key, { amount: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-20 rounded-lg border border-border-subtle bg-card p-2 text-center text-sm font-bold"
+                  aria-label="Servings"
+                />
+                <span className="text-xs text-text-muted">× {formatServing(item)}</span>
+                <span className="ml-auto text-xs font-semibold text-text-main">{Math.round(item.food.calories * item.amount)} kcal</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <p className="flex-1 min-w-0 truncate text-[11px] text-text-muted">From "{item.parsedLabel}"</p>
+                {!item.isNew && (
+                  <button
+                    type="button"
+                    onClick={() => switchFood(item.key, withProposedFood)}
+                    className="shrink-0 text-[11px] font-semibold text-brand"
+                  >
+                    Use new food
+                  </button>
+                )}
+                <button type="button" onClick={() => togglePicker(item.key)} className="shrink-0 text-[11px] font-semibold text-brand">
+                  {pickingKey === item.key ? 'Cancel' : 'Pick food'}
+                </button>
+              </div>
+              {pickingKey === item.key && (
+                <div className="space-y-1">
+                  <input
+                    type="search"
+                    value={foodQuery}
+                    onChange={(e) => setFoodQuery(e.target.value)}
+                    placeholder="Search your foods"
+                    className="w-full rounded-lg border border-border-subtle bg-card p-2 text-sm text-text-main"
+                    autoFocus
+                  />
+                  {pickerResults.map((food) => (
+                    <button
+                      key={food.id}
+                      type="button"
+                      onClick={() => switchFood(item.key, (entry) => withLocalFood(entry, food))}
+                      className="flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-left text-sm text-text-main hover:bg-card"
+                    >
+                      <span className="truncate">{food.name}</span>
+                      <span className="shrink-0 text-[11px] text-text-muted">{food.calories} kcal</span>
+                    </button>
+                  ))}
+                  {foodQuery.trim() && pickerResults.length === 0 && (
+                    <p className="px-2 text-[11px] text-text-muted">No foods match "{foodQuery.trim()}".</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          {items.length === 0 && <p className="text-xs text-text-muted">Nothing left to log.</p>}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={isSaving || !mealId || !items.some((item) => item.amount > 0)}
+          className="w-full rounded-xl bg-brand py-3 text-sm font-black text-brand-fg disabled:opacity-60"
+        >
+          {isSaving ? 'Saving...' : `Log ${items.length} item${items.length === 1 ? '' : 's'} • ${totalCalories} kcal`}
+        </button>
+      </div>
+    </div>
+  );
+}
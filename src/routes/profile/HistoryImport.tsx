@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../lib/db';
+import { supabase } from '../../lib/supabaseClient';
+import { useStackNavigation } from '../../lib/useStackNavigation';
+import RouteHeader from '../../lib/components/RouteHeader';
+import {
+  detectSlashDateOrder,
+  importFoodDiary,
+  importStrengthLog,
+  matchExerciseNames,
+  parseFoodDiaryCsv,
+  parseStrengthLogCsv,
+  type FoodDiaryRow,
+  type SlashDateOrder,
+  type StrengthLogWorkout
+} from '../../lib/historyImport';
+
+type ImportKind = 'food' | 'strength';
+
+const CREATE_NEW_EXERCISE = '__create__';
+
+export default function HistoryImport() {
+  const { pop } = useStackNavigation();
+  const [kind, setKind] = useState<ImportKind>('food');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [dateOrder, setDateOrder] = useState<SlashDateOrder>('month_first');
+  // Only asked when none of the file's a/b/yyyy dates settles which field is the day.
+  const [isDateOrderAmbiguous, setIsDateOrderAmbiguous] = useState(false);
+  const [foodRows, setFoodRows] = useState<FoodDiaryRow[]>([]);
+  const [workouts, setWorkouts] = useState<StrengthLogWorkout[]>([]);
+  const [exerciseMapping, setExerciseMapping] = useState<Record<string, string | null>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [resultMessage, setResultMessage] = useState('');
+
+  const exerciseDefs = useLiveQuery(async () => {
+    const defs = await db.workout_exercises_def.toArray();
+    return defs.sort((a, b) => a.name.localeCompare(b.name));
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const importedExerciseNames = useMemo(
+    () => [...new Set(workouts.flatMap((workout) => workout.exercises.map((exercise) => exercise.name)))].sort(),
+    [workouts]
+  );
+
+  const foodDateRange = useMemo(() => {
+    if (!foodRows.length) return '';
+    const dates = foodRows.map((row) => row.date).sort();
+    return `${dates[0]} → ${dates[dates.length - 1]}`;
+  }, [foodRows]);
+
+  const resetParsed = () => {
+    setFileName('');
+    setFileText('');
+    setIsDateOrderAmbiguous(false);
+    setFoodRows([]);
+    setWorkouts([]);
+    setExerciseMapping({});
+    setResultMessage('');
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    resetParsed();
+    try {
+      const text = await file.text();
+      const detectedOrder = detectSlashDateOrder(text);
+      const order = detectedOrder === 'day_first' ? 'day_first' : 'month_first';
+      if (kind === 'food') {
+        const rows = parseFoodDiaryCsv(text, order);
+        if (!rows.length) throw new Error('No diary rows found in this file.');
+        setFoodRows(rows);
+      } else {
+        const parsed = parseStrengthLogCsv(text, order);
+        if (!parsed.length) throw new Error('No workouts found in this file.');
+        const names = [...new Set(parsed.flatMap((workout) => workout.exercises.map((exercise) => exercise.name)))];
+        setWorkouts(parsed);
+        setExerciseMapping(matchExerciseNames(names, exerciseDefs || []));
+      }
+      setFileName(file.name);
+      setFileText(text);
+      setDateOrder(order);
+      setIsDateOrderAmbiguous(detectedOrder === 'ambiguous');
+    } catch (error) {
+      console.error('Failed to parse import file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const changeDateOrder = (order: SlashDateOrder) => {
+    setDateOrder(order);
+    if (kind === 'food') {
+      setFoodRows(parseFoodDiaryCsv(fileText, order));
+    } else {
+      setWorkouts(parseStrengthLogCsv(fileText, order));
+    }
+  };
+
+  const runImport = async () => {
+    setIsImporting(true);
+    try {
+      if (kind === 'food') {
+        const result = await importFoodDiary(foodRows, currentUserId);
+        setResultMessage(`Imported ${result.logsCreated} log entries and ${result.foodsCreated} new foods (${result.duplicates} duplicates skipped).`);
+      } else {
+        const result = await importStrengthLog(workouts, exerciseMapping, currentUserId);
+        setResultMessage(`Imported ${result.workoutsCreated} workouts and created ${result.exercisesCreated} exercises (${result.duplicates} duplicates skipped).`);
+      }
+      setFoodRows([]);
+      setWorkouts([]);
+      setFileName('');
+      setFileText('');
+      setIsDateOrderAmbiguous(false);
+    } catch (error) {
+      console.error('Failed to import history:', error);
+      alert('Failed to import history');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hasParsedData = kind === 'food' ? foodRows.length > 0 : workouts.length > 0;
+  const setCount = workouts.reduce((sum, workout) => sum + workout.exercises.reduce((acc, exercise) => acc + exercise.sets.length, 0), 0);
+
+  return (
+    <div className="bg-page">
+      <RouteHeader title="Import History" onBack={() => pop()} />
+
+      <main className="max-w-md mx-auto p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {(['food', 'strength'] as ImportKind[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setKind(option);
+                resetParsed();
+              }}
+              className={`rounded-lg px-3 py-2 text-xs font-bold border ${
+                kind === option ? 'bg-brand text-brand-fg border-brand' : 'bg-surface text-text-main border-border-subtle'
+              }`}
+            >
+              {option === 'food' ? 'Food diary' : 'Strength log'}
+            </button>
+          ))}
+        </div>
+
+        <section className="bg-card rounded-2xl border border-border-subtle p-4 space-y-3">
+          <p className="text-xs text-text-muted">
+            {kind === 'food'
+              ? 'CSV with date, meal, food name, calories and macros (MyFitnessPal, Cronometer, Lose It! and similar).'
+              : 'CSV with date, exercise, set, weight, reps and RPE (Strong, Hevy, FitNotes and similar). Weights in lbs are converted to kg.'}
+          </p>
+          <label className="block w-full rounded-lg border border-dashed border-border-subtle bg-surface px-3 py-4 text-center text-sm font-semibold text-text-main cursor-pointer">
+            {fileName || 'Choose CSV file'}
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => void handleFile(e)} />
+          </label>
+          {isDateOrderAmbiguous && (
+            <label className="block text-xs text-text-muted">
+              Dates in this file are written as
+              <select
+                value={dateOrder}
+                onChange={(e) => changeDateOrder(e.target.value as SlashDateOrder)}
+                className="mt-1 w-full rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-xs text-text-main"
+              >
+                <option value="month_first">Month first (MM/DD/YYYY)</option>
+                <option value="day_first">Day first (DD/MM/YYYY)</option>
+              </select>
+            </label>
+          )}
+          {resultMessage ? <p className="text-xs font-semibold text-brand">{resultMessage}</p> : null}
+        </section>
+
+        {kind === 'food' && foodRows.length > 0 && (
+          <section className="bg-card rounded-2xl border border-border-subtle p-4">
+            <p className="text-sm font-bold text-text-main">{foodRows.length} diary entries</p>
+            <p className="text-xs text-text-muted">{foodDateRange}</p>
+            <div className="mt-3 space-y-1">
+              {foodRows.slice(0, 5).map((row, index) => (
+                <div key={`${row.date}-${index}`} className="flex justify-between text-xs text-text-main">
+                  <span className="truncate">{row.date} · {row.meal} · {row.food}</span>
+                  <span className="shrink-0 text-text-muted">{Math.round(row.calories)} kcal</span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {kind === 'strength' && workouts.length > 0 && (
+          <section className="bg-card rounded-2xl border border-border-subtle p-4 space-y-3">
+            <div>
+              <p className="text-sm font-bold text-text-main">{workouts.length} workouts · {setCount} sets</p>
+              <p className="text-xs text-text-muted">Match each exercise to your library, or create it as a new exercise.</p>
+            </div>
+            <div className="space-y-2">
+              {importedExerciseNames.map((name) => (
+                <div key={name} className="bg-surface border border-border-subtle rounded-xl px-3 py-2">
+                  <p className="text-xs font-semibold text-text-main truncate">{name}</p>
+                  <select
+                    value={exerciseMapping[name] ?? CREATE_NEW_EXERCISE}
+                    onChange={(e) => setExerciseMapping((prev) => ({
+                      ...prev,
+                      [name]: e.target.value === CREATE_NEW_EXERCISE ? null : e.target.value
+                    }))}
+                    className="mt-1 w-full rounded-lg border border-border-subtle bg-card px-2 py-1.5 text-xs text-text-main"
+                  >
+                    <option value={CREATE_NEW_EXERCISE}>+ Create "{name}"</option>
+                    {(exerciseDefs || []).map((def) => (
+                      <option key={def.id} value={def.id}>{def.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {hasParsedData && (
+          <button
+            type="button"
+            onClick={() => void runImport()}
+            disabled={isImporting}
+            className="w-full py-3 rounded-xl bg-brand text-brand-fg font-black text-sm hover:opacity-90 transition-opacity disabled:opacity-60"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
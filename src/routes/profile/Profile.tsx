@@ -1,12 +1,20 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../lib/db';
 import { supabase } from '../../lib/supabaseClient';
 import Auth from '../../lib/components/Auth';
+import AccountSwitcher from '../../lib/components/AccountSwitcher';
 import RouteHeader from '../../lib/components/RouteHeader';
 import { NutritionSection } from './components/NutritionSection';
 import { DietarySection } from './components/DietarySection';
 import { MealsSection } from './components/MealsSection';
 import { RemindersSection } from './components/RemindersSection';
-import { REMINDER_KEYS, useProfileSettings } from './useProfileSettings';
+import { DataSection } from './components/DataSection';
+import { UnitsSection } from './components/UnitsSection';
+import { WorkoutSessionSection } from './components/WorkoutSessionSection';
+import { REMINDER_KEYS } from '../../lib/settings';
+import { useProfileSettings } from './useProfileSettings';
 
 export default function ProfileSettings() {
   const {
@@ -55,6 +63,8 @@ export default function ProfileSettings() {
     applyAdaptiveMealPlanToToday,
     saveAllSettings
   } = useProfileSettings();
+  const syncConflictCount = useLiveQuery(() => db.sync_conflicts.count(), []) ?? 0;
+  const pendingSyncCount = useLiveQuery(() => db.sync_queue.count(), []) ?? 0;
 
   if (loading) {
     return <div className="p-10 text-center text-text-muted">Loading...</div>;
@@ -64,11 +74,24 @@ export default function ProfileSettings() {
     return (
       <div className="bg-page">
         <RouteHeader title="Profile" />
-        <div className="px-4 max-w-md mx-auto mt-8">
+        <div className="px-4 max-w-md mx-auto mt-8 space-y-5">
+          <AccountSwitcher currentUserId={null} />
+
           <div className="bg-card p-5 rounded-2xl border border-border-subtle">
             <h2 className="text-base font-bold text-text-main mb-3">Sign in</h2>
             <Auth />
           </div>
+
+          <UnitsSection
+            isOpen={openSection === 'units'}
+            onToggle={() => setOpenSection((prev) => (prev === 'units' ? null : 'units'))}
+          />
+
+          <DataSection
+            isOpen={openSection === 'data'}
+            onToggle={() => setOpenSection((prev) => (prev === 'data' ? null : 'data'))}
+            userId={null}
+          />
         </div>
       </div>
     );
@@ -89,6 +112,15 @@ export default function ProfileSettings() {
       />
 
       <main className="max-w-md mx-auto p-4 space-y-5">
+        {syncConflictCount > 0 ? (
+          <Link
+            to="/sync/conflicts"
+            className="block rounded-2xl border border-brand bg-card p-4 text-sm font-bold text-text-main"
+          >
+            {syncConflictCount} sync conflict{syncConflictCount === 1 ? '' : 's'} need your review →
+          </Link>
+        ) : null}
+
         <form onSubmit={saveAllSettings} className="space-y-5">
           <NutritionSection
             isOpen={openSection === 'nutrition'}
@@ -165,6 +197,33 @@ export default function ProfileSettings() {
           ) : null}
         </form>
 
+        <UnitsSection
+          isOpen={openSection === 'units'}
+          onToggle={() => setOpenSection((prev) => (prev === 'units' ? null : 'units'))}
+        />
+
+        <WorkoutSessionSection
+          isOpen={openSection === 'workouts'}
+          onToggle={() => setOpenSection((prev) => (prev === 'workouts' ? null : 'workouts'))}
+        />
+
+        <DataSection
+          isOpen={openSection === 'data'}
+          onToggle={() => setOpenSection((prev) => (prev === 'data' ? null : 'data'))}
+          userId={session.user.id}
+        />
+
+        <Link
+          to="/sync"
+          className="flex items-center justify-between rounded-2xl border border-border-subtle bg-card p-4 text-sm font-bold text-text-main"
+        >
+          <span>Sync diagnostics</span>
+          <span className="text-xs font-semibold text-text-muted">
+            {pendingSyncCount ? `${pendingSyncCount} queued` : 'All synced'} →
+          </span>
+        </Link>
+
+        <AccountSwitcher currentUserId={session.user.id} />
       </main>
     </div>
   );
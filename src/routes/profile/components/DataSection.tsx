@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { OptionCard } from './ProfileSectionPrimitives';
+import {
+  EXPORT_TABLES,
+  exportDatabase,
+  importExportBundle,
+  tableToCsv,
+  validateExportBundle,
+  type ExportTableName
+} from '../../../lib/dataTransfer';
+
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function DataSection({
+  isOpen,
+  onToggle,
+  userId
+}: {
+  isOpen: boolean;
+  onToggle: () => void;
+  userId: string | null;
+}) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [busy, setBusy] = useState<'json' | 'csv' | 'import' | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  // Mobile browsers drop every download after the first one a tap starts, so each table gets its own button.
+  const [csvExport, setCsvExport] = useState<{ date: string; tables: Array<{ table: ExportTableName; csv: string; rowCount: number }> } | null>(null);
+
+  const stamp = () => new Date().toISOString().split('T')[0];
+
+  const exportJson = async () => {
+    setBusy('json');
+    try {
+      const bundle = await exportDatabase();
+      downloadFile(`stupid-tracker-export-${stamp()}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      alert('Failed to export data');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportCsv = async () => {
+    setBusy('csv');
+    try {
+      const bundle = await exportDatabase();
+      const tables = EXPORT_TABLES.flatMap((table) => {
+        const rows = bundle.tables[table] ?? [];
+        return rows.length ? [{ table, csv: tableToCsv(rows), rowCount: rows.length }] : [];
+      });
+      if (!tables.length) {
+        alert('There is no data to export yet.');
+        return;
+      }
+      setCsvExport({ date: stamp(), tables });
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      alert('Failed to export CSV');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBusy('import');
+    setStatusMessage('');
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        throw new Error('File is not valid JSON.');
+      }
+
+      const bundle = validateExportBundle(parsed);
+      const rowCount = Object.values(bundle.tables).reduce((sum, rows) => sum + (rows?.length || 0), 0);
+      if (!confirm(`Import ${rowCount} rows exported on ${bundle.exported_at.split('T')[0]}? Settings will be replaced.`)) {
+        return;
+      }
+
+      const summary = await importExportBundle(bundle, userId);
+      const inserted = Object.values(summary.inserted).reduce((sum, count) => sum + (count || 0), 0);
+      setStatusMessage(`Imported ${inserted} rows (${summary.remapped} with new ids, ${summary.skipped} already present).`);
+    } catch (error) {
+      console.error('Failed to import data:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import data');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <OptionCard
+      title="Your Data"
+      subtitle="Export everything as JSON or CSV, or import a JSON export"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            onClick={() => void exportJson()}
+            disabled={busy !== null}
+            className="rounded-lg bg-brand px-3 py-2 text-xs font-bold text-brand-fg disabled:opacity-60"
+          >
+            {busy === 'json' ? 'Exporting...' : 'Export JSON'}
+          </button>
+          <button
+            type="button"
+            onClick={() => void exportCsv()}
+            disabled={busy !== null}
+            className="rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main disabled:opacity-60"
+          >
+            {busy === 'csv' ? 'Exporting...' : 'Export CSVs'}
+          </button>
+        </div>
+
+        {csvExport && (
+          <div className="rounded-lg border border-border-subtle bg-surface p-2 space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-semibold text-text-main">Download each table</p>
+              <button type="button" onClick={() => setCsvExport(null)} className="text-xs font-semibold text-text-muted">
+                Done
+              </button>
+            </div>
+            {csvExport.tables.map(({ table, csv, rowCount }) => (
+              <button
+                key={table}
+                type="button"
+                onClick={() => downloadFile(`stupid-tracker-${table}-${csvExport.date}.csv`, csv, 'text/csv')}
+                className="flex w-full items-center justify-between rounded-lg bg-card px-3 py-2 text-xs text-text-main"
+              >
+                <span className="font-semibold">{table}</span>
+                <span className="text-text-muted">{rowCount} rows</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="w-full rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main disabled:opacity-60"
+        >
+          {busy === 'import' ? 'Importing...' : 'Import JSON export'}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => void importFile(e)} />
+
+        <Link
+          to="/profile/import"
+          className="block w-full rounded-lg border border-border-subtle bg-surface px-3 py-2 text-center text-xs font-semibold text-text-main"
+        >
+          Import history from other apps
+        </Link>
+
+        <p className="text-xs text-text-muted">
+          CSV export gives one file per table. Imported rows that clash with existing ones get new ids and are queued for sync.
+        </p>
+        {statusMessage ? <p className="text-xs font-semibold text-brand">{statusMessage}</p> : null}
+      </div>
+    </OptionCard>
+  );
+}
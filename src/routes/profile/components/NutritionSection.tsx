@@ -7,6 +7,8 @@ interface NutritionValues {
   carbPercent: number;
   fatPercent: number;
   fiberGrams: number;
+  eatBackEnabled?: boolean;
+  eatBackPercent?: number;
 }
 
 export function NutritionSection({
@@ -51,7 +53,7 @@ export function NutritionSection({
   return (
     <OptionCard
       title="Nutrition Settings"
-      subtitle="Daily budget, macro split, and fiber target"
+      subtitle="Daily budget, macro split, fiber target, and eat-back"
       isOpen={isOpen}
       onToggle={onToggle}
     >
@@ -168,6 +170,35 @@ export function NutritionSection({
             </button>
           </div>
         </div>
+
+        <div className="col-span-2 bg-surface border border-border-subtle rounded-xl p-3 space-y-2">
+          <label className="flex items-center justify-between gap-3">
+            <span>
+              <span className="block text-sm font-semibold text-text-main">Eat back burned calories</span>
+              <span className="block text-[11px] text-text-muted">Credit activity and workout burn to the day's budget</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={Boolean(nutrition.eatBackEnabled)}
+              onChange={(e) => updateNutrition({ eatBackEnabled: e.target.checked })}
+              className="h-4 w-4 rounded border-border-subtle bg-card"
+            />
+          </label>
+
+          {nutrition.eatBackEnabled && (
+            <Field label={`Credited share (${nutrition.eatBackPercent ?? 50}%)`}>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="5"
+                value={nutrition.eatBackPercent ?? 50}
+                onChange={(e) => updateNutrition({ eatBackPercent: Number(e.target.value) })}
+                className="w-full accent-brand"
+              />
+            </Field>
+          )}
+        </div>
       </div>
     </OptionCard>
   );
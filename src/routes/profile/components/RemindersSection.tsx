@@ -6,8 +6,11 @@ type ReminderKey = 'food' | 'water' | 'workout' | 'walk' | 'weight' | 'medicine'
 interface ReminderSetting {
   enabled: boolean;
   time: string;
+  days?: number[];
 }
 
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 export function RemindersSection({
   isOpen,
   onToggle,
@@ -24,31 +27,65 @@ export function RemindersSection({
   return (
     <OptionCard
       title="Reminders"
-      subtitle="Enable and schedule reminder times"
+      subtitle="Enable and schedule reminder times and days"
       isOpen={isOpen}
       onToggle={onToggle}
     >
       <div className="space-y-2">
-        {reminderKeys.map((key) => (
-          <div key={key} className="bg-surface border border-border-subtle rounded-xl px-3 py-2.5 flex items-center gap-3">
-            <label className="inline-flex items-center gap-2 min-w-0 flex-1">
-              <input
-                type="checkbox"
-                checked={reminders[key].enabled}
-                onChange={(e) => updateReminder(key, { enabled: e.target.checked })}
-                className="h-4 w-4 rounded border-border-subtle bg-card"
-              />
-              <span className="text-sm font-medium text-text-main capitalize">{key}</span>
-            </label>
-            <input
-              type="time"
-              value={reminders[key].time}
-              onChange={(e) => updateReminder(key, { time: e.target.value })}
-              disabled={!reminders[key].enabled}
-              className="p-2 rounded-lg border border-border-subtle bg-card text-text-main text-sm disabled:opacity-50"
-            />
-          </div>
-        ))}
+        {reminderKeys.map((key) => {
+          const days = reminders[key].days ?? [];
+
+          return (
+            <div key={key} className="bg-surface border border-border-subtle rounded-xl px-3 py-2.5 space-y-2">
+              <div className="flex items-center gap-3">
+                <label className="inline-flex items-center gap-2 min-w-0 flex-1">
+                  <input
+                    type="checkbox"
+                    checked={reminders[key].enabled}
+                    onChange={(e) => updateReminder(key, { enabled: e.target.checked })}
+                    className="h-4 w-4 rounded border-border-subtle bg-card"
+                  />
+                  <span className="text-sm font-medium text-text-main capitalize">{key}</span>
+                </label>
+                <input
+                  type="time"
+                  value={reminders[key].time}
+                  onChange={(e) => updateReminder(key, { time: e.target.value })}
+                  disabled={!reminders[key].enabled}
+                  className="p-2 rounded-lg border border-border-subtle bg-card text-text-main text-sm disabled:opacity-50"
+                />
+              </div>
+
+              {reminders[key].enabled && (
+                <div className="flex items-center gap-1">
+                  {WEEKDAY_NAMES.map((dayName, day) => {
+                    const active = days.length === 0 || days.includes(day);
+
+                    return (
+                      <button
+                        key={`${key}-${day}`}
+                        type="button"
+                        onClick={() => {
+                          const current = days.length === 0 ? [0, 1, 2, 3, 4, 5, 6] : days;
+                          const next = active ? current.filter((value) => value !== day) : [...current, day].sort();
+                          // Every day selected is stored as an empty list.
+                          updateReminder(key, { days: next.length === 7 ? [] : next });
+                        }}
+                        disabled={active && days.length === 1}
+                        className={`h-7 w-7 rounded-full text-[11px] font-bold border transition-colors ${
+                          active ? 'bg-brand text-brand-fg border-brand' : 'bg-card text-text-muted border-border-subtle'
+                        }`}
+                        aria-label={`${active ? 'Skip' : 'Remind on'} ${dayName}`}
+                      >
+                        {dayName.charAt(0)}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
     </OptionCard>
   );
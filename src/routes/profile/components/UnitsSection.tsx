@@ -0,0 +1,41 @@
+import { OptionCard } from './ProfileSectionPrimitives';
+import { saveUnitSystem, UNIT_SYSTEM_OPTIONS, useUnitSystem, type UnitSystem } from '../../../lib/units';
+
+export function UnitsSection({ isOpen, onToggle }: { isOpen: boolean; onToggle: () => void }) {
+  const unitSystem = useUnitSystem();
+
+  const selectUnitSystem = async (system: UnitSystem) => {
+    try {
+      await saveUnitSystem(system);
+    } catch (error) {
+      console.error('Failed to save unit system:', error);
+      alert('Could not save unit preference.');
+    }
+  };
+
+  return (
+    <OptionCard
+      title="Units"
+      subtitle="Weights, distances, measurements and food amounts"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        {UNIT_SYSTEM_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => void selectUnitSystem(option.value)}
+            className={`rounded-xl border px-3 py-2.5 text-left transition-colors ${
+              unitSystem === option.value ? 'border-brand bg-surface' : 'border-border-subtle bg-card hover:bg-surface'
+            }`}
+          >
+            <p className="text-sm font-bold text-text-main">{option.label}</p>
+            <p className="text-[11px] text-text-muted">{option.hint}</p>
+          </button>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-text-muted">Entries are stored in metric, so switching never changes your history.</p>
+    </OptionCard>
+  );
+}
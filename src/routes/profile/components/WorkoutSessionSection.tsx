@@ -0,0 +1,46 @@
+import { OptionCard } from './ProfileSectionPrimitives';
+import {
+  ABANDONED_WORKOUT_HOUR_OPTIONS,
+  saveAbandonedWorkoutHours,
+  useAbandonedWorkoutHours
+} from '../../../lib/workoutSessions';
+
+export function WorkoutSessionSection({ isOpen, onToggle }: { isOpen: boolean; onToggle: () => void }) {
+  const abandonedHours = useAbandonedWorkoutHours();
+
+  const selectHours = async (hours: number) => {
+    try {
+      await saveAbandonedWorkoutHours(hours);
+    } catch (error) {
+      console.error('Failed to save abandoned workout threshold:', error);
+      alert('Could not save workout preference.');
+    }
+  };
+
+  return (
+    <OptionCard
+      title="Workouts"
+      subtitle="When an unfinished workout counts as abandoned"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      <div className="grid grid-cols-3 gap-2">
+        {ABANDONED_WORKOUT_HOUR_OPTIONS.map((hours) => (
+          <button
+            key={hours}
+            type="button"
+            onClick={() => void selectHours(hours)}
+            className={`rounded-xl border px-3 py-2.5 text-sm font-bold transition-colors ${
+              abandonedHours === hours ? 'border-brand bg-surface text-text-main' : 'border-border-subtle bg-card text-text-muted hover:bg-surface'
+            }`}
+          >
+            {hours}h
+          </button>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-text-muted">
+        After this long without a logged set, you'll be asked to resume, finish at the last set, or discard the workout.
+      </p>
+    </OptionCard>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db, type Profile } from '../../lib/db';
+import { db, getAccountStorageKey, type Profile, type ReminderSetting } from '../../lib/db';
 import { generateId } from '../../lib';
 import {
   buildProfilePatchFromPreferences,
@@ -19,183 +19,27 @@ import {
 } from './mealPlanning';
 import { supabase } from '../../lib/supabaseClient';
 import { syncManager } from '../../lib/sync';
+import { reminderScheduler } from '../../lib/reminders';
+import {
+  createDefaultSettings,
+  normalizeSettings,
+  SETTINGS_ID,
+  toNonNegativeNumber,
+  type LocalSettingsRow
+} from '../../lib/settings';
 
 export type ReminderKey = 'food' | 'water' | 'workout' | 'walk' | 'weight' | 'medicine';
-export type OpenProfileSection = 'nutrition' | 'dietary' | 'meals' | 'reminders' | null;
-
-interface ReminderSetting {
-  enabled: boolean;
-  time: string;
-}
-
-interface LocalSettingsRow {
-  id: 'local-settings';
-  user_id?: string | null;
-  nutrition: {
-    calorieBudget: number;
-    proteinPercent: number;
-    carbPercent: number;
-    fatPercent: number;
-    fiberGrams: number;
-    proteinTargetGrams?: number;
-    carbsTargetGrams?: number;
-    fatTargetGrams?: number;
-    sleepTarget?: number;
-    waterTarget?: number;
-    weightTarget?: number;
-  };
-  meals: MealSetting[];
-  reminders: Record<ReminderKey, ReminderSetting>;
-  updated_at: string;
-}
+export type OpenProfileSection = 'nutrition' | 'dietary' | 'meals' | 'reminders' | 'units' | 'workouts' | 'data' | null;
 
 const SETTINGS_STORAGE_KEY = 'stupid_tracker_settings_v1';
-const SETTINGS_ID: LocalSettingsRow['id'] = 'local-settings';
-export const REMINDER_KEYS: ReminderKey[] = ['food', 'water', 'workout', 'walk', 'weight', 'medicine'];
-const CANONICAL_MEAL_IDS = new Set(['breakfast', 'lunch', 'dinner', 'snack', 'supplement']);
-
-const canonicalMealIdFromName = (name: string): string | null => {
-  const normalized = name.trim().toLowerCase();
-  if (!normalized) return null;
-
-  if (normalized.includes('break')) return 'breakfast';
-  if (normalized.includes('lunch')) return 'lunch';
-  if (normalized.includes('dinner') || normalized.includes('supper')) return 'dinner';
-  if (normalized.includes('snack')) return 'snack';
-  if (normalized.includes('supplement') || normalized.includes('vitamin')) return 'supplement';
-
-  return null;
-};
-
-const normalizeMealId = (
-  meal: Partial<MealSetting>,
-  index: number,
-  usedCanonicalMealIds: Set<string>
-): string => {
-  const rawId = typeof meal.id === 'string' ? meal.id.trim().toLowerCase() : '';
-  if (rawId) {
-    if (!CANONICAL_MEAL_IDS.has(rawId)) return rawId;
-    if (!usedCanonicalMealIds.has(rawId)) {
-      usedCanonicalMealIds.add(rawId);
-      return rawId;
-    }
-  }
-
-  const canonicalFromName = canonicalMealIdFromName(typeof meal.name === 'string' ? meal.name : '');
-  if (canonicalFromName && !usedCanonicalMealIds.has(canonicalFromName)) {
-    usedCanonicalMealIds.add(canonicalFromName);
-    return canonicalFromName;
-  }
-
-  if (index === 0 && !usedCanonicalMealIds.has('breakfast')) {
-    usedCanonicalMealIds.add('breakfast');
-    return 'breakfast';
-  }
-  if (index === 1 && !usedCanonicalMealIds.has('lunch')) {
-    usedCanonicalMealIds.add('lunch');
-    return 'lunch';
-  }
-  if (index === 2 && !usedCanonicalMealIds.has('dinner')) {
-    usedCanonicalMealIds.add('dinner');
-    return 'dinner';
-  }
-  if (index === 3 && !usedCanonicalMealIds.has('snack')) {
-    usedCanonicalMealIds.add('snack');
-    return 'snack';
-  }
-
-  return rawId || generateId();
-};
-
-const createDefaultSettings = (): LocalSettingsRow => ({
-  id: SETTINGS_ID,
-  nutrition: {
-    calorieBudget: 2000,
-    proteinPercent: 30,
-    carbPercent: 40,
-    fatPercent: 30,
-    fiberGrams: 30,
-    proteinTargetGrams: 150,
-    carbsTargetGrams: 200,
-    fatTargetGrams: 65,
-    sleepTarget: 8,
-    waterTarget: 2000,
-    weightTarget: 0
-  },
-  meals: [
-    { id: 'breakfast', name: 'Breakfast', time: '08:00', targetMode: 'percent', targetValue: 25 },
-    { id: 'lunch', name: 'Lunch', time: '13:00', targetMode: 'percent', targetValue: 35 },
-    { id: 'dinner', name: 'Dinner', time: '19:00', targetMode: 'percent', targetValue: 30 },
-    { id: 'snack', name: 'Snack', time: '16:00', targetMode: 'percent', targetValue: 10 }
-  ],
-  reminders: {
-    food: { enabled: true, time: '08:00' },
-    water: { enabled: true, time: '10:00' },
-    workout: { enabled: false, time: '18:00' },
-    walk: { enabled: false, time: '17:00' },
-    weight: { enabled: false, time: '07:00' },
-    medicine: { enabled: false, time: '09:00' }
-  },
-  updated_at: new Date().toISOString()
-});
-
-const toNonNegativeNumber = (value: number, fallback = 0) => {
-  if (!Number.isFinite(value)) return fallback;
-  return Math.max(0, value);
-};
 
 const round1 = (value: number) => Math.round(value * 10) / 10;
 
-const normalizeSettings = (input: Partial<LocalSettingsRow> | null | undefined): LocalSettingsRow => {
-  const defaults = createDefaultSettings();
-  const nutrition = input?.nutrition ?? defaults.nutrition;
-  const remindersInput = input?.reminders ?? defaults.reminders;
-  const usedCanonicalMealIds = new Set<string>();
-
-  const reminders = REMINDER_KEYS.reduce((acc, key) => {
-    const item = remindersInput[key] ?? defaults.reminders[key];
-    acc[key] = {
-      enabled: Boolean(item?.enabled),
-      time: item?.time || defaults.reminders[key].time
-    };
-    return acc;
-  }, {} as Record<ReminderKey, ReminderSetting>);
-
-  const meals: MealSetting[] = (input?.meals ?? defaults.meals).map((meal, index) => ({
-    id: normalizeMealId(meal, index, usedCanonicalMealIds),
-    name: (meal.name || `Meal ${index + 1}`).trim(),
-    time: meal.time || '12:00',
-    targetMode: meal.targetMode === 'calories' ? 'calories' : 'percent',
-    targetValue: toNonNegativeNumber(Number(meal.targetValue), 0)
-  }));
-
-  return {
-    id: SETTINGS_ID,
-    user_id: input?.user_id ?? null,
-    nutrition: {
-      calorieBudget: toNonNegativeNumber(Number(nutrition.calorieBudget), defaults.nutrition.calorieBudget),
-      proteinPercent: toNonNegativeNumber(Number(nutrition.proteinPercent), defaults.nutrition.proteinPercent),
-      carbPercent: toNonNegativeNumber(Number(nutrition.carbPercent), defaults.nutrition.carbPercent),
-      fatPercent: toNonNegativeNumber(Number(nutrition.fatPercent), defaults.nutrition.fatPercent),
-      fiberGrams: toNonNegativeNumber(Number(nutrition.fiberGrams), defaults.nutrition.fiberGrams),
-      proteinTargetGrams: toNonNegativeNumber(Number(nutrition.proteinTargetGrams), defaults.nutrition.proteinTargetGrams),
-      carbsTargetGrams: toNonNegativeNumber(Number(nutrition.carbsTargetGrams), defaults.nutrition.carbsTargetGrams),
-      fatTargetGrams: toNonNegativeNumber(Number(nutrition.fatTargetGrams), defaults.nutrition.fatTargetGrams),
-      sleepTarget: toNonNegativeNumber(Number(nutrition.sleepTarget), defaults.nutrition.sleepTarget),
-      waterTarget: toNonNegativeNumber(Number(nutrition.waterTarget), defaults.nutrition.waterTarget),
-      weightTarget: toNonNegativeNumber(Number(nutrition.weightTarget), defaults.nutrition.weightTarget)
-    },
-    meals,
-    reminders,
-    updated_at: input?.updated_at || new Date().toISOString()
-  };
-};
-
 const loadSettingsFromStorage = (): LocalSettingsRow => {
   if (typeof window === 'undefined') return createDefaultSettings();
 
   try {
-    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    const raw = localStorage.getItem(getAccountStorageKey(SETTINGS_STORAGE_KEY));
     if (!raw) return createDefaultSettings();
     const parsed = JSON.parse(raw) as Partial<LocalSettingsRow>;
     return normalizeSettings(parsed);
@@ -241,7 +85,7 @@ export function useProfileSettings() {
         if (fromDb) {
           const normalized = normalizeSettings(fromDb);
           setForm(normalized);
-          localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(normalized));
+          localStorage.setItem(getAccountStorageKey(SETTINGS_STORAGE_KEY), JSON.stringify(normalized));
           return;
         }
       } catch (error) {
@@ -277,7 +121,7 @@ export function useProfileSettings() {
       }
       return normalized;
     });
-    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(normalized));
+    localStorage.setItem(getAccountStorageKey(SETTINGS_STORAGE_KEY), JSON.stringify(normalized));
   }, [settingsRow]);
 
   useEffect(() => {
@@ -467,6 +311,10 @@ export function useProfileSettings() {
   };
 
   const updateReminder = (key: ReminderKey, patch: Partial<ReminderSetting>) => {
+    if (patch.enabled) {
+      void reminderScheduler.requestPermission();
+    }
+
     setForm((prev) => ({
       ...prev,
       reminders: {
@@ -556,7 +404,7 @@ export function useProfileSettings() {
       });
 
       await settingsTable.put(enriched);
-      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(enriched));
+      localStorage.setItem(getAccountStorageKey(SETTINGS_STORAGE_KEY), JSON.stringify(enriched));
       setForm(enriched);
 
       const userId = session?.user?.id ?? 'local-user';
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type SyncConflict } from '../../lib/db';
+import { useStackNavigation } from '../../lib/useStackNavigation';
+import RouteHeader from '../../lib/components/RouteHeader';
+import { resolveSyncConflict, type ConflictSide } from '../../lib/syncConflicts';
+
+const TABLE_LABELS: Record<string, string> = {
+  logs: 'Food log',
+  foods: 'Food',
+  food_ingredients: 'Recipe ingredient',
+  saved_meals: 'Saved meal',
+  goals: 'Goal',
+  metrics: 'Body metric',
+  settings: 'Settings',
+  activities: 'Activity',
+  activity_logs: 'Activity log',
+  workouts: 'Workout',
+  workout_log_entries: 'Workout exercise',
+  workout_sets: 'Workout set',
+  workout_exercises_def: 'Exercise',
+  workout_routines: 'Routine',
+  workout_routine_entries: 'Routine exercise',
+  workout_routine_sets: 'Routine set',
+  workout_programs: 'Program',
+  workout_program_weeks: 'Program week',
+  workout_training_maxes: 'Training max',
+  workout_personal_records: 'Personal record',
+  workout_rest_preferences: 'Rest preference',
+  profiles: 'Profile'
+};
+
+function describeRow(conflict: SyncConflict, foodNames: Record<string, string>) {
+  const row = { ...conflict.remote, ...conflict.local };
+  if (conflict.table === 'logs') {
+    return `${foodNames[row.food_id] || 'Food'} · ${row.date} · ${row.meal_type}`;
+  }
+  if (conflict.table === 'workout_sets') return `Set ${row.set_number}`;
+  if (conflict.table === 'metrics') return `${row.type} · ${row.date}`;
+  return row.name || row.date || row.start_time || conflict.row_id;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function ConflictCard({ conflict, foodNames }: { conflict: SyncConflict; foodNames: Record<string, string> }) {
+  const [choices, setChoices] = useState<Record<string, ConflictSide>>(
+    () => Object.fromEntries(conflict.fields.map((field) => [field, 'local' as ConflictSide]))
+  );
+  const [isResolving, setIsResolving] = useState(false);
+
+  const resolve = async (resolution: ConflictSide | Record<string, ConflictSide>) => {
+    if (!conflict.id) return;
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(conflict.id, resolution);
+    } catch (error) {
+      console.error('Failed to resolve sync conflict:', error);
+      alert('Failed to resolve conflict');
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <section className="bg-card rounded-2xl border border-border-subtle p-4 space-y-3">
+      <div>
+        <p className="text-[10px] font-bold uppercase tracking-wide text-text-muted">
+          {TABLE_LABELS[conflict.table] || conflict.table}
+        </p>
+        <p className="text-sm font-bold text-text-main truncate">{describeRow(conflict, foodNames)}</p>
+        <p className="text-[11px] text-text-muted">
+          Detected {new Date(conflict.detected_at).toLocaleString()}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {conflict.fields.map((field) => (
+          <div key={field} className="bg-surface border border-border-subtle rounded-xl px-3 py-2">
+            <p className="text-[10px] font-bold uppercase tracking-wide text-text-muted mb-1">{field.replace(/_/g, ' ')}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(['local', 'remote'] as ConflictSide[]).map((side) => (
+                <button
+                  key={side}
+                  type="button"
+                  onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                  className={`rounded-lg border px-2 py-1.5 text-left text-xs ${
+                    choices[field] === side
+                      ? 'border-brand bg-card text-text-main font-semibold'
+                      : 'border-border-subtle bg-card text-text-muted'
+                  }`}
+                >
+                  <span className="block text-[10px] uppercase tracking-wide text-text-muted">
+                    {side === 'local' ? 'This device' : 'Other device'}
+                  </span>
+                  <span className="block break-words">{formatValue(side === 'local' ? conflict.local[field] : conflict.remote[field])}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => void resolve('local')}
+          className="rounded-lg border border-border-subtle bg-surface px-2 py-2 text-xs font-semibold text-text-main disabled:opacity-60"
+        >
+          Keep this device
+        </button>
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => void resolve('remote')}
+          className="rounded-lg border border-border-subtle bg-surface px-2 py-2 text-xs font-semibold text-text-main disabled:opacity-60"
+        >
+          Keep other
+        </button>
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => void resolve(choices)}
+          className="rounded-lg bg-brand px-2 py-2 text-xs font-bold text-brand-fg disabled:opacity-60"
+        >
+          Merge picks
+        </button>
+      </div>
+    </section>
+  );
+}
+
+export default function SyncConflicts() {
+  const { pop } = useStackNavigation();
+
+  const conflicts = useLiveQuery(() => db.sync_conflicts.orderBy('detected_at').reverse().toArray(), []);
+  const foodNames = useLiveQuery(async () => {
+    const foodIds = [...new Set(
+      (conflicts || [])
+        .filter((conflict) => conflict.table === 'logs')
+        .map((conflict) => conflict.local.food_id || conflict.remote.food_id)
+        .filter(Boolean)
+    )];
+    if (!foodIds.length) return {};
+    const foods = await db.foods.where('id').anyOf(foodIds).toArray();
+    return Object.fromEntries(foods.map((food) => [food.id, food.name]));
+  }, [conflicts]);
+
+  return (
+    <div className="bg-page">
+      <RouteHeader title="Sync Conflicts" onBack={() => pop()} />
+
+      <main className="max-w-md mx-auto p-4 space-y-4">
+        <p className="text-xs text-text-muted">
+          These items were changed on this device and on another one before they could sync. Pick which version to keep, or choose per field and merge.
+        </p>
+
+        {conflicts && conflicts.length === 0 ? (
+          <div className="bg-card rounded-2xl border border-border-subtle p-6 text-center text-sm text-text-muted">
+            No conflicts. Everything is in sync.
+          </div>
+        ) : null}
+
+        {(conflicts || []).map((conflict) => (
+          <ConflictCard key={conflict.id} conflict={conflict} foodNames={foodNames || {}} />
+        ))}
+      </main>
+    </div>
+  );
+}
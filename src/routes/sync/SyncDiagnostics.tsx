@@ -0,0 +1,260 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type SyncQueue } from '../../lib/db';
+import { syncManager } from '../../lib/sync';
+import { useStackNavigation } from '../../lib/useStackNavigation';
+import RouteHeader from '../../lib/components/RouteHeader';
+import { SYNC_ERROR_HINTS, SYNC_ERROR_LABELS, type SyncErrorType } from '../../lib/syncErrors';
+import { getNextRetryAt } from '../../lib/syncQueue';
+
+type ErrorFilter = SyncErrorType | 'all' | 'pending';
+
+const PAYLOAD_PREVIEW_LENGTH = 140;
+
+function formatAttemptTime(timestamp?: number) {
+  if (!timestamp) return 'Never attempted';
+  return new Date(timestamp).toLocaleString();
+}
+
+function QueueItemCard({ item }: { item: SyncQueue }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const payloadText = useMemo(() => JSON.stringify(item.data ?? null), [item.data]);
+  const errorType = item.error_type;
+  const nextRetryAt = getNextRetryAt(item);
+
+  const retry = async (editedData?: Record<string, any>) => {
+    if (!item.id) return;
+    setIsBusy(true);
+    try {
+      const errorMessage = await syncManager.retryQueueItem(item.id, editedData);
+      if (errorMessage) {
+        alert(`Still failing: ${errorMessage}`);
+      } else {
+        setIsEditing(false);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveAndRetry = async () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch {
+      alert('Payload is not valid JSON');
+      return;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      alert('Payload must be a JSON object');
+      return;
+    }
+    await retry(parsed as Record<string, any>);
+  };
+
+  const discard = async () => {
+    if (!item.id || !confirm('Discard this change? It will never be uploaded.')) return;
+    await syncManager.discardQueueItem(item.id);
+  };
+
+  return (
+    <section className="bg-card rounded-2xl border border-border-subtle p-4 space-y-2">
+      <button type="button" onClick={() => setIsExpanded((prev) => !prev)} className="w-full text-left">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-bold text-text-main truncate">
+            {item.table} <span className="text-text-muted font-semibold">· {item.action}</span>
+          </p>
+          <span
+            className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide ${
+              errorType ? 'bg-red-100 text-red-700' : 'bg-surface text-text-muted'
+            }`}
+          >
+            {errorType ? SYNC_ERROR_LABELS[errorType] : 'Pending'}
+          </span>
+        </div>
+        <p className="text-[11px] text-text-muted">
+          {item.attempt_count ?? 0} attempt{(item.attempt_count ?? 0) === 1 ? '' : 's'} · {formatAttemptTime(item.last_attempt_at)}
+          {nextRetryAt && nextRetryAt > Date.now() ? ` · next retry ${new Date(nextRetryAt).toLocaleTimeString()}` : ''}
+        </p>
+        {!isExpanded ? (
+          <p className="mt-1 text-[11px] font-mono text-text-muted truncate">
+            {payloadText.slice(0, PAYLOAD_PREVIEW_LENGTH)}
+          </p>
+        ) : null}
+      </button>
+
+      {isExpanded ? (
+        <div className="space-y-2">
+          {item.last_error ? (
+            <div className="rounded-xl bg-surface border border-border-subtle px-3 py-2">
+              <p className="text-xs text-text-main break-words">{item.last_error}</p>
+              {errorType ? <p className="mt-1 text-[11px] text-text-muted">{SYNC_ERROR_HINTS[errorType]}</p> : null}
+            </div>
+          ) : null}
+
+          {isEditing ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="w-full h-48 rounded-lg border border-border-subtle bg-surface p-2 text-[11px] font-mono text-text-main"
+            />
+          ) : (
+            <pre className="max-h-48 overflow-auto rounded-lg border border-border-subtle bg-surface p-2 text-[11px] text-text-main whitespace-pre-wrap break-all">
+              {JSON.stringify(item.data ?? null, null, 2)}
+            </pre>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            {isEditing ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="rounded-lg border border-border-subtle bg-surface px-2 py-2 text-xs font-semibold text-text-main"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => void saveAndRetry()}
+                  className="col-span-2 rounded-lg bg-brand px-2 py-2 text-xs font-bold text-brand-fg disabled:opacity-60"
+                >
+                  {isBusy ? 'Retrying...' : 'Save & retry'}
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => void retry()}
+                  className="rounded-lg bg-brand px-2 py-2 text-xs font-bold text-brand-fg disabled:opacity-60"
+                >
+                  {isBusy ? 'Retrying...' : 'Retry'}
+                </button>
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => {
+                    setDraft(JSON.stringify(item.data ?? {}, null, 2));
+                    setIsEditing(true);
+                  }}
+                  className="rounded-lg border border-border-subtle bg-surface px-2 py-2 text-xs font-semibold text-text-main disabled:opacity-60"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => void discard()}
+                  className="rounded-lg border border-border-subtle bg-surface px-2 py-2 text-xs font-semibold text-red-600 disabled:opacity-60"
+                >
+                  Discard
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default function SyncDiagnostics() {
+  const { pop } = useStackNavigation();
+  const [filter, setFilter] = useState<ErrorFilter>('all');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const items = useLiveQuery(() => syncManager.getQueueItems(), []);
+  const conflictCount = useLiveQuery(() => db.sync_conflicts.count(), []) ?? 0;
+
+  const countsByType = useMemo(() => {
+    return (items || []).reduce<Record<string, number>>((acc, item) => {
+      const key = item.error_type ?? 'pending';
+      acc[key] = (acc[key] ?? 0) + 1;
+      return acc;
+    }, {});
+  }, [items]);
+
+  const visibleItems = useMemo(() => {
+    if (filter === 'all') return items || [];
+    if (filter === 'pending') return (items || []).filter((item) => !item.error_type);
+    return (items || []).filter((item) => item.error_type === filter);
+  }, [filter, items]);
+
+  const filterOptions: ErrorFilter[] = ['all', 'pending', ...(Object.keys(SYNC_ERROR_LABELS) as SyncErrorType[])];
+
+  const syncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncManager.sync();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="bg-page">
+      <RouteHeader
+        title="Sync Diagnostics"
+        onBack={() => pop()}
+        rightAction={
+          <button
+            type="button"
+            onClick={() => void syncNow()}
+            disabled={isSyncing}
+            className="px-3 py-1.5 rounded-full text-xs font-bold bg-brand text-brand-fg hover:opacity-90 transition-opacity disabled:opacity-60"
+          >
+            {isSyncing ? 'Syncing...' : 'Sync now'}
+          </button>
+        }
+      />
+
+      <main className="max-w-md mx-auto p-4 space-y-4">
+        {conflictCount > 0 ? (
+          <Link
+            to="/sync/conflicts"
+            className="block rounded-2xl border border-brand bg-card p-4 text-sm font-bold text-text-main"
+          >
+            {conflictCount} sync conflict{conflictCount === 1 ? '' : 's'} need your review →
+          </Link>
+        ) : null}
+
+        <div className="flex flex-wrap gap-2">
+          {filterOptions
+            .filter((option) => option === 'all' || countsByType[option])
+            .map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setFilter(option)}
+                className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                  filter === option ? 'bg-brand text-brand-fg border-brand' : 'bg-surface text-text-main border-border-subtle'
+                }`}
+              >
+                {option === 'all' ? 'All' : option === 'pending' ? 'Pending' : SYNC_ERROR_LABELS[option]}
+                {' '}
+                ({option === 'all' ? items?.length ?? 0 : countsByType[option]})
+              </button>
+            ))}
+        </div>
+
+        {items && items.length === 0 ? (
+          <div className="bg-card rounded-2xl border border-border-subtle p-6 text-center text-sm text-text-muted">
+            Nothing queued. All local changes have been uploaded.
+          </div>
+        ) : null}
+
+        {visibleItems.map((item) => (
+          <QueueItemCard key={item.id} item={item} />
+        ))}
+      </main>
+    </div>
+  );
+}
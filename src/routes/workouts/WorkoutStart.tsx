@@ -1,11 +1,12 @@
 import React from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { Link } from 'react-router-dom';
-import { PlayIcon, PlusIcon, WrenchIcon, GlobeSimpleIcon } from '@phosphor-icons/react';
+import { PlayIcon, PlusIcon, WrenchIcon, GlobeSimpleIcon, CalendarIcon, BarbellIcon } from '@phosphor-icons/react';
 import { db } from '../../lib/db';
 import { startRoutineAsWorkout } from '../../lib/routines';
 import { useStackNavigation } from '../../lib/useStackNavigation';
 import RouteHeader from '../../lib/components/RouteHeader';
+import ProgramSessionList from './components/ProgramSessionList';
 
 type RoutineSummary = {
   exercises: number;
@@ -103,8 +104,32 @@ export default function WorkoutStart() {
           </div>
           <WrenchIcon size={18} className="text-brand" />
         </Link>
+
+        <Link
+          to="/workouts/programs/new"
+          className="flex items-center justify-between rounded-2xl border border-border-subtle bg-card p-4"
+        >
+          <div>
+            <p className="font-semibold text-text-main">Build New Program</p>
+            <p className="text-xs text-text-muted mt-1">Schedule routines over weeks with 5/3/1, linear or custom loading.</p>
+          </div>
+          <CalendarIcon size={18} className="text-brand" />
+        </Link>
+
+        <Link
+          to="/workouts/equipment"
+          className="flex items-center justify-between rounded-2xl border border-border-subtle bg-card p-4"
+        >
+          <div>
+            <p className="font-semibold text-text-main">Gym Equipment</p>
+            <p className="text-xs text-text-muted mt-1">Plates, bar weights and increments used to round loads.</p>
+          </div>
+          <BarbellIcon size={18} className="text-brand" />
+        </Link>
       </section>
 
+      <ProgramSessionList title="Programs" />
+
       <section className="mb-6">
         <h2 className="text-sm font-bold uppercase tracking-wide text-text-muted mb-2 flex items-center gap-1">
           <GlobeSimpleIcon size={14} /> Explore
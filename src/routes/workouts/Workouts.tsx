@@ -3,18 +3,23 @@ import { useLiveQuery } from 'dexie-react-hooks';
 // import { Plus, ChevronRight, Calendar } from 'lucide-react';
 import {
   CalendarIcon,
+  ChartBarIcon,
   DotsThreeVerticalIcon as MoreVertical,
   PencilSimpleIcon as Edit,
   CopyIcon as Copy,
   FloppyDiskIcon as Save,
   TrashIcon as Trash,
+  TrophyIcon,
 } from '@phosphor-icons/react';
 import { Link } from 'react-router-dom';
 import { db } from '../../lib/db';
 import { generateId } from '../../lib';
+import { createGroupIdRemapper } from '../../lib/workouts';
+import { clearPersonalRecordsForWorkout, recomputePersonalRecords } from '../../lib/personalRecords';
 import { useStackNavigation } from '../../lib/useStackNavigation';
 import { syncWorkoutExerciseThumbnailPaths } from '../../lib/workoutMedia';
 import RouteHeader from '../../lib/components/RouteHeader';
+import ProgramSessionList from './components/ProgramSessionList';
 
 type WorkoutMediaEntry = {
   sourceId: string;
@@ -270,6 +275,7 @@ export default function WorkoutList() {
 
       const newWorkoutId = generateId();
       const now = new Date();
+      const remapGroupId = createGroupIdRemapper();
 
       await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
         await db.workouts.add({
@@ -289,6 +295,7 @@ export default function WorkoutList() {
             workout_id: newWorkoutId,
             exercise_id: entry.exercise_id,
             sort_order: entry.sort_order,
+            group_id: remapGroupId(entry.group_id),
             notes: entry.notes,
             created_at: now,
             synced: 0,
@@ -306,6 +313,7 @@ export default function WorkoutList() {
               duration_seconds: copiedSet.duration_seconds,
               rpe: copiedSet.rpe,
               is_warmup: copiedSet.is_warmup,
+              set_type: copiedSet.set_type,
               completed: false,
               created_at: now,
               synced: 0,
@@ -334,13 +342,17 @@ export default function WorkoutList() {
     setActionState({ workoutId, action: 'delete' });
 
     try {
-      await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
-        const entryIds = (await db.workout_log_entries.where('workout_id').equals(workoutId).toArray()).map((entry) => entry.id);
+      await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_exercises_def, db.workout_personal_records], async () => {
+        const workout = await db.workouts.get(workoutId);
+        const entries = await db.workout_log_entries.where('workout_id').equals(workoutId).toArray();
+        const entryIds = entries.map((entry) => entry.id);
+        await clearPersonalRecordsForWorkout(workoutId);
         if (entryIds.length) {
           await db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).delete();
         }
         await db.workout_log_entries.where('workout_id').equals(workoutId).delete();
         await db.workouts.delete(workoutId);
+        if (workout) await recomputePersonalRecords(entries.map((entry) => entry.exercise_id), workout.start_time);
       });
     } catch (error) {
       console.error('Failed to delete workout:', error);
@@ -356,19 +368,39 @@ export default function WorkoutList() {
       <RouteHeader
         title="Workouts"
         rightAction={
-          <Link
-            to="/workouts/start"
-            className="h-10 w-10 rounded-full bg-brand text-white text-2xl font-semibold leading-none flex items-center justify-center hover:bg-brand-dark transition-colors shadow-sm"
-            aria-label="Start workout options"
-            title="Start workout options"
-          >
-            +
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link
+              to="/workouts/analytics"
+              className="h-10 w-10 rounded-full border border-border-subtle bg-card text-brand flex items-center justify-center"
+              aria-label="Training analytics"
+              title="Training analytics"
+            >
+              <ChartBarIcon size={20} weight="fill" />
+            </Link>
+            <Link
+              to="/workouts/records"
+              className="h-10 w-10 rounded-full border border-border-subtle bg-card text-amber-600 flex items-center justify-center"
+              aria-label="Personal records"
+              title="Personal records"
+            >
+              <TrophyIcon size={20} weight="fill" />
+            </Link>
+            <Link
+              to="/workouts/start"
+              className="h-10 w-10 rounded-full bg-brand text-white text-2xl font-semibold leading-none flex items-center justify-center hover:bg-brand-dark transition-colors shadow-sm"
+              aria-label="Start workout options"
+              title="Start workout options"
+            >
+              +
+            </Link>
+          </div>
         }
       />
 
       <div className="pt-4 px-4 max-w-md mx-auto">
 
+      <ProgramSessionList title="Up next" />
+
       {/* Conditional Rendering */}
       {!workouts ? (
         // Loading state
@@ -13,16 +13,33 @@ import {
   DotsThreeVerticalIcon as MoreVertical,
   PencilSimpleIcon as Edit,
   TimerIcon as Timer,
-  BarbellIcon as Dumbbell
+  BarbellIcon as Dumbbell,
+  TrophyIcon as Trophy
 } from "@phosphor-icons/react";
 import { db, type Workout, type WorkoutExerciseDef, type WorkoutLogEntry, type WorkoutSet } from '../../../lib/db';
 import { generateId } from '../../../lib';
 import {
-  getMetricConfig, getPreviousWorkoutSets, formatSet, METRIC_TYPES
+  getMetricConfig, getPreviousWorkoutSets, formatSet, METRIC_TYPES,
+  getEntryGroupPositions, getNextSetType, SET_TYPES
 } from '../../../lib/workouts';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
 import { useWorkoutSession } from './useWorkoutSession';
-import { DurationScrollerInput, getMetricColumns } from '../components/WorkoutSetComponents';
+import { getExerciseProgressions, PLATEAU_SESSION_COUNT, type SetTarget } from '../../../lib/progression';
+import { DEFAULT_TARGET_RPE, recommendLoadFromRpe, RPE_OPTIONS } from '../../../lib/autoregulation';
+import { createLoadRounder, useEquipmentProfile } from '../../../lib/equipment';
+import { formatPersonalRecordValue, PERSONAL_RECORD_LABELS, recordPersonalRecordsForSet } from '../../../lib/personalRecords';
+import {
+  formatWeight,
+  fromDisplayDistance,
+  fromDisplayWeight,
+  roundTo,
+  toDisplayDistance,
+  toDisplayWeight,
+  useUnitSystem,
+  type UnitSystem
+} from '../../../lib/units';
+import { DurationScrollerInput, getMetricColumns, PlateLoadHint } from '../components/WorkoutSetComponents';
+import WarmupRampSheet from '../components/WarmupRampSheet';
 import { syncWorkoutExerciseThumbnailPaths } from '../../../lib/workoutMedia';
 import RouteHeader from '../../../lib/components/RouteHeader';
 
@@ -49,10 +66,19 @@ const toWorkoutMediaUrl = (path?: string | null) => {
 
 const DEFAULT_EXERCISE_THUMBNAIL_PATH = 'workouts/images/exercise-default-thumb.svg';
 
+// Set weights and distances are stored in kg and km; these convert them for the user's unit system.
+const toDisplaySetValue = (field: 'weight' | 'reps' | 'distance' | 'duration_seconds' | null, value: unknown, units: UnitSystem) => {
+  if (value === null || value === undefined) return value;
+  if (field === 'weight') return roundTo(toDisplayWeight(Number(value), units), 2);
+  if (field === 'distance') return roundTo(toDisplayDistance(Number(value), units), 3);
+  return value;
+};
+
 const formatCompletedSetMetricValue = (
   set: WorkoutSet,
   field: 'weight' | 'reps' | 'distance' | 'duration_seconds' | null,
-  unit: string
+  unit: string,
+  units: UnitSystem
 ) => {
   if (!field) return null;
 
@@ -65,8 +91,7 @@ const formatCompletedSetMetricValue = (
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   }
 
-  if (unit === 'kg') return `${rawValue}kg`;
-  if (unit === 'km') return `${rawValue}km`;
+  if (field === 'weight' || field === 'distance') return `${toDisplaySetValue(field, rawValue, units)}${unit}`;
   if (unit === 'reps') return `${rawValue} reps`;
   return `${rawValue}`;
 };
@@ -76,10 +101,11 @@ const formatCompletedSetByMetric = (
   firstField: 'weight' | 'reps' | 'distance' | 'duration_seconds' | null,
   firstUnit: string,
   secondField: 'weight' | 'reps' | 'distance' | 'duration_seconds' | null,
-  secondUnit: string
+  secondUnit: string,
+  units: UnitSystem
 ) => {
-  const firstValue = formatCompletedSetMetricValue(set, firstField, firstUnit);
-  const secondValue = formatCompletedSetMetricValue(set, secondField, secondUnit);
+  const firstValue = formatCompletedSetMetricValue(set, firstField, firstUnit, units);
+  const secondValue = formatCompletedSetMetricValue(set, secondField, secondUnit, units);
 
   if (firstValue && secondValue) return `${firstValue} x ${secondValue}`;
   return firstValue || secondValue || '-';
@@ -111,6 +137,13 @@ const mediaNameFromVideoPath = (videoPath: string) => {
   return normalizeName(noGender.replace(/-/g, ' '));
 };
 
+const matchesSetTarget = (set: WorkoutSet, target?: SetTarget) => {
+  if (!target) return true;
+  return (Object.keys(target) as (keyof SetTarget)[]).every(
+    (field) => target[field] === undefined || Number(set[field] ?? 0) === Number(target[field])
+  );
+};
+
 const getEditableNumericInputValue = (value: unknown): string | number => {
   if (value === null || value === undefined) return '';
   const numericValue = Number(value);
@@ -126,15 +159,33 @@ const handleWorkoutNumericInputFocus = (event: React.FocusEvent<HTMLInputElement
   event.currentTarget.select();
 };
 
+// A completed set's records depend on its numbers, so editing them re-checks its records and those
+// of the sets done after it.
+const updateWorkoutSetValues = async (setId: string, changes: Partial<WorkoutSet>) => {
+  try {
+    await db.workout_sets.update(setId, changes);
+    const set = await db.workout_sets.get(setId);
+    if (set?.completed) await recordPersonalRecordsForSet(setId);
+  } catch (error) {
+    console.error('Failed to update set:', error);
+  }
+};
+
 const updateWorkoutSetNumberField = (
   setId: string,
   field: 'weight' | 'reps' | 'distance',
-  rawValue: string
+  rawValue: string,
+  units: UnitSystem = 'metric'
 ) => {
   if (rawValue.trim() === '') return;
-  const nextValue = Number(rawValue);
-  if (!Number.isFinite(nextValue)) return;
-  void db.workout_sets.update(setId, { [field]: nextValue });
+  const inputValue = Number(rawValue);
+  if (!Number.isFinite(inputValue)) return;
+  const nextValue = field === 'weight'
+    ? fromDisplayWeight(inputValue, units)
+    : field === 'distance'
+      ? fromDisplayDistance(inputValue, units)
+      : inputValue;
+  void updateWorkoutSetValues(setId, { [field]: nextValue });
 };
 
 
@@ -297,6 +348,7 @@ const CompletedWorkoutView = ({
   definitions,
   sets,
   mediaFallbackByExerciseId,
+  units,
 }: {
   workout?: Workout;
   elapsedTime: string;
@@ -304,86 +356,103 @@ const CompletedWorkoutView = ({
   definitions?: Record<string, WorkoutExerciseDef>;
   sets?: Record<string, WorkoutSet[]>;
   mediaFallbackByExerciseId?: Record<string, { videoPath?: string; thumbnailPath?: string }>;
-}) => (
-  <div className="space-y-4">
-    {workout?.notes?.trim() ? (
-      <div className="rounded-xl border border-border-subtle bg-card p-4">
-        <p className="text-xs font-semibold uppercase text-text-muted mb-2">How it went</p>
-        <p className="text-sm text-text-main whitespace-pre-wrap">{workout.notes}</p>
-      </div>
-    ) : null}
-
-    <div className="space-y-3">
-      {exercises?.map((exercise) => {
-        const definition = definitions?.[exercise.exercise_id];
-        const fallbackMedia = mediaFallbackByExerciseId?.[exercise.exercise_id];
-        const metricColumns = getMetricColumns(definition?.metric_type);
-        const isDurationOnlyMetric = metricColumns.first.field === 'duration_seconds' && metricColumns.second.field === null;
-        const headerThumbnailUrl = toWorkoutMediaUrl(
-          definition?.thumbnail_path ||
-          fallbackMedia?.thumbnailPath ||
-          DEFAULT_EXERCISE_THUMBNAIL_PATH
-        );
-        const currentSets = sets?.[exercise.id] || [];
-        if (currentSets.length === 0) return null;
-
-        return (
-          <div key={exercise.id} className="bg-card rounded-2xl p-4 shadow-sm border border-border-subtle">
-            <div className="flex items-start gap-3 mb-4">
-              <Link
-                to={`/workouts/exercises/${encodeURIComponent(exercise.exercise_id)}`}
-                className="flex items-center gap-3 min-w-0 rounded-lg -m-1 p-1"
-              >
-                <div className="h-12 w-12 rounded-lg overflow-hidden bg-surface flex-shrink-0">
-                  <img
-                    src={headerThumbnailUrl}
-                    alt={definition?.name || 'Workout exercise'}
-                    className="h-full w-full object-cover"
-                    loading="lazy"
-                  />
-                </div>
-                <div className="min-w-0">
-                  <span className="font-bold text-lg text-brand truncate block hover:underline">
-                    {definition?.name || 'Exercise'}
-                  </span>
-                </div>
-              </Link>
-            </div>
+  units: UnitSystem;
+}) => {
+  const groupPositions = getEntryGroupPositions(exercises || []);
 
-            <div className="mb-2 grid grid-cols-12 gap-2 items-center text-[11px] font-semibold uppercase tracking-wide text-text-muted">
-              <span className="col-span-2 text-center">Set</span>
-              {isDurationOnlyMetric ? (
-                <span className="col-span-10 text-center">{metricColumns.first.label}</span>
-              ) : (
-                <>
-                  <span className="col-span-5 text-center">{metricColumns.first.label}</span>
-                  <span className="col-span-5 text-center">{metricColumns.second.label}</span>
-                </>
-              )}
-            </div>
+  return (
+    <div className="space-y-4">
+      {workout?.notes?.trim() ? (
+        <div className="rounded-xl border border-border-subtle bg-card p-4">
+          <p className="text-xs font-semibold uppercase text-text-muted mb-2">How it went</p>
+          <p className="text-sm text-text-main whitespace-pre-wrap">{workout.notes}</p>
+        </div>
+      ) : null}
+
+      <div className="space-y-3">
+        {exercises?.map((exercise) => {
+          const definition = definitions?.[exercise.exercise_id];
+          const groupPosition = groupPositions[exercise.id];
+          const fallbackMedia = mediaFallbackByExerciseId?.[exercise.exercise_id];
+          const metricColumns = getMetricColumns(definition?.metric_type, units);
+          const isDurationOnlyMetric = metricColumns.first.field === 'duration_seconds' && metricColumns.second.field === null;
+          const headerThumbnailUrl = toWorkoutMediaUrl(
+            definition?.thumbnail_path ||
+            fallbackMedia?.thumbnailPath ||
+            DEFAULT_EXERCISE_THUMBNAIL_PATH
+          );
+          const currentSets = sets?.[exercise.id] || [];
+          if (currentSets.length === 0) return null;
+
+          return (
+            <div
+              key={exercise.id}
+              className={`bg-card rounded-2xl p-4 shadow-sm border border-border-subtle ${groupPosition ? 'border-l-4 border-l-brand' : ''}`}
+            >
+              {groupPosition ? (
+                <p className="mb-2 text-[11px] font-bold uppercase tracking-wide text-brand">
+                  {groupPosition.label} {groupPosition.position}/{groupPosition.size}
+                </p>
+              ) : null}
+              <div className="flex items-start gap-3 mb-4">
+                <Link
+                  to={`/workouts/exercises/${encodeURIComponent(exercise.exercise_id)}`}
+                  className="flex items-center gap-3 min-w-0 rounded-lg -m-1 p-1"
+                >
+                  <div className="h-12 w-12 rounded-lg overflow-hidden bg-surface flex-shrink-0">
+                    <img
+                      src={headerThumbnailUrl}
+                      alt={definition?.name || 'Workout exercise'}
+                      className="h-full w-full object-cover"
+                      loading="lazy"
+                    />
+                  </div>
+                  <div className="min-w-0">
+                    <span className="font-bold text-lg text-brand truncate block hover:underline">
+                      {definition?.name || 'Exercise'}
+                    </span>
+                  </div>
+                </Link>
+              </div>
 
-            <div className="space-y-2">
-              {currentSets.map((set) => (
-                <div key={set.id} className="grid grid-cols-12 gap-2 items-center rounded-lg bg-transparent px-2 py-2 text-sm">
-                  <span className="col-span-2 text-center text-text-muted font-bold">{set.set_number}</span>
-                  <span className="col-span-10 text-text-main font-medium">
-                    {formatCompletedSetByMetric(
-                      set,
-                      metricColumns.first.field,
-                      metricColumns.first.unit,
-                      metricColumns.second.field,
-                      metricColumns.second.unit
-                    )}
-                  </span>
-                </div>
-              ))}
+              <div className="mb-2 grid grid-cols-12 gap-2 items-center text-[11px] font-semibold uppercase tracking-wide text-text-muted">
+                <span className="col-span-2 text-center">Set</span>
+                {isDurationOnlyMetric ? (
+                  <span className="col-span-10 text-center">{metricColumns.first.label}</span>
+                ) : (
+                  <>
+                    <span className="col-span-5 text-center">{metricColumns.first.label}</span>
+                    <span className="col-span-5 text-center">{metricColumns.second.label}</span>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {currentSets.map((set) => (
+                  <div key={set.id} className="grid grid-cols-12 gap-2 items-center rounded-lg bg-transparent px-2 py-2 text-sm">
+                    <span className="col-span-2 text-center text-text-muted font-bold">
+                      {set.is_warmup ? 'W' : SET_TYPES[set.set_type ?? 'normal'].short || set.set_number}
+                    </span>
+                    <span className="col-span-10 text-text-main font-medium">
+                      {formatCompletedSetByMetric(
+                        set,
+                        metricColumns.first.field,
+                        metricColumns.first.unit,
+                        metricColumns.second.field,
+                        metricColumns.second.unit,
+                        units
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
-        );
-      })}
+          );
+        })}
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 
 
@@ -410,12 +479,16 @@ const WorkoutSessionComponent = () => {
     expandedMenuId,
     setExpandedMenuId,
     handleAddSet,
+    applyProgressionTargets,
     cancelWorkout,
     adjustRestTimer,
     skipRestTimer,
     navigateToAddExercises,
     handleRemoveExercise,
     handleReorderExercise,
+    handleLinkWithNext,
+    handleUnlinkExercise,
+    handleSetTypeChange,
     navigateToReplaceExercise,
     requestFinishWorkout,
     saveFinishedWorkout,
@@ -424,7 +497,8 @@ const WorkoutSessionComponent = () => {
     handleToggleSet,
     restPreferences,
     setExerciseRestPreference,
-    barRef
+    barRef,
+    personalRecordsBySet
   } = useWorkoutSession(workoutId, isEditingCompleted);
 
   const [showFinishScreen, setShowFinishScreen] = useState(false);
@@ -436,6 +510,10 @@ const WorkoutSessionComponent = () => {
   const [isCopyingWorkout, setIsCopyingWorkout] = useState(false);
   const [isDeletingWorkout, setIsDeletingWorkout] = useState(false);
   const [editingRestExerciseId, setEditingRestExerciseId] = useState<string | null>(null);
+  const [appliedProgressionCount, setAppliedProgressionCount] = useState<Record<string, number>>({});
+  const [warmupEntryId, setWarmupEntryId] = useState<string | null>(null);
+  const equipmentProfile = useEquipmentProfile();
+  const unitSystem = useUnitSystem();
   const [mediaFallbackByExerciseId, setMediaFallbackByExerciseId] = useState<Record<string, { videoPath?: string; thumbnailPath?: string }>>({});
 
   const previousSetsByExercise = useLiveQuery(async () => {
@@ -444,9 +522,23 @@ const WorkoutSessionComponent = () => {
     return getPreviousWorkoutSets(exerciseIds, workout.start_time);
   }, [exercises, workout?.start_time]);
 
+  const progressionByExercise = useLiveQuery(async () => {
+    if (!exercises?.length || !workout?.start_time || !definitions) return {};
+    const exerciseIds = Array.from(new Set(exercises.map((exercise) => exercise.exercise_id)));
+    return getExerciseProgressions(
+      exerciseIds.map((exerciseId) => ({
+        exercise_id: exerciseId,
+        metric_type: definitions[exerciseId]?.metric_type,
+        equipment: definitions[exerciseId]?.equipment
+      })),
+      workout.start_time
+    );
+  }, [exercises, workout?.start_time, definitions, equipmentProfile, unitSystem]);
+
   const isFinished = Boolean(workout?.end_time);
   const showCompletedReadonly = isFinished && !isEditingCompleted;
   const canEditWorkout = !showCompletedReadonly;
+  const groupPositions = useMemo(() => getEntryGroupPositions(exercises || []), [exercises]);
 
   const completedWorkoutOrdinal = useLiveQuery(async () => {
     if (!showCompletedReadonly || !workout?.id) return null;
@@ -475,9 +567,8 @@ const WorkoutSessionComponent = () => {
 
   const formatPreviousSetValue = (set?: WorkoutSet) => {
     if (!set) return '-';
-    const previousWeight = Number(set.weight ?? 0);
     const previousReps = Number(set.reps ?? 0);
-    return `${previousWeight}kg x ${previousReps}`;
+    return `${formatWeight(Number(set.weight ?? 0), unitSystem)} x ${previousReps}`;
   };
 
   const formatDurationValue = (seconds: number) => {
@@ -519,8 +610,7 @@ const WorkoutSessionComponent = () => {
       if (!field) return null;
       const raw = Number((set as any)[field] ?? 0);
       if (field === 'duration_seconds') return formatDurationValue(raw);
-      if (unit === 'kg') return `${raw}kg`;
-      if (unit === 'km') return `${raw}km`;
+      if (field === 'weight' || field === 'distance') return `${toDisplaySetValue(field, raw, unitSystem)}${unit}`;
       return `${raw}`;
     };
 
@@ -792,7 +882,7 @@ const WorkoutSessionComponent = () => {
         {!showFinishScreen && !showCompletedReadonly && (
           <div className="mb-6 flex justify-between text-xs font-semibold text-text-muted uppercase">
             <StatItem label="Duration" value={elapsedTime} />
-            <StatItem label="Volume" value={`${totalStats.volume} kg`} border />
+            <StatItem label="Volume" value={formatWeight(totalStats.volume, unitSystem, 0)} border />
             <StatItem label="Sets" value={totalStats.sets} border />
           </div>
         )}
@@ -830,7 +920,7 @@ const WorkoutSessionComponent = () => {
 
             <div className="mt-3 grid grid-cols-2 gap-2 text-xs font-semibold uppercase text-text-muted">
               <div className="rounded-lg border border-border-subtle bg-card px-3 py-2 text-center">
-                <span className="block text-text-primary text-sm font-bold font-mono">{totalStats.volume} kg</span>
+                <span className="block text-text-primary text-sm font-bold font-mono">{formatWeight(totalStats.volume, unitSystem, 0)}</span>
                 Volume
               </div>
               <div className="rounded-lg border border-border-subtle bg-card px-3 py-2 text-center">
@@ -881,7 +971,7 @@ const WorkoutSessionComponent = () => {
               </div>
               <div className="rounded-lg border border-border-subtle bg-surface px-2 py-2">
                 <p className="text-[11px] font-semibold uppercase text-text-muted">Volume</p>
-                <p className="text-sm font-bold text-text-main">{totalStats.volume} kg</p>
+                <p className="text-sm font-bold text-text-main">{formatWeight(totalStats.volume, unitSystem, 0)}</p>
               </div>
               <div className="rounded-lg border border-border-subtle bg-surface px-2 py-2">
                 <p className="text-[11px] font-semibold uppercase text-text-muted">Sets</p>
@@ -897,6 +987,7 @@ const WorkoutSessionComponent = () => {
             definitions={definitions}
             sets={sets}
             mediaFallbackByExerciseId={mediaFallbackByExerciseId}
+            units={unitSystem}
           />
         </>
       ) : (
@@ -908,7 +999,21 @@ const WorkoutSessionComponent = () => {
               const fallbackMedia = mediaFallbackByExerciseId[exercise.exercise_id];
               const currentSets = sets?.[exercise.id] || [];
               const previousSets = previousSetsByExercise?.[exercise.exercise_id]?.sets || [];
-              const metricColumns = getMetricColumns(def?.metric_type);
+              const progression = progressionByExercise?.[exercise.exercise_id];
+              // Dropsets hang off the set before them, so they don't count towards progression targets.
+              const workingSets = currentSets.filter((set: WorkoutSet) => !set.is_warmup && set.set_type !== 'dropset');
+              const numberedSets = workingSets.filter((set: WorkoutSet) => set.set_type !== 'cluster');
+              const groupPosition = groupPositions[exercise.id];
+              const nextExercise = exercises[exerciseIndex + 1];
+              const isGroupedWithNext = Boolean(exercise.group_id && nextExercise?.group_id === exercise.group_id);
+              const pendingWorkingSets = workingSets.filter((set: WorkoutSet) => !set.completed);
+              const isProgressionApplied = progression
+                ? workingSets.length >= progression.targets.length &&
+                  pendingWorkingSets.every((set: WorkoutSet) =>
+                    matchesSetTarget(set, progression.targets[Math.min(workingSets.indexOf(set), progression.targets.length - 1)])
+                  )
+                : true;
+              const metricColumns = getMetricColumns(def?.metric_type, unitSystem);
               const firstMetricField = metricColumns.first.field;
               const secondMetricField = metricColumns.second.field;
               const restSeconds = restPreferences?.[exercise.exercise_id] ?? 0;
@@ -917,12 +1022,32 @@ const WorkoutSessionComponent = () => {
               const isFirstExercise = exerciseIndex === 0;
               const isLastExercise = exerciseIndex === (exercises.length - 1);
               const isDurationOnlyMetric = metricColumns.first.field === 'duration_seconds' && metricColumns.second.field === null;
+              const isLoadedRepsMetric = firstMetricField === 'weight' && secondMetricField === 'reps';
+              const lastRatedSet = [...workingSets].reverse().find((set: WorkoutSet) => set.completed && set.rpe);
+              const nextPendingSet = lastRatedSet
+                ? workingSets.find((set: WorkoutSet) => !set.completed && set.set_number > lastRatedSet.set_number)
+                : undefined;
+              const nextSetTargetRpe = nextPendingSet?.rpe || DEFAULT_TARGET_RPE;
+              const rpeRecommendation = isLoadedRepsMetric && lastRatedSet && nextPendingSet
+                ? recommendLoadFromRpe(lastRatedSet, nextPendingSet, nextSetTargetRpe, createLoadRounder(def?.equipment, equipmentProfile))
+                : null;
               const thumbnailUrl = toWorkoutMediaUrl(
                 def?.thumbnail_path || fallbackMedia?.thumbnailPath || DEFAULT_EXERCISE_THUMBNAIL_PATH
               );
 
               return (
-                <div key={exercise.id} className="bg-card rounded-2xl p-4 shadow-sm border border-border-subtle">
+                <div
+                  key={exercise.id}
+                  className={`bg-card rounded-2xl p-4 shadow-sm border border-border-subtle ${groupPosition ? 'border-l-4 border-l-brand' : ''}`}
+                >
+                  {groupPosition ? (
+                    <p className="mb-2 text-[11px] font-bold uppercase tracking-wide text-brand">
+                      {groupPosition.label} {groupPosition.position}/{groupPosition.size}
+                      <span className="font-semibold text-text-muted">
+                        {groupPosition.position === groupPosition.size ? ' • rest after this exercise' : ' • go straight to the next exercise'}
+                      </span>
+                    </p>
+                  ) : null}
                   <div className="flex justify-between items-start mb-4">
                     <div className="min-w-0">
                       <Link
@@ -991,6 +1116,17 @@ const WorkoutSessionComponent = () => {
                             >
                               Replace Exercise
                             </button>
+                            {isLoadedRepsMetric && (
+                              <button
+                                onClick={() => {
+                                  setExpandedMenuId(null);
+                                  setWarmupEntryId(exercise.id);
+                                }}
+                                className="w-full px-3 py-2.5 text-left text-sm font-medium text-text-main hover:bg-surface"
+                              >
+                                Add Warmup Sets
+                              </button>
+                            )}
                             <button
                               onClick={() => handleReorderExercise(exercise.id, 'up')}
                               disabled={isFirstExercise}
@@ -1005,6 +1141,22 @@ const WorkoutSessionComponent = () => {
                             >
                               Move Down
                             </button>
+                            {!isLastExercise && !isGroupedWithNext && (
+                              <button
+                                onClick={() => handleLinkWithNext(exercise.id)}
+                                className="w-full px-3 py-2.5 text-left text-sm font-medium text-text-main hover:bg-surface"
+                              >
+                                Superset with Next
+                              </button>
+                            )}
+                            {exercise.group_id && (
+                              <button
+                                onClick={() => handleUnlinkExercise(exercise.id)}
+                                className="w-full px-3 py-2.5 text-left text-sm font-medium text-text-main hover:bg-surface"
+                              >
+                                Remove from {groupPosition?.label || 'Group'}
+                              </button>
+                            )}
                             <button
                               onClick={() => handleRemoveExercise(exercise.id)}
                               className="w-full px-3 py-2.5 text-left text-sm font-medium text-red-500 hover:bg-surface"
@@ -1017,6 +1169,35 @@ const WorkoutSessionComponent = () => {
                     )}
                   </div>
 
+                  {canEditWorkout && progression && !isProgressionApplied ? (
+                    <div className="mb-3 flex items-center gap-2 rounded-xl border border-brand/20 bg-brand/5 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-xs font-bold text-brand truncate">
+                          Next: {formatSet(progression.targets[0], def?.metric_type, unitSystem)}
+                        </p>
+                        <p className="text-[11px] text-text-muted truncate">{progression.summary}</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          void applyProgressionTargets(exercise.id, progression.targets).then(() => {
+                            // Set inputs are uncontrolled; remount them so the applied targets show.
+                            setAppliedProgressionCount((prev) => ({ ...prev, [exercise.id]: (prev[exercise.id] ?? 0) + 1 }));
+                          });
+                        }}
+                        className="rounded-lg bg-brand px-3 py-1.5 text-xs font-bold text-brand-fg"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  ) : null}
+                  {progression?.plateau ? (
+                    <p className="mb-3 text-[11px] font-semibold text-amber-600">
+                      Plateau: no e1RM gain in the last {PLATEAU_SESSION_COUNT} sessions
+                      {progression.bestOneRepMax ? ` (best ${formatWeight(progression.bestOneRepMax, unitSystem)})` : ''}. Consider a deload or variation.
+                    </p>
+                  ) : null}
+
                   {/* Set Table */}
                   <div className="mb-2 grid grid-cols-12 gap-2 items-center text-[11px] font-semibold uppercase tracking-wide text-text-muted">
                     <span className="col-span-1 text-center">Set</span>
@@ -1038,12 +1219,24 @@ const WorkoutSessionComponent = () => {
                   <div className="space-y-2">
                     {currentSets.map((set: WorkoutSet, setIndex: number) => (
                       <div
-                        key={set.id}
+                        key={`${set.id}:${appliedProgressionCount[exercise.id] ?? 0}`}
                         className={`grid grid-cols-12 gap-2 items-center rounded-lg px-1 py-1 transition-colors ${
                           set.completed ? 'bg-green-500/10' : 'bg-transparent'
                         }`}
                       >
-                        <span className="col-span-1 text-center text-text-muted font-bold">{set.set_number}</span>
+                        {set.is_warmup ? (
+                          <span className="col-span-1 text-center font-bold text-amber-600">W</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => handleSetTypeChange(set.id, getNextSetType(set.set_type))}
+                            disabled={!canEditWorkout}
+                            title={`${SET_TYPES[set.set_type ?? 'normal'].label} set`}
+                            className={`col-span-1 text-center font-bold ${set.set_type && set.set_type !== 'normal' ? 'text-brand' : 'text-text-muted'}`}
+                          >
+                            {SET_TYPES[set.set_type ?? 'normal'].short || numberedSets.indexOf(set) + 1}
+                          </button>
+                        )}
                         <div className="col-span-4 rounded px-2 py-2 text-[11px] font-semibold text-text-muted truncate">
                           {formatPreviousSetValueByMetric(
                             previousSets[setIndex],
@@ -1057,7 +1250,7 @@ const WorkoutSessionComponent = () => {
                           <div className="col-span-5">
                             <DurationScrollerInput
                               valueSeconds={Number((set as any).duration_seconds ?? 0)}
-                              onChange={(nextSeconds) => db.workout_sets.update(set.id, { duration_seconds: nextSeconds })}
+                              onChange={(nextSeconds) => void updateWorkoutSetValues(set.id, { duration_seconds: nextSeconds })}
                             />
                           </div>
                         ) : (
@@ -1067,16 +1260,16 @@ const WorkoutSessionComponent = () => {
                                 firstMetricField === 'duration_seconds' ? (
                                   <DurationScrollerInput
                                     valueSeconds={Number((set as any)[firstMetricField] ?? 0)}
-                                    onChange={(nextSeconds) => db.workout_sets.update(set.id, { [firstMetricField]: nextSeconds })}
+                                    onChange={(nextSeconds) => void updateWorkoutSetValues(set.id, { [firstMetricField]: nextSeconds })}
                                   />
                                 ) : (
                                   <input
                                     type="number"
-                                    defaultValue={getEditableNumericInputValue((set as any)[firstMetricField])}
+                                    defaultValue={getEditableNumericInputValue(toDisplaySetValue(firstMetricField, (set as any)[firstMetricField], unitSystem))}
                                     placeholder={getSetFieldPlaceholder(set, firstMetricField)}
                                     className="w-full bg-transparent p-2 rounded text-center font-bold"
                                     onFocus={handleWorkoutNumericInputFocus}
-                                    onChange={(e) => updateWorkoutSetNumberField(set.id, firstMetricField, e.target.value)}
+                                    onChange={(e) => updateWorkoutSetNumberField(set.id, firstMetricField, e.target.value, unitSystem)}
                                   />
                                 )
                               ) : (
@@ -1088,16 +1281,16 @@ const WorkoutSessionComponent = () => {
                                 secondMetricField === 'duration_seconds' ? (
                                   <DurationScrollerInput
                                     valueSeconds={Number((set as any)[secondMetricField] ?? 0)}
-                                    onChange={(nextSeconds) => db.workout_sets.update(set.id, { [secondMetricField]: nextSeconds })}
+                                    onChange={(nextSeconds) => void updateWorkoutSetValues(set.id, { [secondMetricField]: nextSeconds })}
                                   />
                                 ) : (
                                   <input
                                     type="number"
-                                    defaultValue={getEditableNumericInputValue((set as any)[secondMetricField])}
+                                    defaultValue={getEditableNumericInputValue(toDisplaySetValue(secondMetricField, (set as any)[secondMetricField], unitSystem))}
                                     placeholder={getSetFieldPlaceholder(set, secondMetricField)}
                                     className="w-full bg-transparent p-2 rounded text-center font-bold"
                                     onFocus={handleWorkoutNumericInputFocus}
-                                    onChange={(e) => updateWorkoutSetNumberField(set.id, secondMetricField, e.target.value)}
+                                    onChange={(e) => updateWorkoutSetNumberField(set.id, secondMetricField, e.target.value, unitSystem)}
                                   />
                                 )
                               ) : (
@@ -1114,13 +1307,67 @@ const WorkoutSessionComponent = () => {
                         >
                           <Check size={12} />
                         </button>
+                        {firstMetricField === 'weight' && !set.completed ? (
+                          <PlateLoadHint
+                            weight={set.weight}
+                            equipment={def?.equipment}
+                            profile={equipmentProfile}
+                            units={unitSystem}
+                            className="col-span-11 col-start-2 -mt-1"
+                          />
+                        ) : null}
+                        {set.completed && personalRecordsBySet[set.id]?.length ? (
+                          <div className="col-span-11 col-start-2 flex flex-wrap gap-1">
+                            {personalRecordsBySet[set.id].map((record) => (
+                              <span
+                                key={record.id}
+                                className="inline-flex items-center gap-1 rounded-full bg-amber-500/15 px-2 py-0.5 text-[10px] font-bold text-amber-700"
+                              >
+                                <Trophy size={10} weight="fill" />
+                                PR · {PERSONAL_RECORD_LABELS[record.record_type]} {formatPersonalRecordValue(record, unitSystem)}
+                              </span>
+                            ))}
+                          </div>
+                        ) : null}
+                        {isLoadedRepsMetric && canEditWorkout && set.completed && !set.is_warmup ? (
+                          <div className="col-span-12 flex items-center justify-end gap-2 text-[11px] font-semibold text-text-muted">
+                            <label htmlFor={`rpe-${set.id}`}>RPE</label>
+                            <select
+                              id={`rpe-${set.id}`}
+                              value={set.rpe ?? ''}
+                              onChange={(e) => db.workout_sets.update(set.id, { rpe: e.target.value ? Number(e.target.value) : undefined })}
+                              className="rounded-md border border-border-subtle bg-surface px-1.5 py-0.5 text-[11px] font-semibold text-text-main"
+                            >
+                              <option value="">-</option>
+                              {RPE_OPTIONS.map((option) => (
+                                <option key={option} value={option}>{option}</option>
+                              ))}
+                            </select>
+                          </div>
+                        ) : null}
+                        {canEditWorkout && rpeRecommendation && set.id === nextPendingSet?.id && rpeRecommendation !== Number(set.weight) ? (
+                          <div className="col-span-12 flex items-center justify-end gap-2 text-[11px] font-semibold text-brand">
+                            <span>Suggested {formatWeight(rpeRecommendation, unitSystem)} @ RPE {nextSetTargetRpe}</span>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                void updateWorkoutSetValues(set.id, { weight: rpeRecommendation }).then(() => {
+                                  setAppliedProgressionCount((prev) => ({ ...prev, [exercise.id]: (prev[exercise.id] ?? 0) + 1 }));
+                                });
+                              }}
+                              className="rounded-md bg-brand px-2 py-0.5 font-bold text-brand-fg"
+                            >
+                              Use
+                            </button>
+                          </div>
+                        ) : null}
                       </div>
                     ))}
                   </div>
 
                   {canEditWorkout && (
                     <button
-                      onClick={() => handleAddSet(exercise.id)}
+                      onClick={() => handleAddSet(exercise.id, progression?.targets[workingSets.length])}
                       className="w-full mt-4 py-2 bg-brand/5 text-brand font-bold rounded-xl flex items-center justify-center gap-2"
                     >
                       <Plus size={16} /> Add Set
@@ -1158,6 +1405,18 @@ const WorkoutSessionComponent = () => {
         </>
       )}
 
+      {warmupEntryId && (
+        <WarmupRampSheet
+          workoutLogEntryId={warmupEntryId}
+          workingWeight={Number((sets?.[warmupEntryId] || []).find((set: WorkoutSet) => !set.is_warmup)?.weight) || 0}
+          roundLoad={createLoadRounder(
+            definitions?.[exercises?.find((exercise) => exercise.id === warmupEntryId)?.exercise_id ?? '']?.equipment,
+            equipmentProfile
+          )}
+          onClose={() => setWarmupEntryId(null)}
+        />
+      )}
+
       {/* Rest Timer Overlay */}
       {activeRestTimer && (
         <RestTimerOverlay 
@@ -1,6 +1,16 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db } from '../../../lib/db';
+import { db, type WorkoutPersonalRecord, type WorkoutSet, type WorkoutSetType } from '../../../lib/db';
+import { clearPersonalRecordsForEntries, recomputePersonalRecords, recordPersonalRecordsForSet } from '../../../lib/personalRecords';
+import {
+    adjustRestTimer as adjustStoredRestTimer,
+    clearExpiredRestTimer,
+    skipRestTimer as skipStoredRestTimer,
+    startRestTimer,
+} from '../../../lib/restTimer';
+import type { SetTarget } from '../../../lib/progression';
+import { discardWorkout, pruneUnfinishedSets } from '../../../lib/workoutSessions';
+import { createGroupIdRemapper, getLinkWithNextChanges, getRestAfterSet, getUnlinkChanges } from '../../../lib/workouts';
 import { generateId } from '../../../lib';
 import { useNavigate } from 'react-router-dom';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
@@ -13,7 +23,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
 
     // --- UI State ---
     const [elapsedTime, setElapsedTime] = useState('00:00');
-    const [activeRestTimer, setActiveRestTimer] = useState<any>(null);
+    const [restSecondsLeft, setRestSecondsLeft] = useState(0);
     const [expandedMenuId, setExpandedMenuId] = useState<string | null>(null);
 
     const barRef = useRef<HTMLDivElement>(null);
@@ -96,6 +106,30 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         }, {});
     }, [exercises, activeUserId]);
 
+    // Persisted so a running rest survives reloads and the app being backgrounded.
+    const restTimer = useLiveQuery(
+        () => resolvedWorkoutId ? db.workout_rest_timers.get(resolvedWorkoutId) : undefined,
+        [resolvedWorkoutId]
+    );
+    const activeRestTimer = restTimer && !isReadonlyCompletedWorkout
+        ? {
+            exerciseId: restTimer.workout_log_entry_id,
+            definitionId: restTimer.exercise_id,
+            seconds: restSecondsLeft,
+            total: restTimer.total_seconds,
+            endTime: restTimer.end_time,
+        }
+        : null;
+
+    const personalRecordsBySet = useLiveQuery(async () => {
+        if (!resolvedWorkoutId) return {} as Record<string, WorkoutPersonalRecord[]>;
+        const records = await db.workout_personal_records.where('workout_id').equals(resolvedWorkoutId).toArray();
+        return records.reduce((acc: Record<string, WorkoutPersonalRecord[]>, record) => {
+            (acc[record.workout_set_id] ??= []).push(record);
+            return acc;
+        }, {});
+    }, [resolvedWorkoutId]);
+
     // --- Computed Stats ---
     const totalStats = useMemo(() => {
         let vol = 0;
@@ -110,40 +144,36 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         return { volume: vol, sets: count };
     }, [sets]);
 
-    // --- 1. Fix: Rest Timer Logic (functional updates make it move) ---
+    // --- 1. Rest Timer Logic ---
     useEffect(() => {
-        if (!activeRestTimer) return;
+        if (!restTimer) return;
 
         let frameId: number;
 
-        // Inside your update function in the useEffect
         const update = () => {
-            if (!activeRestTimer) return;
-
-            const now = Date.now();
-            const remainingMs = activeRestTimer.endTime - now;
-            const totalMs = activeRestTimer.total * 1000;
+            const remainingMs = restTimer.end_time - Date.now();
 
             if (remainingMs <= 0) {
-                setActiveRestTimer(null);
+                setRestSecondsLeft(0);
+                // Only buzz when the rest just ran out, not for a stale timer found after a reload.
+                if (remainingMs > -1000 && 'vibrate' in navigator) navigator.vibrate([200, 100, 200]);
+                void clearExpiredRestTimer(restTimer.workout_id);
                 return;
             }
 
-            // Calculate progress based on the dynamic total
-            const progress = (remainingMs / totalMs) * 100;
+            setRestSecondsLeft(Math.ceil(remainingMs / 1000));
 
             if (barRef.current) {
                 // We still cap at 100 just in case of slight timing offsets
-                barRef.current.style.width = `${Math.min(100, progress)}%`;
+                barRef.current.style.width = `${Math.min(100, (remainingMs / (restTimer.total_seconds * 1000)) * 100)}%`;
             }
 
-            // Update seconds display...
-            requestAnimationFrame(update);
+            frameId = requestAnimationFrame(update);
         };
 
         frameId = requestAnimationFrame(update);
         return () => cancelAnimationFrame(frameId);
-    }, [activeRestTimer?.endTime]); // Only restart if the end target changes
+    }, [restTimer]);
 
     // --- 2. Duration Timer (at top of page) ---
     useEffect(() => {
@@ -177,62 +207,82 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
     }, [workout, isEditingCompleted]);
 
     // --- Actions ---
-    const handleAddSet = async (exerciseLogId: string) => {
+    // A progression target (from last session) takes precedence over copying the previous set.
+    const handleAddSet = async (exerciseLogId: string, target?: SetTarget) => {
         const currentSets = sets?.[exerciseLogId] || [];
         const lastSet = currentSets[currentSets.length - 1];
         await db.workout_sets.add({
             id: generateId(),
             workout_log_entry_id: exerciseLogId,
             set_number: currentSets.length + 1,
-            weight: lastSet?.weight ?? 0,
-            reps: lastSet?.reps ?? lastSet?.reps_max ?? lastSet?.reps_min ?? 0,
-            reps_min: lastSet?.reps_min,
-            reps_max: lastSet?.reps_max,
-            distance: lastSet?.distance ?? 0,
-            duration_seconds: lastSet?.duration_seconds ?? 0,
+            weight: target?.weight ?? lastSet?.weight ?? 0,
+            reps: target?.reps ?? lastSet?.reps ?? lastSet?.reps_max ?? lastSet?.reps_min ?? 0,
+            reps_min: target?.reps_min ?? lastSet?.reps_min,
+            reps_max: target?.reps_max ?? lastSet?.reps_max,
+            distance: target?.distance ?? lastSet?.distance ?? 0,
+            duration_seconds: target?.duration_seconds ?? lastSet?.duration_seconds ?? 0,
             rpe: lastSet?.rpe,
-            is_warmup: lastSet?.is_warmup,
+            is_warmup: target ? false : lastSet?.is_warmup,
+            set_type: target ? undefined : lastSet?.set_type,
             completed: false,
             created_at: new Date(),
         });
     };
 
+    const applyProgressionTargets = async (exerciseLogId: string, targets: SetTarget[]) => {
+        if (isReadonlyCompletedWorkout || !targets.length) return;
+
+        const workingSets = (sets?.[exerciseLogId] || []).filter((set: WorkoutSet) => !set.is_warmup && set.set_type !== 'dropset');
+        const pendingSets = workingSets.filter((set: WorkoutSet) => !set.completed);
+        const startIndex = workingSets.length - pendingSets.length;
+        const definedChanges = (target: SetTarget) =>
+            Object.fromEntries(Object.entries(target).filter(([, value]) => value !== undefined));
+
+        await db.transaction('rw', db.workout_sets, async () => {
+            for (let index = 0; index < pendingSets.length; index += 1) {
+                const target = targets[Math.min(startIndex + index, targets.length - 1)];
+                await db.workout_sets.update(pendingSets[index].id, { ...definedChanges(target), synced: 0 });
+            }
+
+            const allSets = sets?.[exerciseLogId] || [];
+            for (let index = workingSets.length; index < targets.length; index += 1) {
+                await db.workout_sets.add({
+                    id: generateId(),
+                    workout_log_entry_id: exerciseLogId,
+                    set_number: allSets.length + (index - workingSets.length) + 1,
+                    ...definedChanges(targets[index]),
+                    completed: false,
+                    created_at: new Date(),
+                });
+            }
+        });
+    };
+
     const cancelWorkout = async () => {
         if (!resolvedWorkoutId || !window.confirm("Discard this workout?")) return;
-        await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
-            const entryIds = (await db.workout_log_entries.where('workout_id').equals(resolvedWorkoutId).toArray()).map(e => e.id);
-            await db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).delete();
-            await db.workout_log_entries.where('workout_id').equals(resolvedWorkoutId).delete();
-            await db.workouts.delete(resolvedWorkoutId);
-        });
+        await discardWorkout(resolvedWorkoutId);
         navigate('/workouts', { replace: true });
     };
 
     const adjustRestTimer = (adjustment: number) => {
-        setActiveRestTimer((prev: any) => {
-            if (!prev) return null;
-
-            // Smooth jump animation
-            if (barRef.current) {
-                barRef.current.classList.add('is-adjusting');
-                setTimeout(() => barRef.current?.classList.remove('is-adjusting'), 300);
-            }
-
-            const newRemainingSeconds = Math.max(0, prev.seconds + adjustment);
+        if (!resolvedWorkoutId) return;
 
-            // If adding time, we increase the total capacity
-            // If subtracting, we keep total as is (or decrease if you prefer)
-            const newTotal = adjustment > 0 ? prev.total + adjustment : prev.total;
+        // Smooth jump animation
+        if (barRef.current) {
+            barRef.current.classList.add('is-adjusting');
+            setTimeout(() => barRef.current?.classList.remove('is-adjusting'), 300);
+        }
 
-            return {
-                ...prev,
-                seconds: newRemainingSeconds,
-                endTime: Date.now() + (newRemainingSeconds * 1000),
-                total: newTotal
-            };
+        void adjustStoredRestTimer(resolvedWorkoutId, adjustment).catch((error) => {
+            console.error('Failed to adjust rest timer:', error);
+        });
+    };
+    const skipRestTimer = () => {
+        if (!resolvedWorkoutId) return;
+        void skipStoredRestTimer(resolvedWorkoutId).catch((error) => {
+            console.error('Failed to skip rest timer:', error);
         });
     };
-    const skipRestTimer = () => setActiveRestTimer(null);
 
     const navigateToAddExercises = async () => {
         if (isReadonlyCompletedWorkout) return;
@@ -249,9 +299,13 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         if (isReadonlyCompletedWorkout || !resolvedWorkoutId) return;
         if (!window.confirm('Remove this exercise from workout?')) return;
 
-        await db.transaction('rw', [db.workout_log_entries, db.workout_sets], async () => {
+        await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_exercises_def, db.workout_personal_records], async () => {
+            const entry = await db.workout_log_entries.get(entryId);
+            const workout = await db.workouts.get(resolvedWorkoutId);
+            await clearPersonalRecordsForEntries([entryId]);
             await db.workout_sets.where('workout_log_entry_id').equals(entryId).delete();
             await db.workout_log_entries.delete(entryId);
+            if (entry && workout) await recomputePersonalRecords([entry.exercise_id], workout.start_time);
 
             const remaining = await db.workout_log_entries
                 .where('workout_id')
@@ -295,6 +349,32 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         setExpandedMenuId(null);
     };
 
+    const applyGroupChanges = async (changes: Array<{ id: string; group_id: string | null }>) => {
+        if (!changes.length) return;
+        await db.transaction('rw', db.workout_log_entries, async () => {
+            for (const change of changes) {
+                await db.workout_log_entries.update(change.id, { group_id: change.group_id, synced: 0 });
+            }
+        });
+    };
+
+    const handleLinkWithNext = async (entryId: string) => {
+        if (isReadonlyCompletedWorkout) return;
+        await applyGroupChanges(getLinkWithNextChanges(exercises || [], entryId));
+        setExpandedMenuId(null);
+    };
+
+    const handleUnlinkExercise = async (entryId: string) => {
+        if (isReadonlyCompletedWorkout) return;
+        await applyGroupChanges(getUnlinkChanges(exercises || [], entryId));
+        setExpandedMenuId(null);
+    };
+
+    const handleSetTypeChange = async (setId: string, setType: WorkoutSetType) => {
+        if (isReadonlyCompletedWorkout) return;
+        await db.workout_sets.update(setId, { set_type: setType, synced: 0 });
+    };
+
     const navigateToReplaceExercise = async (entryId: string) => {
         if (isReadonlyCompletedWorkout) return;
         const activeWorkoutId = await ensureWorkoutExists();
@@ -312,15 +392,24 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         if (isReadonlyCompletedWorkout) return;
         const newStatus = !completed;
         await db.workout_sets.update(setId, { completed: newStatus, synced: 0 });
+        void recordPersonalRecordsForSet(setId).catch((error) => {
+            console.error('Failed to update personal records:', error);
+        });
 
         if (newStatus) {
-            const restTime = restPreferences?.[defId] ?? 0;
+            const restTime = getRestAfterSet({
+                entries: exercises || [],
+                entryId,
+                entrySets: sets?.[entryId] || [],
+                setId,
+                getRestSeconds: (entry) => restPreferences?.[entry.exercise_id] ?? 0,
+            });
+            if (!resolvedWorkoutId) return;
             if (restTime <= 0) {
-                setActiveRestTimer(null);
+                await skipStoredRestTimer(resolvedWorkoutId);
                 return;
             }
-            const endTime = Date.now() + restTime * 1000;
-            setActiveRestTimer({ exerciseId: entryId, definitionId: defId, seconds: restTime, total: restTime, endTime });
+            await startRestTimer({ workoutId: resolvedWorkoutId, entryId, exerciseId: defId, seconds: restTime });
             if ('vibrate' in navigator) navigator.vibrate(40);
         }
     };
@@ -353,15 +442,18 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
             });
         }
 
-        setActiveRestTimer((prev: any) => {
-            if (!prev || prev.definitionId !== exerciseId) return prev;
-            return {
-                ...prev,
-                seconds: normalizedSeconds,
-                total: normalizedSeconds,
-                endTime: Date.now() + (normalizedSeconds * 1000),
-            };
-        });
+        if (resolvedWorkoutId && restTimer?.exercise_id === exerciseId) {
+            if (normalizedSeconds <= 0) {
+                await skipStoredRestTimer(resolvedWorkoutId);
+            } else {
+                await startRestTimer({
+                    workoutId: resolvedWorkoutId,
+                    entryId: restTimer.workout_log_entry_id,
+                    exerciseId,
+                    seconds: normalizedSeconds,
+                });
+            }
+        }
     };
 
     const requestFinishWorkout = async () => {
@@ -399,65 +491,8 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         const endTime = new Date(startMs + safeDurationMinutes * 60 * 1000).toISOString();
 
         try {
-            await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
-                const sourceEntries = await db.workout_log_entries
-                    .where('workout_id')
-                    .equals(resolvedWorkoutId)
-                    .sortBy('sort_order');
-
-                const sourceEntryIds = sourceEntries.map((entry) => entry.id);
-                const sourceSets = sourceEntryIds.length
-                    ? await db.workout_sets.where('workout_log_entry_id').anyOf(sourceEntryIds).toArray()
-                    : [];
-
-                const completedSetsByEntryId = sourceSets.reduce<Record<string, typeof sourceSets>>((acc, set) => {
-                    if (!set.completed) return acc;
-                    if (!acc[set.workout_log_entry_id]) acc[set.workout_log_entry_id] = [];
-                    acc[set.workout_log_entry_id].push(set);
-                    return acc;
-                }, {});
-
-                const keepEntryIds = new Set(Object.keys(completedSetsByEntryId));
-                const removeEntryIds = sourceEntries
-                    .filter((entry) => !keepEntryIds.has(entry.id))
-                    .map((entry) => entry.id);
-
-                if (removeEntryIds.length) {
-                    await db.workout_sets.where('workout_log_entry_id').anyOf(removeEntryIds).delete();
-                    await db.workout_log_entries.where('id').anyOf(removeEntryIds).delete();
-                }
-
-                const keepEntries = sourceEntries.filter((entry) => keepEntryIds.has(entry.id));
-
-                for (let entryIndex = 0; entryIndex < keepEntries.length; entryIndex += 1) {
-                    const entry = keepEntries[entryIndex];
-                    const nextSortOrder = entryIndex + 1;
-                    if (entry.sort_order !== nextSortOrder) {
-                        await db.workout_log_entries.update(entry.id, { sort_order: nextSortOrder, synced: 0 });
-                    }
-
-                    const completedSets = (completedSetsByEntryId[entry.id] || []).sort((a, b) => a.set_number - b.set_number);
-                    const keepSetIds = new Set(completedSets.map((set) => set.id));
-                    const removeSetIds = sourceSets
-                        .filter((set) => set.workout_log_entry_id === entry.id && !keepSetIds.has(set.id))
-                        .map((set) => set.id);
-
-                    if (removeSetIds.length) {
-                        await db.workout_sets.where('id').anyOf(removeSetIds).delete();
-                    }
-
-                    for (let setIndex = 0; setIndex < completedSets.length; setIndex += 1) {
-                        const set = completedSets[setIndex];
-                        const nextSetNumber = setIndex + 1;
-                        if (set.set_number !== nextSetNumber || !set.completed) {
-                            await db.workout_sets.update(set.id, {
-                                set_number: nextSetNumber,
-                                completed: true,
-                                synced: 0,
-                            });
-                        }
-                    }
-                }
+            await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets, db.workout_personal_records], async () => {
+                await pruneUnfinishedSets(resolvedWorkoutId);
 
                 await db.workouts.update(resolvedWorkoutId, {
                     name: title.trim() || workout.name || 'Workout',
@@ -467,6 +502,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
                     synced: 0
                 });
             });
+            await skipStoredRestTimer(resolvedWorkoutId);
 
             if (!stayOnPage) {
                 pop('/workouts');
@@ -503,6 +539,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
 
             const newWorkoutId = generateId();
             const now = new Date();
+            const remapGroupId = createGroupIdRemapper();
 
             await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
                 await db.workouts.add({
@@ -522,6 +559,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
                         workout_id: newWorkoutId,
                         exercise_id: entry.exercise_id,
                         sort_order: entry.sort_order,
+                        group_id: remapGroupId(entry.group_id),
                         notes: entry.notes,
                         created_at: now,
                         synced: 0,
@@ -539,6 +577,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
                             duration_seconds: copiedSet.duration_seconds,
                             rpe: copiedSet.rpe,
                             is_warmup: copiedSet.is_warmup,
+                            set_type: copiedSet.set_type,
                             completed: false,
                             created_at: now,
                             synced: 0,
@@ -586,6 +625,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
             const now = new Date();
             const routineId = generateId();
             const baseName = (workout.name || 'Workout').trim() || 'Workout';
+            const remapGroupId = createGroupIdRemapper();
 
             await db.transaction('rw', [db.workout_routines, db.workout_routine_entries, db.workout_routine_sets], async () => {
                 await db.workout_routines.add({
@@ -605,6 +645,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
                         routine_id: routineId,
                         exercise_id: entry.exercise_id,
                         sort_order: entry.sort_order,
+                        group_id: remapGroupId(entry.group_id),
                         notes: entry.notes,
                         created_at: now,
                         synced: 0,
@@ -621,6 +662,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
                             reps_max: copiedSet.reps,
                             distance: copiedSet.distance,
                             duration_seconds: copiedSet.duration_seconds,
+                            set_type: copiedSet.set_type,
                             created_at: now,
                             synced: 0,
                         });
@@ -640,14 +682,7 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
         if (!window.confirm('Delete this workout? This cannot be undone.')) return;
 
         try {
-            await db.transaction('rw', [db.workouts, db.workout_log_entries, db.workout_sets], async () => {
-                const entryIds = (await db.workout_log_entries.where('workout_id').equals(resolvedWorkoutId).toArray()).map((entry) => entry.id);
-                if (entryIds.length) {
-                    await db.workout_sets.where('workout_log_entry_id').anyOf(entryIds).delete();
-                }
-                await db.workout_log_entries.where('workout_id').equals(resolvedWorkoutId).delete();
-                await db.workouts.delete(resolvedWorkoutId);
-            });
+            await discardWorkout(resolvedWorkoutId);
 
             pop('/workouts');
         } catch (error) {
@@ -659,10 +694,12 @@ export function useWorkoutSession(workoutId: string | null, isEditingCompleted =
     return {
         workout, exercises, definitions, sets, totalStats,
         elapsedTime, activeRestTimer, expandedMenuId,
-        setExpandedMenuId, handleAddSet, cancelWorkout,
+        setExpandedMenuId, handleAddSet, applyProgressionTargets, cancelWorkout,
         adjustRestTimer, skipRestTimer, navigateToAddExercises,
-        handleRemoveExercise, handleReorderExercise, navigateToReplaceExercise,
+        handleRemoveExercise, handleReorderExercise, handleLinkWithNext, handleUnlinkExercise, handleSetTypeChange,
+        navigateToReplaceExercise,
         requestFinishWorkout, saveFinishedWorkout, copyWorkout, saveWorkoutAsRoutine, deleteWorkout, handleToggleSet,
         restPreferences: restPreferences || {}, setExerciseRestPreference, barRef,
+        personalRecordsBySet: personalRecordsBySet || {},
     };
 }
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ChartBarIcon, WarningIcon } from '@phosphor-icons/react';
+import {
+  ANALYTICS_WEEK_COUNT,
+  buildWeeklyMuscleVolume,
+  getTrainingBalanceWarnings,
+  getTrainingVolumeSets,
+  getWeekStart,
+  RECENT_WEEK_COUNT
+} from '../../../lib/trainingAnalytics';
+import { formatWeight, useUnitSystem } from '../../../lib/units';
+import { useStackNavigation } from '../../../lib/useStackNavigation';
+import RouteHeader from '../../../lib/components/RouteHeader';
+
+type ChartMetric = 'sets' | 'tonnage';
+
+const formatWeekLabel = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+const formatSets = (value: number) => `${Math.round(value * 10) / 10}`;
+
+export default function TrainingAnalytics() {
+  const { pop } = useStackNavigation();
+  const unitSystem = useUnitSystem();
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('sets');
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+
+  const volumeSets = useLiveQuery(() => {
+    const since = getWeekStart(new Date());
+    since.setDate(since.getDate() - 7 * (ANALYTICS_WEEK_COUNT - 1));
+    return getTrainingVolumeSets(since);
+  }, []);
+
+  const volumes = useMemo(() => (volumeSets ? buildWeeklyMuscleVolume(volumeSets) : []), [volumeSets]);
+  const warnings = useMemo(() => getTrainingBalanceWarnings(volumes), [volumes]);
+  const activeGroup = volumes.find((volume) => volume.muscleGroup === selectedGroup) ?? volumes[0];
+
+  const chartData = useMemo(() => {
+    const weeks = activeGroup?.weeks ?? [];
+    const values = weeks.map((week) => (chartMetric === 'sets' ? week.sets : week.tonnage));
+    const maxValue = Math.max(...values, 0);
+
+    const width = 320;
+    const height = 120;
+    const paddingX = 14;
+    const paddingY = 14;
+    const usableWidth = width - paddingX * 2;
+    const usableHeight = height - paddingY * 2;
+
+    const points = weeks.map((week, index) => {
+      const value = values[index];
+      const x = weeks.length <= 1 ? width / 2 : paddingX + (index / (weeks.length - 1)) * usableWidth;
+      const y = paddingY + (1 - (maxValue > 0 ? value / maxValue : 0)) * usableHeight;
+      return { weekStart: week.weekStart, value, x, y };
+    });
+
+    return {
+      points,
+      polyline: points.map((point) => `${point.x},${point.y}`).join(' '),
+      width,
+      height,
+      maxValue
+    };
+  }, [activeGroup, chartMetric]);
+
+  const formatMetric = (value: number) => (chartMetric === 'sets' ? `${formatSets(value)} sets` : formatWeight(value, unitSystem, 0));
+
+  return (
+    <div className="bg-background font-sans">
+      <RouteHeader title="Training Analytics" onBack={() => pop()} containerClassName="max-w-md mx-auto px-4 py-3" />
+
+      <div className="px-4 pt-4 pb-8 max-w-md mx-auto space-y-4">
+        {!volumeSets ? (
+          <p className="text-sm text-text-muted">Loading analytics...</p>
+        ) : volumes.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-border-subtle p-5 text-center">
+            <ChartBarIcon size={28} className="mx-auto text-text-muted" />
+            <p className="mt-2 font-semibold text-text-main">No training data yet</p>
+            <p className="text-xs text-text-muted mt-1">Complete working sets in a workout to see volume per muscle group.</p>
+          </div>
+        ) : (
+          <>
+            {warnings.length > 0 && (
+              <section className="rounded-2xl border border-amber-500/40 bg-amber-500/10 p-4 space-y-2">
+                <h2 className="flex items-center gap-2 text-sm font-bold text-amber-700">
+                  <WarningIcon size={18} weight="fill" />
+                  Training balance
+                </h2>
+                {warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-text-main">{warning}</p>
+                ))}
+              </section>
+            )}
+
+            <section className="rounded-2xl border border-border-subtle bg-card p-4 shadow-sm space-y-3">
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setChartMetric('sets')}
+                  className={`px-2.5 py-1.5 text-xs font-semibold rounded-lg border ${chartMetric === 'sets' ? 'bg-brand text-white border-brand' : 'bg-surface text-text-muted border-border-subtle'}`}
+                >
+                  Hard Sets
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setChartMetric('tonnage')}
+                  className={`px-2.5 py-1.5 text-xs font-semibold rounded-lg border ${chartMetric === 'tonnage' ? 'bg-brand text-white border-brand' : 'bg-surface text-text-muted border-border-subtle'}`}
+                >
+                  Tonnage
+                </button>
+              </div>
+
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {volumes.map((volume) => (
+                  <button
+                    key={volume.muscleGroup}
+                    type="button"
+                    onClick={() => setSelectedGroup(volume.muscleGroup)}
+                    className={`whitespace-nowrap rounded-full border px-3 py-1.5 text-xs font-semibold ${
+                      activeGroup?.muscleGroup === volume.muscleGroup ? 'border-brand bg-brand text-white' : 'border-border-subtle bg-card text-text-muted'
+                    }`}
+                  >
+                    {volume.muscleGroup}
+                  </button>
+                ))}
+              </div>
+
+              <div className="rounded-xl border border-border-subtle bg-surface p-3">
+                <div className="mb-2 text-[11px] text-text-muted text-center font-semibold">
+                  {activeGroup?.muscleGroup} • peak {formatMetric(chartData.maxValue)} / week
+                </div>
+                <svg viewBox={`0 0 ${chartData.width} ${chartData.height}`} className="w-full h-36">
+                  <polyline fill="none" stroke="currentColor" strokeWidth="2.5" className="text-brand" points={chartData.polyline} />
+                  {chartData.points.map((point) => (
+                    <circle key={point.weekStart} cx={point.x} cy={point.y} r="3.5" className="fill-brand">
+                      <title>{`${formatWeekLabel(point.weekStart)}: ${formatMetric(point.value)}`}</title>
+                    </circle>
+                  ))}
+                </svg>
+                <div className="mt-2 flex justify-between text-[11px] text-text-muted">
+                  <span>{chartData.points[0] ? formatWeekLabel(chartData.points[0].weekStart) : '-'}</span>
+                  <span>This week</span>
+                </div>
+              </div>
+            </section>
+
+            <section className="rounded-2xl border border-border-subtle bg-card shadow-sm overflow-hidden">
+              <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 px-4 py-2 text-[11px] font-bold uppercase tracking-wide text-text-muted border-b border-border-subtle">
+                <span>Muscle group</span>
+                <span className="text-right">This week</span>
+                <span className="text-right">{RECENT_WEEK_COUNT}-wk avg</span>
+              </div>
+              {volumes.map((volume) => {
+                const thisWeek = volume.weeks[volume.weeks.length - 1];
+                return (
+                  <button
+                    key={volume.muscleGroup}
+                    type="button"
+                    onClick={() => setSelectedGroup(volume.muscleGroup)}
+                    className="grid w-full grid-cols-[1fr_auto_auto] gap-x-4 px-4 py-2.5 text-left border-b border-border-subtle last:border-b-0"
+                  >
+                    <span className="font-semibold text-text-main">{volume.muscleGroup}</span>
+                    <span className="text-right text-sm text-text-main">
+                      {formatSets(thisWeek.sets)} sets
+                      <span className="block text-[11px] text-text-muted">{formatWeight(thisWeek.tonnage, unitSystem, 0)}</span>
+                    </span>
+                    <span className="text-right text-sm text-text-main">
+                      {formatSets(volume.recentAverageSets)} sets
+                      <span className="block text-[11px] text-text-muted">{formatWeight(volume.recentAverageTonnage, unitSystem, 0)}</span>
+                    </span>
+                  </button>
+                );
+              })}
+              <p className="px-4 py-2 text-[11px] text-text-muted bg-surface">
+                Completed working sets; secondary muscles count as half a set.
+              </p>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
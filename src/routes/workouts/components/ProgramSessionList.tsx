@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Link } from 'react-router-dom';
+import { PlayIcon } from '@phosphor-icons/react';
+import { db, type WorkoutProgramWeek } from '../../../lib/db';
+import { startNextProgramSession } from '../../../lib/programs';
+import { useStackNavigation } from '../../../lib/useStackNavigation';
+
+export default function ProgramSessionList({ title }: { title?: string }) {
+  const { push } = useStackNavigation();
+  const [startingProgramId, setStartingProgramId] = useState<string | null>(null);
+
+  const programs = useLiveQuery(async () => {
+    const rows = await db.workout_programs.orderBy('updated_at').reverse().toArray();
+    if (!rows.length) return [];
+
+    const routineIds = [...new Set(rows.flatMap((program) => program.routine_ids))];
+    const routines = routineIds.length ? await db.workout_routines.where('id').anyOf(routineIds).toArray() : [];
+    const routineNames = new Map(routines.map((routine) => [routine.id, routine.name]));
+    const weeks = await db.workout_program_weeks.where('program_id').anyOf(rows.map((program) => program.id)).toArray();
+    const weeksByProgram = weeks.reduce<Record<string, WorkoutProgramWeek[]>>((acc, week) => {
+      if (!acc[week.program_id]) acc[week.program_id] = [];
+      acc[week.program_id].push(week);
+      return acc;
+    }, {});
+
+    return rows.map((program) => {
+      const programWeeks = weeksByProgram[program.id] || [];
+      const week = programWeeks.find((item) => item.week_number === program.next_week);
+      const routineId = program.routine_ids[program.next_day - 1];
+      return {
+        program,
+        weekCount: programWeeks.length,
+        weekLabel: week?.name || `Week ${program.next_week}`,
+        isDeload: Boolean(week?.is_deload),
+        routineName: routineId ? routineNames.get(routineId) : undefined
+      };
+    });
+  }, []);
+
+  if (!programs?.length) return null;
+
+  const handleStart = async (programId: string) => {
+    setStartingProgramId(programId);
+    try {
+      const workoutId = await startNextProgramSession(programId);
+      push(`/workouts/${workoutId}`);
+    } catch (error) {
+      console.error('Failed to start program session:', error);
+      alert(error instanceof Error ? error.message : 'Could not start program session.');
+    } finally {
+      setStartingProgramId(null);
+    }
+  };
+
+  return (
+    <section className="mb-6">
+      {title ? <h2 className="text-sm font-bold uppercase tracking-wide text-text-muted mb-2">{title}</h2> : null}
+      <div className="space-y-2">
+        {programs.map(({ program, weekCount, weekLabel, isDeload, routineName }) => (
+          <div key={program.id} className="rounded-xl border border-border-subtle bg-card p-3 flex items-center justify-between gap-3">
+            <Link to={`/workouts/programs/${program.id}`} className="min-w-0 flex-1">
+              <p className="font-semibold text-text-main truncate">{program.name}</p>
+              <p className="text-xs text-text-muted mt-1 truncate">
+                Next: {routineName || 'Missing routine'} • {weekLabel} ({program.next_week}/{weekCount || 1}), day {program.next_day}
+                {isDeload ? ' • deload' : ''}
+              </p>
+            </Link>
+            <button
+              onClick={() => void handleStart(program.id)}
+              disabled={startingProgramId !== null || !routineName}
+              className="rounded-lg bg-brand text-white text-xs font-bold px-3 py-2 disabled:opacity-50 flex items-center gap-1"
+            >
+              <PlayIcon size={12} />
+              {startingProgramId === program.id ? 'Starting...' : 'Start'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
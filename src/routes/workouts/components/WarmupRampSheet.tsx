@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import {
+  buildWarmupSets,
+  DEFAULT_WARMUP_RAMP,
+  insertWarmupSets,
+  readWarmupRamp,
+  saveWarmupRamp,
+  type WarmupStep
+} from '../../../lib/autoregulation';
+import { formatWeight, useUnitSystem } from '../../../lib/units';
+
+export default function WarmupRampSheet({
+  workoutLogEntryId,
+  workingWeight,
+  roundLoad,
+  onClose
+}: {
+  workoutLogEntryId: string;
+  workingWeight: number;
+  roundLoad: (weight: number) => number;
+  onClose: () => void;
+}) {
+  const [ramp, setRamp] = useState<WarmupStep[]>(() => readWarmupRamp());
+  const [isSaving, setIsSaving] = useState(false);
+  const unitSystem = useUnitSystem();
+  const preview = buildWarmupSets(workingWeight, ramp, roundLoad);
+
+  const updateStep = (index: number, field: keyof WarmupStep, value: string) => {
+    const nextValue = Number(value);
+    setRamp((prev) => prev.map((step, stepIndex) => (stepIndex === index ? { ...step, [field]: Number.isFinite(nextValue) ? nextValue : 0 } : step)));
+  };
+
+  const insert = async () => {
+    setIsSaving(true);
+    try {
+      saveWarmupRamp(ramp);
+      await insertWarmupSets(workoutLogEntryId, ramp, roundLoad);
+      onClose();
+    } catch (error) {
+      console.error('Failed to add warmup sets:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add warmup sets');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 flex items-end justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md rounded-t-2xl border border-border-subtle bg-card p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-base font-bold text-text-main">Warmup sets</h2>
+          <p className="text-xs text-text-muted">
+            Percent of the {formatWeight(workingWeight, unitSystem)} working weight, rounded to loads your equipment can make. The ramp is
+            saved for next time.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {ramp.map((step, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="number"
+                value={step.percent || ''}
+                onChange={(e) => updateStep(index, 'percent', e.target.value)}
+                className="col-span-4 rounded-lg border border-border-subtle bg-surface p-2 text-center text-sm font-bold"
+                aria-label="Percent of working weight"
+              />
+              <span className="col-span-1 text-xs text-text-muted">%</span>
+              <input
+                type="number"
+                value={step.reps || ''}
+                onChange={(e) => updateStep(index, 'reps', e.target.value)}
+                className="col-span-3 rounded-lg border border-border-subtle bg-surface p-2 text-center text-sm font-bold"
+                aria-label="Reps"
+              />
+              <span className="col-span-2 text-xs text-text-muted">reps</span>
+              <button
+                type="button"
+                onClick={() => setRamp((prev) => prev.filter((_, stepIndex) => stepIndex !== index))}
+                className="col-span-2 text-xs font-semibold text-red-500"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setRamp((prev) => [...prev, { percent: 90, reps: 1 }])}
+            className="flex-1 rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main"
+          >
+            Add step
+          </button>
+          <button
+            type="button"
+            onClick={() => setRamp(DEFAULT_WARMUP_RAMP)}
+            className="flex-1 rounded-lg border border-border-subtle bg-surface px-3 py-2 text-xs font-semibold text-text-main"
+          >
+            Reset
+          </button>
+        </div>
+
+        <p className="text-xs text-text-muted">
+          {preview.length ? preview.map((set) => `${formatWeight(set.weight, unitSystem)} x ${set.reps}`).join(' → ') : 'No warmup steps'}
+        </p>
+
+        <button
+          type="button"
+          onClick={() => void insert()}
+          disabled={isSaving || !preview.length}
+          className="w-full rounded-xl bg-brand py-3 text-sm font-black text-brand-fg disabled:opacity-60"
+        >
+          {isSaving ? 'Adding...' : `Insert ${preview.length} warmup set${preview.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,29 @@
 import React, { useEffect, useState } from 'react';
+import type { EquipmentProfile } from '../../../lib/db';
+import { formatPlateBreakdown, getLoadingKind, getPlateBreakdown } from '../../../lib/equipment';
+import { formatWeight, getUnitLabels, type UnitSystem } from '../../../lib/units';
 
 export type MetricField = 'weight' | 'reps' | 'distance' | 'duration_seconds' | null;
 
-export function getMetricColumns(metricType?: string): {
+export function getMetricColumns(metricType?: string, units: UnitSystem = 'metric'): {
   first: { label: string; field: MetricField; unit: string };
   second: { label: string; field: MetricField; unit: string };
 } {
+  const { weight, distance } = getUnitLabels(units);
   switch (metricType) {
     case 'distance_duration':
       return {
-        first: { label: 'KM', field: 'distance', unit: 'km' },
+        first: { label: distance.toUpperCase(), field: 'distance', unit: distance },
         second: { label: 'Time', field: 'duration_seconds', unit: 's' },
       };
     case 'distance_weight':
       return {
-        first: { label: 'KM', field: 'distance', unit: 'km' },
-        second: { label: 'kg', field: 'weight', unit: 'kg' },
+        first: { label: distance.toUpperCase(), field: 'distance', unit: distance },
+        second: { label: weight, field: 'weight', unit: weight },
       };
     case 'duration_weight':
       return {
-        first: { label: 'kg', field: 'weight', unit: 'kg' },
+        first: { label: weight, field: 'weight', unit: weight },
         second: { label: 'Time', field: 'duration_seconds', unit: 's' },
       };
     case 'duration':
@@ -36,12 +40,42 @@ export function getMetricColumns(metricType?: string): {
     case 'weight_reps':
     default:
       return {
-        first: { label: 'kg', field: 'weight', unit: 'kg' },
+        first: { label: weight, field: 'weight', unit: weight },
         second: { label: 'Reps', field: 'reps', unit: 'reps' },
       };
   }
 }
 
+export const PlateLoadHint = ({
+  weight,
+  equipment,
+  profile,
+  units = 'metric',
+  className = '',
+}: {
+  weight?: number;
+  equipment?: string;
+  profile: EquipmentProfile;
+  units?: UnitSystem;
+  className?: string;
+}) => {
+  const totalWeight = Number(weight) || 0;
+  if (totalWeight <= 0 || !equipment || getLoadingKind(equipment, profile) !== 'plates') return null;
+
+  const barWeight = profile.bar_weights[equipment] ?? 0;
+  if (totalWeight < barWeight) {
+    return <p className={`text-[10px] font-semibold text-amber-600 ${className}`}>Below the {formatWeight(barWeight, units)} bar</p>;
+  }
+
+  const breakdown = getPlateBreakdown(totalWeight, barWeight, profile.plates);
+  return (
+    <p className={`text-[10px] font-semibold ${breakdown.remainder > 0 ? 'text-amber-600' : 'text-text-muted'} ${className}`}>
+      {formatWeight(barWeight, units)} bar • {formatPlateBreakdown(breakdown, units)}
+      {breakdown.remainder > 0 ? ` (${formatWeight(breakdown.remainder, units, 2)}/side short)` : ''}
+    </p>
+  );
+};
+
 export const DurationScrollerInput = ({
   valueSeconds,
   onChange,
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { TrashIcon } from '@phosphor-icons/react';
+import type { EquipmentProfile } from '../../../lib/db';
+import {
+  EQUIPMENT_TYPES,
+  formatPlateBreakdown,
+  getDefaultEquipmentProfile,
+  getEquipmentProfile,
+  getPlateBreakdown,
+  saveEquipmentProfile
+} from '../../../lib/equipment';
+import { formatWeight, fromDisplayWeight, getUnitLabels, roundTo, toDisplayWeight, useUnitSystem } from '../../../lib/units';
+import { useStackNavigation } from '../../../lib/useStackNavigation';
+import RouteHeader from '../../../lib/components/RouteHeader';
+
+const parsePlates = (value: string) =>
+  value
+    .split(/[,\s]+/)
+    .map((item) => Number(item))
+    .filter((item) => Number.isFinite(item) && item > 0);
+
+export default function EquipmentProfilePage() {
+  const { pop } = useStackNavigation();
+  const unitSystem = useUnitSystem();
+  const weightUnit = getUnitLabels(unitSystem).weight;
+  const toDisplay = (kg: number) => roundTo(toDisplayWeight(kg, unitSystem), 2);
+  const toStored = (value: number) => roundTo(fromDisplayWeight(value, unitSystem), 3);
+  const [profile, setProfile] = useState<EquipmentProfile | null>(null);
+  const [platesText, setPlatesText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewWeight, setPreviewWeight] = useState(100);
+
+  // Plates are typed in the user's units; the profile itself is always kept in kg.
+  useEffect(() => {
+    void getEquipmentProfile().then((stored) => {
+      setProfile(stored);
+      setPlatesText(stored.plates.map(toDisplay).join(', '));
+    });
+  }, [unitSystem]);
+
+  if (!profile) {
+    return (
+      <div className="bg-background font-sans">
+        <RouteHeader title="Gym Equipment" onBack={() => pop()} containerClassName="max-w-md mx-auto px-4 py-3" />
+        <p className="px-4 pt-4 max-w-md mx-auto text-sm text-text-muted">Loading equipment...</p>
+      </div>
+    );
+  }
+
+  const plates = parsePlates(platesText).map(toStored);
+  const unusedBarTypes = EQUIPMENT_TYPES.filter((equipment) => !(equipment in profile.bar_weights));
+  const previewBarWeight = profile.bar_weights.Barbell ?? Object.values(profile.bar_weights)[0] ?? 0;
+  const previewBreakdown = getPlateBreakdown(toStored(previewWeight), previewBarWeight, plates);
+
+  const setBarWeight = (equipment: string, weight: number | null) => {
+    setProfile((prev) => {
+      if (!prev) return prev;
+      const barWeights = { ...prev.bar_weights };
+      if (weight === null) delete barWeights[equipment];
+      else barWeights[equipment] = weight;
+      return { ...prev, bar_weights: barWeights };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveEquipmentProfile({ ...profile, plates });
+      pop();
+    } catch (error) {
+      console.error('Failed to save equipment profile:', error);
+      alert('Could not save equipment profile.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-background font-sans">
+      <RouteHeader
+        title="Gym Equipment"
+        onBack={() => pop()}
+        containerClassName="max-w-md mx-auto px-4 py-3"
+        rightAction={
+          <button
+            onClick={() => void handleSave()}
+            disabled={isSaving}
+            className="bg-brand text-white px-3 py-2 rounded-xl text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        }
+      />
+
+      <div className="px-4 pt-4 pb-8 max-w-md mx-auto space-y-5">
+        <p className="text-sm text-text-muted">
+          Suggested weights are rounded to loads you can make with this equipment, and barbell sets show how to load the bar.
+        </p>
+
+        <section className="rounded-2xl border border-border-subtle bg-card p-4 space-y-2">
+          <h2 className="text-sm font-bold text-text-main">Plates ({weightUnit})</h2>
+          <input
+            value={platesText}
+            onChange={(event) => setPlatesText(event.target.value)}
+            placeholder={unitSystem === 'imperial' ? '45, 35, 25, 10, 5, 2.5' : '25, 20, 15, 10, 5, 2.5, 1.25'}
+            className="w-full rounded-lg border border-border-subtle bg-surface px-3 py-2 text-sm font-semibold"
+          />
+          <div className="flex items-center gap-2 text-xs text-text-muted">
+            <span>Try</span>
+            <input
+              type="number"
+              value={previewWeight}
+              onChange={(event) => setPreviewWeight(Number(event.target.value) || 0)}
+              className="w-20 rounded-lg border border-border-subtle bg-surface px-2 py-1 text-center text-sm font-semibold text-text-main"
+            />
+            <span>
+              {weightUnit} → {formatPlateBreakdown(previewBreakdown, unitSystem)}
+              {previewBreakdown.remainder > 0 ? ` (${formatWeight(previewBreakdown.remainder, unitSystem, 2)}/side short)` : ''}
+            </span>
+          </div>
+        </section>
+
+        <section className="rounded-2xl border border-border-subtle bg-card p-4 space-y-2">
+          <h2 className="text-sm font-bold text-text-main">Bar weights</h2>
+          <p className="text-xs text-text-muted">Equipment listed here is loaded with plates on top of the bar or sled weight.</p>
+          {Object.entries(profile.bar_weights).map(([equipment, weight]) => (
+            <div key={equipment} className="flex items-center gap-2">
+              <span className="flex-1 text-sm font-semibold text-text-main">{equipment}</span>
+              <input
+                type="number"
+                value={toDisplay(weight)}
+                onChange={(event) => setBarWeight(equipment, toStored(Math.max(0, Number(event.target.value) || 0)))}
+                className="w-20 rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-center text-sm font-semibold"
+              />
+              <span className="text-xs text-text-muted">{weightUnit}</span>
+              <button onClick={() => setBarWeight(equipment, null)} className="p-1 text-red-500" aria-label={`Remove ${equipment}`}>
+                <TrashIcon size={14} />
+              </button>
+            </div>
+          ))}
+          {unusedBarTypes.length ? (
+            <select
+              value=""
+              onChange={(event) => {
+                if (event.target.value) setBarWeight(event.target.value, 0);
+              }}
+              className="w-full rounded-lg border border-dashed border-border-subtle bg-surface px-3 py-2 text-xs font-bold text-brand"
+            >
+              <option value="">+ Plate-loaded equipment</option>
+              {unusedBarTypes.map((equipment) => (
+                <option key={equipment} value={equipment}>{equipment}</option>
+              ))}
+            </select>
+          ) : null}
+        </section>
+
+        <section className="rounded-2xl border border-border-subtle bg-card p-4 space-y-3">
+          <label className="flex items-center justify-between gap-3 text-sm font-semibold text-text-main">
+            Dumbbell / kettlebell increment ({weightUnit})
+            <input
+              type="number"
+              value={toDisplay(profile.dumbbell_increment)}
+              onChange={(event) => setProfile({ ...profile, dumbbell_increment: toStored(Math.max(0, Number(event.target.value) || 0)) })}
+              className="w-20 rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-center text-sm"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-sm font-semibold text-text-main">
+            Machine / cable stack step ({weightUnit})
+            <input
+              type="number"
+              value={toDisplay(profile.machine_step)}
+              onChange={(event) => setProfile({ ...profile, machine_step: toStored(Math.max(0, Number(event.target.value) || 0)) })}
+              className="w-20 rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-center text-sm"
+            />
+          </label>
+        </section>
+
+        <button
+          onClick={() => {
+            const defaults = getDefaultEquipmentProfile(unitSystem);
+            setProfile(defaults);
+            setPlatesText(defaults.plates.map(toDisplay).join(', '));
+          }}
+          className="w-full rounded-xl border border-border-subtle bg-card py-3 text-sm font-semibold text-text-main"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../../lib/db';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
 import RouteHeader from '../../../lib/components/RouteHeader';
+import { formatWeight, useUnitSystem } from '../../../lib/units';
+import { formatPersonalRecordValue, PERSONAL_RECORD_LABELS } from '../../../lib/personalRecords';
 
 type WorkoutMediaEntry = {
   sourceId: string;
@@ -80,6 +82,7 @@ const estimateOneRepMax = (weight: number, reps: number) => {
 export default function ExerciseDetails() {
   const { id } = useParams();
   const { pop } = useStackNavigation();
+  const unitSystem = useUnitSystem();
   const [fallback, setFallback] = useState<{ videoPath?: string; thumbnailPath?: string }>({});
   const [activeTab, setActiveTab] = useState<'summary' | 'history'>('summary');
   const [summaryChartMetric, setSummaryChartMetric] = useState<SummaryChartMetric>('heaviest');
@@ -277,6 +280,12 @@ export default function ExerciseDetails() {
     };
   }, [id]);
 
+  const recentRecords = useLiveQuery(async () => {
+    if (!id) return [];
+    const records = await db.workout_personal_records.where('exercise_id').equals(id).toArray();
+    return records.sort((a, b) => (a.achieved_at < b.achieved_at ? 1 : -1)).slice(0, 5);
+  }, [id]);
+
   const historyByWorkout = useMemo(() => {
     const grouped = new Map<string, { workoutId: string; workoutName: string; workoutDate: string; sets: HistorySetRow[] }>();
     const rows = historyData?.rows || [];
@@ -491,7 +500,7 @@ export default function ExerciseDetails() {
               {summaryChartData.points.length ? (
                 <>
                   <div className="mb-2 text-[11px] text-text-muted text-center font-semibold min-h-4">
-                    {selectedPoint ? `${selectedPoint.label} • ${Math.round(selectedPoint.value)}kg` : '-'}
+                    {selectedPoint ? `${selectedPoint.label} • ${formatWeight(selectedPoint.value, unitSystem, 0)}` : '-'}
                   </div>
                   <svg viewBox={`0 0 ${summaryChartData.width} ${summaryChartData.height}`} className="w-full h-36">
                     <polyline
@@ -539,24 +548,39 @@ export default function ExerciseDetails() {
             <div className="rounded-xl border border-border-subtle bg-surface divide-y divide-border-subtle text-sm">
               <div className="px-3 py-2.5 flex items-center justify-between gap-3">
                 <span className="text-[11px] font-semibold uppercase tracking-wide text-text-muted">Heaviest Weight</span>
-                <span className="text-text-main font-mono font-bold">{historyData?.heaviest ? `${Math.round(historyData.heaviest.weight)}kg × ${Math.round(historyData.heaviest.reps)}` : '-'}</span>
+                <span className="text-text-main font-mono font-bold">{historyData?.heaviest ? `${formatWeight(historyData.heaviest.weight, unitSystem, 0)} × ${Math.round(historyData.heaviest.reps)}` : '-'}</span>
               </div>
               <div className="px-3 py-2.5 flex items-center justify-between gap-3">
                 <span className="text-[11px] font-semibold uppercase tracking-wide text-text-muted">Best Set Volume</span>
-                <span className="text-text-main font-mono font-bold">{historyData?.bestSetVolume ? `${Math.round(historyData.bestSetVolume.volume)}kg` : '-'}</span>
+                <span className="text-text-main font-mono font-bold">{historyData?.bestSetVolume ? `${formatWeight(historyData.bestSetVolume.volume, unitSystem, 0)}` : '-'}</span>
               </div>
             </div>
 
             <div className="rounded-lg border border-border-subtle bg-surface p-3 text-xs text-text-muted space-y-1">
               <p>
                 <span className="font-semibold">Heaviest:</span>{' '}
-                {historyData?.heaviest ? `${Math.round(historyData.heaviest.weight)}kg × ${Math.round(historyData.heaviest.reps)} • ${formatDate(historyData.heaviest.workoutDate)}` : '-'}
+                {historyData?.heaviest ? `${formatWeight(historyData.heaviest.weight, unitSystem, 0)} × ${Math.round(historyData.heaviest.reps)} • ${formatDate(historyData.heaviest.workoutDate)}` : '-'}
               </p>
               <p>
                 <span className="font-semibold">Best Volume Source:</span>{' '}
-                {historyData?.bestSetVolume ? `${Math.round(historyData.bestSetVolume.weight)}kg × ${Math.round(historyData.bestSetVolume.reps)} • ${formatDate(historyData.bestSetVolume.workoutDate)}` : '-'}
+                {historyData?.bestSetVolume ? `${formatWeight(historyData.bestSetVolume.weight, unitSystem, 0)} × ${Math.round(historyData.bestSetVolume.reps)} • ${formatDate(historyData.bestSetVolume.workoutDate)}` : '-'}
               </p>
             </div>
+
+            {recentRecords?.length ? (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-semibold uppercase tracking-wide text-text-muted">Recent PRs</span>
+                  <Link to="/workouts/records" className="text-xs font-semibold text-brand">All records</Link>
+                </div>
+                {recentRecords.map((record) => (
+                  <div key={record.id} className="flex items-center justify-between gap-3 text-xs">
+                    <span className="text-text-muted">{formatDate(record.achieved_at)} • {PERSONAL_RECORD_LABELS[record.record_type]}</span>
+                    <span className="font-mono font-bold text-text-main">{formatPersonalRecordValue(record, unitSystem)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
           </section>
         </>
       ) : (
@@ -595,7 +619,7 @@ export default function ExerciseDetails() {
                       {group.sets.map((setRow, setIdx) => (
                         <p key={`${group.workoutDate}-${setRow.setNumber}-${setIdx}`} className="text-text-main">
                           <span className="font-semibold text-text-muted mr-2">{setRow.setNumber}</span>
-                          <span className="font-medium">{Math.round(setRow.weight)}kg x {Math.round(setRow.reps)}</span>
+                          <span className="font-medium">{formatWeight(setRow.weight, unitSystem, 0)} x {Math.round(setRow.reps)}</span>
                         </p>
                       ))}
                     </div>
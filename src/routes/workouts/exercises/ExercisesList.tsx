@@ -9,12 +9,13 @@ import {
 } from '@phosphor-icons/react';
 import { db, type WorkoutSet } from '../../../lib/db';
 import { generateId } from '../../../lib';
+import { clearPersonalRecordsForEntries, recomputePersonalRecords } from '../../../lib/personalRecords';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
 import { syncWorkoutExerciseThumbnailPaths } from '../../../lib/workoutMedia';
+import { EQUIPMENT_TYPES } from '../../../lib/equipment';
 import RouteHeader from '../../../lib/components/RouteHeader';
 
 const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Other'];
-const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Cable', 'Bodyweight', 'Kettlebell', 'Band', 'None'];
 
 type WorkoutMediaEntry = {
     sourceId: string;
@@ -241,6 +242,7 @@ export default function ExerciseSelector() {
             duration_seconds: set.duration_seconds,
             rpe: set.rpe,
             is_warmup: set.is_warmup,
+            set_type: set.set_type,
             completed: false,
             created_at: new Date(),
             synced: 0,
@@ -258,9 +260,10 @@ export default function ExerciseSelector() {
         if (isReplaceMode && replaceEntryId) {
             const replacementExerciseId = ids[0];
 
-            await db.transaction('rw', [db.workout_log_entries, db.workout_sets, db.workouts], async () => {
+            await db.transaction('rw', [db.workout_log_entries, db.workout_sets, db.workouts, db.workout_exercises_def, db.workout_personal_records], async () => {
                 const entry = await db.workout_log_entries.get(replaceEntryId);
                 if (!entry || entry.workout_id !== workoutId) return;
+                const workout = await db.workouts.get(workoutId);
 
                 const setDrafts = await getDefaultSetsFromPreviousWorkout(replacementExerciseId, workoutId);
 
@@ -269,7 +272,9 @@ export default function ExerciseSelector() {
                     synced: 0,
                 });
 
+                await clearPersonalRecordsForEntries([replaceEntryId]);
                 await db.workout_sets.where('workout_log_entry_id').equals(replaceEntryId).delete();
+                if (workout) await recomputePersonalRecords([entry.exercise_id], workout.start_time);
 
                 for (const draft of setDrafts) {
                     await db.workout_sets.add({
@@ -4,12 +4,12 @@ import { FloppyDiskIcon as SaveIcon } from '@phosphor-icons/react';
 import { db } from '../../../../lib/db';
 import { generateId } from '../../../../lib';
 import { METRIC_TYPES, type MetricType } from '../../../../lib/workouts';
+import { EQUIPMENT_TYPES } from '../../../../lib/equipment';
 import { useStackNavigation } from '../../../../lib/useStackNavigation';
 import RouteHeader from '../../../../lib/components/RouteHeader';
 
 // Constants moved outside component to prevent re-renders
 const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Other'];
-const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Cable', 'Bodyweight', 'Kettlebell', 'Band', 'None'];
 
 export default function NewExercise() {
     const navigate = useNavigate();
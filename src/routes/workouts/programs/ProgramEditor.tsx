@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useParams } from 'react-router-dom';
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon } from '@phosphor-icons/react';
+import { db, type WorkoutExerciseDef } from '../../../lib/db';
+import {
+  deleteProgram,
+  getProgramWeeks,
+  PROGRAM_TEMPLATES,
+  saveProgram,
+  setTrainingMax,
+  type ProgramTemplateId,
+  type ProgramWeekPlan
+} from '../../../lib/programs';
+import { useStackNavigation } from '../../../lib/useStackNavigation';
+import { fromDisplayWeight, getUnitLabels, roundTo, toDisplayWeight, useUnitSystem } from '../../../lib/units';
+import RouteHeader from '../../../lib/components/RouteHeader';
+
+type WeekDraft = Omit<ProgramWeekPlan, 'set_percents' | 'set_reps'> & {
+  percentsText: string;
+  repsText: string;
+};
+
+const toWeekDraft = (week: ProgramWeekPlan): WeekDraft => ({
+  name: week.name,
+  intensity_modifier: week.intensity_modifier,
+  volume_modifier: week.volume_modifier,
+  is_deload: week.is_deload,
+  percentsText: (week.set_percents ?? []).join(', '),
+  repsText: (week.set_reps ?? []).join(', ')
+});
+
+const parseNumberList = (value: string) =>
+  value
+    .split(/[,\s]+/)
+    .map((item) => Number(item))
+    .filter((item) => Number.isFinite(item) && item > 0);
+
+const fromWeekDraft = ({ percentsText, repsText, ...week }: WeekDraft): ProgramWeekPlan => ({
+  ...week,
+  is_deload: Boolean(week.is_deload),
+  set_percents: parseNumberList(percentsText),
+  set_reps: parseNumberList(repsText).map((reps) => Math.round(reps))
+});
+
+const isLoadedMetric = (def?: WorkoutExerciseDef) =>
+  !def?.metric_type || def.metric_type === 'weight_reps' || def.metric_type === 'weighted_bodyweight';
+
+export default function ProgramEditor() {
+  const { id } = useParams();
+  const programId = id === 'new' ? null : (id || null);
+  const { pop } = useStackNavigation();
+  const unitSystem = useUnitSystem();
+  const weightUnit = getUnitLabels(unitSystem).weight;
+
+  const [name, setName] = useState('New Program');
+  const [routineIds, setRoutineIds] = useState<string[]>([]);
+  const [increment, setIncrement] = useState(PROGRAM_TEMPLATES.five_three_one.trainingMaxIncrement);
+  const [weeks, setWeeks] = useState<WeekDraft[]>(() => PROGRAM_TEMPLATES.five_three_one.weeks.map(toWeekDraft));
+  const [templateId, setTemplateId] = useState<ProgramTemplateId>('five_three_one');
+  const [isLoaded, setIsLoaded] = useState(!programId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const program = useLiveQuery(() => (programId ? db.workout_programs.get(programId) : undefined), [programId]);
+  const userId = program?.user_id || 'local-user';
+
+  useEffect(() => {
+    if (!programId || isLoaded || !program) return;
+    let cancelled = false;
+    void getProgramWeeks(programId).then((programWeeks) => {
+      if (cancelled) return;
+      setName(program.name);
+      setRoutineIds(program.routine_ids);
+      setIncrement(program.training_max_increment);
+      setWeeks(programWeeks.map(toWeekDraft));
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, program, programId]);
+
+  const routines = useLiveQuery(() => db.workout_routines.orderBy('name').toArray(), []);
+  const routineNames = useMemo(
+    () => new Map((routines || []).map((routine) => [routine.id, routine.name || 'Routine'])),
+    [routines]
+  );
+
+  const programExercises = useLiveQuery(async () => {
+    if (!routineIds.length) return [];
+    const entries = await db.workout_routine_entries.where('routine_id').anyOf(routineIds).toArray();
+    const exerciseIds = [...new Set(entries.map((entry) => entry.exercise_id))];
+    const defs = await db.workout_exercises_def.where('id').anyOf(exerciseIds).toArray();
+    return defs.filter(isLoadedMetric).sort((a, b) => a.name.localeCompare(b.name));
+  }, [routineIds]);
+
+  const trainingMaxes = useLiveQuery(async () => {
+    const rows = await db.workout_training_maxes.where('user_id').equals(userId).toArray();
+    return rows.reduce<Record<string, number>>((acc, row) => {
+      acc[row.exercise_id] = row.training_max;
+      return acc;
+    }, {});
+  }, [userId]);
+
+  const applyTemplate = (nextTemplateId: ProgramTemplateId) => {
+    const template = PROGRAM_TEMPLATES[nextTemplateId];
+    setTemplateId(nextTemplateId);
+    setIncrement(template.trainingMaxIncrement);
+    setWeeks(template.weeks.map(toWeekDraft));
+  };
+
+  const updateWeek = (index: number, changes: Partial<WeekDraft>) => {
+    setWeeks((prev) => prev.map((week, weekIndex) => (weekIndex === index ? { ...week, ...changes } : week)));
+  };
+
+  const moveRoutine = (index: number, direction: -1 | 1) => {
+    setRoutineIds((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!routineIds.length) {
+      alert('Add at least one routine as a training day.');
+      return;
+    }
+    if (!weeks.length) {
+      alert('Add at least one week.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveProgram(
+        { id: programId ?? undefined, user_id: program?.user_id, name, routine_ids: routineIds, training_max_increment: increment },
+        weeks.map(fromWeekDraft)
+      );
+      pop();
+    } catch (error) {
+      console.error('Failed to save program:', error);
+      alert('Could not save this program.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!programId || !window.confirm('Delete this program? Logged workouts are kept.')) return;
+    try {
+      await deleteProgram(programId);
+      pop();
+    } catch (error) {
+      console.error('Failed to delete program:', error);
+      alert('Could not delete this program.');
+    }
+  };
+
+  const handleResetPosition = async () => {
+    if (!programId) return;
+    await db.workout_programs.update(programId, { next_week: 1, next_day: 1, updated_at: new Date(), synced: 0 });
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="bg-background font-sans">
+        <RouteHeader title="Program" onBack={() => pop()} containerClassName="max-w-md mx-auto px-4 py-3" />
+        <p className="px-4 pt-4 max-w-md mx-auto text-sm text-text-muted">
+          Loading program...
+        </p>
+      </div>
+    );
+  }
+
+  const availableRoutines = routines || [];
+
+  return (
+    <div className="bg-background font-sans">
+      <RouteHeader
+        title="Program"
+        onBack={() => pop()}
+        containerClassName="max-w-md mx-auto px-4 py-3"
+        rightAction={
+          <button
+            onClick={() => void handleSave()}
+            disabled={isSaving}
+            className="bg-brand text-white px-3 py-2 rounded-xl text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        }
+      />
+
+      <div className="px-4 pt-4 pb-8 max-w-md mx-auto space-y-5">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Program name"
+          className="w-full rounded-xl border border-border-subtle bg-card px-3 py-3 text-base font-semibold text-text-main"
+        />
+
+        {program ? (
+          <div className="rounded-xl border border-border-subtle bg-card p-3 flex items-center justify-between gap-3">
+            <p className="text-xs text-text-muted">
+              Next session: week {program.next_week}, day {program.next_day} • cycle {program.cycle}
+            </p>
+            <button
+              onClick={() => void handleResetPosition()}
+              className="rounded-lg border border-border-subtle bg-surface px-2 py-1 text-xs font-semibold text-text-main"
+            >
+              Restart
+            </button>
+          </div>
+        ) : (
+          <section>
+            <h2 className="text-sm font-bold uppercase tracking-wide text-text-muted mb-2">Template</h2>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(PROGRAM_TEMPLATES) as ProgramTemplateId[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => applyTemplate(option)}
+                  className={`rounded-xl border px-2 py-2 text-xs font-bold ${
+                    templateId === option ? 'border-brand bg-brand/10 text-brand' : 'border-border-subtle bg-card text-text-main'
+                  }`}
+                >
+                  {PROGRAM_TEMPLATES[option].label}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-text-muted">{PROGRAM_TEMPLATES[templateId].description}</p>
+          </section>
+        )}
+
+        <section>
+          <h2 className="text-sm font-bold uppercase tracking-wide text-text-muted mb-2">Days</h2>
+          <div className="space-y-2">
+            {routineIds.map((routineId, index) => (
+              <div key={`${routineId}:${index}`} className="rounded-xl border border-border-subtle bg-card p-3 flex items-center gap-2">
+                <span className="text-xs font-bold text-text-muted w-10">Day {index + 1}</span>
+                <span className="flex-1 min-w-0 truncate text-sm font-semibold text-text-main">
+                  {routineNames.get(routineId) || 'Missing routine'}
+                </span>
+                <button onClick={() => moveRoutine(index, -1)} disabled={index === 0} className="p-1 text-text-muted disabled:opacity-40" aria-label="Move day up">
+                  <ArrowUpIcon size={14} />
+                </button>
+                <button
+                  onClick={() => moveRoutine(index, 1)}
+                  disabled={index === routineIds.length - 1}
+                  className="p-1 text-text-muted disabled:opacity-40"
+                  aria-label="Move day down"
+                >
+                  <ArrowDownIcon size={14} />
+                </button>
+                <button
+                  onClick={() => setRoutineIds((prev) => prev.filter((_, routineIndex) => routineIndex !== index))}
+                  className="p-1 text-red-500"
+                  aria-label="Remove day"
+                >
+                  <TrashIcon size={14} />
+                </button>
+              </div>
+            ))}
+            <select
+              value=""
+              onChange={(event) => {
+                const nextRoutineId = event.target.value;
+                if (nextRoutineId) setRoutineIds((prev) => [...prev, nextRoutineId]);
+              }}
+              className="w-full rounded-xl border-2 border-dashed border-border-subtle bg-card px-3 py-3 text-sm font-bold text-brand"
+            >
+              <option value="">{availableRoutines.length ? '+ Add a routine as a day' : 'Build a routine first'}</option>
+              {availableRoutines.map((routine) => (
+                <option key={routine.id} value={routine.id}>{routine.name || 'Routine'}</option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-sm font-bold uppercase tracking-wide text-text-muted mb-2">Weeks</h2>
+          <p className="mb-2 text-xs text-text-muted">
+            Set percents of training max replace the routine's sets for exercises with a training max. Otherwise the
+            routine's loads and set counts are scaled by intensity and volume.
+          </p>
+          <div className="space-y-3">
+            {weeks.map((week, index) => (
+              <div key={index} className="rounded-2xl border border-border-subtle bg-card p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-text-muted">W{index + 1}</span>
+                  <input
+                    value={week.name || ''}
+                    onChange={(event) => updateWeek(index, { name: event.target.value })}
+                    placeholder={`Week ${index + 1}`}
+                    className="flex-1 rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-sm font-semibold"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-text-muted">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(week.is_deload)}
+                      onChange={(event) => updateWeek(index, { is_deload: event.target.checked })}
+                    />
+                    Deload
+                  </label>
+                  <button
+                    onClick={() => setWeeks((prev) => prev.filter((_, weekIndex) => weekIndex !== index))}
+                    className="p-1 text-red-500"
+                    aria-label="Remove week"
+                  >
+                    <TrashIcon size={14} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-[11px] font-semibold uppercase tracking-wide text-text-muted">
+                  <label>
+                    Intensity %
+                    <input
+                      type="number"
+                      value={Math.round(week.intensity_modifier * 1000) / 10}
+                      onChange={(event) => updateWeek(index, { intensity_modifier: (Number(event.target.value) || 0) / 100 })}
+                      className="mt-1 w-full rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-sm text-text-main"
+                    />
+                  </label>
+                  <label>
+                    Volume %
+                    <input
+                      type="number"
+                      value={Math.round(week.volume_modifier * 1000) / 10}
+                      onChange={(event) => updateWeek(index, { volume_modifier: (Number(event.target.value) || 0) / 100 })}
+                      className="mt-1 w-full rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-sm text-text-main"
+                    />
+                  </label>
+                  <label>
+                    Sets, % of TM
+                    <input
+                      value={week.percentsText}
+                      onChange={(event) => updateWeek(index, { percentsText: event.target.value })}
+                      placeholder="65, 75, 85"
+                      className="mt-1 w-full rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-sm text-text-main"
+                    />
+                  </label>
+                  <label>
+                    Reps per set
+                    <input
+                      value={week.repsText}
+                      onChange={(event) => updateWeek(index, { repsText: event.target.value })}
+                      placeholder="5, 5, 5"
+                      className="mt-1 w-full rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-sm text-text-main"
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() =>
+                setWeeks((prev) => [
+                  ...prev,
+                  prev.length
+                    ? { ...prev[prev.length - 1], name: `Week ${prev.length + 1}`, is_deload: false }
+                    : toWeekDraft(PROGRAM_TEMPLATES.custom.weeks[0])
+                ])
+              }
+              className="w-full rounded-2xl border-2 border-dashed border-border-subtle py-3 text-sm font-bold text-brand flex items-center justify-center gap-2"
+            >
+              <PlusIcon size={16} />
+              Add Week
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-sm font-bold uppercase tracking-wide text-text-muted mb-2">Training maxes</h2>
+          <label className="mb-2 flex items-center justify-between gap-3 text-xs text-text-muted">
+            Added to every training max after each cycle ({weightUnit})
+            <input
+              type="number"
+              value={roundTo(toDisplayWeight(increment, unitSystem), 2)}
+              onChange={(event) => setIncrement(fromDisplayWeight(Math.max(0, Number(event.target.value) || 0), unitSystem))}
+              className="w-20 rounded-lg border border-border-subtle bg-card px-2 py-1.5 text-sm text-text-main text-center"
+            />
+          </label>
+          {!programExercises?.length ? (
+            <p className="text-xs text-text-muted">Add routines with weighted exercises to set their training maxes.</p>
+          ) : (
+            <div className="space-y-2">
+              {programExercises.map((exercise) => (
+                <div key={exercise.id} className="rounded-xl border border-border-subtle bg-card p-3 flex items-center gap-3">
+                  <span className="flex-1 min-w-0 truncate text-sm font-semibold text-text-main">{exercise.name}</span>
+                  <input
+                    key={`${exercise.id}:${trainingMaxes?.[exercise.id] ?? ''}:${unitSystem}`}
+                    type="number"
+                    defaultValue={trainingMaxes?.[exercise.id] ? roundTo(toDisplayWeight(trainingMaxes[exercise.id], unitSystem)) : ''}
+                    placeholder={weightUnit}
+                    onBlur={(event) => {
+                      const value = fromDisplayWeight(Number(event.target.value), unitSystem);
+                      if (!Number.isFinite(value) || value === (trainingMaxes?.[exercise.id] ?? 0)) return;
+                      void setTrainingMax(userId, exercise.id, value).catch((error) => {
+                        console.error('Failed to save training max:', error);
+                        alert('Could not save training max.');
+                      });
+                    }}
+                    className="w-24 rounded-lg border border-border-subtle bg-surface px-2 py-1.5 text-center text-sm font-bold"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {programId ? (
+          <button
+            onClick={() => void handleDelete()}
+            className="w-full py-4 text-red-500 text-sm font-medium hover:bg-surface-secondary rounded-xl transition-colors"
+          >
+            Delete Program
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { TrophyIcon } from '@phosphor-icons/react';
+import { db, type PersonalRecordType } from '../../../lib/db';
+import { formatPersonalRecordValue, PERSONAL_RECORD_LABELS } from '../../../lib/personalRecords';
+import { useUnitSystem } from '../../../lib/units';
+import { useStackNavigation } from '../../../lib/useStackNavigation';
+import RouteHeader from '../../../lib/components/RouteHeader';
+
+const formatDay = (iso: string) => {
+  const parsed = new Date(iso);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return parsed.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function PersonalRecords() {
+  const { pop } = useStackNavigation();
+  const unitSystem = useUnitSystem();
+  const [recordType, setRecordType] = useState<PersonalRecordType | 'all'>('all');
+
+  const records = useLiveQuery(async () => {
+    const allRecords = await db.workout_personal_records.orderBy('achieved_at').reverse().toArray();
+    // Records outlive sets removed after the fact; only show the ones that still exist.
+    const sets = await db.workout_sets.bulkGet(allRecords.map((record) => record.workout_set_id));
+    const exercises = await db.workout_exercises_def.bulkGet([...new Set(allRecords.map((record) => record.exercise_id))]);
+    const exerciseNames = new Map(exercises.map((exercise) => [exercise?.id, exercise?.name]));
+
+    return allRecords
+      .filter((_, index) => sets[index]?.completed)
+      .map((record) => ({ ...record, exerciseName: exerciseNames.get(record.exercise_id) || 'Exercise' }));
+  }, []);
+
+  const recordsByDay = useMemo(() => {
+    const visible = (records || []).filter((record) => recordType === 'all' || record.record_type === recordType);
+    return visible.reduce<Array<{ day: string; items: typeof visible }>>((acc, record) => {
+      const day = formatDay(record.achieved_at);
+      const last = acc[acc.length - 1];
+      if (last?.day === day) last.items.push(record);
+      else acc.push({ day, items: [record] });
+      return acc;
+    }, []);
+  }, [recordType, records]);
+
+  const filterOptions: Array<PersonalRecordType | 'all'> = ['all', ...(Object.keys(PERSONAL_RECORD_LABELS) as PersonalRecordType[])];
+
+  return (
+    <div className="bg-background font-sans">
+      <RouteHeader title="Personal Records" onBack={() => pop()} containerClassName="max-w-md mx-auto px-4 py-3" />
+
+      <div className="px-4 pt-4 pb-8 max-w-md mx-auto space-y-4">
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {filterOptions.map((option) => (
+            <button
+              key={option}
+              onClick={() => setRecordType(option)}
+              className={`whitespace-nowrap rounded-full border px-3 py-1.5 text-xs font-semibold ${
+                recordType === option ? 'border-brand bg-brand text-white' : 'border-border-subtle bg-card text-text-muted'
+              }`}
+            >
+              {option === 'all' ? 'All' : PERSONAL_RECORD_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {!records ? (
+          <p className="text-sm text-text-muted">Loading records...</p>
+        ) : recordsByDay.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-border-subtle p-5 text-center">
+            <TrophyIcon size={28} className="mx-auto text-text-muted" />
+            <p className="mt-2 font-semibold text-text-main">No records yet</p>
+            <p className="text-xs text-text-muted mt-1">Beat a previous best in a workout and it will show up here.</p>
+          </div>
+        ) : (
+          recordsByDay.map(({ day, items }) => (
+            <section key={day} className="space-y-2">
+              <h2 className="text-xs font-bold uppercase tracking-wide text-text-muted">{day}</h2>
+              {items.map((record) => (
+                <Link
+                  key={record.id}
+                  to={`/workouts/exercises/${encodeURIComponent(record.exercise_id)}`}
+                  className="flex items-center gap-3 rounded-2xl border border-border-subtle bg-card p-3"
+                >
+                  <div className="h-9 w-9 flex-shrink-0 rounded-full bg-amber-500/15 text-amber-600 flex items-center justify-center">
+                    <TrophyIcon size={18} weight="fill" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-semibold text-text-main">{record.exerciseName}</p>
+                    <p className="text-xs text-text-muted">{PERSONAL_RECORD_LABELS[record.record_type]}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-bold text-brand">{formatPersonalRecordValue(record, unitSystem)}</p>
+                    {record.previous_value > 0 ? (
+                      <p className="text-[11px] text-text-muted">
+                        was {formatPersonalRecordValue({ ...record, value: record.previous_value, weight: undefined }, unitSystem)}
+                      </p>
+                    ) : null}
+                  </div>
+                </Link>
+              ))}
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,22 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
-import { PlusIcon, TrashIcon } from '@phosphor-icons/react';
+import { LinkBreakIcon, LinkIcon, PlusIcon, TrashIcon } from '@phosphor-icons/react';
 import { db, type WorkoutExerciseDef, type WorkoutRoutineSet } from '../../../lib/db';
 import { generateId } from '../../../lib';
 import { useStackNavigation } from '../../../lib/useStackNavigation';
 import { DurationScrollerInput, getMetricColumns, type MetricField } from '../components/WorkoutSetComponents';
 import RouteHeader from '../../../lib/components/RouteHeader';
+import {
+  SET_TYPES,
+  createGroupIdRemapper,
+  getEntryGroupLabel,
+  getLinkWithNextChanges,
+  getNextSetType,
+  getUnlinkChanges,
+  groupWorkoutEntries
+} from '../../../lib/workouts';
+import { fromDisplayDistance, fromDisplayWeight, roundTo, toDisplayDistance, toDisplayWeight, useUnitSystem } from '../../../lib/units';
 
 export default function RoutineEditor() {
   const { id } = useParams();
@@ -15,6 +25,7 @@ export default function RoutineEditor() {
   const fromWorkoutId = searchParams.get('fromWorkoutId');
   const navigate = useNavigate();
   const { push, pop } = useStackNavigation();
+  const unitSystem = useUnitSystem();
 
   const [resolvedRoutineId, setResolvedRoutineId] = useState<string | null>(routineId);
   const [isSaving, setIsSaving] = useState(false);
@@ -51,6 +62,7 @@ export default function RoutineEditor() {
     });
 
     const now = new Date();
+    const remapGroupId = createGroupIdRemapper();
     for (const entry of sourceEntries) {
       const routineEntryId = generateId();
       await db.workout_routine_entries.add({
@@ -58,6 +70,7 @@ export default function RoutineEditor() {
         routine_id: targetRoutineId,
         exercise_id: entry.exercise_id,
         sort_order: entry.sort_order,
+        group_id: remapGroupId(entry.group_id),
         notes: entry.notes,
         created_at: now,
         synced: 0,
@@ -74,6 +87,7 @@ export default function RoutineEditor() {
           reps_max: copiedSet.reps,
           distance: copiedSet.distance,
           duration_seconds: copiedSet.duration_seconds,
+          set_type: copiedSet.set_type,
           created_at: now,
           synced: 0,
         });
@@ -205,6 +219,7 @@ export default function RoutineEditor() {
       reps_max: lastSet?.reps_max ?? 10,
       distance: lastSet?.distance,
       duration_seconds: lastSet?.duration_seconds,
+      set_type: lastSet?.set_type,
       created_at: new Date(),
       synced: 0,
     });
@@ -229,6 +244,19 @@ export default function RoutineEditor() {
     });
   };
 
+  const applyGroupChanges = async (changes: Array<{ id: string; group_id: string | null }>) => {
+    if (!changes.length) return;
+    await db.transaction('rw', db.workout_routine_entries, async () => {
+      for (const change of changes) {
+        await db.workout_routine_entries.update(change.id, { group_id: change.group_id, synced: 0 });
+      }
+    });
+  };
+
+  const handleCycleSetType = (set: WorkoutRoutineSet) => {
+    void db.workout_routine_sets.update(set.id, { set_type: getNextSetType(set.set_type), synced: 0 });
+  };
+
   const handleDeleteSet = async (entryId: string, setId: string) => {
     const currentSets = setsByEntry?.[entryId] || [];
     if (currentSets.length <= 1) return;
@@ -318,11 +346,19 @@ export default function RoutineEditor() {
       );
     }
 
+    const storedValue = Number((set as any)[field] ?? 0);
     return (
       <input
         type="number"
-        value={Number((set as any)[field] ?? 0)}
-        onChange={(event) => updateNumericField(set.id, field, Number(event.target.value))}
+        value={field === 'distance' ? roundTo(toDisplayDistance(storedValue, unitSystem), 3) : roundTo(toDisplayWeight(storedValue, unitSystem), 2)}
+        onChange={(event) => {
+          const inputValue = Number(event.target.value);
+          updateNumericField(
+            set.id,
+            field,
+            field === 'distance' ? fromDisplayDistance(inputValue, unitSystem) : fromDisplayWeight(inputValue, unitSystem)
+          );
+        }}
         className="w-full rounded-md border border-border-subtle bg-card px-2 py-2 text-center text-sm font-semibold"
       />
     );
@@ -374,76 +410,116 @@ export default function RoutineEditor() {
         </div>
       ) : (
         <div className="space-y-4">
-          {entries.map((entry) => {
-            const def = definitions?.[entry.exercise_id];
-            const entrySets = setsByEntry?.[entry.id] || [];
-            const metricColumns = getMetricColumns(def?.metric_type);
-            const isDurationOnlyMetric = metricColumns.first.field === 'duration_seconds' && metricColumns.second.field === null;
-
-            return (
-              <div key={entry.id} className="rounded-2xl border border-border-subtle bg-card p-4">
-                <div className="flex justify-between items-start gap-3 mb-3">
-                  <div>
-                    <h3 className="font-bold text-text-main">{def?.name || 'Exercise'}</h3>
-                    <p className="text-xs text-text-muted mt-1">{def?.muscle_group || 'General'} • target sets</p>
-                  </div>
-                  <button
-                    onClick={() => void handleRemoveEntry(entry.id)}
-                    className="h-8 w-8 rounded-lg border border-border-subtle bg-surface text-red-500 flex items-center justify-center"
-                    aria-label="Remove exercise"
-                  >
-                    <TrashIcon size={14} />
-                  </button>
-                </div>
-
-                <div className="space-y-2">
-                  <div className="grid grid-cols-12 gap-2 items-center text-[11px] font-semibold uppercase tracking-wide text-text-muted">
-                    <span className="col-span-1 text-center">Set</span>
-                    {isDurationOnlyMetric ? (
-                      <span className="col-span-9 text-center">{metricColumns.first.label}</span>
-                    ) : (
-                      <>
-                        <span className="col-span-4 text-center">{metricColumns.first.label}</span>
-                        <span className="col-span-5 text-center">{metricColumns.second.label}</span>
-                      </>
-                    )}
-                    <span className="col-span-2 text-center">Del</span>
+          {groupWorkoutEntries(entries).map((group) => {
+            const groupLabel = getEntryGroupLabel(group.entries.length);
+            const cards = group.entries.map((entry) => {
+              const def = definitions?.[entry.exercise_id];
+              const entryIndex = entries.indexOf(entry);
+              const entrySets = setsByEntry?.[entry.id] || [];
+              const metricColumns = getMetricColumns(def?.metric_type, unitSystem);
+              const isDurationOnlyMetric = metricColumns.first.field === 'duration_seconds' && metricColumns.second.field === null;
+
+              return (
+                <div key={entry.id} className="rounded-2xl border border-border-subtle bg-card p-4">
+                  <div className="flex justify-between items-start gap-3 mb-3">
+                    <div>
+                      <h3 className="font-bold text-text-main">{def?.name || 'Exercise'}</h3>
+                      <p className="text-xs text-text-muted mt-1">{def?.muscle_group || 'General'} • target sets</p>
+                    </div>
+                    <div className="flex gap-2">
+                      {entry.group_id ? (
+                        <button
+                          onClick={() => void applyGroupChanges(getUnlinkChanges(entries, entry.id))}
+                          className="h-8 w-8 rounded-lg border border-border-subtle bg-surface text-text-muted flex items-center justify-center"
+                          aria-label="Remove from group"
+                        >
+                          <LinkBreakIcon size={14} />
+                        </button>
+                      ) : null}
+                      {entryIndex < entries.length - 1 && (!entry.group_id || entries[entryIndex + 1].group_id !== entry.group_id) ? (
+                        <button
+                          onClick={() => void applyGroupChanges(getLinkWithNextChanges(entries, entry.id))}
+                          className="h-8 w-8 rounded-lg border border-border-subtle bg-surface text-brand flex items-center justify-center"
+                          aria-label="Superset with next exercise"
+                        >
+                          <LinkIcon size={14} />
+                        </button>
+                      ) : null}
+                      <button
+                        onClick={() => void handleRemoveEntry(entry.id)}
+                        className="h-8 w-8 rounded-lg border border-border-subtle bg-surface text-red-500 flex items-center justify-center"
+                        aria-label="Remove exercise"
+                      >
+                        <TrashIcon size={14} />
+                      </button>
+                    </div>
                   </div>
 
-                  {entrySets.map((set) => (
-                    <div key={set.id} className="grid grid-cols-12 gap-2 items-center bg-surface rounded-lg p-2">
-                      <span className="col-span-1 text-center text-xs font-bold text-text-muted">{set.set_number}</span>
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-12 gap-2 items-center text-[11px] font-semibold uppercase tracking-wide text-text-muted">
+                      <span className="col-span-1 text-center">Set</span>
                       {isDurationOnlyMetric ? (
-                        <div className="col-span-9">
-                          {renderRoutineFieldInput(set, metricColumns.first.field)}
-                        </div>
+                        <span className="col-span-9 text-center">{metricColumns.first.label}</span>
                       ) : (
                         <>
-                          <div className="col-span-4">
-                            {renderRoutineFieldInput(set, metricColumns.first.field)}
-                          </div>
-                          <div className="col-span-5">
-                            {renderRoutineFieldInput(set, metricColumns.second.field)}
-                          </div>
+                          <span className="col-span-4 text-center">{metricColumns.first.label}</span>
+                          <span className="col-span-5 text-center">{metricColumns.second.label}</span>
                         </>
                       )}
-                      <button
-                        onClick={() => void handleDeleteSet(entry.id, set.id)}
-                        className="col-span-2 h-8 w-8 mx-auto rounded-md border border-border-subtle bg-card text-text-muted flex items-center justify-center disabled:opacity-40"
-                        disabled={entrySets.length <= 1}
-                      >
-                        <TrashIcon size={12} />
-                      </button>
+                      <span className="col-span-2 text-center">Del</span>
                     </div>
-                  ))}
+
+                    {entrySets.map((set) => (
+                      <div key={set.id} className="grid grid-cols-12 gap-2 items-center bg-surface rounded-lg p-2">
+                        <button
+                          onClick={() => handleCycleSetType(set)}
+                          className={`col-span-1 text-center text-xs font-bold ${set.set_type && set.set_type !== 'normal' ? 'text-brand' : 'text-text-muted'}`}
+                          title={`${SET_TYPES[set.set_type ?? 'normal'].label} set – tap to change`}
+                        >
+                          {SET_TYPES[set.set_type ?? 'normal'].short || set.set_number}
+                        </button>
+                        {isDurationOnlyMetric ? (
+                          <div className="col-span-9">
+                            {renderRoutineFieldInput(set, metricColumns.first.field)}
+                          </div>
+                        ) : (
+                          <>
+                            <div className="col-span-4">
+                              {renderRoutineFieldInput(set, metricColumns.first.field)}
+                            </div>
+                            <div className="col-span-5">
+                              {renderRoutineFieldInput(set, metricColumns.second.field)}
+                            </div>
+                          </>
+                        )}
+                        <button
+                          onClick={() => void handleDeleteSet(entry.id, set.id)}
+                          className="col-span-2 h-8 w-8 mx-auto rounded-md border border-border-subtle bg-card text-text-muted flex items-center justify-center disabled:opacity-40"
+                          disabled={entrySets.length <= 1}
+                        >
+                          <TrashIcon size={12} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <button
+                    onClick={() => void handleAddSet(entry.id)}
+                    className="mt-3 w-full rounded-xl border border-border-subtle bg-surface py-2 text-sm font-semibold text-brand"
+                  >
+                    Add Set
+                  </button>
                 </div>
+              );
+            });
 
-                <button
-                  onClick={() => void handleAddSet(entry.id)}
-                  className="mt-3 w-full rounded-xl border border-border-subtle bg-surface py-2 text-sm font-semibold text-brand"
-                >
-                  Add Set
-                </button>
+            if (!groupLabel) return cards;
+            return (
+              <div key={group.groupId} className="rounded-3xl border-2 border-brand/40 p-2 space-y-2">
+                <p className="px-2 pt-1 text-[11px] font-bold uppercase tracking-wide text-brand">
+                  {groupLabel} • rest after the last exercise
+                </p>
+                {cards}
               </div>
             );
           })}
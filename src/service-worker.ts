@@ -16,6 +16,91 @@ cleanupOutdatedCaches();
 self.skipWaiting();
 clientsClaim();
 
+// Must match the action ids in src/lib/restTimer.ts.
+const TIMER_ACTION_ADD = 'timer-add-30';
+const TIMER_ACTION_SKIP = 'timer-skip';
+const TIMER_ACTION_ADD_SECONDS = 30;
+
+// Must match the launch parameters in src/lib/reminders.ts.
+const REMINDER_ACTION_PARAM = 'reminder_action';
+const REMINDER_KEY_PARAM = 'reminder_key';
+
+interface TimerNotification {
+    timerId: string;
+    endTime: number;
+    title: string;
+    body: string;
+    url: string;
+}
+
+// Notification Triggers, where the browser ships them. Not in the DOM typings.
+declare const TimestampTrigger: (new (timestamp: number) => unknown) | undefined;
+const supportsShowTrigger =
+    typeof TimestampTrigger === 'function' && typeof Notification !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const pendingTimerNotifications = new Map<string, { timeout: ReturnType<typeof setTimeout>; done: () => void }>();
+
+const getTimerTag = (timerId: string) => `rest-timer-${timerId}`;
+
+const getTimerNotificationOptions = (timer: TimerNotification) => ({
+    body: timer.body,
+    tag: getTimerTag(timer.timerId),
+    requireInteraction: true,
+    data: timer,
+    actions: [
+        { action: TIMER_ACTION_ADD, title: `+${TIMER_ACTION_ADD_SECONDS}s` },
+        { action: TIMER_ACTION_SKIP, title: 'Skip' }
+    ]
+}) as NotificationOptions;
+
+function cancelTimerNotification(timerId: string) {
+    if (supportsShowTrigger) {
+        void self.registration
+            .getNotifications({ tag: getTimerTag(timerId), includeTriggered: true } as GetNotificationOptions)
+            .then((notifications) => notifications.forEach((notification) => notification.close()));
+    }
+
+    const pending = pendingTimerNotifications.get(timerId);
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    pendingTimerNotifications.delete(timerId);
+    pending.done();
+}
+
+/**
+ * With Notification Triggers the browser shows the notification at the end time itself, even if
+ * the worker has been stopped. Elsewhere this is best-effort: the timeout is held open with
+ * waitUntil, but browsers stop idle workers after a few minutes regardless, so a long rest can end
+ * without a notification. The fallback skips the notification when a window is visible, since the
+ * page shows the countdown itself.
+ */
+function scheduleTimerNotification(timer: TimerNotification) {
+    cancelTimerNotification(timer.timerId);
+
+    if (supportsShowTrigger && TimestampTrigger) {
+        return self.registration.showNotification(timer.title, {
+            ...getTimerNotificationOptions(timer),
+            showTrigger: new TimestampTrigger(timer.endTime)
+        } as NotificationOptions);
+    }
+
+    return new Promise<void>((resolve) => {
+        const timeout = setTimeout(async () => {
+            pendingTimerNotifications.delete(timer.timerId);
+            try {
+                const windowClients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+                if (windowClients.some((c) => c.visibilityState === 'visible')) return;
+
+                await self.registration.showNotification(timer.title, getTimerNotificationOptions(timer));
+            } finally {
+                resolve();
+            }
+        }, Math.max(0, timer.endTime - Date.now()));
+
+        pendingTimerNotifications.set(timer.timerId, { timeout, done: resolve });
+    });
+}
+
 // Handle notification clicks
 self.addEventListener('notificationclick', (event) => {
     const notification = event.notification;
@@ -23,31 +108,68 @@ self.addEventListener('notificationclick', (event) => {
 
     if (action === 'close') {
         notification.close();
-    } else {
-        // Find all client windows
+    } else if (notification.data?.reminderKey) {
+        // Reminder notifications: forward snooze/done to any open window. Without one, open the app and
+        // let it apply the action on launch.
+        notification.close();
         event.waitUntil(
             self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
-                let client = windowClients.find((c) => c.url === notification.data.url && 'focus' in c);
-                
+                const client = windowClients.find((c) => 'focus' in c);
+
                 if (client) {
                     client.postMessage({
-                        type: 'TIMER_ACTION',
+                        type: 'REMINDER_ACTION',
                         action: action,
-                        timerId: notification.data.timerId
+                        reminderKey: notification.data.reminderKey
                     });
-                    if (!action.startsWith('check')) {
-                         client.focus(); // Optional: bring to front
-                         notification.close();
+                    if (!action) {
+                        return client.focus();
                     }
+                    return undefined;
+                }
+
+                if (!action) {
+                    return self.clients.openWindow(notification.data.url);
+                }
+                const launchUrl = new URL(notification.data.url);
+                launchUrl.searchParams.set(REMINDER_ACTION_PARAM, action);
+                launchUrl.searchParams.set(REMINDER_KEY_PARAM, notification.data.reminderKey);
+                return self.clients.openWindow(launchUrl.href);
+            })
+        );
+    } else if (notification.data?.timerId) {
+        // Rest timer notifications: forward +30s/skip to any open window. The worker re-arms "+30s" itself
+        // because a backgrounded page may stay frozen until it is opened again.
+        notification.close();
+        const { timerId, url } = notification.data;
+        event.waitUntil(
+            self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async (windowClients) => {
+                const client = windowClients.find((c) => 'focus' in c);
+                client?.postMessage({ type: 'TIMER_ACTION', action, timerId });
+
+                if (action === TIMER_ACTION_SKIP) {
+                    cancelTimerNotification(timerId);
+                } else if (action === TIMER_ACTION_ADD) {
+                    await scheduleTimerNotification({ ...notification.data, endTime: Date.now() + TIMER_ACTION_ADD_SECONDS * 1000 });
+                } else if (client) {
+                    await client.focus();
                 } else {
-                     // If no client is open, maybe open one?
-                     if (clients.openWindow) {
-                         // clients.openWindow(notification.data.url);
-                     }
-                      notification.close();
+                    await self.clients.openWindow(url);
                 }
             })
         );
+    } else {
+        // Any other notification: bring the app forward, opening it when no window is left.
+        notification.close();
+        event.waitUntil(
+            self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+                const url = notification.data?.url;
+                const client =
+                    windowClients.find((c) => url && c.url === url && 'focus' in c) ?? windowClients.find((c) => 'focus' in c);
+                if (client) return client.focus();
+                return self.clients.openWindow(url || '/');
+            })
+        );
     }
 });
 
@@ -56,5 +178,9 @@ self.addEventListener('message', (event) => {
     if (event.data && event.data.type === 'SHOW_NOTIFICATION') {
         const { title, options } = event.data.payload;
         self.registration.showNotification(title, options);
+    } else if (event.data?.type === 'SCHEDULE_TIMER_NOTIFICATION') {
+        event.waitUntil(scheduleTimerNotification(event.data.payload));
+    } else if (event.data?.type === 'CANCEL_TIMER_NOTIFICATION') {
+        cancelTimerNotification(event.data.payload.timerId);
     }
 });
@@ -7,11 +7,22 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS'
 };
 
-type GeminiAction = 'nutrition_profile' | 'recipe_ingredients' | 'daily_coach';
+type GeminiAction = 'nutrition_profile' | 'recipe_ingredients' | 'daily_coach' | 'quick_log' | 'meal_photo' | 'nutrition_label';
 
 const DEFAULT_RATE_LIMIT_MAX_REQUESTS = 30;
 const DEFAULT_RATE_LIMIT_WINDOW_MINUTES = 60;
 const DEFAULT_RATE_LIMIT_RETENTION_DAYS = 7;
+const QUICK_LOG_MAX_TEXT_LENGTH = 500;
+// Base64 length; the client downscales photos to well under this.
+const IMAGE_MAX_LENGTH = 2_000_000;
+const IMAGE_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+// Same keys and units as MICRO_NUTRIENTS in src/lib/constants.ts.
+const LABEL_MICROS_TEXT = [
+  'sugar (g), fiber (g), cholesterol (mg),',
+  'calcium (mg), iron (mg), magnesium (mg), potassium (mg), sodium (mg), zinc (mg),',
+  'vitamin_a (mcg), vitamin_b1 (mg), vitamin_b2 (mg), vitamin_b3 (mg), vitamin_b5 (mg), vitamin_b6 (mg), vitamin_b7 (mcg),',
+  'vitamin_b9 (mcg), vitamin_b12 (mcg), vitamin_c (mg), vitamin_d (mcg), vitamin_e (mg), vitamin_k (mcg)'
+].join('\n');
 
 function json(status: number, body: Record<string, unknown>, extraHeaders: Record<string, string> = {}) {
   return new Response(JSON.stringify(body), {
@@ -140,7 +151,23 @@ function parseAiJsonFromText(rawValue: string): Record<string, unknown> | null {
 }
 
 function isGeminiAction(value: unknown): value is GeminiAction {
-  return value === 'nutrition_profile' || value === 'recipe_ingredients' || value === 'daily_coach';
+  return (
+    value === 'nutrition_profile' ||
+    value === 'recipe_ingredients' ||
+    value === 'daily_coach' ||
+    value === 'quick_log' ||
+    value === 'meal_photo' ||
+    value === 'nutrition_label'
+  );
+}
+
+function readImageInput(body: Record<string, unknown> | null): { image: string; mimeType: string } | { status: number; message: string } {
+  const image = String(body?.image || '').trim();
+  const mimeType = String(body?.mimeType || '').trim().toLowerCase();
+  if (!image) return { status: 400, message: 'Missing image' };
+  if (!IMAGE_MIME_TYPES.has(mimeType)) return { status: 400, message: 'Unsupported image type' };
+  if (image.length > IMAGE_MAX_LENGTH) return { status: 413, message: 'Image is too large' };
+  return { image, mimeType };
 }
 
 function buildDailyCoachPrompt(input: {
@@ -291,6 +318,76 @@ Rules:
 - No markdown, no prose, no extra keys.`;
 }
 
+function buildQuickLogPrompt(input: { text: string; meals: Array<{ id: string; name: string }>; localTime: string }): string {
+  return `Parse this food diary entry into individual foods: "${input.text}"
+The user's meals are: ${JSON.stringify(input.meals)}. Their local time is ${input.localTime || 'unknown'}.
+
+Return ONLY raw JSON object with this exact shape:
+{
+  "meal": "string",
+  "items": [
+    { "name": "string", "quantity": number, "unit": "string", "grams": number, "calories": number, "protein": number, "carbs": number, "fat": number }
+  ]
+}
+
+Rules:
+- meal must be the id of the meal the text names ("at lunch", "for breakfast"); empty string when it names none.
+- One item per food. Keep names generic and short, singular ("roti", "dal", "milk").
+- quantity must be numeric and > 0; "a glass" is 1 with unit "glass", "2 rotis" is 2 with unit "piece".
+- unit should be practical (g, ml, piece, cup, glass, bowl, tbsp, tsp, slice, serving).
+- grams is your estimate of the total weight (or ml for drinks) of the whole quantity.
+- calories, protein, carbs and fat are estimates for the whole quantity, protein/carbs/fat in grams.
+- No markdown, no prose, no extra keys.`;
+}
+
+function buildMealPhotoPrompt(input: { meals: Array<{ id: string; name: string }>; localTime: string }): string {
+  return `Identify every food and drink in this meal photo and estimate its portion and nutrition.
+The user's meals are: ${JSON.stringify(input.meals)}. Their local time is ${input.localTime || 'unknown'}.
+
+Return ONLY raw JSON object with this exact shape:
+{
+  "meal": "string",
+  "items": [
+    { "name": "string", "quantity": number, "unit": "string", "grams": number, "calories": number, "protein": number, "carbs": number, "fat": number }
+  ]
+}
+
+Rules:
+- meal must be the id of the meal that best fits the local time; empty string when unsure.
+- One item per distinct food visible. Keep names generic and short, singular ("naan", "butter chicken", "rice").
+- quantity must be numeric and > 0, counted in practical units (piece, cup, bowl, slice, glass, serving) or g/ml.
+- grams is your estimate of the total weight (or ml for drinks) of the visible portion.
+- calories, protein, carbs and fat are estimates for the visible portion, protein/carbs/fat in grams.
+- Account for visible oil, butter, sauces and dressings in the estimates.
+- If the photo shows no food, return an empty items array.
+- No markdown, no prose, no extra keys.`;
+}
+
+function buildNutritionLabelPrompt(): string {
+  return `Read the nutrition facts panel in this photo of a packaged food.
+
+Return ONLY raw JSON object with this exact shape:
+{
+  "serving_size": number,
+  "serving_unit": "string",
+  "per_serving": { "calories": number, "protein": number, "carbs": number, "fat": number, "micros": { "key": number } } | null,
+  "per_100": { "calories": number, "protein": number, "carbs": number, "fat": number, "micros": { "key": number } } | null,
+  "confidence": { "field": "high" | "medium" | "low" }
+}
+
+MICROS_KEYS (use exactly these keys and units):
+${LABEL_MICROS_TEXT}
+
+Rules:
+- serving_size and serving_unit are the declared serving weight or volume ("Serving size 1 bar (40 g)" is 40 and "g"); use "ml" for drinks. Use 0 and "" when the panel declares no weight or volume for a serving.
+- per_serving holds the per-serving column and per_100 the per-100 g/ml column, exactly as printed. Use null for a column the panel does not have. Do not calculate a missing column.
+- calories in kcal (convert kJ by dividing by 4.184); protein, carbs and fat in grams. carbs is total carbohydrate.
+- micros only lists nutrients printed on the panel, converted to the units above. When only a % daily value is printed, convert it with US FDA daily values.
+- confidence rates how clearly each value was read: serving_size, calories, protein, carbs, fat and every micros key you return. Use "low" for blurry, cut-off or guessed values and "medium" for values derived from % daily value or kJ.
+- If the photo shows no nutrition panel, return null for both columns.
+- No markdown, no prose, no extra keys.`;
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -546,6 +643,124 @@ Deno.serve(async (req) => {
       });
     }
 
+    if (action === 'quick_log') {
+      const text = String(body?.text || '').trim().slice(0, QUICK_LOG_MAX_TEXT_LENGTH);
+      if (!text) {
+        return json(400, { ok: false, message: 'Missing text' });
+      }
+
+      const meals = Array.isArray(body?.meals)
+        ? body.meals
+            .map((meal: unknown) => {
+              const row = (meal || {}) as { id?: unknown; name?: unknown };
+              return { id: String(row.id || '').trim(), name: String(row.name || '').trim() };
+            })
+            .filter((meal: { id: string; name: string }) => Boolean(meal.id))
+            .slice(0, 12)
+        : [];
+
+      const prompt = buildQuickLogPrompt({ text, meals, localTime: String(body?.localTime || '').trim() });
+      const result = await model.generateContent(prompt);
+      const response = await result.response;
+      const parsed = parseAiJsonFromText(response.text());
+
+      if (!parsed) {
+        return json(502, { ok: false, message: 'Gemini returned invalid JSON payload' });
+      }
+
+      return json(200, {
+        ok: true,
+        action,
+        data: parsed,
+        rate_limit: {
+          limit: rateLimit.limit,
+          remaining: rateLimit.remaining,
+          window_minutes: rateLimit.windowMinutes,
+          retry_after_seconds: 0
+        }
+      }, {
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Window-Minutes': String(rateLimit.windowMinutes)
+      });
+    }
+
+    if (action === 'meal_photo') {
+      const imageInput = readImageInput(body);
+      if ('status' in imageInput) {
+        return json(imageInput.status, { ok: false, message: imageInput.message });
+      }
+
+      const meals = Array.isArray(body?.meals)
+        ? body.meals
+            .map((meal: unknown) => {
+              const row = (meal || {}) as { id?: unknown; name?: unknown };
+              return { id: String(row.id || '').trim(), name: String(row.name || '').trim() };
+            })
+            .filter((meal: { id: string; name: string }) => Boolean(meal.id))
+            .slice(0, 12)
+        : [];
+
+      const prompt = buildMealPhotoPrompt({ meals, localTime: String(body?.localTime || '').trim() });
+      const result = await model.generateContent([prompt, { inlineData: { data: imageInput.image, mimeType: imageInput.mimeType } }]);
+      const response = await result.response;
+      const parsed = parseAiJsonFromText(response.text());
+
+      if (!parsed) {
+        return json(502, { ok: false, message: 'Gemini returned invalid JSON payload' });
+      }
+
+      return json(200, {
+        ok: true,
+        action,
+        data: parsed,
+        rate_limit: {
+          limit: rateLimit.limit,
+          remaining: rateLimit.remaining,
+          window_minutes: rateLimit.windowMinutes,
+          retry_after_seconds: 0
+        }
+      }, {
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Window-Minutes': String(rateLimit.windowMinutes)
+      });
+    }
+
+    if (action === 'nutrition_label') {
+      const imageInput = readImageInput(body);
+      if ('status' in imageInput) {
+        return json(imageInput.status, { ok: false, message: imageInput.message });
+      }
+
+      const result = await model.generateContent([
+        buildNutritionLabelPrompt(),
+        { inlineData: { data: imageInput.image, mimeType: imageInput.mimeType } }
+      ]);
+      const response = await result.response;
+      const parsed = parseAiJsonFromText(response.text());
+
+      if (!parsed) {
+        return json(502, { ok: false, message: 'Gemini returned invalid JSON payload' });
+      }
+
+      return json(200, {
+        ok: true,
+        action,
+        data: parsed,
+        rate_limit: {
+          limit: rateLimit.limit,
+          remaining: rateLimit.remaining,
+          window_minutes: rateLimit.windowMinutes,
+          retry_after_seconds: 0
+        }
+      }, {
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Window-Minutes': String(rateLimit.windowMinutes)
+      });
+    }
+
     const recipeName = String(body?.recipeName || '').trim();
     if (!recipeName) {
       return json(400, { ok: false, message: 'Missing recipeName' });
@@ -0,0 +1,209 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const OPEN_FOOD_FACTS_BASE_URL = 'https://world.openfoodfacts.org/api/v2/product';
+
+// Nutrition values are per 100 g/ml; micros use the same keys and units as the NewFood form.
+interface ProductLookupResult {
+  barcode: string;
+  name: string;
+  brand?: string;
+  serving_size: number;
+  serving_unit: 'g' | 'ml';
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  micros: Record<string, number>;
+  source: string;
+}
+
+interface ProductProvider {
+  name: string;
+  lookup(barcode: string): Promise<ProductLookupResult | null>;
+}
+
+function json(status: number, body: Record<string, unknown>) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    }
+  });
+}
+
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing required env: ${name}`);
+  return value;
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function parseBarcode(value: unknown): string | null {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 14) return null;
+  return digits;
+}
+
+const openFoodFactsProvider: ProductProvider = {
+  name: 'openfoodfacts',
+  async lookup(barcode) {
+    const url = `${OPEN_FOOD_FACTS_BASE_URL}/${barcode}.json?fields=code,product_name,brands,quantity,nutriments`;
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'StupidCaloriesTracker/1.0 (product-lookup edge function)' }
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Open Food Facts request failed (${response.status})`);
+
+    const payload = await response.json() as { status?: number; product?: Record<string, any> };
+    if (payload.status !== 1 || !payload.product) return null;
+
+    const product = payload.product;
+    const nutriments = (product.nutriments ?? {}) as Record<string, unknown>;
+    const isLiquid = /\b\d+(?:[.,]\d+)?\s*(ml|cl|l)\b/i.test(String(product.quantity || ''));
+
+    // Open Food Facts reports minerals/vitamins in grams per 100 g.
+    const micros: Record<string, number> = {};
+    const addMicro = (key: string, field: string, multiplier: number) => {
+      const value = toNumber(nutriments[`${field}_100g`]);
+      if (value > 0) micros[key] = round(value * multiplier, 3);
+    };
+
+    addMicro('Vitamin A', 'vitamin-a', 1000000);
+    addMicro('Vitamin C', 'vitamin-c', 1000);
+    addMicro('Vitamin D', 'vitamin-d', 1000000);
+    addMicro('Vitamin E', 'vitamin-e', 1000);
+    addMicro('Vitamin B12', 'vitamin-b12', 1000000);
+    addMicro('Vitamin B6', 'vitamin-b6', 1000);
+    addMicro('Calcium', 'calcium', 1000);
+    addMicro('Magnesium', 'magnesium', 1000);
+    addMicro('Potassium', 'potassium', 1000);
+    addMicro('Zinc', 'zinc', 1000);
+    addMicro('Iron', 'iron', 1000);
+    addMicro('Sodium', 'sodium', 1000);
+    addMicro('Iodine', 'iodine', 1000000);
+
+    const kcal = toNumber(nutriments['energy-kcal_100g']) || toNumber(nutriments['energy_100g']) / 4.184;
+
+    return {
+      barcode,
+      name: String(product.product_name || '').trim() || `Product ${barcode}`,
+      brand: String(product.brands || '').split(',')[0]?.trim() || undefined,
+      serving_size: 100,
+      serving_unit: isLiquid ? 'ml' : 'g',
+      calories: round(kcal, 1),
+      protein: round(toNumber(nutriments.proteins_100g), 1),
+      carbs: round(toNumber(nutriments.carbohydrates_100g), 1),
+      fat: round(toNumber(nutriments.fat_100g), 1),
+      micros,
+      source: 'openfoodfacts'
+    };
+  }
+};
+
+// Deterministic fake catalogue for local development (PRODUCT_LOOKUP_PROVIDER=stub).
+const stubProvider: ProductProvider = {
+  name: 'stub',
+  async lookup(barcode) {
+    if (barcode.endsWith('0000')) return null;
+
+    const seed = Number(barcode.slice(-4)) || 1;
+    const protein = 5 + (seed % 20);
+    const carbs = 10 + (seed % 40);
+    const fat = 2 + (seed % 15);
+
+    return {
+      barcode,
+      name: `Stub Product ${barcode.slice(-4)}`,
+      brand: 'Stub Foods',
+      serving_size: 100,
+      serving_unit: 'g',
+      calories: protein * 4 + carbs * 4 + fat * 9,
+      protein,
+      carbs,
+      fat,
+      micros: { Sodium: (seed % 50) * 10, Potassium: (seed % 30) * 10 },
+      source: 'stub'
+    };
+  }
+};
+
+const PROVIDERS: Record<string, ProductProvider> = {
+  [openFoodFactsProvider.name]: openFoodFactsProvider,
+  [stubProvider.name]: stubProvider
+};
+
+function resolveProvider(): ProductProvider {
+  const configured = (Deno.env.get('PRODUCT_LOOKUP_PROVIDER') || openFoodFactsProvider.name).trim().toLowerCase();
+  const provider = PROVIDERS[configured];
+  if (!provider) throw new Error(`Unknown product lookup provider: ${configured}`);
+  return provider;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json(405, { ok: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseAnonKey = getEnv('SUPABASE_ANON_KEY');
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const jwt = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() : '';
+    if (!jwt) {
+      return json(401, { ok: false, message: 'Missing auth token. Please sign in.' });
+    }
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${jwt}`
+        }
+      }
+    });
+
+    const {
+      data: { user },
+      error: userError
+    } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return json(401, { ok: false, message: 'Invalid auth session' });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const barcode = parseBarcode(body?.barcode);
+    if (!barcode) {
+      return json(400, { ok: false, message: 'Invalid barcode' });
+    }
+
+    const provider = resolveProvider();
+    const product = await provider.lookup(barcode);
+
+    return json(200, { ok: true, data: { product, provider: provider.name } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+    return json(500, { ok: false, message });
+  }
+});
@@ -0,0 +1,4 @@
+-- Barcode (EAN/UPC digits) for packaged foods, used by the scanner to match existing foods
+alter table public.foods add column if not exists barcode text;
+
+create index if not exists foods_user_barcode_idx on public.foods (user_id, barcode) where barcode is not null;
@@ -0,0 +1,61 @@
+create table if not exists public.workout_programs (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  name text not null,
+  routine_ids uuid[] not null default '{}',
+  next_week integer not null default 1,
+  next_day integer not null default 1,
+  cycle integer not null default 1,
+  training_max_increment numeric not null default 2.5,
+  last_workout_id uuid,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists public.workout_program_weeks (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  program_id uuid references public.workout_programs(id) on delete cascade not null,
+  week_number integer not null default 1,
+  name text,
+  intensity_modifier numeric not null default 1,
+  volume_modifier numeric not null default 1,
+  set_percents numeric[] not null default '{}',
+  set_reps integer[] not null default '{}',
+  is_deload boolean not null default false,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists public.workout_training_maxes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  exercise_id uuid references public.workout_exercises_def(id) on delete cascade not null,
+  training_max numeric not null check (training_max >= 0),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, exercise_id)
+);
+
+alter table public.workout_programs enable row level security;
+alter table public.workout_program_weeks enable row level security;
+alter table public.workout_training_maxes enable row level security;
+
+drop policy if exists "Allow users to manage own workout programs" on public.workout_programs;
+create policy "Allow users to manage own workout programs"
+on public.workout_programs
+for all
+using (auth.uid() = user_id);
+
+drop policy if exists "Allow users to manage own workout program weeks" on public.workout_program_weeks;
+create policy "Allow users to manage own workout program weeks"
+on public.workout_program_weeks
+for all
+using (auth.uid() = user_id);
+
+drop policy if exists "Allow users to manage own workout training maxes" on public.workout_training_maxes;
+create policy "Allow users to manage own workout training maxes"
+on public.workout_training_maxes
+for all
+using (auth.uid() = user_id);
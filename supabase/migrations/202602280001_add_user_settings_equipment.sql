@@ -0,0 +1,2 @@
+alter table public.user_settings
+  add column if not exists equipment jsonb;
@@ -0,0 +1,2 @@
+alter table public.user_settings
+  add column if not exists units text not null default 'metric' check (units in ('metric', 'imperial'));
@@ -0,0 +1,11 @@
+alter table public.workout_log_entries
+  add column if not exists group_id uuid;
+
+alter table public.workout_routine_entries
+  add column if not exists group_id uuid;
+
+alter table public.workout_sets
+  add column if not exists set_type text not null default 'normal' check (set_type in ('normal', 'dropset', 'cluster'));
+
+alter table public.workout_routine_sets
+  add column if not exists set_type text not null default 'normal' check (set_type in ('normal', 'dropset', 'cluster'));
@@ -0,0 +1,28 @@
+create table if not exists public.workout_personal_records (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  exercise_id uuid references public.workout_exercises_def(id) on delete cascade not null,
+  workout_id uuid references public.workouts(id) on delete cascade not null,
+  workout_set_id uuid references public.workout_sets(id) on delete cascade not null,
+  record_type text not null check (
+    record_type in ('heaviest_weight', 'best_e1rm', 'most_reps', 'best_set_volume', 'longest_duration', 'longest_distance')
+  ),
+  value numeric not null,
+  previous_value numeric not null default 0,
+  weight numeric,
+  reps numeric,
+  achieved_at timestamp with time zone not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists workout_personal_records_user_achieved_idx
+  on public.workout_personal_records (user_id, achieved_at desc);
+
+alter table public.workout_personal_records enable row level security;
+
+drop policy if exists "Allow users to manage own workout personal records" on public.workout_personal_records;
+create policy "Allow users to manage own workout personal records"
+on public.workout_personal_records
+for all
+using (auth.uid() = user_id);
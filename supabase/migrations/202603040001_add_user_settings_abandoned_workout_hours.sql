@@ -0,0 +1,2 @@
+alter table public.user_settings
+  add column if not exists abandoned_workout_hours integer not null default 12 check (abandoned_workout_hours > 0);
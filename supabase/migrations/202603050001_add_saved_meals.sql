@@ -0,0 +1,20 @@
+create table if not exists public.saved_meals (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  name text not null check (length(trim(name)) > 0),
+  items jsonb not null default '[]'::jsonb, -- [{ food_id, amount_consumed }]
+  last_used_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists saved_meals_user_name_idx
+  on public.saved_meals (user_id, name);
+
+alter table public.saved_meals enable row level security;
+
+drop policy if exists "Allow users to manage own saved meals" on public.saved_meals;
+create policy "Allow users to manage own saved meals"
+on public.saved_meals
+for all
+using (auth.uid() = user_id);
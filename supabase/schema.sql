@@ -20,6 +20,7 @@ create table if not exists public.foods (
   user_id uuid references auth.users(id), -- Null means global/public food
   name text not null,
   brand text,
+  barcode text,
   diet_tags text[] not null default '{}',
   allergen_tags text[] not null default '{}',
   ai_notes text,
@@ -58,6 +59,20 @@ create table if not exists public.daily_logs (
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+-- Saved Meals (food bundles logged as one daily_logs row per item)
+create table if not exists public.saved_meals (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  name text not null check (length(trim(name)) > 0),
+  items jsonb not null default '[]'::jsonb, -- [{ food_id, amount_consumed }]
+  last_used_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists saved_meals_user_name_idx
+  on public.saved_meals (user_id, name);
+
 -- Goals (Versioned)
 create table if not exists public.goals (
   id uuid default gen_random_uuid() primary key,
@@ -92,6 +107,9 @@ create table if not exists public.user_settings (
   nutrition jsonb not null default '{}'::jsonb,
   meals jsonb not null default '[]'::jsonb,
   reminders jsonb not null default '{}'::jsonb,
+  equipment jsonb,
+  units text not null default 'metric' check (units in ('metric', 'imperial')),
+  abandoned_workout_hours integer not null default 12 check (abandoned_workout_hours > 0),
   updated_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
@@ -100,6 +118,7 @@ alter table public.profiles enable row level security;
 alter table public.foods enable row level security;
 alter table public.food_ingredients enable row level security;
 alter table public.daily_logs enable row level security;
+alter table public.saved_meals enable row level security;
 alter table public.goals enable row level security;
 alter table public.body_metrics enable row level security;
 alter table public.user_settings enable row level security;
@@ -130,6 +149,9 @@ create policy "Allow users to manage own ingredients" on public.food_ingredients
 drop policy if exists "Allow users to manage own logs" on public.daily_logs;
 create policy "Allow users to manage own logs" on public.daily_logs for all using (auth.uid() = user_id);
 
+drop policy if exists "Allow users to manage own saved meals" on public.saved_meals;
+create policy "Allow users to manage own saved meals" on public.saved_meals for all using (auth.uid() = user_id);
+
 drop policy if exists "Allow users to manage own goals" on public.goals;
 create policy "Allow users to manage own goals" on public.goals for all using (auth.uid() = user_id);
 
@@ -222,6 +244,7 @@ create table if not exists public.workout_log_entries (
   workout_id uuid references public.workouts(id) on delete cascade not null,
   exercise_id uuid references public.workout_exercises_def(id) not null,
   sort_order integer not null default 0,
+  group_id uuid, -- adjacent entries sharing a group form a superset/circuit
   notes text,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -239,6 +262,7 @@ create table if not exists public.workout_sets (
   duration_seconds integer,
   rpe numeric, -- Rate of Perceived Exertion (1-10)
   is_warmup boolean default false,
+  set_type text not null default 'normal' check (set_type in ('normal', 'dropset', 'cluster')),
   completed boolean default false,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -258,6 +282,7 @@ create table if not exists public.workout_routine_entries (
   routine_id uuid references public.workout_routines(id) on delete cascade not null,
   exercise_id uuid references public.workout_exercises_def(id) not null,
   sort_order integer not null default 0,
+  group_id uuid, -- adjacent entries sharing a group form a superset/circuit
   notes text,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -271,6 +296,7 @@ create table if not exists public.workout_routine_sets (
   reps_max numeric,
   distance numeric,
   duration_seconds integer,
+  set_type text not null default 'normal' check (set_type in ('normal', 'dropset', 'cluster')),
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
@@ -284,6 +310,67 @@ create table if not exists public.workout_rest_preferences (
   unique (user_id, exercise_id)
 );
 
+create table if not exists public.workout_programs (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  name text not null,
+  routine_ids uuid[] not null default '{}',
+  next_week integer not null default 1,
+  next_day integer not null default 1,
+  cycle integer not null default 1,
+  training_max_increment numeric not null default 2.5,
+  last_workout_id uuid,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists public.workout_program_weeks (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  program_id uuid references public.workout_programs(id) on delete cascade not null,
+  week_number integer not null default 1,
+  name text,
+  intensity_modifier numeric not null default 1,
+  volume_modifier numeric not null default 1,
+  set_percents numeric[] not null default '{}',
+  set_reps integer[] not null default '{}',
+  is_deload boolean not null default false,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists public.workout_training_maxes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  exercise_id uuid references public.workout_exercises_def(id) on delete cascade not null,
+  training_max numeric not null check (training_max >= 0),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, exercise_id)
+);
+
+create table if not exists public.workout_personal_records (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) not null,
+  exercise_id uuid references public.workout_exercises_def(id) on delete cascade not null,
+  workout_id uuid references public.workouts(id) on delete cascade not null,
+  workout_set_id uuid references public.workout_sets(id) on delete cascade not null,
+  record_type text not null check (
+    record_type in ('heaviest_weight', 'best_e1rm', 'most_reps', 'best_set_volume', 'longest_duration', 'longest_distance')
+  ),
+  value numeric not null,
+  previous_value numeric not null default 0,
+  weight numeric,
+  reps numeric,
+  achieved_at timestamp with time zone not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists workout_personal_records_user_achieved_idx
+  on public.workout_personal_records (user_id, achieved_at desc);
+
 -- RLS Policies
 alter table public.workout_exercises_def enable row level security;
 alter table public.workouts enable row level security;
@@ -293,6 +380,10 @@ alter table public.workout_rest_preferences enable row level security;
 alter table public.workout_routines enable row level security;
 alter table public.workout_routine_entries enable row level security;
 alter table public.workout_routine_sets enable row level security;
+alter table public.workout_programs enable row level security;
+alter table public.workout_program_weeks enable row level security;
+alter table public.workout_training_maxes enable row level security;
+alter table public.workout_personal_records enable row level security;
 
 -- Exercises: Public readout + User private
 create policy "Allow public exercises read access" on public.workout_exercises_def for select using (user_id is null or auth.uid() = user_id);
@@ -324,3 +415,11 @@ create policy "Allow users to manage own workout routine sets" on public.workout
     where wre.id = routine_entry_id and wre.user_id = auth.uid()
   )
 );
+
+create policy "Allow users to manage own workout programs" on public.workout_programs for all using (auth.uid() = user_id);
+
+create policy "Allow users to manage own workout program weeks" on public.workout_program_weeks for all using (auth.uid() = user_id);
+
+create policy "Allow users to manage own workout training maxes" on public.workout_training_maxes for all using (auth.uid() = user_id);
+
+create policy "Allow users to manage own workout personal records" on public.workout_personal_records for all using (auth.uid() = user_id);
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            $lib: path.resolve(__dirname, 'src/lib')
+        }
+    },
+    test: {
+        environment: 'node',
+        setupFiles: ['fake-indexeddb/auto'],
+        env: {
+            VITE_SUPABASE_URL: 'http://localhost:54321',
+            VITE_SUPABASE_ANON_KEY: 'test-anon-key'
+        }
+    }
+});